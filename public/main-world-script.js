@@ -48,7 +48,9 @@ try {
   // Listen for settings response
   window.addEventListener('extensionSettingsResponse', (event) => {
     if (event.detail && event.detail.networkInterception && event.detail.networkInterception.bodyCapture) {
-      extensionSettings.maxBodySize = event.detail.networkInterception.bodyCapture.maxBodySize || 2000;
+      // 0 means "no limit", so only fall back to the default when the value is missing
+      const maxBodySize = event.detail.networkInterception.bodyCapture.maxBodySize;
+      extensionSettings.maxBodySize = typeof maxBodySize === 'number' ? maxBodySize : 2000;
       console.log('🌍 MAIN-WORLD: Settings updated, maxBodySize:', extensionSettings.maxBodySize);
     }
   });
@@ -108,6 +110,43 @@ function getResponseBody(xhr) {
   }
 }
 
+// =============================================================================
+// NETWORK FAILURE CLASSIFICATION
+// =============================================================================
+
+function isCrossOrigin(url) {
+  try {
+    return new URL(url, window.location.href).origin !== window.location.origin;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Browsers hide why a request failed (CORS rejections and connection errors surface as the same
+// opaque error), so a cross-origin failure while online is the best available signal for CORS
+function classifyNetworkFailure(errorClass, url) {
+  if (errorClass === 'TimeoutError') return 'timeout';
+  if (errorClass === 'AbortError') return 'aborted';
+  if (navigator.onLine && isCrossOrigin(url)) return 'cors';
+  return 'network';
+}
+
+function getFetchRequestHeaders(init) {
+  let requestHeaders = {};
+  if (init?.headers) {
+    if (typeof init.headers.forEach === 'function') {
+      // Headers object
+      init.headers.forEach((value, name) => {
+        requestHeaders[name] = value;
+      });
+    } else if (typeof init.headers === 'object') {
+      // Plain object
+      requestHeaders = { ...init.headers };
+    }
+  }
+  return requestHeaders;
+}
+
 // Store the original fetch before any page scripts can override it
 const originalFetch = window.fetch;
 console.log('🌍 MAIN-WORLD: Original fetch captured:', typeof originalFetch);
@@ -135,18 +174,7 @@ window.fetch = function(input, init) {
     }
     
     // Capture request headers
-    let requestHeaders = {};
-    if (init?.headers) {
-      if (typeof init.headers.forEach === 'function') {
-        // Headers object
-        init.headers.forEach((value, name) => {
-          requestHeaders[name] = value;
-        });
-      } else if (typeof init.headers === 'object') {
-        // Plain object
-        requestHeaders = { ...init.headers };
-      }
-    }
+    const requestHeaders = getFetchRequestHeaders(init);
     
     // Capture response headers
     let responseHeaders = {};
@@ -169,6 +197,7 @@ window.fetch = function(input, init) {
       statusText: response.statusText,
       duration: endTime - startTime,
       type: 'main-world-fetch',
+      transport: 'fetch',
       headers: {
         request: requestHeaders,
         response: responseHeaders
@@ -183,8 +212,39 @@ window.fetch = function(input, init) {
     }));
     
     return response;
-  }).catch(error => {
+  }, error => {
     console.log('🌍 MAIN-WORLD: Fetch error:', error);
+    
+    // controller.abort(reason) rejects with the reason itself, so check the signal rather than the error
+    const signal = init?.signal || (input instanceof Request ? input.signal : undefined);
+    let errorClass = error?.name || typeof error;
+    if (signal?.aborted) {
+      errorClass = signal.reason?.name === 'TimeoutError' ? 'TimeoutError' : 'AbortError';
+    }
+    
+    window.dispatchEvent(new CustomEvent('networkRequestIntercepted', {
+      detail: {
+        id: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        url: url,
+        method: (init?.method || 'GET').toUpperCase(),
+        timestamp: new Date().toISOString(),
+        domain: getSafeDomain(url),
+        status: 0,
+        statusText: error?.message || String(error),
+        duration: Date.now() - startTime,
+        type: 'main-world-fetch',
+        transport: 'fetch',
+        failureReason: classifyNetworkFailure(errorClass, url),
+        errorClass: errorClass,
+        headers: {
+          request: getFetchRequestHeaders(init),
+          response: {}
+        },
+        requestBody: init?.body ? truncateBody(init.body.toString()) : null,
+        responseBody: null
+      }
+    }));
+    
     throw error;
   });
 };
@@ -212,8 +272,21 @@ XMLHttpRequest.prototype.setRequestHeader = function(name, value) {
   return originalXHRSetRequestHeader.apply(this, [name, value]);
 };
 
+// XHR reports every failure as status 0, so remember which terminal event fired before loadend
+const XHR_FAILURE_EVENTS = {
+  abort: { errorClass: 'AbortError', statusText: 'Request aborted' },
+  timeout: { errorClass: 'TimeoutError', statusText: 'Request timed out' },
+  error: { errorClass: 'NetworkError', statusText: 'Network error' }
+};
+
 XMLHttpRequest.prototype.send = function(body) {
   if (this._interceptData) {
+    Object.keys(XHR_FAILURE_EVENTS).forEach(eventType => {
+      this.addEventListener(eventType, () => {
+        if (this._interceptData) this._interceptData.failure = XHR_FAILURE_EVENTS[eventType];
+      });
+    });
+    
     this.addEventListener('loadend', () => {
       const endTime = Date.now();
       
@@ -233,6 +306,8 @@ XMLHttpRequest.prototype.send = function(body) {
         console.log('🌍 MAIN-WORLD: Could not capture XHR response headers:', error);
       }
       
+      const failure = this.status === 0 ? this._interceptData.failure : null;
+      
       const requestData = {
         id: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         url: this._interceptData.url,
@@ -240,9 +315,12 @@ XMLHttpRequest.prototype.send = function(body) {
         timestamp: new Date().toISOString(),
         domain: getSafeDomain(this._interceptData.url),
         status: this.status,
-        statusText: this.statusText,
+        statusText: failure ? failure.statusText : this.statusText,
         duration: endTime - this._interceptData.startTime,
         type: 'main-world-xhr',
+        transport: 'xhr',
+        failureReason: failure ? classifyNetworkFailure(failure.errorClass, this._interceptData.url) : undefined,
+        errorClass: failure ? failure.errorClass : undefined,
         headers: {
           request: this._interceptData.requestHeaders || {},
           response: responseHeaders
@@ -261,6 +339,595 @@ XMLHttpRequest.prototype.send = function(body) {
   return originalXHRSend.apply(this, [body]);
 };
 
+// =============================================================================
+// BEACON, SERVER-SENT EVENTS AND FORM SUBMISSION INTERCEPTION
+// =============================================================================
+
+function dispatchNetworkRequest(requestData) {
+  window.dispatchEvent(new CustomEvent('networkRequestIntercepted', {
+    detail: {
+      id: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      domain: getSafeDomain(requestData.url),
+      duration: 0,
+      ...requestData
+    }
+  }));
+}
+
+function resolveUrl(url) {
+  try {
+    return new URL(url, window.location.href).href;
+  } catch (error) {
+    return String(url);
+  }
+}
+
+// Files are replaced by a placeholder, everything else is url-encoded
+function serializeFormData(formData) {
+  const params = new URLSearchParams();
+  formData.forEach((value, name) => {
+    params.append(name, typeof value === 'string' ? value : `[file ${value.name || 'blob'}]`);
+  });
+  return params.toString();
+}
+
+// Text form of a beacon payload plus the content type the browser will send it with
+function describeBeaconData(data) {
+  if (data === undefined || data === null) return { body: null, contentType: null };
+  if (typeof data === 'string') return { body: truncateBody(data), contentType: 'text/plain;charset=UTF-8' };
+  if (data instanceof URLSearchParams) return { body: truncateBody(data.toString()), contentType: 'application/x-www-form-urlencoded;charset=UTF-8' };
+  if (data instanceof FormData) return { body: truncateBody(serializeFormData(data)), contentType: 'multipart/form-data' };
+  if (data instanceof Blob) return { body: `[blob ${data.size} bytes]`, contentType: data.type || null };
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return { body: `[binary ${data.byteLength} bytes]`, contentType: null };
+  return { body: truncateBody(String(data)), contentType: 'text/plain;charset=UTF-8' };
+}
+
+// navigator.sendBeacon - fire-and-forget POSTs, so there is never a response to record
+if (navigator.sendBeacon) {
+  const originalSendBeacon = navigator.sendBeacon;
+  navigator.sendBeacon = function(url, data) {
+    const queued = originalSendBeacon.call(navigator, url, data);
+    try {
+      const { body, contentType } = describeBeaconData(data);
+      dispatchNetworkRequest({
+        url: resolveUrl(url),
+        method: 'POST',
+        status: 0,
+        statusText: queued ? 'Beacon queued' : 'Beacon rejected',
+        type: 'main-world-beacon',
+        transport: 'beacon',
+        headers: {
+          request: contentType ? { 'content-type': contentType } : {},
+          response: {}
+        },
+        requestBody: body,
+        responseBody: null
+      });
+    } catch (error) {
+      console.log('🌍 MAIN-WORLD: Could not record beacon:', error);
+    }
+    return queued;
+  };
+}
+
+// EventSource - the stream is recorded once when it opens, then as batches of received events
+const SSE_FLUSH_INTERVAL = 2000;
+const SSE_MAX_BATCH = 50;
+
+if (window.EventSource) {
+  const OriginalEventSource = window.EventSource;
+
+  class InterceptedEventSource extends OriginalEventSource {
+    constructor(url, config) {
+      super(url, config);
+
+      this.__sseStream = {
+        url: this.url,
+        events: [],
+        firstEventAt: 0,
+        flushTimer: null,
+        hookedTypes: new Set()
+      };
+
+      super.addEventListener('open', () => {
+        dispatchNetworkRequest({
+          url: this.url,
+          method: 'GET',
+          status: 200,
+          statusText: 'EventSource open',
+          type: 'main-world-sse',
+          transport: 'sse',
+          headers: { request: { accept: 'text/event-stream' }, response: { 'content-type': 'text/event-stream' } },
+          requestBody: null,
+          responseBody: null
+        });
+      });
+
+      super.addEventListener('error', () => {
+        this.__flushSseEvents();
+        // Only a closed stream is a failure - otherwise the browser is just reconnecting
+        if (this.readyState === OriginalEventSource.CLOSED) {
+          dispatchNetworkRequest({
+            url: this.url,
+            method: 'GET',
+            status: 0,
+            statusText: 'EventSource error',
+            type: 'main-world-sse',
+            transport: 'sse',
+            headers: { request: { accept: 'text/event-stream' }, response: {} },
+            requestBody: null,
+            responseBody: null
+          });
+        }
+      });
+
+      this.__hookSseEventType('message');
+    }
+
+    // Named events ("event: update") only reach listeners registered for that type,
+    // so start recording a type as soon as the page listens for it
+    addEventListener(type, listener, options) {
+      if (type !== 'open' && type !== 'error') {
+        this.__hookSseEventType(type);
+      }
+      return super.addEventListener(type, listener, options);
+    }
+
+    close() {
+      this.__flushSseEvents();
+      return super.close();
+    }
+
+    __hookSseEventType(type) {
+      const stream = this.__sseStream;
+      if (!stream || stream.hookedTypes.has(type)) return;
+      stream.hookedTypes.add(type);
+
+      super.addEventListener(type, (event) => {
+        if (stream.events.length === 0) {
+          stream.firstEventAt = Date.now();
+        }
+        stream.events.push(`${event.lastEventId ? `id: ${event.lastEventId}\n` : ''}event: ${type}\ndata: ${event.data}\n`);
+
+        if (stream.events.length >= SSE_MAX_BATCH) {
+          this.__flushSseEvents();
+        } else if (!stream.flushTimer) {
+          stream.flushTimer = setTimeout(() => this.__flushSseEvents(), SSE_FLUSH_INTERVAL);
+        }
+      });
+    }
+
+    __flushSseEvents() {
+      const stream = this.__sseStream;
+      if (!stream) return;
+      if (stream.flushTimer) {
+        clearTimeout(stream.flushTimer);
+        stream.flushTimer = null;
+      }
+      if (stream.events.length === 0) return;
+
+      const count = stream.events.length;
+      const body = stream.events.join('\n');
+      stream.events = [];
+
+      dispatchNetworkRequest({
+        url: stream.url,
+        method: 'GET',
+        status: 200,
+        statusText: `${count} event${count === 1 ? '' : 's'}`,
+        duration: Date.now() - stream.firstEventAt,
+        type: 'main-world-sse',
+        transport: 'sse',
+        headers: { request: { accept: 'text/event-stream' }, response: { 'content-type': 'text/event-stream' } },
+        requestBody: null,
+        responseBody: truncateBody(body)
+      });
+    }
+  }
+
+  window.EventSource = InterceptedEventSource;
+}
+
+// Plain (non-JavaScript) form submissions. Attributes are read directly because
+// form.action / form.method can be shadowed by inputs named "action" or "method".
+function recordFormSubmission(form, submitter) {
+  try {
+    const method = ((submitter && submitter.getAttribute('formmethod')) || form.getAttribute('method') || 'get').toUpperCase();
+    if (method === 'DIALOG') return;
+
+    const action = resolveUrl((submitter && submitter.getAttribute('formaction')) || form.getAttribute('action') || window.location.href);
+    const enctype = (submitter && submitter.getAttribute('formenctype')) || form.getAttribute('enctype') || 'application/x-www-form-urlencoded';
+
+    let formData;
+    try {
+      formData = submitter ? new FormData(form, submitter) : new FormData(form);
+    } catch (error) {
+      formData = new FormData(form); // Older browsers without the submitter argument
+    }
+    const encoded = serializeFormData(formData);
+
+    let url = action;
+    let requestBody = null;
+    if (method === 'GET') {
+      const target = new URL(action);
+      target.search = encoded;
+      url = target.href;
+    } else {
+      requestBody = truncateBody(encoded);
+    }
+
+    dispatchNetworkRequest({
+      url,
+      method,
+      status: 0,
+      statusText: 'Form submitted',
+      type: 'main-world-form',
+      transport: 'form',
+      headers: {
+        request: method === 'GET' ? {} : { 'content-type': enctype },
+        response: {}
+      },
+      requestBody,
+      responseBody: null
+    });
+  } catch (error) {
+    console.log('🌍 MAIN-WORLD: Could not record form submission:', error);
+  }
+}
+
+// Bubble phase on window, so submissions the page handles itself (preventDefault + fetch) are skipped
+window.addEventListener('submit', (event) => {
+  if (event.defaultPrevented || !(event.target instanceof HTMLFormElement)) return;
+  recordFormSubmission(event.target, event.submitter || null);
+});
+
+// form.submit() does not fire a submit event
+const originalFormSubmit = HTMLFormElement.prototype.submit;
+HTMLFormElement.prototype.submit = function() {
+  recordFormSubmission(this, null);
+  return originalFormSubmit.call(this);
+};
+
+// =============================================================================
+// WEBSOCKET INTERCEPTION
+// =============================================================================
+
+const OriginalWebSocket = window.WebSocket;
+
+// Byte size of a frame payload (string, Blob, ArrayBuffer or typed array)
+function getFrameSize(data) {
+  if (typeof data === 'string') return new TextEncoder().encode(data).length;
+  if (data instanceof Blob) return data.size;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+  return 0;
+}
+
+// Send a connection snapshot (on open and on close) to the content script
+function dispatchWebSocketConnection(connection) {
+  window.dispatchEvent(new CustomEvent('websocketEventIntercepted', {
+    detail: { kind: 'connection', ...connection }
+  }));
+}
+
+function recordWebSocketFrame(connection, direction, data) {
+  const size = getFrameSize(data);
+  const isText = typeof data === 'string';
+  const payload = isText ? truncateBody(data) : `[binary ${size} bytes]`;
+
+  if (direction === 'sent') {
+    connection.framesSent++;
+    connection.bytesSent += size;
+  } else {
+    connection.framesReceived++;
+    connection.bytesReceived += size;
+  }
+
+  window.dispatchEvent(new CustomEvent('websocketEventIntercepted', {
+    detail: {
+      kind: 'frame',
+      connectionId: connection.id,
+      url: connection.url,
+      direction,
+      opcode: isText ? 'text' : 'binary',
+      data: payload,
+      size,
+      truncated: isText && (payload || '').length < data.length,
+      timestamp: Date.now()
+    }
+  }));
+}
+
+if (OriginalWebSocket) {
+  // Subclass so instanceof checks, static constants and binaryType keep working for the page
+  class InterceptedWebSocket extends OriginalWebSocket {
+    constructor(url, protocols) {
+      if (protocols === undefined) {
+        super(url);
+      } else {
+        super(url, protocols);
+      }
+
+      const connection = {
+        id: `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        url: this.url,
+        status: 'open',
+        openedAt: Date.now(),
+        framesSent: 0,
+        framesReceived: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
+        hadError: false
+      };
+      this.__wsConnection = connection;
+      console.log('🌍 MAIN-WORLD: WebSocket created:', connection.url);
+
+      this.addEventListener('open', () => {
+        connection.openedAt = Date.now();
+        connection.protocol = this.protocol;
+        dispatchWebSocketConnection(connection);
+      });
+
+      this.addEventListener('message', (event) => {
+        recordWebSocketFrame(connection, 'received', event.data);
+      });
+
+      this.addEventListener('error', () => {
+        connection.hadError = true;
+      });
+
+      this.addEventListener('close', (event) => {
+        connection.status = 'closed';
+        connection.closedAt = Date.now();
+        connection.closeCode = event.code;
+        connection.closeReason = event.reason;
+        connection.wasClean = event.wasClean;
+        dispatchWebSocketConnection(connection);
+      });
+    }
+
+    send(data) {
+      // Only record frames the browser will actually accept
+      if (this.readyState === OriginalWebSocket.OPEN && this.__wsConnection) {
+        recordWebSocketFrame(this.__wsConnection, 'sent', data);
+      }
+      return super.send(data);
+    }
+  }
+
+  window.WebSocket = InterceptedWebSocket;
+  console.log('🌍 MAIN-WORLD: WebSocket interception active');
+}
+
+// =============================================================================
+// THIRD-PARTY LIBRARY DETECTION
+// =============================================================================
+
+const LIBRARY_DETECTION_DELAY_MS = 2000; // Let deferred and async scripts finish after load
+const MAX_INSPECTED_SCRIPTS = 50; // Per page, so script-heavy sites do not trigger hundreds of fetches
+const BANNER_SCAN_CHARS = 3000; // Licence banners sit at the top of the file
+const SOURCE_MAP_SCAN_CHARS = 500; // sourceMappingURL is the last line
+
+// Globals libraries leave behind, with the version they expose
+const LIBRARY_GLOBALS = [
+  { name: 'React', detect: () => window.React?.version },
+  { name: 'ReactDOM', detect: () => window.ReactDOM?.version },
+  { name: 'jQuery', detect: () => window.jQuery?.fn?.jquery },
+  // Underscore also defines _.VERSION; cloneDeep only exists in Lodash
+  { name: 'Lodash', detect: () => typeof window._?.cloneDeep === 'function' ? window._.VERSION : undefined },
+  { name: 'Underscore', detect: () => window._?.VERSION && typeof window._.cloneDeep !== 'function' ? window._.VERSION : undefined },
+  { name: 'Angular', detect: () => document.querySelector('[ng-version]')?.getAttribute('ng-version') || undefined },
+  { name: 'AngularJS', detect: () => window.angular?.version?.full },
+  { name: 'Vue', detect: () => window.Vue?.version },
+  { name: 'Moment', detect: () => window.moment?.version },
+  { name: 'Backbone', detect: () => window.Backbone?.VERSION },
+  { name: 'Ember', detect: () => window.Ember?.VERSION },
+  { name: 'D3', detect: () => window.d3?.version },
+  { name: 'Axios', detect: () => window.axios?.VERSION },
+  { name: 'Chart.js', detect: () => window.Chart?.version },
+  { name: 'Bootstrap', detect: () => window.bootstrap?.Tooltip?.VERSION || window.jQuery?.fn?.tooltip?.Constructor?.VERSION },
+  { name: 'Three.js', detect: () => window.THREE?.REVISION ? `r${window.THREE.REVISION}` : undefined }
+];
+
+// Licence banners at the top of distributed builds
+const LIBRARY_BANNERS = [
+  { name: 'ReactDOM', pattern: /@license React v(\d+\.\d+\.\d+)\s*\*\s*react-dom\./ },
+  { name: 'React', pattern: /@license React v(\d+\.\d+\.\d+)/ },
+  { name: 'jQuery', pattern: /jQuery (?:JavaScript Library )?v(\d+\.\d+\.\d+)/ },
+  { name: 'Lodash', pattern: /@license\s*\*?\s*Lodash[^\n]*?(\d+\.\d+\.\d+)/i },
+  { name: 'Underscore', pattern: /Underscore\.js (\d+\.\d+\.\d+)/ },
+  { name: 'Angular', pattern: /@license Angular v(\d+\.\d+\.\d+)/ },
+  { name: 'AngularJS', pattern: /AngularJS v(\d+\.\d+\.\d+)/ },
+  { name: 'Vue', pattern: /Vue\.js v(\d+\.\d+\.\d+)/ },
+  { name: 'Moment', pattern: /moment\.js\s*\n\/\/! version : (\d+\.\d+\.\d+)/ },
+  { name: 'Backbone', pattern: /Backbone\.js (\d+\.\d+\.\d+)/ },
+  { name: 'D3', pattern: /d3js\.org v(\d+\.\d+\.\d+)/ },
+  { name: 'Axios', pattern: /[Aa]xios v(\d+\.\d+\.\d+)/ },
+  { name: 'Chart.js', pattern: /Chart\.js v(\d+\.\d+\.\d+)/ },
+  { name: 'Bootstrap', pattern: /Bootstrap v(\d+\.\d+\.\d+)/ }
+];
+
+// File and CDN package names, e.g. jquery-3.7.1.min.js or /npm/vue@3.4.0/dist/vue.global.prod.js
+const LIBRARY_FILE_NAMES = {
+  'react-dom': 'ReactDOM', react: 'React', jquery: 'jQuery', lodash: 'Lodash', underscore: 'Underscore',
+  angular: 'AngularJS', vue: 'Vue', moment: 'Moment', backbone: 'Backbone', ember: 'Ember', d3: 'D3',
+  axios: 'Axios', chart: 'Chart.js', bootstrap: 'Bootstrap', three: 'Three.js'
+};
+
+const inspectedScriptUrls = new Set();
+const reportedLibraryKeys = new Set();
+const scriptLibraryNames = new Set(); // Libraries already tied to a script URL, so their globals are not reported as bundled
+let libraryDetectionTimer = null;
+
+function detectLibraryFromUrl(scriptUrl) {
+  let path;
+  try {
+    path = new URL(scriptUrl).pathname.toLowerCase();
+  } catch {
+    return null;
+  }
+  const fileName = path.split('/').pop() || '';
+  const baseName = fileName.replace(/(\.(min|prod|production|slim|umd|global|bundle|esm|browser|runtime))*\.js$/, '');
+  for (const [key, name] of Object.entries(LIBRARY_FILE_NAMES)) {
+    const packageVersion = path.match(new RegExp(`/${key}@(\\d+\\.\\d+\\.\\d+)/`)) || path.match(new RegExp(`/libs/${key}(?:\\.js)?/(\\d+\\.\\d+\\.\\d+)/`));
+    if (packageVersion) return { name, version: packageVersion[1] };
+    const fileMatch = baseName.match(new RegExp(`^${key}(?:[.-]v?(\\d+\\.\\d+\\.\\d+))?$`));
+    if (fileMatch) return { name, version: fileMatch[1] || '' };
+  }
+  return null;
+}
+
+function resolveSourceMapUrl(reference, scriptUrl) {
+  if (reference.startsWith('data:')) return 'inline';
+  try {
+    return new URL(reference, scriptUrl).href;
+  } catch {
+    return reference;
+  }
+}
+
+// Reads the script through the HTTP cache; cross-origin scripts without CORS headers stay unread
+async function inspectScript(scriptUrl, resourceEntry) {
+  const script = {
+    url: scriptUrl,
+    size: resourceEntry?.decodedBodySize || resourceEntry?.encodedBodySize || 0,
+    minified: /\.min\.js(\?|#|$)/i.test(scriptUrl),
+    sourceMapUrl: undefined,
+    libraries: []
+  };
+
+  const fromUrl = detectLibraryFromUrl(scriptUrl);
+
+  try {
+    const response = await originalFetch(scriptUrl, { cache: 'force-cache', credentials: 'omit' });
+    if (response.ok) {
+      const text = await response.text();
+      script.size = script.size || new TextEncoder().encode(text).length;
+
+      const lines = text.split('\n', 50);
+      const longestLine = Math.max(...lines.map(line => line.length));
+      script.minified = script.minified || longestLine > 500;
+
+      const headerMap = response.headers.get('SourceMap') || response.headers.get('X-SourceMap');
+      const commentMap = text.slice(-SOURCE_MAP_SCAN_CHARS).match(/[#@]\s*sourceMappingURL=(\S+)\s*(\*\/)?\s*$/);
+      if (headerMap || commentMap) {
+        script.sourceMapUrl = resolveSourceMapUrl(headerMap || commentMap[1], scriptUrl);
+      }
+
+      const banner = text.slice(0, BANNER_SCAN_CHARS);
+      for (const { name, pattern } of LIBRARY_BANNERS) {
+        const match = banner.match(pattern);
+        if (match && !script.libraries.some(library => library.name === name)) {
+          script.libraries.push({ name, version: match[1], detectedBy: ['banner'] });
+        }
+      }
+    }
+  } catch (error) {
+    console.log('🌍 MAIN-WORLD: Could not read script for library detection:', scriptUrl);
+  }
+
+  if (fromUrl) {
+    const existing = script.libraries.find(library => library.name === fromUrl.name);
+    if (existing) {
+      existing.detectedBy.push('filename');
+    } else {
+      script.libraries.push({ name: fromUrl.name, version: fromUrl.version, detectedBy: ['filename'] });
+    }
+  }
+  return script;
+}
+
+async function detectLibraries() {
+  libraryDetectionTimer = null;
+
+  const resourceEntries = new Map(
+    performance.getEntriesByType('resource')
+      .filter(entry => entry.initiatorType === 'script')
+      .map(entry => [entry.name, entry])
+  );
+  const scriptUrls = new Set([
+    ...Array.from(document.scripts).map(script => script.src).filter(Boolean),
+    ...resourceEntries.keys()
+  ]);
+
+  const detected = [];
+  for (const scriptUrl of scriptUrls) {
+    if (inspectedScriptUrls.has(scriptUrl) || !/^https?:/.test(scriptUrl)) continue;
+    if (inspectedScriptUrls.size >= MAX_INSPECTED_SCRIPTS) break;
+    inspectedScriptUrls.add(scriptUrl);
+
+    const script = await inspectScript(scriptUrl, resourceEntries.get(scriptUrl));
+    for (const library of script.libraries) {
+      scriptLibraryNames.add(library.name);
+      detected.push({
+        name: library.name,
+        version: library.version,
+        url: script.url,
+        size: script.size,
+        minified: script.minified,
+        sourceMapUrl: script.sourceMapUrl,
+        detectedBy: library.detectedBy
+      });
+    }
+  }
+
+  // Globals fill in versions for scripts matched by name only, and reveal libraries bundled into app code
+  for (const { name, detect } of LIBRARY_GLOBALS) {
+    let version;
+    try {
+      version = detect();
+    } catch {
+      continue;
+    }
+    if (!version || typeof version !== 'string') continue;
+
+    const fromScript = detected.find(library => library.name === name && (!library.version || library.version === version));
+    if (fromScript) {
+      fromScript.version = version;
+      fromScript.detectedBy.push('global');
+    } else if (!scriptLibraryNames.has(name)) {
+      detected.push({ name, version, url: '', size: 0, minified: true, sourceMapUrl: undefined, detectedBy: ['global'] });
+    }
+  }
+
+  const fresh = detected.filter(library => {
+    const key = `${library.name}@${library.version} ${library.url || 'bundled'}`;
+    if (reportedLibraryKeys.has(key)) return false;
+    reportedLibraryKeys.add(key);
+    return true;
+  });
+  if (fresh.length > 0) {
+    console.log('🌍 MAIN-WORLD: Libraries detected:', fresh.map(library => `${library.name}@${library.version || '?'}`).join(', '));
+    window.dispatchEvent(new CustomEvent('librariesDetected', {
+      detail: { libraries: fresh, pageUrl: window.location.href, timestamp: Date.now() }
+    }));
+  }
+}
+
+function scheduleLibraryDetection() {
+  if (libraryDetectionTimer) return;
+  libraryDetectionTimer = setTimeout(() => {
+    detectLibraries().catch(error => console.log('🌍 MAIN-WORLD: Library detection failed:', error));
+  }, LIBRARY_DETECTION_DELAY_MS);
+}
+
+if (document.readyState === 'complete') {
+  scheduleLibraryDetection();
+} else {
+  window.addEventListener('load', scheduleLibraryDetection, { once: true });
+}
+
+// Scripts loaded later (lazy chunks, tag managers) are picked up as they arrive
+try {
+  new PerformanceObserver((list) => {
+    if (list.getEntries().some(entry => entry.initiatorType === 'script' && !inspectedScriptUrls.has(entry.name))) {
+      scheduleLibraryDetection();
+    }
+  }).observe({ type: 'resource', buffered: false });
+} catch (error) {
+  console.log('🌍 MAIN-WORLD: Resource observer unavailable, late scripts will not be inspected');
+}
+
 // Cleanup on page unload
 window.addEventListener('beforeunload', () => {
   console.log('🌍 MAIN-WORLD: Page unloading, cleaning up network interceptor');
@@ -0,0 +1,139 @@
+// Running totals per store, updated as records are inserted and deleted so storage analysis and
+// global statistics read a few counters instead of scanning every record. They are persisted in
+// the 'aggregates' store; a table whose saved record count disagrees with the real count (the
+// worker stopped before a flush, or the schema just gained the store) is rebuilt from one scan.
+
+export type AggregateTable = 'apiCalls' | 'consoleErrors' | 'tokenEvents' | 'minifiedLibraries' | 'webSocketConnections' | 'webSocketFrames' | 'bodies'
+
+export const AGGREGATE_TABLES: AggregateTable[] = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames', 'bodies']
+
+// Bump whenever describeRecord changes so totals saved by the previous logic are rebuilt
+export const AGGREGATE_VERSION = 3
+
+export interface TableAggregate {
+  table: AggregateTable
+  version: number
+  records: number
+  bytes: number // Serialised size of the stored records; compressed size for bodies
+  dimensions: Record<string, Record<string, number>> // Record counts per value, e.g. dimensions.method.GET
+  sums: Record<string, number> // Numeric totals, e.g. sums.responseTime
+  maxResponseTime: number // Raised on insert; deletions only lower it when a prune pass recomputes it
+  updatedAt: number
+}
+
+export type StorageAggregates = Record<AggregateTable, TableAggregate>
+
+interface RecordContribution {
+  bytes: number
+  dimensions: Record<string, string>
+  sums: Record<string, number>
+}
+
+// Same buckets the statistics card has always shown for auth traffic
+export function tokenEventFlow(event: { url?: string; source_url?: string; method?: string; headers?: Record<string, string> }): string {
+  const url = (event.url || event.source_url || '').toLowerCase()
+  const method = (event.method || '').toUpperCase()
+
+  if (url.includes('/refresh') || method === 'POST' && url.includes('/token')) {
+    return 'Refresh Token'
+  }
+  if (url.includes('/login') || url.includes('/signin')) {
+    return 'Login Token'
+  }
+  if (event.headers && (event.headers['x-api-key'] || event.headers['X-API-Key'])) {
+    return 'API Key'
+  }
+  return 'Access Token'
+}
+
+// Fields describeRecord reads; each store's records carry some of them
+interface AggregatedFields {
+  main_domain?: string
+  stored_size?: number
+  method?: string
+  status?: number | string
+  response_time?: number
+  body_hashes?: string[]
+  request_body_hash?: string
+  request_body_size?: number
+  response_body_hash?: string
+  response_body_size?: number
+  severity?: string
+  kind?: string
+  credential?: string
+  name?: string
+  advisory_severity?: string
+  direction?: string
+  size?: number
+  encoding?: string
+}
+
+function describeRecord(table: AggregateTable, stored: object): RecordContribution {
+  const record = stored as AggregatedFields
+  const domain = record.main_domain || 'unknown'
+  const bytes = table === 'bodies' ? record.stored_size || 0 : JSON.stringify(record).length
+
+  switch (table) {
+    case 'apiCalls': {
+      const responseTime = typeof record.response_time === 'number' && record.response_time > 0 ? record.response_time : 0
+      return {
+        bytes,
+        dimensions: { domain, method: (record.method || 'GET').toUpperCase(), status: String(record.status ?? 0) },
+        sums: {
+          responseTime,
+          timedRequests: responseTime > 0 ? 1 : 0,
+          bodyReferences: record.body_hashes?.length || 0,
+          referencedBodyBytes: (record.request_body_hash ? record.request_body_size || 0 : 0) + (record.response_body_hash ? record.response_body_size || 0 : 0)
+        }
+      }
+    }
+    case 'consoleErrors':
+      return { bytes, dimensions: { domain, severity: record.severity || 'error' }, sums: {} }
+    case 'tokenEvents':
+      return { bytes, dimensions: { domain, kind: record.kind || 'unknown', credential: record.credential || 'unknown', flow: tokenEventFlow(stored) }, sums: {} }
+    case 'minifiedLibraries':
+      return { bytes, dimensions: { library: record.name || 'unknown', advisory: record.advisory_severity || 'none' }, sums: {} }
+    case 'webSocketConnections':
+      return { bytes, dimensions: { domain, status: String(record.status || 'open') }, sums: {} }
+    case 'webSocketFrames':
+      return { bytes, dimensions: { domain, direction: record.direction || 'received' }, sums: { payloadBytes: record.size || 0 } }
+    case 'bodies':
+      return { bytes, dimensions: { encoding: record.encoding || 'identity' }, sums: { uncompressedBytes: record.size || 0 } }
+  }
+}
+
+export function createEmptyAggregate(table: AggregateTable): TableAggregate {
+  return { table, version: AGGREGATE_VERSION, records: 0, bytes: 0, dimensions: {}, sums: {}, maxResponseTime: 0, updatedAt: Date.now() }
+}
+
+export function createEmptyAggregates(): StorageAggregates {
+  return Object.fromEntries(AGGREGATE_TABLES.map(table => [table, createEmptyAggregate(table)])) as StorageAggregates
+}
+
+// Adds (sign 1) or removes (sign -1) one record's contribution in place
+export function applyRecordToAggregate(aggregate: TableAggregate, record: object, sign: 1 | -1): void {
+  const contribution = describeRecord(aggregate.table, record)
+
+  aggregate.records = Math.max(0, aggregate.records + sign)
+  aggregate.bytes = Math.max(0, aggregate.bytes + sign * contribution.bytes)
+
+  for (const [dimension, value] of Object.entries(contribution.dimensions)) {
+    const counts = aggregate.dimensions[dimension] || (aggregate.dimensions[dimension] = {})
+    const next = (counts[value] || 0) + sign
+    if (next > 0) {
+      counts[value] = next
+    } else {
+      delete counts[value]
+    }
+  }
+
+  for (const [name, amount] of Object.entries(contribution.sums)) {
+    aggregate.sums[name] = Math.max(0, (aggregate.sums[name] || 0) + sign * amount)
+  }
+
+  const responseTime = (record as AggregatedFields).response_time
+  if (sign > 0 && typeof responseTime === 'number' && responseTime > aggregate.maxResponseTime) {
+    aggregate.maxResponseTime = responseTime
+  }
+  aggregate.updatedAt = Date.now()
+}
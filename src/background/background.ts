@@ -12,6 +12,26 @@ const delay = createDelayPromise
 // --- Environment-Aware Storage System ---
 import { EnvironmentStorageManager } from './environment-storage-manager';
 import { tabDomainTracker } from '../dashboard/components/domainUtils';
+import { HAR_EXPORT_BATCH_SIZE, apiCallToHarEntry, generateImportId, harEntryToApiCall, isHarEntry, type HarImportInfo } from './har';
+import { API_TRANSPORTS, NETWORK_FAILURE_REASONS, type TokenCredentialKind, type TokenEvent, type TokenEventKind, type ApiCall, type ApiCallFilter, type ApiTransport, type LibraryDetectionMethod, type NetworkFailureReason, type QueryResult } from './storage-types';
+import { evaluateRequestFilters } from './request-filters';
+import { resolveNetworkConfig } from './profiles';
+import { DEFAULT_REDACTION_RULES, redactRequest, type RedactableRequest, type RedactionRule } from './redaction';
+import { bodyCaptureDebugger, chooseBody, type CapturedBodies } from './body-capture-debugger';
+import { extractMainDomain } from './domains';
+import { ACTIVE_SESSION_KEY, CAPTURE_SESSIONS_KEY, endOpenSessions, startSession, type CaptureSession } from './sessions';
+import type { RetentionPolicy } from './retention';
+import type { BodyStoreStats } from './body-store';
+import type { AggregateTable } from './aggregates';
+import type { RollupQuery } from './rollups';
+import { BACKUP_BATCH_SIZE, BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BACKUP_METADATA_KEYS, BACKUP_STORES, MAX_REPORTED_CONFLICTS, diffSettings, generateRestoreId, isBackupStoreName, isTabStateKey, parseBackupHeader, toBackupRecord, type BackupHeader, type BackupRecord, type BackupStoreName, type RestoreMode, type RestoreReport } from './backup';
+import { DB_VERSION } from './indexeddb-migrations';
+import { clearSourceMapCache, symbolicateStack } from './source-maps';
+import { analyzeTokenResponse, splitSetCookieHeaders, type IssuedToken } from './token-responses';
+import { DEFAULT_TOKEN_RULES, classifyTokenRequest, parseTokenRules, type TokenEndpointRule } from './token-rules';
+import { TOKEN_FINGERPRINT_SALT_KEY, extractCredential, fingerprintCredential, generateFingerprintSalt, type TokenLifecycleQuery } from './token-lifecycle';
+import { collectJwtSightings, decodeJwt, jwtEndpoint, jwtExpiresAt, lintJwt, type JwtObservationQuery, type JwtSightingInput } from './jwt-inspector';
+import { ADVISORY_DATASET_STORAGE_KEY, BUNDLED_ADVISORY_DATASET, annotateLibrary, parseAdvisoryDataset, selectAdvisoryDataset, summarizeAdvisoryDataset } from './library-advisories';
 
 // Initialize environment-aware storage system
 const storageManager = new EnvironmentStorageManager();
@@ -35,166 +55,67 @@ async function ensureStorageInitialized(): Promise<void> {
   }
 }
 
-// Utility function to extract main domain from any URL
-function extractMainDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname;
-    
-    // Remove 'www.' prefix if present
-    const withoutWww = hostname.startsWith('www.') ? hostname.slice(4) : hostname;
-    
-    // For most cases, return the base domain (e.g., 'reddit.com' from 'api.reddit.com')
-    const parts = withoutWww.split('.');
-    if (parts.length >= 2) {
-      return parts.slice(-2).join('.');
-    }
-    
-    return withoutWww;
-  } catch (error) {
-    console.warn('Failed to extract main domain from URL:', url, error);
-    return 'unknown';
-  }
-}
-
-// --- Token Event Tracking ---
-interface TokenEvent {
-  type: 'acquire' | 'refresh' | 'expired' | 'refresh_error';
-  url: string;
-  method: string;
-  status: number;
-  timestamp: string;
-  source_url: string;
-  expiry?: number;
-  value_hash?: string;
-}
-
-// Token-related endpoint patterns
-const TOKEN_ENDPOINTS = {
-  acquire: [
-    '/auth', '/login', '/token', '/signin', '/authenticate', '/oauth', 
-    '/api/auth', '/api/login', '/api/token', '/api/signin', '/api/authenticate',
-    '/v1/auth', '/v2/auth', '/session', '/sso', '/connect'
-  ],
-  refresh: [
-    '/refresh', '/renew', '/reauth', '/token/refresh', '/auth/refresh',
-    '/api/refresh', '/api/renew', '/api/reauth', '/api/token/refresh',
-    '/v1/refresh', '/v2/refresh', '/session/refresh'
-  ]
+// Reply callback the message listener hands to each handler
+type SendResponse = (response: unknown) => void;
+
+// Record stores reported by getStorageAnalysis, keyed to the labels the usage views expect;
+// the body store is reported separately with its dedup figures
+const STORAGE_ANALYSIS_TABLES: Partial<Record<AggregateTable, string>> = {
+  apiCalls: 'api_calls',
+  consoleErrors: 'console_errors',
+  tokenEvents: 'token_events',
+  minifiedLibraries: 'minified_libraries',
+  webSocketConnections: 'websocket_connections',
+  webSocketFrames: 'websocket_frames'
 };
 
-// Utility function to check if URL matches token patterns
-function isTokenEndpoint(url: string, type: 'acquire' | 'refresh'): boolean {
-  const patterns = TOKEN_ENDPOINTS[type];
-  return patterns.some(pattern => url.toLowerCase().includes(pattern));
+// --- Token Event Tracking ---
+// Tab, domain and session context are added when the event is stored
+type DetectedTokenEvent = Omit<TokenEvent, 'id' | 'tab_id' | 'tab_url' | 'main_domain' | 'session_id'>;
+
+// What the request and response looked like before redaction, for finding issued tokens
+interface TokenExchange {
+  requestBody?: string | null;
+  responseBody?: string | null;
+  setCookies: string[];
 }
 
-// Enhanced token type detection based on headers and context
-function detectTokenTypeFromHeaders(headers: any, url: string): string {
-  if (!headers || typeof headers !== 'object') return 'Unknown';
+// The credential an event is about: what the response issued, else what the request authenticated with
+function detectCredentialKind(requestHeaders: unknown, issued: IssuedToken[], refreshGrant: boolean): TokenCredentialKind {
+  const accessToken = issued.find(token => token.kind === 'access_token');
+  if (accessToken) return accessToken.jwt ? 'jwt_access' : 'opaque_access';
+  if (issued.some(token => token.kind === 'cookie')) return 'session_cookie';
+  if (issued.some(token => token.kind === 'id_token')) return 'id_token';
+  if (issued.some(token => token.kind === 'refresh_token') || refreshGrant) return 'refresh_token';
   
-  // Parse headers if they're stored as JSON string
-  let headersObj = headers;
-  if (typeof headers === 'string') {
+  let headersObj: unknown = requestHeaders;
+  if (typeof requestHeaders === 'string') {
     try {
-      headersObj = JSON.parse(headers);
+      headersObj = JSON.parse(requestHeaders);
     } catch {
-      return 'Unknown';
+      return 'unknown';
     }
   }
+  if (!headersObj || typeof headersObj !== 'object') return 'unknown';
   
-  const authHeader = headersObj.authorization || headersObj.Authorization || '';
-  const cookieHeader = headersObj.cookie || headersObj.Cookie || '';
-  const csrfHeader = headersObj['x-csrf-token'] || headersObj['X-CSRF-Token'] || '';
-  const apiKeyHeader = headersObj['x-api-key'] || headersObj['X-API-Key'] || headersObj['api-key'] || '';
-  
-  // Helper to check JWT format
-  const isJwt = (token: string): boolean => token.split('.').length === 3;
-  
-  // Helper to get JWT payload for analysis
-  const getJwtPayload = (token: string): any => {
-    try {
-      if (!isJwt(token)) return null;
-      return JSON.parse(atob(token.split('.')[1]));
-    } catch {
-      return null;
-    }
+  const headers = headersObj as Record<string, unknown>;
+  const header = (name: string): string => {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+    return key ? String(headers[key] ?? '') : '';
   };
+  const authHeader = header('authorization').trim();
+  const scheme = authHeader.split(/\s+/)[0].toLowerCase();
   
-  // 1. Bearer Token Analysis
-  if (authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    
-    if (isJwt(token)) {
-      const payload = getJwtPayload(token);
-      
-      // ID Token detection (OIDC)
-      if (payload && ('sub' in payload && 'email' in payload || 'aud' in payload)) {
-        return 'ID Token (JWT)';
-      }
-      
-      // Refresh Token (JWT format but used for refresh)
-      if (url.includes('/refresh') || url.includes('/token') || url.includes('/renew')) {
-        return 'Refresh Token (JWT)';
-      }
-      
-      return 'Access Token (JWT)';
-    } else {
-      // Opaque Bearer tokens
-      if (url.includes('/refresh') || url.includes('/token') || url.includes('/renew')) {
-        return 'Refresh Token (Opaque)';
-      }
-      return 'Access Token (Opaque)';
-    }
-  }
-  
-  // 2. Basic Authentication
-  if (authHeader.startsWith('Basic ')) {
-    return 'Basic Auth';
-  }
-  
-  // 3. API Key Authentication
-  if (authHeader.startsWith('ApiKey ') || authHeader.startsWith('API-Key ')) {
-    return 'API Key';
-  }
-  
-  // 4. Custom API Key Headers
-  if (apiKeyHeader) {
-    return 'API Key';
-  }
-  
-  // 5. CSRF Token Detection
-  if (csrfHeader) {
-    return 'CSRF Token';
-  }
-  
-  // 6. Session Token Detection (Cookies)
-  if (cookieHeader) {
-    if (cookieHeader.includes('sessionid=') || 
-        cookieHeader.includes('session=') || 
-        cookieHeader.includes('JSESSIONID=') ||
-        cookieHeader.includes('PHPSESSID=') ||
-        cookieHeader.includes('ASP.NET_SessionId=')) {
-      return 'Session Token';
-    }
-    
-    if (cookieHeader.includes('access_token=')) {
-      return 'Access Token (Cookie)';
-    }
-  }
-  
-  // 7. State Token Detection
-  if (url.includes('state=') || headersObj['x-state-token']) {
-    return 'State Token';
+  if (scheme === 'bearer') {
+    return authHeader.slice(7).trim().split('.').length === 3 ? 'jwt_access' : 'opaque_access';
   }
+  if (scheme === 'basic') return 'basic';
+  if (scheme === 'apikey' || scheme === 'api-key' || header('x-api-key') || header('api-key')) return 'api_key';
+  if (authHeader) return 'opaque_access'; // Custom schemes (Token, MAC, ...) carry opaque tokens
+  if (header('x-csrf-token') || header('x-xsrf-token')) return 'csrf';
+  if (header('cookie') && extractCredential({ cookie: header('cookie') })?.credential === 'cookie') return 'session_cookie';
   
-  // 8. Custom Authorization schemes
-  if (authHeader && !authHeader.startsWith('Bearer ') && !authHeader.startsWith('Basic ')) {
-    const scheme = authHeader.split(' ')[0];
-    return `${scheme} Token`;
-  }
-  
-  return 'Unknown';
+  return 'unknown';
 }
 
 // Utility function to generate a hash-like value from token metadata
@@ -252,113 +173,201 @@ function extractTokenExpiry(headers: any): number | undefined {
   
   // Check for Bearer token (most common for JWT)
   if (authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    
-    // Check if it's a JWT (3 parts separated by dots)
-    if (token.split('.').length === 3) {
-      try {
-        // Decode JWT payload (second part)
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        
-        // Extract expiry timestamp (standard 'exp' claim)
-        if (payload.exp && typeof payload.exp === 'number') {
-          console.log('🔐 JWT expiry extracted:', new Date(payload.exp * 1000));
-          return payload.exp; // JWT exp is in seconds since epoch
-        }
-      } catch (error) {
-        console.log('🔐 Failed to decode JWT for expiry:', error);
-      }
+    const expiresAt = jwtExpiresAt(authHeader.substring(7));
+    if (expiresAt !== undefined) {
+      return Math.floor(expiresAt / 1000); // Token events keep JWT exp in seconds
     }
   }
   
   return undefined;
 }
 
+// Token logging applies globally unless tab-specific control is on, then the tab's own toggle
+// (or the configured default for tabs never toggled) decides
+async function isTokenLoggingActive(tokenConfig: { enabled?: boolean } & Pick<CaptureScopeConfig, 'tabSpecific'>, tabId?: number): Promise<boolean> {
+  if (!tokenConfig.enabled) {
+    return false;
+  }
+  if (!tokenConfig.tabSpecific?.enabled) {
+    return true;
+  }
+  
+  const defaultActive = tokenConfig.tabSpecific?.defaultState === 'active';
+  if (!tabId) {
+    return defaultActive;
+  }
+  
+  try {
+    const tokenTabStateResult = await chrome.storage.local.get([`tabTokenLogging_${tabId}`]);
+    const tokenTabState = tokenTabStateResult[`tabTokenLogging_${tabId}`];
+    if (typeof tokenTabState === 'boolean') {
+      return tokenTabState;
+    }
+    if (tokenTabState && typeof tokenTabState === 'object' && 'active' in tokenTabState) {
+      return !!tokenTabState.active;
+    }
+    return defaultActive;
+  } catch (tokenTabError) {
+    console.warn('Could not determine tab token logging state, using default:', tokenTabError);
+    return defaultActive;
+  }
+}
+
+// Per-installation salt for credential fingerprints, created on first use
+let tokenFingerprintSalt: Promise<string> | null = null;
+
+function getTokenFingerprintSalt(): Promise<string> {
+  if (!tokenFingerprintSalt) {
+    tokenFingerprintSalt = (async () => {
+      const result = await chrome.storage.local.get([TOKEN_FINGERPRINT_SALT_KEY]);
+      if (typeof result[TOKEN_FINGERPRINT_SALT_KEY] === 'string') {
+        return result[TOKEN_FINGERPRINT_SALT_KEY];
+      }
+      const salt = generateFingerprintSalt();
+      await chrome.storage.local.set({ [TOKEN_FINGERPRINT_SALT_KEY]: salt });
+      return salt;
+    })();
+    tokenFingerprintSalt.catch(() => { tokenFingerprintSalt = null; });
+  }
+  return tokenFingerprintSalt;
+}
+
+// Salted fingerprint of the credential a request carried; the raw value goes no further
+async function fingerprintRequestCredential(requestHeaders: Record<string, unknown> | undefined | null) {
+  const credential = extractCredential(requestHeaders);
+  if (!credential) return null;
+  return {
+    credential: credential.credential,
+    fingerprint: await fingerprintCredential(credential.value, await getTokenFingerprintSalt()),
+    expires_at: credential.expires_at
+  };
+}
+
+// Decodes and lints every JWT the exchange carried; only the salted fingerprint identifies the token
+async function inspectJwts(input: JwtSightingInput, context: { mainDomain: string; timestamp: number; sessionId?: string }) {
+  const sightings = collectJwtSightings(input);
+  if (sightings.length === 0) return;
+  
+  const salt = await getTokenFingerprintSalt();
+  for (const sighting of sightings) {
+    const decoded = decodeJwt(sighting.token);
+    if (!decoded) continue;
+    storageManager.trackJwtObservation({
+      fingerprint: await fingerprintCredential(sighting.token, salt),
+      main_domain: context.mainDomain,
+      decoded,
+      findings: lintJwt(decoded, { url: input.url, location: sighting.location, timestamp: context.timestamp }),
+      location: sighting.location,
+      name: sighting.name,
+      endpoint: jwtEndpoint(input.url),
+      timestamp: context.timestamp,
+      session_id: context.sessionId
+    });
+  }
+}
+
+// Fields of the page hook's request message that token detection reads
+interface TokenRequestData {
+  url?: string;
+  method?: string;
+  status?: number;
+  timestamp?: string | number;
+  tabUrl?: string;
+  source_url?: string;
+  headers?: { request?: Record<string, string> };
+}
+
 // Utility function to detect token events from network requests
-async function detectTokenEvent(requestData: any): Promise<TokenEvent | null> {
+async function detectTokenEvent(requestData: TokenRequestData, rules: TokenEndpointRule[], exchange: TokenExchange): Promise<DetectedTokenEvent | null> {
   const { url, method, status } = requestData;
   
   if (!url || !method || status === undefined) {
     return null;
   }
   
-  const timestamp = new Date().toISOString();
+  const timestamp = Date.now();
   const source_url = requestData.tabUrl || requestData.source_url || url;
   
-  // Log all requests for debugging
-  if (url.toLowerCase().includes('auth') || url.toLowerCase().includes('token') || url.toLowerCase().includes('login')) {
-    console.log('🔍 Potential token endpoint detected:', {
-      url,
-      method,
-      status,
-      isAcquireEndpoint: isTokenEndpoint(url, 'acquire'),
-      isRefreshEndpoint: isTokenEndpoint(url, 'refresh')
-    });
+  // The first matching endpoint rule decides the event type
+  const match = classifyTokenRequest({ url, method, status, responseBody: exchange.responseBody }, rules);
+  
+  // Tokens the response hands out: OAuth token fields in the body and credential cookies
+  const issuance = analyzeTokenResponse({
+    timestamp: requestData.timestamp ? new Date(requestData.timestamp).getTime() : Date.now(),
+    requestBody: exchange.requestBody,
+    responseBody: exchange.responseBody,
+    setCookies: exchange.setCookies
+  });
+  
+  let kind: TokenEventKind | undefined = match?.eventType;
+  if (!kind && status >= 200 && status < 400) {
+    if (issuance.issued.some(token => token.kind !== 'cookie')) {
+      kind = 'acquire';
+    } else if (issuance.issued.length > 0 && method !== 'GET') {
+      // GET responses that re-set a cookie are usually rolling sessions, not logins
+      kind = 'acquire';
+    } else if (issuance.cleared.length > 0 && issuance.issued.length === 0) {
+      kind = 'logout';
+    }
+  }
+  // A refresh grant sent to the token endpoint is a refresh, whatever the endpoint is called
+  if (kind === 'acquire' && issuance.refreshGrant) {
+    kind = 'refresh';
   }
   
-  // Extract expiry information from JWT tokens in headers
-  const expiry = extractTokenExpiry(requestData.headers);
+  const requestHeaders = requestData.headers?.request || requestData.headers;
+  const credentialKind = detectCredentialKind(requestHeaders, kind === 'acquire' || kind === 'refresh' ? issuance.issued : [], issuance.refreshGrant);
   
-  // Detect token acquisition (successful auth requests)
-  if (method === 'POST' && status >= 200 && status < 300 && isTokenEndpoint(url, 'acquire')) {
-    console.log('✅ Token acquisition detected:', url);
-    const detectedTokenType = detectTokenTypeFromHeaders(requestData.headers, url);
-    const valueHash = await generateTokenHash(url, timestamp, detectedTokenType, method);
+  // Expiry (in seconds) of the token just issued, else of the JWT the request carried
+  const requestExpiry = extractTokenExpiry(requestHeaders);
+  const expiry = issuance.expires_at !== undefined && kind !== 'refresh_error'
+    ? Math.floor(issuance.expires_at / 1000)
+    : requestExpiry;
+  const credential = await fingerprintRequestCredential(requestHeaders);
+  const tokenFingerprint = credential?.fingerprint;
+  const issuedDetails = {
+    ...(issuance.issued.length > 0 ? { issued_tokens: issuance.issued } : {}),
+    ...(issuance.cleared.length > 0 ? { cleared_cookies: issuance.cleared.map(cookie => cookie.name) } : {})
+  };
+  
+  if (kind) {
+    console.log(`✅ Token ${kind} detected${match ? ` by rule ${match.rule.id}` : ' from the response'}:`, url);
+    let valueHash = tokenFingerprint;
+    if (!valueHash) {
+      // Failed refreshes carry no new token, so there is nothing to hash
+      valueHash = kind === 'refresh_error'
+        ? 'refresh_error'
+        : await generateTokenHash(url, new Date(timestamp).toISOString(), credentialKind, method);
+    }
     return {
-      type: 'acquire',
+      kind,
+      credential: credentialKind,
       url,
       method,
       status,
       timestamp,
       source_url,
       value_hash: valueHash,
-      expiry
+      token_fingerprint: tokenFingerprint,
+      rule_id: match?.rule.id,
+      expiry,
+      ...issuedDetails
     };
   }
   
-  // Detect token refresh attempts
-  if ((method === 'POST' || method === 'GET') && isTokenEndpoint(url, 'refresh')) {
-    if (status >= 200 && status < 300) {
-      console.log('✅ Token refresh detected:', url);
-      const detectedTokenType = detectTokenTypeFromHeaders(requestData.headers, url);
-      const valueHash = await generateTokenHash(url, timestamp, detectedTokenType, method);
-      return {
-        type: 'refresh',
-        url,
-        method,
-        status,
-        timestamp,
-        source_url,
-        value_hash: valueHash,
-        expiry
-      };
-    } else if (status >= 400) {
-      console.log('❌ Token refresh error detected:', url);
-      // For errors, we'll use a special indicator but still generate a hash
-      return {
-        type: 'refresh_error',
-        url,
-        method,
-        status,
-        timestamp,
-        source_url,
-        value_hash: 'refresh_error',
-        expiry
-      };
-    }
-  }
-  
   // Detect token expiration (401/403 responses)
   if (status === 401 || status === 403) {
     return {
-      type: 'expired',
+      kind: 'expired',
+      credential: credentialKind,
       url,
       method,
       status,
       timestamp,
       source_url,
-      value_hash: 'expired',
-      expiry
+      value_hash: tokenFingerprint || 'expired',
+      token_fingerprint: tokenFingerprint,
+      expiry: requestExpiry
     };
   }
   
@@ -366,7 +375,7 @@ async function detectTokenEvent(requestData: any): Promise<TokenEvent | null> {
 }
 
 // Function to store token events
-async function storeTokenEvent(tokenEvent: TokenEvent, sender?: chrome.runtime.MessageSender): Promise<void> {
+async function storeTokenEvent(tokenEvent: DetectedTokenEvent, sender?: chrome.runtime.MessageSender): Promise<void> {
   try {
     if (!storageManager.isInitialized()) {
       await storageManager.init();
@@ -380,37 +389,42 @@ async function storeTokenEvent(tokenEvent: TokenEvent, sender?: chrome.runtime.M
     const mainDomain = tabUrl ? extractMainDomain(tabUrl) : extractMainDomain(tokenEvent.source_url);
     
     // Prepare token event data for storage
-    const tokenEventData = {
-      type: tokenEvent.type as 'jwt_token' | 'session_token' | 'api_key' | 'oauth_token',
-      value_hash: tokenEvent.value_hash || `[${tokenEvent.type.toUpperCase()}]`,
-      timestamp: new Date(tokenEvent.timestamp).getTime(),
-      source_url: tokenEvent.source_url,
-      expiry: tokenEvent.expiry,
-      status: tokenEvent.status,
-      method: tokenEvent.method,
-      url: tokenEvent.url,
+    const tokenEventData: Omit<TokenEvent, 'id'> = {
+      ...tokenEvent,
       // Add tab context for intelligent domain grouping  
       tab_id: tabId,
       tab_url: tabUrl,
-      main_domain: mainDomain // Store the main domain directly for reliable grouping
+      main_domain: mainDomain, // Store the main domain directly for reliable grouping
+      session_id: await getActiveSessionId()
     };
     
     await storageManager.insertTokenEvent(tokenEventData);
     
+    // A credential first used after this belongs to a lifecycle issued here
+    if (tokenEvent.kind === 'acquire' || tokenEvent.kind === 'refresh') {
+      storageManager.trackTokenLifecycle({
+        kind: 'issued',
+        main_domain: mainDomain,
+        timestamp: tokenEvent.timestamp,
+        via: tokenEvent.kind
+      });
+    }
+    
     // Notify dashboard about new token event
     try {
       chrome.runtime.sendMessage({
         type: 'DATA_UPDATED',
         dataType: 'token_event',
-        tokenType: tokenEvent.type
+        tokenKind: tokenEvent.kind
       });
     } catch (notifyError) {
       // Dashboard might not be open, ignore error
       console.log('📡 BACKGROUND: Could not notify dashboard about token event (dashboard closed?):', notifyError);
     }
     
-    console.log(`[Token Tracker] ✅ Stored ${tokenEvent.type} event:`, {
-      type: tokenEvent.type,
+    console.log(`[Token Tracker] ✅ Stored ${tokenEvent.kind} event:`, {
+      kind: tokenEvent.kind,
+      credential: tokenEvent.credential,
       url: tokenEvent.url,
       status: tokenEvent.status,
       timestamp: tokenEvent.timestamp,
@@ -483,8 +497,20 @@ const initializeChromeStorageSettings = () => {
             defaultState: 'paused' // Per-tab: starts paused, user must enable
           },
           requestFilters: {
-            enabled: false,
-            filters: []
+            methods: {
+              enabled: false,
+              allowed: ['GET', 'POST', 'PUT', 'DELETE']
+            },
+            contentTypes: {
+              enabled: false,
+              allowed: ['json', 'html', 'script']
+            },
+            pathFilters: {
+              enabled: false,
+              keywords: [],
+              regex: [],
+              includeMode: true
+            }
           },
           profiles: []
         },
@@ -680,6 +706,63 @@ const initializeChromeStorageSettings = () => {
 // --- Message Handlers for Popup Communication ---
 
 // Network request handler
+// The parts of settings.networkInterception that scope capture to tabs and URLs
+interface CaptureScopeConfig {
+  tabSpecific?: { enabled?: boolean; defaultState?: 'active' | 'paused' };
+  urlPatterns?: { enabled?: boolean; patterns?: Array<{ pattern: string; active: boolean }> };
+}
+
+// Tab-specific network logging check shared by HTTP and WebSocket capture.
+// Returns the rejection reason, or null when the tab is being logged.
+async function getTabLoggingRejection(networkConfig: CaptureScopeConfig, tabId?: number): Promise<string | null> {
+  if (!networkConfig.tabSpecific?.enabled) {
+    return null;
+  }
+  
+  if (tabId) {
+    try {
+      const tabStateResult = await chrome.storage.local.get([`tabLogging_${tabId}`]);
+      const tabState = tabStateResult[`tabLogging_${tabId}`];
+      
+      // Start with the default state from settings
+      let tabLoggingEnabled = networkConfig.tabSpecific?.defaultState === 'active';
+      
+      if (tabState !== undefined) {
+        // Override with actual tab state if it exists
+        if (typeof tabState === 'boolean') {
+          tabLoggingEnabled = tabState;
+        } else if (tabState && typeof tabState === 'object' && 'active' in tabState) {
+          tabLoggingEnabled = tabState.active;
+        }
+      }
+      
+      return tabLoggingEnabled ? null : 'Tab logging disabled';
+    } catch (tabError) {
+      console.warn('Could not determine tab logging state, using default:', tabError);
+      // Use default state from settings
+      return networkConfig.tabSpecific?.defaultState === 'paused' ? 'Tab logging disabled (default)' : null;
+    }
+  }
+  
+  console.warn('No tab ID available for tab-specific filtering');
+  // If we can't get tab ID, use default state
+  return networkConfig.tabSpecific?.defaultState === 'paused' ? 'Tab logging disabled (no tab ID)' : null;
+}
+
+// URL pattern scoping - true when disabled or when any active pattern matches
+function matchesActiveUrlPatterns(networkConfig: CaptureScopeConfig, url: string): boolean {
+  if (!networkConfig.urlPatterns?.enabled || !networkConfig.urlPatterns.patterns?.length) {
+    return true;
+  }
+  
+  const activePatterns = networkConfig.urlPatterns.patterns.filter(p => p.active);
+  if (activePatterns.length === 0) {
+    return true;
+  }
+  
+  return activePatterns.some(pattern => matchesUrlPattern(url, pattern.pattern));
+}
+
 async function handleNetworkRequest(requestData: any, sendResponse: (response: any) => void, sender?: chrome.runtime.MessageSender) {
   try {
     if (!storageManager.isInitialized()) {
@@ -689,7 +772,8 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
     // Get current settings to check filtering rules
     const settingsResult = await chrome.storage.local.get(['settings']);
     const settings = settingsResult.settings || {};
-    const networkConfig = settings.networkInterception || {};
+    // Apply the active interception profile (if any) over the base config
+    const networkConfig = resolveNetworkConfig(settings.networkInterception || {});
     
     // Ensure we have default token logging settings if they don't exist
     const tokenLoggingDefaults = {
@@ -702,8 +786,11 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
         acquire: true,
         refresh: true,
         expired: true,
-        refresh_error: true
-      }
+        refresh_error: true,
+        revoke: true,
+        logout: true
+      },
+      endpointRules: DEFAULT_TOKEN_RULES
     };
     
     // Use default settings if tokenLogging config doesn't exist
@@ -720,77 +807,64 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
     }
     
     // Check tab-specific control (ALWAYS check if enabled, regardless of default)
-    if (networkConfig.tabSpecific?.enabled) {
-      // Get the sender tab ID from the message
-      const tabId = sender?.tab?.id;
-      
-      if (tabId) {
-        try {
-          const tabStateResult = await chrome.storage.local.get([`tabLogging_${tabId}`]);
-          const tabState = tabStateResult[`tabLogging_${tabId}`];
-          
-          // Start with the default state from settings
-          let tabLoggingEnabled = networkConfig.tabSpecific?.defaultState === 'active';
-          
-          if (tabState !== undefined) {
-            // Override with actual tab state if it exists
-            if (typeof tabState === 'boolean') {
-              tabLoggingEnabled = tabState;
-            } else if (tabState && typeof tabState === 'object' && 'active' in tabState) {
-              tabLoggingEnabled = tabState.active;
-            }
-          }
-          
-          if (!tabLoggingEnabled) {
-            sendResponse({ success: false, reason: 'Tab logging disabled' });
-            return;
-          }
-        } catch (tabError) {
-          console.warn('Could not determine tab logging state, using default:', tabError);
-          // Use default state from settings
-          if (networkConfig.tabSpecific?.defaultState === 'paused') {
-            sendResponse({ success: false, reason: 'Tab logging disabled (default)' });
-            return;
-          }
-        }
-      } else {
-        console.warn('No tab ID available for tab-specific filtering');
-        // If we can't get tab ID, use default state
-        if (networkConfig.tabSpecific?.defaultState === 'paused') {
-          sendResponse({ success: false, reason: 'Tab logging disabled (no tab ID)' });
-          return;
-        }
-      }
+    const tabRejection = await getTabLoggingRejection(networkConfig, sender?.tab?.id);
+    if (tabRejection) {
+      sendResponse({ success: false, reason: tabRejection });
+      return;
     }
     
     // Filter out common noise/telemetry requests (if enabled)
-    if (networkConfig.privacy?.filterNoise && isNoiseRequest(requestData.url)) {
+    const pageUrl = sender?.tab?.url || requestData.tabUrl;
+    if (networkConfig.privacy?.filterNoise && isNoiseRequest(requestData.url, { transport: requestData.transport, pageUrl })) {
       console.log('🔇 BACKGROUND: Filtered noise request:', requestData.url);
       sendResponse({ success: false, reason: 'Filtered out noise/telemetry request' });
       return;
     }
     
     // Check URL pattern filtering (if enabled)
-    if (networkConfig.urlPatterns?.enabled && networkConfig.urlPatterns?.patterns?.length > 0) {
-      const activePatterns = networkConfig.urlPatterns.patterns.filter((p: any) => p.active);
-      
-      if (activePatterns.length > 0) {
-        const matchesPattern = activePatterns.some((pattern: any) => {
-          return matchesUrlPattern(requestData.url, pattern.pattern);
-        });
-        
-        if (!matchesPattern) {
-          sendResponse({ success: false, reason: 'URL does not match any active patterns' });
-          return;
-        }
-      }
+    if (!matchesActiveUrlPatterns(networkConfig, requestData.url)) {
+      sendResponse({ success: false, reason: 'URL does not match any active patterns' });
+      return;
+    }
+    
+    // Apply method / content-type / path filters
+    const filterResult = evaluateRequestFilters({
+      url: requestData.url,
+      method: requestData.method,
+      responseHeaders: requestData.headers?.response
+    }, networkConfig.requestFilters);
+    
+    if (!filterResult.allowed) {
+      console.log(`🚫 BACKGROUND: Request rejected by ${filterResult.filter} filter:`, filterResult.reason);
+      sendResponse({ success: false, reason: filterResult.reason, filter: filterResult.filter });
+      return;
     }
     
     // All filters passed - check if this is a token-related request
     // and if token logging is disabled, skip storing this request entirely
     
+    // Get tab information for context
+    const tabId = sender?.tab?.id;
+    const tabUrl = sender?.tab?.url;
+    
+    // Extract main domain from the tab URL for intelligent grouping
+    const mainDomain = tabUrl ? extractMainDomain(tabUrl) : extractMainDomain(requestData.url);
+    
+    // Bodies (and Set-Cookie headers) from the debugger are needed to see the tokens a response issues
+    const bodies = networkConfig.bodyCapture?.mode === 'full' && tabId
+      ? await mergeDebuggerBodies(requestData, tabId, tabUrl)
+      : {
+          request: chooseBody(requestData.requestBody, null),
+          response: chooseBody(requestData.responseBody, null),
+          setCookies: splitSetCookieHeaders([requestData.headers?.response?.['set-cookie']])
+        };
+    
     // First, detect if this is a token event BEFORE storing
-    const tokenEvent = await detectTokenEvent(requestData);
+    const tokenEvent = await detectTokenEvent(requestData, settings.tokenLogging.endpointRules || DEFAULT_TOKEN_RULES, {
+      requestBody: bodies.request.body,
+      responseBody: bodies.response.body,
+      setCookies: bodies.setCookies
+    });
     console.log('🔐 Pre-storage Token Event Detection:', {
       tokenEvent,
       url: requestData.url,
@@ -800,58 +874,7 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
     
     // If this is a token-related request, check if token logging is enabled
     if (tokenEvent) {
-      const tokenConfig = settings.tokenLogging || {};
-      console.log('🔐 Token Config Check (before storage):', tokenConfig);
-      
-      let shouldAllowTokenRequest = false;
-      
-      if (tokenConfig.enabled) {
-        console.log('🔐 Global token logging is enabled');
-        // Check tab-specific token logging (ONLY if tab-specific is enabled)
-        if (tokenConfig.tabSpecific?.enabled && sender?.tab?.id) {
-          console.log('🔐 Tab-specific token logging is enabled, checking tab state...');
-          const tabId = sender.tab.id;
-          try {
-            const tokenTabStateResult = await chrome.storage.local.get([`tabTokenLogging_${tabId}`]);
-            const tokenTabState = tokenTabStateResult[`tabTokenLogging_${tabId}`];
-            console.log('🔐 Tab Token State (pre-storage):', { tabId, tokenTabState });
-            
-            // Start with the default state from settings
-            let tabTokenLoggingEnabled = tokenConfig.tabSpecific?.defaultState === 'active';
-            console.log('🔐 Default state from settings (pre-storage):', tokenConfig.tabSpecific?.defaultState, 'enabled:', tabTokenLoggingEnabled);
-            
-            if (tokenTabState !== undefined) {
-              console.log('🔐 Tab state exists (pre-storage), checking value...');
-              // Override with actual tab state if it exists
-              if (typeof tokenTabState === 'boolean') {
-                tabTokenLoggingEnabled = tokenTabState;
-                console.log('🔐 Tab state is boolean (pre-storage):', tabTokenLoggingEnabled);
-              } else if (tokenTabState && typeof tokenTabState === 'object' && 'active' in tokenTabState) {
-                tabTokenLoggingEnabled = tokenTabState.active;
-                console.log('🔐 Tab state is object with active property (pre-storage):', tabTokenLoggingEnabled);
-              }
-            } else {
-              console.log('🔐 Tab state does not exist (pre-storage), using default');
-            }
-            
-            shouldAllowTokenRequest = tabTokenLoggingEnabled;
-            console.log('🔐 Final decision - Should Allow Token Request:', { shouldAllowTokenRequest, tabTokenLoggingEnabled });
-          } catch (tokenTabError) {
-            console.warn('Could not determine tab token logging state (pre-storage), using default:', tokenTabError);
-            // Use default state from settings
-            shouldAllowTokenRequest = tokenConfig.tabSpecific?.defaultState === 'active';
-          }
-        } else if (!tokenConfig.tabSpecific?.enabled) {
-          console.log('🔐 Tab-specific token logging is disabled, using global setting');
-          shouldAllowTokenRequest = true; // If tab-specific is disabled, use global setting
-        } else {
-          console.log('🔐 No tab ID available, using default');
-          shouldAllowTokenRequest = tokenConfig.tabSpecific?.defaultState === 'active';
-        }
-      } else {
-        console.log('🔐 Token logging globally disabled');
-        shouldAllowTokenRequest = false;
-      }
+      const shouldAllowTokenRequest = await isTokenLoggingActive(settings.tokenLogging || {}, sender?.tab?.id);
       
       // If token logging is disabled, don't store this request at all
       if (!shouldAllowTokenRequest) {
@@ -863,37 +886,82 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
     
     // Store the request (either non-token request or token request with logging enabled)
     
-    // Get tab information for context
-    const tabId = sender?.tab?.id;
-    const tabUrl = sender?.tab?.url;
+    // Mask secrets before anything is persisted (token detection above already saw the raw values)
+    const captured = {
+      url: requestData.url,
+      headers: {
+        request: requestData.headers?.request || {},
+        response: requestData.headers?.response || {}
+      },
+      requestBody: bodies.request.body,
+      responseBody: bodies.response.body
+    };
+    const redaction = networkConfig.privacy?.autoRedact
+      ? redactRequest(captured, networkConfig.privacy?.redactionRules || DEFAULT_REDACTION_RULES)
+      : { ...captured, redactedFields: [] as string[] };
     
-    // Extract main domain from the tab URL for intelligent grouping
-    const mainDomain = tabUrl ? extractMainDomain(tabUrl) : extractMainDomain(requestData.url);
+    if (redaction.redactedFields.length > 0) {
+      console.log('🛡️ BACKGROUND: Redacted fields before storage:', redaction.redactedFields);
+    }
     
     // Map the request data from main-world-script to storage API format
     const storageData = {
-      url: requestData.url,
+      url: redaction.url,
       method: requestData.method || 'GET',
-      headers: JSON.stringify({
-        request: requestData.headers?.request || {},
-        response: requestData.headers?.response || {}
-      }),
-      payload_size: requestData.requestBody ? requestData.requestBody.length : 0,
+      headers: JSON.stringify(redaction.headers),
+      payload_size: bodies.request.body ? bodies.request.body.length : 0,
       status: requestData.status || 0,
-      response_body: requestData.responseBody || `Status: ${requestData.status} ${requestData.statusText}`,
+      response_body: redaction.responseBody || `Status: ${requestData.status} ${requestData.statusText}`,
       // Add request body if captured
-      request_body: requestData.requestBody || null,
+      request_body: redaction.requestBody || undefined,
       timestamp: requestData.timestamp ? new Date(requestData.timestamp).getTime() : Date.now(),
       response_time: requestData.duration || null,
       // Add tab context for intelligent domain grouping
       tab_id: tabId,
       tab_url: tabUrl,
-      main_domain: mainDomain // Store the main domain directly for reliable grouping
+      main_domain: mainDomain, // Store the main domain directly for reliable grouping
+      redacted_fields: redaction.redactedFields.length > 0 ? redaction.redactedFields : undefined,
+      request_body_source: bodies.request.source,
+      response_body_source: bodies.response.source,
+      transport: API_TRANSPORTS.includes(requestData.transport) ? requestData.transport as ApiTransport : undefined,
+      failure_reason: NETWORK_FAILURE_REASONS.includes(requestData.failureReason) ? requestData.failureReason as NetworkFailureReason : undefined,
+      error_class: typeof requestData.errorClass === 'string' ? requestData.errorClass : undefined,
+      session_id: await getActiveSessionId()
     };
     
+    // insertApiCall releases every field of the object it stores, so read what is needed afterwards first
+    const { timestamp, status, session_id: sessionId } = storageData;
+    
     // Store the network request using the existing API call storage
     const id = await storageManager.insertApiCall(storageData);
     
+    // Every authenticated request counts as a use of its credential's lifecycle
+    const tokenLoggingActive = await isTokenLoggingActive(settings.tokenLogging || {}, tabId);
+    const credentialUse = await fingerprintRequestCredential(requestData.headers?.request);
+    if (credentialUse && tokenLoggingActive) {
+      storageManager.trackTokenLifecycle({
+        kind: 'use',
+        fingerprint: credentialUse.fingerprint,
+        main_domain: mainDomain,
+        credential: credentialUse.credential,
+        timestamp,
+        rejected: status === 401 || status === 403,
+        expires_at: credentialUse.expires_at,
+        session_id: sessionId
+      });
+    }
+    
+    // JWTs are inspected from the unredacted exchange, like token detection above
+    if (tokenLoggingActive) {
+      await inspectJwts({
+        url: requestData.url,
+        requestHeaders: requestData.headers?.request,
+        requestBody: bodies.request.body,
+        responseBody: bodies.response.body,
+        setCookies: bodies.setCookies
+      }, { mainDomain, timestamp, sessionId });
+    }
+    
     // Track tab-domain relationship for intelligent grouping
     if (tabId && requestData.url) {
       tabDomainTracker.trackTabDomain(tabId, requestData.url, tabUrl);
@@ -973,19 +1041,304 @@ async function handleNetworkRequest(requestData: any, sendResponse: (response: a
   }
 }
 
-// Console error handler
-async function handleConsoleError(errorData: any, sendResponse: (response: any) => void, sender?: chrome.runtime.MessageSender) {
+// The page hook reports relative URLs as written by the page, CDP always reports absolute ones
+function resolveRequestUrl(url: string, tabUrl?: string): string {
+  try {
+    return new URL(url, tabUrl).href;
+  } catch {
+    return url;
+  }
+}
+
+// Fields of the page hook's request message that the body merge reads
+interface PageHookBodies {
+  url: string;
+  timestamp?: string | number;
+  duration?: number;
+  requestBody?: string | null;
+  responseBody?: string | null;
+  headers?: { response?: Record<string, string> };
+}
+
+// Full body capture: merge bodies seen by chrome.debugger (CDP) with the page hook's copies
+async function mergeDebuggerBodies(requestData: PageHookBodies, tabId: number, tabUrl?: string) {
+  let cdpBodies: CapturedBodies = {};
+  
+  if (bodyCaptureDebugger.isAttachedToTab(tabId)) {
+    // Page hook timestamps are taken when the response completes, CDP ones when the request starts
+    const endTime = requestData.timestamp ? new Date(requestData.timestamp).getTime() : Date.now();
+    const startTime = endTime - (requestData.duration || 0);
+    cdpBodies = await bodyCaptureDebugger.waitForCapturedBodies(tabId, resolveRequestUrl(requestData.url, tabUrl), startTime);
+  } else {
+    // First request from a logged tab - attach so the following requests get CDP bodies
+    await bodyCaptureDebugger.attachToTab(tabId);
+  }
+  
+  return {
+    request: chooseBody(requestData.requestBody, cdpBodies.requestBody),
+    response: chooseBody(requestData.responseBody, cdpBodies.responseBody),
+    setCookies: cdpBodies.setCookies || splitSetCookieHeaders([requestData.headers?.response?.['set-cookie']])
+  };
+}
+
+// WebSocket events from the main-world interceptor: a connection snapshot on open and close, or a single frame
+interface WebSocketConnectionEvent {
+  kind: 'connection';
+  id: string;
+  url: string;
+  tabUrl?: string;
+  protocol?: string;
+  status?: 'open' | 'closed';
+  openedAt?: number;
+  closedAt?: number;
+  closeCode?: number;
+  closeReason?: string;
+  wasClean?: boolean;
+  hadError?: boolean;
+  framesSent?: number;
+  framesReceived?: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+}
+
+interface WebSocketFrameEvent {
+  kind: 'frame';
+  connectionId: string;
+  url: string;
+  tabUrl?: string;
+  direction: 'sent' | 'received';
+  opcode: 'text' | 'binary';
+  data: string;
+  size?: number;
+  truncated?: boolean;
+  timestamp?: number;
+}
+
+async function handleWebSocketEvent(eventData: WebSocketConnectionEvent | WebSocketFrameEvent, sendResponse: SendResponse, sender?: chrome.runtime.MessageSender) {
   try {
     if (!storageManager.isInitialized()) {
       await storageManager.init();
     }
-
-    // Check if error logging is enabled globally
-    const settings = await chrome.storage.local.get(['settings']);
-    const errorLoggingConfig = settings.settings?.errorLogging || {};
     
-    if (!errorLoggingConfig.enabled) {
-      sendResponse({ success: false, reason: 'Error logging disabled' });
+    const settingsResult = await chrome.storage.local.get(['settings']);
+    const settings = settingsResult.settings || {};
+    const networkConfig = resolveNetworkConfig(settings.networkInterception || {});
+    
+    if (!networkConfig.enabled || networkConfig.captureWebSockets === false) {
+      sendResponse({ success: false, reason: 'WebSocket capture disabled' });
+      return;
+    }
+    
+    const tabRejection = await getTabLoggingRejection(networkConfig, sender?.tab?.id);
+    if (tabRejection) {
+      sendResponse({ success: false, reason: tabRejection });
+      return;
+    }
+    
+    if (!matchesActiveUrlPatterns(networkConfig, eventData.url)) {
+      sendResponse({ success: false, reason: 'URL does not match any active patterns' });
+      return;
+    }
+    
+    const tabId = sender?.tab?.id;
+    const tabUrl = sender?.tab?.url || eventData.tabUrl;
+    const mainDomain = tabUrl ? extractMainDomain(tabUrl) : extractMainDomain(eventData.url);
+    
+    // Same redaction as HTTP requests: the URL query and text frame payloads
+    const redactionRules = networkConfig.privacy?.redactionRules || DEFAULT_REDACTION_RULES;
+    const redact = (payload: Partial<Pick<RedactableRequest, 'requestBody' | 'responseBody'>>) => networkConfig.privacy?.autoRedact
+      ? redactRequest({ url: eventData.url, headers: { request: {}, response: {} }, ...payload }, redactionRules)
+      : { url: eventData.url, ...payload };
+    
+    if (eventData.kind === 'connection') {
+      await storageManager.saveWebSocketConnection({
+        id: eventData.id,
+        url: redact({}).url,
+        protocol: eventData.protocol || undefined,
+        status: eventData.status === 'closed' ? 'closed' : 'open',
+        timestamp: eventData.openedAt || Date.now(),
+        closed_at: eventData.closedAt,
+        close_code: eventData.closeCode,
+        close_reason: eventData.closeReason || undefined,
+        was_clean: eventData.wasClean,
+        had_error: eventData.hadError || undefined,
+        frames_sent: eventData.framesSent || 0,
+        frames_received: eventData.framesReceived || 0,
+        bytes_sent: eventData.bytesSent || 0,
+        bytes_received: eventData.bytesReceived || 0,
+        tab_id: tabId,
+        tab_url: tabUrl,
+        main_domain: mainDomain
+      });
+      
+      // Frames are too frequent to notify about - the dashboard refreshes on connection changes
+      try {
+        chrome.runtime.sendMessage({ type: 'DATA_UPDATED', dataType: 'websocket' });
+      } catch (notifyError) {
+        console.log('📡 BACKGROUND: Could not notify dashboard (dashboard closed?):', notifyError);
+      }
+      
+      sendResponse({ success: true, id: eventData.id });
+    } else if (eventData.kind === 'frame') {
+      const isSent = eventData.direction === 'sent';
+      const redacted = eventData.opcode === 'text'
+        ? redact(isSent ? { requestBody: eventData.data } : { responseBody: eventData.data })
+        : null;
+      
+      const id = await storageManager.insertWebSocketFrame({
+        connection_id: eventData.connectionId,
+        direction: isSent ? 'sent' : 'received',
+        opcode: eventData.opcode === 'binary' ? 'binary' : 'text',
+        data: (redacted ? (isSent ? redacted.requestBody : redacted.responseBody) : eventData.data) || '',
+        size: eventData.size || 0,
+        truncated: !!eventData.truncated,
+        timestamp: eventData.timestamp || Date.now(),
+        tab_id: tabId,
+        main_domain: mainDomain
+      });
+      
+      sendResponse({ success: true, id });
+    } else {
+      sendResponse({ success: false, error: 'Unknown WebSocket event kind' });
+    }
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to store WebSocket event:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Storage failed' });
+  }
+}
+
+// Advisory dataset in effect: a dataset loaded from settings unless the bundled one is newer
+async function getActiveAdvisoryDataset() {
+  const result = await chrome.storage.local.get([ADVISORY_DATASET_STORAGE_KEY]);
+  return selectAdvisoryDataset(result[ADVISORY_DATASET_STORAGE_KEY]);
+}
+
+// Re-matches stored libraries against the active dataset; without force only records matched
+// against a different dataset are rewritten
+async function refreshLibraryAdvisories(force = false): Promise<number> {
+  if (!storageManager.isConnected()) {
+    await storageManager.init();
+  }
+  
+  const { dataset } = await getActiveAdvisoryDataset();
+  const updated = await storageManager.updateMinifiedLibraries(library =>
+    force || library.advisory_dataset !== dataset.updated ? annotateLibrary(library, dataset) : null
+  );
+  
+  if (updated > 0) {
+    console.log(`🛡️ BACKGROUND: Re-matched ${updated} libraries against advisories from ${dataset.updated}`);
+    try {
+      chrome.runtime.sendMessage({ type: 'DATA_UPDATED', dataType: 'libraries' });
+    } catch (notifyError) {
+      console.log('📡 BACKGROUND: Could not notify dashboard (dashboard closed?):', notifyError);
+    }
+  }
+  return updated;
+}
+
+// A library as the page hook fingerprinted it; fields are coerced before they are stored
+interface DetectedLibrary {
+  name?: string;
+  version?: string;
+  size?: number;
+  url?: string;
+  sourceMapUrl?: string;
+  minified?: boolean;
+  detectedBy?: LibraryDetectionMethod[];
+}
+
+interface LibrariesDetectedEvent {
+  libraries?: DetectedLibrary[];
+  pageUrl?: string;
+  tabUrl?: string;
+  timestamp?: number;
+}
+
+// Libraries fingerprinted on a page - one inventory record per library, version and script per domain
+async function handleLibrariesDetected(eventData: LibrariesDetectedEvent, sendResponse: SendResponse, sender?: chrome.runtime.MessageSender) {
+  try {
+    if (!storageManager.isInitialized()) {
+      await storageManager.init();
+    }
+    
+    const settingsResult = await chrome.storage.local.get(['settings']);
+    const settings = settingsResult.settings || {};
+    const networkConfig = resolveNetworkConfig(settings.networkInterception || {});
+    
+    if (!networkConfig.enabled || networkConfig.detectLibraries === false) {
+      sendResponse({ success: false, reason: 'Library detection disabled' });
+      return;
+    }
+    
+    const tabRejection = await getTabLoggingRejection(networkConfig, sender?.tab?.id);
+    if (tabRejection) {
+      sendResponse({ success: false, reason: tabRejection });
+      return;
+    }
+    
+    const pageUrl = sender?.tab?.url || eventData.tabUrl || eventData.pageUrl;
+    if (!pageUrl || !matchesActiveUrlPatterns(networkConfig, pageUrl)) {
+      sendResponse({ success: false, reason: 'URL does not match any active patterns' });
+      return;
+    }
+    
+    // Script URLs can carry keys in their query strings, same as request URLs
+    const redactionRules = networkConfig.privacy?.redactionRules || DEFAULT_REDACTION_RULES;
+    const redactUrl = (url: string) => url && networkConfig.privacy?.autoRedact
+      ? redactRequest({ url, headers: { request: {}, response: {} } }, redactionRules).url
+      : url;
+    
+    const mainDomain = extractMainDomain(pageUrl);
+    const sessionId = await getActiveSessionId();
+    const { dataset: advisoryDataset } = await getActiveAdvisoryDataset();
+    const libraries = Array.isArray(eventData.libraries) ? eventData.libraries : [];
+    const ids: number[] = [];
+    
+    for (const library of libraries) {
+      if (!library?.name) continue;
+      ids.push(await storageManager.saveMinifiedLibrary(annotateLibrary({
+        name: String(library.name),
+        version: library.version ? String(library.version) : '',
+        size: Number(library.size) || 0,
+        source_map_available: !!library.sourceMapUrl,
+        source_map_url: library.sourceMapUrl ? redactUrl(library.sourceMapUrl) : undefined,
+        url: redactUrl(library.url || ''),
+        minified: library.minified !== false,
+        detected_by: Array.isArray(library.detectedBy) ? library.detectedBy : [],
+        timestamp: eventData.timestamp || Date.now(),
+        page_url: redactUrl(pageUrl),
+        tab_id: sender?.tab?.id,
+        main_domain: mainDomain,
+        session_id: sessionId
+      }, advisoryDataset)));
+    }
+    
+    try {
+      chrome.runtime.sendMessage({ type: 'DATA_UPDATED', dataType: 'libraries' });
+    } catch (notifyError) {
+      console.log('📡 BACKGROUND: Could not notify dashboard (dashboard closed?):', notifyError);
+    }
+    
+    sendResponse({ success: true, ids });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to store detected libraries:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Storage failed' });
+  }
+}
+
+// Console error handler
+async function handleConsoleError(errorData: any, sendResponse: (response: any) => void, sender?: chrome.runtime.MessageSender) {
+  try {
+    if (!storageManager.isInitialized()) {
+      await storageManager.init();
+    }
+
+    // Check if error logging is enabled globally
+    const settings = await chrome.storage.local.get(['settings']);
+    const errorLoggingConfig = settings.settings?.errorLogging || {};
+    
+    if (!errorLoggingConfig.enabled) {
+      sendResponse({ success: false, reason: 'Error logging disabled' });
       return;
     }
 
@@ -1050,7 +1403,8 @@ async function handleConsoleError(errorData: any, sendResponse: (response: any)
       // Add tab context for intelligent domain grouping
       tab_id: tabId,
       tab_url: tabUrl,
-      main_domain: mainDomain // Store the main domain directly for reliableGrouping
+      main_domain: mainDomain, // Store the main domain directly for reliableGrouping
+      session_id: await getActiveSessionId()
     };
     
     // Store the console error
@@ -1130,12 +1484,18 @@ function matchesUrlPattern(url: string, pattern: string): boolean {
 }
 
 // Helper function to filter out noise/telemetry requests
-function isNoiseRequest(url: string): boolean {
+function isNoiseRequest(url: string, context?: { transport?: string; pageUrl?: string }): boolean {
   try {
     const urlObj = new URL(url);
     const hostname = urlObj.hostname.toLowerCase();
     const pathname = urlObj.pathname.toLowerCase();
     
+    // Beacons exist almost exclusively for analytics: any beacon leaving the page's own site is noise,
+    // first-party beacons still go through the regular rules below
+    if (context?.transport === 'beacon' && context.pageUrl && extractMainDomain(url) !== extractMainDomain(context.pageUrl)) {
+      return true;
+    }
+    
     // Specific telemetry and tracking domains (exact matches or specific subdomains)
     const noiseDomains = [
       'edge.sdk.awswaf.com',        // AWS WAF telemetry
@@ -1231,7 +1591,7 @@ function isNoiseRequest(url: string): boolean {
 }
 
 // Get network requests handler
-async function handleGetNetworkRequests(limit: number, offset: number, sendResponse: (response: any) => void) {
+async function handleGetNetworkRequests(limit: number, offset: number, sessionIds: string[] | undefined, sendResponse: SendResponse) {
   try {
     console.log(`🔍 HandleGetNetworkRequests: limit=${limit}, offset=${offset}`)
     
@@ -1240,6 +1600,13 @@ async function handleGetNetworkRequests(limit: number, offset: number, sendRespo
       await storageManager.init();
     }
     
+    // Session-scoped pages go through the query API so the total only counts those sessions
+    if (sessionIds?.length) {
+      const result = await storageManager.queryApiCalls({ sessionIds, limit, offset });
+      sendResponse({ success: true, requests: result.records, total: result.total });
+      return;
+    }
+    
     // MEMORY LEAK FIX: Get paginated API calls (network requests) with offset
     const requests = await storageManager.getApiCalls(limit, offset);
     const counts = await storageManager.getTableCounts();
@@ -1267,6 +1634,15 @@ async function handleClearAllData(sendResponse: (response: any) => void) {
     // Clear all stored network requests
     await storageManager.clearAllData();
     
+    // Imported HAR records are gone too, so drop their metadata
+    await chrome.storage.local.remove('harImports');
+    
+    // Ended sessions no longer have any records; a session that is still recording keeps going
+    const activeSessionId = await getActiveSessionId();
+    await chrome.storage.local.set({
+      [CAPTURE_SESSIONS_KEY]: (await getCaptureSessions()).filter(session => session.id === activeSessionId)
+    });
+    
     // Also clear all tab-specific request counters
     const allStorage = await chrome.storage.local.get(null);
     const tabLoggingKeys = Object.keys(allStorage).filter(key => key.startsWith('tabLogging_'));
@@ -1327,7 +1703,7 @@ async function handleClearAllData(sendResponse: (response: any) => void) {
 }
 
 // Get console errors handler
-async function handleGetConsoleErrors(limit: number, offset: number, sendResponse: (response: any) => void) {
+async function handleGetConsoleErrors(limit: number, offset: number, sessionIds: string[] | undefined, sendResponse: SendResponse) {
   try {
     console.log(`🔍 HandleGetConsoleErrors: limit=${limit}, offset=${offset}`)
     
@@ -1336,6 +1712,12 @@ async function handleGetConsoleErrors(limit: number, offset: number, sendRespons
       await storageManager.init();
     }
     
+    if (sessionIds?.length) {
+      const result = await storageManager.queryConsoleErrors({ sessionIds, limit, offset });
+      sendResponse({ success: true, errors: result.records, total: result.total });
+      return;
+    }
+    
     // MEMORY LEAK FIX: Get paginated console errors with offset
     const errors = await storageManager.getConsoleErrors(limit, offset);
     const counts = await storageManager.getTableCounts();
@@ -1354,12 +1736,18 @@ async function handleGetConsoleErrors(limit: number, offset: number, sendRespons
 }
 
 // Get token events handler
-async function handleGetTokenEvents(limit: number, offset: number, sendResponse: (response: any) => void) {
+async function handleGetTokenEvents(limit: number, offset: number, sessionIds: string[] | undefined, sendResponse: SendResponse) {
   try {
     if (!storageManager.isConnected()) {
       await storageManager.init();
     }
     
+    if (sessionIds?.length) {
+      const result = await storageManager.queryTokenEvents({ sessionIds, limit, offset });
+      sendResponse({ success: true, events: result.records, total: result.total });
+      return;
+    }
+    
     // MEMORY LEAK FIX: Get paginated token events with offset
     const events = await storageManager.getTokenEvents(limit, offset);
     const counts = await storageManager.getTableCounts();
@@ -1375,8 +1763,201 @@ async function handleGetTokenEvents(limit: number, offset: number, sendResponse:
   }
 }
 
+// Shared by the query* actions: filtered, sorted, cursor-paginated reads with totals across all pages
+async function handleQueryRecords<T>(runQuery: () => Promise<QueryResult<T>>, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const result = await runQuery();
+    sendResponse({ 
+      success: true, 
+      records: result.records, 
+      total: result.total, 
+      nextCursor: result.nextCursor 
+    });
+  } catch (error) {
+    console.error('[Web App Monitor] Query failed:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
+async function handleGetWebSocketConnections(limit: number, offset: number, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const connections = await storageManager.getWebSocketConnections(limit, offset);
+    const counts = await storageManager.getTableCounts();
+    
+    sendResponse({ 
+      success: true, 
+      connections: connections || [], 
+      total: counts?.webSocketConnections || 0
+    });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to get WebSocket connections:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
+// Runs draft endpoint rules over recent stored requests so they can be checked before saving
+async function handleTestTokenRules(rawRules: unknown, limit: number, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const rules = parseTokenRules(rawRules);
+    const calls = await storageManager.getApiCalls(Math.min(Math.max(limit, 1), 5000), 0);
+    const ruleCounts: Record<string, number> = {};
+    const matches = [];
+    
+    for (const call of calls) {
+      const match = classifyTokenRequest({ url: call.url, method: call.method, status: call.status, responseBody: call.response_body }, rules);
+      if (!match) continue;
+      ruleCounts[match.rule.id] = (ruleCounts[match.rule.id] || 0) + 1;
+      matches.push({
+        id: call.id,
+        url: call.url,
+        method: call.method,
+        status: call.status,
+        timestamp: call.timestamp,
+        main_domain: call.main_domain,
+        eventType: match.eventType,
+        ruleId: match.rule.id
+      });
+    }
+    
+    sendResponse({ success: true, scanned: calls.length, matches, ruleCounts });
+  } catch (error) {
+    console.error('[Web App Monitor] Token rule test failed:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Rule test failed' });
+  }
+}
+
+async function handleGetTokenLifecycles(query: TokenLifecycleQuery, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const lifecycles = await storageManager.getTokenLifecycles(query);
+    sendResponse({ success: true, lifecycles });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to get token lifecycles:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
+async function handleGetJwtObservations(query: JwtObservationQuery, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const observations = await storageManager.getJwtObservations(query);
+    sendResponse({ success: true, observations });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to get JWT observations:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
+// Library inventory - small enough (one record per library and script per domain) to send whole
+async function handleGetLibraryInventory(limit: number, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const libraries = await storageManager.getMinifiedLibraries(limit, 0);
+    sendResponse({ success: true, libraries: libraries || [] });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to get library inventory:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
+// Maps a stored console error stack back to original sources via the scripts' source maps
+async function handleSymbolicateStack(stack: string, sendResponse: SendResponse) {
+  try {
+    const settingsResult = await chrome.storage.local.get(['settings']);
+    const sourceMaps = settingsResult.settings?.errorLogging?.sourceMaps || {};
+    
+    if (sourceMaps.enabled === false) {
+      sendResponse({ success: false, reason: 'Source map resolution disabled' });
+      return;
+    }
+    
+    const frames = await symbolicateStack(stack, { allowedOrigins: sourceMaps.allowedOrigins || [] });
+    sendResponse({ success: true, frames });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to symbolicate stack trace:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Symbolication failed' });
+  }
+}
+
+async function handleClearSourceMapCache(sendResponse: SendResponse) {
+  try {
+    await clearSourceMapCache();
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to clear source map cache:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Clear failed' });
+  }
+}
+
+async function handleGetAdvisoryDataset(sendResponse: SendResponse) {
+  try {
+    const { dataset, source } = await getActiveAdvisoryDataset();
+    sendResponse({ success: true, summary: summarizeAdvisoryDataset(dataset, source) });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to read advisory dataset:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Read failed' });
+  }
+}
+
+// Loads a newer advisory dataset from settings (null goes back to the bundled one) and re-matches the inventory
+async function handleUpdateAdvisoryDataset(input: unknown, sendResponse: SendResponse) {
+  try {
+    if (input) {
+      const dataset = parseAdvisoryDataset(input);
+      if (dataset.updated < BUNDLED_ADVISORY_DATASET.updated) {
+        throw new Error(`Advisory file from ${dataset.updated} is older than the bundled dataset (${BUNDLED_ADVISORY_DATASET.updated})`);
+      }
+      await chrome.storage.local.set({ [ADVISORY_DATASET_STORAGE_KEY]: dataset });
+    } else {
+      await chrome.storage.local.remove(ADVISORY_DATASET_STORAGE_KEY);
+    }
+    
+    const rematched = await refreshLibraryAdvisories(true);
+    const { dataset, source } = await getActiveAdvisoryDataset();
+    sendResponse({ success: true, summary: summarizeAdvisoryDataset(dataset, source), rematched });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to update advisory dataset:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Update failed' });
+  }
+}
+
+async function handleGetWebSocketFrames(connectionId: string, limit: number, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const frames = await storageManager.getWebSocketFrames(connectionId, limit);
+    sendResponse({ success: true, frames: frames || [] });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to get WebSocket frames:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Query failed' });
+  }
+}
+
 // Get analysis data handler - larger dataset for statistics
-async function handleGetAnalysisData(limit: number, sendResponse: (response: any) => void) {
+async function handleGetAnalysisData(limit: number, sessionIds: string[] | undefined, sendResponse: SendResponse) {
   try {
     console.log(`🔍 HandleGetAnalysisData: Getting ${limit} records for statistics analysis`)
     
@@ -1385,19 +1966,39 @@ async function handleGetAnalysisData(limit: number, sendResponse: (response: any
       await storageManager.init();
     }
     
-    // Get larger datasets for analysis without pagination
-    const [networkRequests, consoleErrors, tokenEvents, counts] = await Promise.all([
+    if (sessionIds?.length) {
+      const [apiCalls, errors, events] = await Promise.all([
+        storageManager.queryApiCalls({ sessionIds, limit }),
+        storageManager.queryConsoleErrors({ sessionIds, limit }),
+        storageManager.queryTokenEvents({ sessionIds, limit })
+      ]);
+      sendResponse({ 
+        success: true, 
+        data: {
+          networkRequests: apiCalls.records,
+          consoleErrors: errors.records,
+          tokenEvents: events.records,
+          totalRequests: apiCalls.total,
+          totalErrors: errors.total,
+          totalTokenEvents: events.total
+        }
+      });
+      return;
+    }
+    
+    // Recent records feed the per-domain breakdowns; aggregates give exact totals over everything
+    const [networkRequests, consoleErrors, tokenEvents, aggregates] = await Promise.all([
       storageManager.getApiCalls(limit, 0),
       storageManager.getConsoleErrors(limit, 0), 
       storageManager.getTokenEvents(limit, 0),
-      storageManager.getTableCounts()
+      storageManager.getAggregates()
     ]);
     
     console.log(`📊 HandleGetAnalysisData: Retrieved analysis data`, {
       networkRequests: networkRequests?.length || 0,
       consoleErrors: consoleErrors?.length || 0,
       tokenEvents: tokenEvents?.length || 0,
-      totalCounts: counts
+      totalRequests: aggregates.apiCalls.records
     });
     
     sendResponse({ 
@@ -1406,9 +2007,10 @@ async function handleGetAnalysisData(limit: number, sendResponse: (response: any
         networkRequests: networkRequests || [],
         consoleErrors: consoleErrors || [],
         tokenEvents: tokenEvents || [],
-        totalRequests: counts?.apiCalls || 0,
-        totalErrors: counts?.consoleErrors || 0,
-        totalTokenEvents: counts?.tokenEvents || 0
+        totalRequests: aggregates.apiCalls.records,
+        totalErrors: aggregates.consoleErrors.records,
+        totalTokenEvents: aggregates.tokenEvents.records,
+        aggregates
       }
     });
   } catch (error) {
@@ -1420,6 +2022,497 @@ async function handleGetAnalysisData(limit: number, sendResponse: (response: any
   }
 }
 
+// Time-series rollups for the timeline charts - a few rows per bucket regardless of range
+async function handleGetRollups(query: RollupQuery, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    if (!query || (query.source !== 'apiCalls' && query.source !== 'consoleErrors') || !(query.from <= query.to)) {
+      sendResponse({ success: false, error: 'Rollup query needs a source and a from/to range' });
+      return;
+    }
+    
+    const series = await storageManager.queryRollups(query);
+    sendResponse({ success: true, series });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to query rollups:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Rollup query failed' });
+  }
+}
+
+// One batch of HAR entries per message; the dashboard asks again with nextId until it is null
+async function handleExportHar(filter: ApiCallFilter, afterId: number | null, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const batch = await storageManager.readApiCallBatch(filter, afterId, HAR_EXPORT_BATCH_SIZE);
+    sendResponse({ success: true, entries: batch.records.map(apiCallToHarEntry), nextId: batch.nextKey });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to export HAR:', error);
+    sendResponse({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'HAR export failed' 
+    });
+  }
+}
+
+// HAR files hold whatever the recording browser saw, so imports get the same masking as live capture
+function redactImportedCall(call: Omit<ApiCall, 'id'>, rules: RedactionRule[]): Omit<ApiCall, 'id'> {
+  const redaction = redactRequest({
+    url: call.url,
+    headers: JSON.parse(call.headers) as RedactableRequest['headers'],
+    requestBody: call.request_body,
+    responseBody: call.response_body
+  }, rules);
+  if (redaction.redactedFields.length === 0) {
+    return call;
+  }
+  return {
+    ...call,
+    url: redaction.url,
+    headers: JSON.stringify(redaction.headers),
+    request_body: redaction.requestBody || undefined,
+    response_body: redaction.responseBody || call.response_body,
+    redacted_fields: redaction.redactedFields
+  };
+}
+
+// --- HAR import ---
+// The dashboard parses the file and sends its entries in batches of HAR_IMPORT_BATCH_SIZE, so no
+// single message carries the whole log. An import in progress is keyed by its import id.
+interface PendingHarImport {
+  name: string;
+  imported: number;
+  skipped: number;
+}
+
+const pendingHarImports = new Map<string, PendingHarImport>();
+
+function getPendingHarImport(importId: unknown): PendingHarImport {
+  const pending = typeof importId === 'string' ? pendingHarImports.get(importId) : undefined;
+  if (!pending) {
+    throw new Error('The HAR import was interrupted; start it again');
+  }
+  return pending;
+}
+
+async function handleBeginHarImport(name: unknown, sendResponse: SendResponse) {
+  const importId = generateImportId();
+  pendingHarImports.set(importId, { name: typeof name === 'string' && name ? name : 'Imported HAR', imported: 0, skipped: 0 });
+  sendResponse({ success: true, importId });
+}
+
+// Stores one batch of entries as API calls tagged with the import id
+async function handleImportHarBatch(importId: string, entries: unknown, sendResponse: SendResponse) {
+  try {
+    const pending = getPendingHarImport(importId);
+    if (!Array.isArray(entries)) {
+      throw new Error('HAR batch is not a list of entries');
+    }
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const settingsResult = await chrome.storage.local.get(['settings']);
+    const networkConfig = resolveNetworkConfig(settingsResult.settings?.networkInterception || {});
+    const redactionRules = networkConfig.privacy?.redactionRules || DEFAULT_REDACTION_RULES;
+    
+    for (const entry of entries) {
+      if (!isHarEntry(entry)) {
+        pending.skipped++;
+        continue;
+      }
+      try {
+        const call = harEntryToApiCall(entry, importId, extractMainDomain(entry.request.url));
+        await storageManager.insertApiCall(networkConfig.privacy?.autoRedact ? redactImportedCall(call, redactionRules) : call);
+        pending.imported++;
+      } catch (error) {
+        console.warn('⚠️ HandleImportHarBatch: Skipping entry that failed to store:', entry.request.url, error);
+        pending.skipped++;
+      }
+    }
+    
+    sendResponse({ success: true, imported: pending.imported });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to import HAR:', error);
+    sendResponse({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'HAR import failed' 
+    });
+  }
+}
+
+// Records the import once every batch is stored, so it can be listed and deleted as a unit
+async function handleFinishHarImport(importId: string, sendResponse: SendResponse) {
+  try {
+    const pending = getPendingHarImport(importId);
+    pendingHarImports.delete(importId);
+    
+    const info: HarImportInfo = { id: importId, name: pending.name, importedAt: Date.now(), entryCount: pending.imported };
+    const result = await chrome.storage.local.get(['harImports']);
+    await chrome.storage.local.set({ harImports: [...(result.harImports || []), info] });
+    
+    console.log(`📥 HandleFinishHarImport: Imported ${pending.imported} entries as ${importId} (${pending.skipped} skipped)`);
+    try {
+      chrome.runtime.sendMessage({
+        type: 'DATA_UPDATED',
+        dataType: 'network_request'
+      });
+    } catch (notifyError) {
+      // Dashboard might not be open, ignore error
+    }
+    
+    sendResponse({ success: true, import: info, skipped: pending.skipped });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to import HAR:', error);
+    sendResponse({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'HAR import failed' 
+    });
+  }
+}
+
+// Delete every API call from one HAR import and forget its metadata
+async function handleDeleteHarImport(importId: string, sendResponse: SendResponse) {
+  try {
+    if (!importId) {
+      sendResponse({ success: false, error: 'No import ID provided' });
+      return;
+    }
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const deleted = await storageManager.deleteApiCallsByImport(importId);
+    const result = await chrome.storage.local.get(['harImports']);
+    const remaining = (result.harImports || []).filter((info: HarImportInfo) => info.id !== importId);
+    await chrome.storage.local.set({ harImports: remaining });
+    
+    sendResponse({ success: true, deleted });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to delete HAR import:', error);
+    sendResponse({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'HAR import deletion failed' 
+    });
+  }
+}
+
+// --- Capture Sessions ---
+async function getActiveSessionId(): Promise<string | undefined> {
+  const result = await chrome.storage.local.get([ACTIVE_SESSION_KEY]);
+  return result[ACTIVE_SESSION_KEY] || undefined;
+}
+
+async function getCaptureSessions(): Promise<CaptureSession[]> {
+  const result = await chrome.storage.local.get([CAPTURE_SESSIONS_KEY]);
+  return result[CAPTURE_SESSIONS_KEY] || [];
+}
+
+async function handleStartCaptureSession(name: string | undefined, sendResponse: SendResponse) {
+  try {
+    const started = startSession(await getCaptureSessions(), name || '');
+    await chrome.storage.local.set({
+      [CAPTURE_SESSIONS_KEY]: started.sessions,
+      [ACTIVE_SESSION_KEY]: started.session.id
+    });
+    console.log('⏺️ BACKGROUND: Started capture session:', started.session.name);
+    sendResponse({ success: true, session: started.session });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to start capture session:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to start session' });
+  }
+}
+
+async function handleStopCaptureSession(sendResponse: SendResponse) {
+  try {
+    await chrome.storage.local.set({ [CAPTURE_SESSIONS_KEY]: endOpenSessions(await getCaptureSessions()) });
+    await chrome.storage.local.remove(ACTIVE_SESSION_KEY);
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to stop capture session:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to stop session' });
+  }
+}
+
+async function handleRenameCaptureSession(sessionId: string, name: string, sendResponse: SendResponse) {
+  try {
+    if (!sessionId || !name?.trim()) {
+      sendResponse({ success: false, error: 'Session ID and name are required' });
+      return;
+    }
+    
+    const sessions = await getCaptureSessions();
+    await chrome.storage.local.set({
+      [CAPTURE_SESSIONS_KEY]: sessions.map(session => (session.id === sessionId ? { ...session, name: name.trim() } : session))
+    });
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to rename capture session:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to rename session' });
+  }
+}
+
+// Deletes the session's records as well as its metadata; stops it first if it is recording
+async function handleDeleteCaptureSession(sessionId: string, sendResponse: SendResponse) {
+  try {
+    if (!sessionId) {
+      sendResponse({ success: false, error: 'No session ID provided' });
+      return;
+    }
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    if (await getActiveSessionId() === sessionId) {
+      await chrome.storage.local.remove(ACTIVE_SESSION_KEY);
+    }
+    const deleted = await storageManager.deleteRecordsBySession(sessionId);
+    const remaining = (await getCaptureSessions()).filter(session => session.id !== sessionId);
+    await chrome.storage.local.set({ [CAPTURE_SESSIONS_KEY]: remaining });
+    
+    sendResponse({ success: true, deleted });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to delete capture session:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Session deletion failed' });
+  }
+}
+
+// --- Backup & Restore ---
+// The settings page assembles and parses the archive file; records travel in batches of
+// BACKUP_BATCH_SIZE so no single message carries a whole store
+async function handleBeginBackupExport(sendResponse: SendResponse) {
+  try {
+    const local = await chrome.storage.local.get(null);
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: Date.now(),
+      schemaVersion: DB_VERSION,
+      settings: local.settings || null,
+      metadata: Object.fromEntries(BACKUP_METADATA_KEYS.filter(key => Array.isArray(local[key])).map(key => [key, local[key]])),
+      tabState: Object.fromEntries(Object.entries(local).filter(([key]) => isTabStateKey(key)))
+    };
+    sendResponse({ success: true, header, stores: BACKUP_STORES });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to export backup:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Backup export failed' });
+  }
+}
+
+async function handleReadBackupBatch(storeName: unknown, afterKey: IDBValidKey | null, sendResponse: SendResponse) {
+  try {
+    if (!isBackupStoreName(storeName)) {
+      sendResponse({ success: false, error: `Unknown backup store "${storeName}"` });
+      return;
+    }
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const batch = await storageManager.readRecordBatch(storeName, afterKey, BACKUP_BATCH_SIZE);
+    sendResponse({
+      success: true,
+      records: batch.records.map(record => toBackupRecord(storeName, record)),
+      nextKey: batch.nextKey
+    });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to export backup:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Backup export failed' });
+  }
+}
+
+// A restore in progress: begun by beginBackupRestore, fed by restoreBackupBatch, applied by finishBackupRestore
+interface PendingRestore {
+  id: string;
+  header: BackupHeader;
+  report: RestoreReport;
+  indexes: Partial<Record<BackupStoreName, Map<string, BackupRecord>>>; // Local records by natural key, for merging
+}
+
+let pendingRestore: PendingRestore | null = null;
+
+function getPendingRestore(restoreId: unknown): PendingRestore {
+  if (!pendingRestore || pendingRestore.id !== restoreId) {
+    throw new Error('The restore was interrupted; start it again');
+  }
+  return pendingRestore;
+}
+
+// The page validates the whole archive with parseBackupArchive before it begins, so nothing is
+// cleared for a file that would be rejected halfway through
+async function handleBeginBackupRestore(input: unknown, mode: RestoreMode, sendResponse: SendResponse) {
+  try {
+    if (mode !== 'merge' && mode !== 'replace') {
+      sendResponse({ success: false, error: `Unknown restore mode "${mode}"` });
+      return;
+    }
+    const header = parseBackupHeader(input);
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    if (mode === 'replace') {
+      await storageManager.clearAllData();
+    }
+    pendingRestore = {
+      id: generateRestoreId(),
+      header,
+      report: {
+        mode,
+        formatVersion: header.formatVersion,
+        stores: {},
+        conflicts: [],
+        totalConflicts: 0,
+        settingsRestored: false,
+        tabStateRestored: 0
+      },
+      indexes: {}
+    };
+    sendResponse({ success: true, restoreId: pendingRestore.id });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to restore backup:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Backup restore failed' });
+  }
+}
+
+async function handleRestoreBackupBatch(restoreId: unknown, storeName: unknown, records: unknown, sendResponse: SendResponse) {
+  try {
+    const restore = getPendingRestore(restoreId);
+    if (!isBackupStoreName(storeName)) {
+      throw new Error(`Backup contains unknown store "${storeName}"`);
+    }
+    if (!Array.isArray(records)) {
+      throw new Error(`Backup store "${storeName}" is not a list of records`);
+    }
+    
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const { report } = restore;
+    if (report.mode === 'merge' && !restore.indexes[storeName]) {
+      restore.indexes[storeName] = await storageManager.indexBackupRecords(storeName);
+    }
+    const result = await storageManager.restoreRecords(storeName, records, report.mode, restore.indexes[storeName]);
+    const counts = report.stores[storeName] || { inserted: 0, duplicates: 0, conflicts: 0 };
+    report.stores[storeName] = {
+      inserted: counts.inserted + result.inserted,
+      duplicates: counts.duplicates + result.duplicates,
+      conflicts: counts.conflicts + result.conflicts.length
+    };
+    report.totalConflicts += result.conflicts.length;
+    report.conflicts.push(...result.conflicts.slice(0, Math.max(0, MAX_REPORTED_CONFLICTS - report.conflicts.length)));
+    
+    sendResponse({ success: true });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to restore backup:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Backup restore failed' });
+  }
+}
+
+// Applies settings, session and import metadata and tab state once every record is written
+async function handleFinishBackupRestore(restoreId: unknown, sendResponse: SendResponse) {
+  try {
+    const { header, report } = getPendingRestore(restoreId);
+    const { mode } = report;
+    pendingRestore = null;
+    
+    const local = await chrome.storage.local.get(null);
+    const updates: Record<string, unknown> = {};
+    
+    // Merging keeps every local settings section and only adds sections the local copy lacks
+    if (header.settings) {
+      if (mode === 'replace' || !local.settings) {
+        updates.settings = header.settings;
+        report.settingsRestored = true;
+      } else {
+        const differing = diffSettings(local.settings, header.settings);
+        report.totalConflicts += differing.length;
+        report.conflicts.push(...differing.slice(0, Math.max(0, MAX_REPORTED_CONFLICTS - report.conflicts.length)).map(key => ({ store: 'settings' as const, key })));
+        const missing = Object.keys(header.settings).filter(key => !(key in local.settings));
+        if (missing.length > 0) {
+          updates.settings = { ...local.settings, ...Object.fromEntries(missing.map(key => [key, header.settings![key]])) };
+          report.settingsRestored = true;
+        }
+      }
+    }
+    
+    // Session and HAR import lists merge by id; a session that is recording here keeps recording
+    const activeSessionId = await getActiveSessionId();
+    for (const key of BACKUP_METADATA_KEYS) {
+      let incoming = header.metadata[key];
+      if (!Array.isArray(incoming)) continue;
+      if (key === CAPTURE_SESSIONS_KEY) {
+        incoming = endOpenSessions(incoming as CaptureSession[]);
+      }
+      const existing: Array<{ id: string }> = mode === 'merge'
+        ? local[key] || []
+        : key === CAPTURE_SESSIONS_KEY ? (local[key] || []).filter((session: CaptureSession) => session.id === activeSessionId) : [];
+      const known = new Set(existing.map(item => item?.id));
+      updates[key] = [...existing, ...incoming.filter(item => !known.has(item?.id))];
+    }
+    
+    // Tab ids are reassigned by the browser, so restored tab state only matters for tabs that line up
+    const tabEntries = Object.entries(header.tabState)
+      .filter(([key]) => isTabStateKey(key) && (mode === 'replace' || !(key in local)));
+    if (mode === 'replace') {
+      await chrome.storage.local.remove(Object.keys(local).filter(isTabStateKey));
+    }
+    for (const [key, value] of tabEntries) {
+      updates[key] = value;
+    }
+    report.tabStateRestored = tabEntries.length;
+    
+    await chrome.storage.local.set(updates);
+    
+    console.log(`📥 HandleFinishBackupRestore: ${mode} restore finished with ${report.totalConflicts} conflicts`, report.stores);
+    try {
+      chrome.runtime.sendMessage({
+        type: 'DATA_UPDATED',
+        dataType: 'network_request'
+      });
+    } catch (notifyError) {
+      // Dashboard might not be open, ignore error
+    }
+    
+    sendResponse({ success: true, report });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to restore backup:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Backup restore failed' });
+  }
+}
+
+// --- Retention Policies ---
+// The auto-pruner runs inside the storage layer, so it gets the policies pushed from settings
+async function syncRetentionPolicies(): Promise<void> {
+  const result = await chrome.storage.local.get(['settings']);
+  const policies: RetentionPolicy[] = result.settings?.retention?.policies || [];
+  storageManager.setRetentionPolicies(policies);
+}
+
+async function handlePreviewRetention(policies: RetentionPolicy[] | undefined, sendResponse: SendResponse) {
+  try {
+    if (!storageManager.isConnected()) {
+      await storageManager.init();
+    }
+    
+    const report = await storageManager.pruneOldData({ dryRun: true, policies });
+    sendResponse({ success: true, report });
+  } catch (error) {
+    console.error('[Web App Monitor] Failed to preview retention policies:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Retention preview failed' });
+  }
+}
+
 // MEMORY LEAK FIX: Guard against duplicate listener registration
 let listenersRegistered = false
 
@@ -1543,6 +2636,16 @@ if (!listenersRegistered) {
           await handleNetworkRequest(message.data, sendResponse, sender);
           break;
 
+        case 'WEBSOCKET_EVENT':
+          // Store WebSocket connection snapshot or frame from content script
+          await handleWebSocketEvent(message.data, sendResponse, sender);
+          break;
+
+        case 'LIBRARIES_DETECTED':
+          // Store libraries fingerprinted by the main-world script
+          await handleLibrariesDetected(message.data, sendResponse, sender);
+          break;
+
         case 'CONSOLE_ERROR':
           // Store console error data from content script
           await handleConsoleError(message.data, sendResponse, sender);
@@ -1550,7 +2653,83 @@ if (!listenersRegistered) {
 
         case 'getNetworkRequests':
           // MEMORY LEAK FIX: Get paginated network requests with offset
-          await handleGetNetworkRequests(message.limit || 50, message.offset || 0, sendResponse);
+          await handleGetNetworkRequests(message.limit || 50, message.offset || 0, message.sessionIds, sendResponse);
+          break;
+
+        case 'exportHar':
+          // Export API calls (optionally filtered by method/search/main domain) as HAR 1.2
+          await handleExportHar(message.filter || {}, message.afterId ?? null, sendResponse);
+          break;
+
+        case 'beginHarImport':
+          // Start importing a HAR log as tagged API calls; the entries follow in batches
+          await handleBeginHarImport(message.name, sendResponse);
+          break;
+
+        case 'importHarBatch':
+          await handleImportHarBatch(message.importId, message.entries, sendResponse);
+          break;
+
+        case 'finishHarImport':
+          await handleFinishHarImport(message.importId, sendResponse);
+          break;
+
+        case 'getHarImports': {
+          const result = await chrome.storage.local.get(['harImports']);
+          sendResponse({ success: true, imports: result.harImports || [] });
+          break;
+        }
+
+        case 'getCaptureSessions': {
+          const [sessions, activeSessionId] = await Promise.all([getCaptureSessions(), getActiveSessionId()]);
+          sendResponse({ success: true, sessions, activeSessionId: activeSessionId || null });
+          break;
+        }
+
+        case 'startCaptureSession':
+          await handleStartCaptureSession(message.name, sendResponse);
+          break;
+
+        case 'stopCaptureSession':
+          await handleStopCaptureSession(sendResponse);
+          break;
+
+        case 'renameCaptureSession':
+          await handleRenameCaptureSession(message.sessionId, message.name, sendResponse);
+          break;
+
+        case 'deleteCaptureSession':
+          await handleDeleteCaptureSession(message.sessionId, sendResponse);
+          break;
+
+        case 'beginBackupExport':
+          await handleBeginBackupExport(sendResponse);
+          break;
+
+        case 'readBackupBatch':
+          await handleReadBackupBatch(message.storeName, message.afterKey ?? null, sendResponse);
+          break;
+
+        case 'beginBackupRestore':
+          await handleBeginBackupRestore(message.header, message.mode, sendResponse);
+          break;
+
+        case 'restoreBackupBatch':
+          await handleRestoreBackupBatch(message.restoreId, message.storeName, message.records, sendResponse);
+          break;
+
+        case 'finishBackupRestore':
+          await handleFinishBackupRestore(message.restoreId, sendResponse);
+          break;
+
+        case 'previewRetention':
+          // Dry run; the settings page passes its unsaved policies so edits can be previewed
+          await handlePreviewRetention(message.policies, sendResponse);
+          break;
+
+        case 'deleteHarImport':
+          // Remove one HAR import as a unit without touching live data
+          await handleDeleteHarImport(message.importId, sendResponse);
           break;
 
 
@@ -1562,12 +2741,72 @@ if (!listenersRegistered) {
 
         case 'getConsoleErrors':
           // MEMORY LEAK FIX: Get paginated console errors with offset
-          await handleGetConsoleErrors(message.limit || 50, message.offset || 0, sendResponse);
+          await handleGetConsoleErrors(message.limit || 50, message.offset || 0, message.sessionIds, sendResponse);
           break;
 
         case 'getTokenEvents':
           // MEMORY LEAK FIX: Get paginated token events with offset
-          await handleGetTokenEvents(message.limit || 50, message.offset || 0, sendResponse);
+          await handleGetTokenEvents(message.limit || 50, message.offset || 0, message.sessionIds, sendResponse);
+          break;
+
+        case 'queryApiCalls':
+          await handleQueryRecords(() => storageManager.queryApiCalls(message.query || {}), sendResponse);
+          break;
+
+        case 'queryConsoleErrors':
+          await handleQueryRecords(() => storageManager.queryConsoleErrors(message.query || {}), sendResponse);
+          break;
+
+        case 'queryTokenEvents':
+          await handleQueryRecords(() => storageManager.queryTokenEvents(message.query || {}), sendResponse);
+          break;
+
+        case 'getWebSocketConnections':
+          await handleGetWebSocketConnections(message.limit || 50, message.offset || 0, sendResponse);
+          break;
+
+        case 'symbolicateStack':
+          if (typeof message.stack !== 'string') {
+            sendResponse({ success: false, error: 'No stack trace provided' });
+            break;
+          }
+          await handleSymbolicateStack(message.stack, sendResponse);
+          break;
+
+        case 'clearSourceMapCache':
+          await handleClearSourceMapCache(sendResponse);
+          break;
+
+        case 'testTokenRules':
+          await handleTestTokenRules(message.rules, message.limit || 500, sendResponse);
+          break;
+
+        case 'getTokenLifecycles':
+          await handleGetTokenLifecycles(message.query || {}, sendResponse);
+          break;
+
+        case 'getJwtObservations':
+          await handleGetJwtObservations(message.query || {}, sendResponse);
+          break;
+
+        case 'getLibraryInventory':
+          await handleGetLibraryInventory(message.limit || 2000, sendResponse);
+          break;
+
+        case 'getAdvisoryDataset':
+          await handleGetAdvisoryDataset(sendResponse);
+          break;
+
+        case 'updateAdvisoryDataset':
+          await handleUpdateAdvisoryDataset(message.dataset, sendResponse);
+          break;
+
+        case 'getWebSocketFrames':
+          if (!message.connectionId) {
+            sendResponse({ success: false, error: 'No connection ID provided' });
+            break;
+          }
+          await handleGetWebSocketFrames(message.connectionId, message.limit || 500, sendResponse);
           break;
 
         case 'getMemoryUsage':
@@ -1603,9 +2842,26 @@ if (!listenersRegistered) {
           }
           break;
 
+        case 'getMigrationStatus':
+          // Schema upgrade progress, including the failing step when an upgrade was rolled back
+          try {
+            await ensureStorageInitialized().catch(() => undefined);
+            const migrationStatus = await storageManager.getMigrationStatus();
+            sendResponse({ success: true, data: migrationStatus });
+          } catch (error) {
+            console.error('Failed to get migration status:', error);
+            sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+          break;
+
+        case 'getRollups':
+          // Minute/hour/day buckets for the timeline charts, over any range
+          await handleGetRollups(message.query, sendResponse);
+          break;
+
         case 'getAnalysisData':
           // Get larger dataset for statistics analysis (not paginated)
-          await handleGetAnalysisData(message.limit || 200, sendResponse);
+          await handleGetAnalysisData(message.limit || 200, message.sessionIds, sendResponse);
           break;    case 'getStorageAnalysis':
       // Get detailed storage usage analysis with actual byte sizes
       (async () => {
@@ -1616,43 +2872,34 @@ if (!listenersRegistered) {
           const analysis = {
             totalBytes: 0,
             totalEntries: 0,
-            tableBreakdown: {} as Record<string, { entries: number, bytes: number }>
+            tableBreakdown: {} as Record<string, { entries: number, bytes: number }>,
+            bodyStore: null as BodyStoreStats | null
           };
           
-          // Analyze API calls
-          const apiCalls = await storageManager.getApiCalls(10000); // Get many records
-          if (apiCalls && apiCalls.length > 0) {
-            const apiCallsSize = JSON.stringify(apiCalls).length;
-            analysis.tableBreakdown.api_calls = {
-              entries: apiCalls.length,
-              bytes: apiCallsSize
-            };
-            analysis.totalBytes += apiCallsSize;
-            analysis.totalEntries += apiCalls.length;
-          }
-          
-          // Analyze console errors
-          const consoleErrors = await storageManager.getConsoleErrors(10000);
-          if (consoleErrors && consoleErrors.length > 0) {
-            const errorsSize = JSON.stringify(consoleErrors).length;
-            analysis.tableBreakdown.console_errors = {
-              entries: consoleErrors.length,
-              bytes: errorsSize
-            };
-            analysis.totalBytes += errorsSize;
-            analysis.totalEntries += consoleErrors.length;
+          // Running per-table totals cover every record without reading any of them
+          const aggregates = await storageManager.getAggregates();
+          for (const [table, label] of Object.entries(STORAGE_ANALYSIS_TABLES)) {
+            const aggregate = aggregates[table as AggregateTable];
+            if (aggregate.records > 0) {
+              analysis.tableBreakdown[label] = {
+                entries: aggregate.records,
+                bytes: aggregate.bytes
+              };
+              analysis.totalBytes += aggregate.bytes;
+              analysis.totalEntries += aggregate.records;
+            }
           }
           
-          // Analyze token events
-          const tokenEvents = await storageManager.getTokenEvents(10000);
-          if (tokenEvents && tokenEvents.length > 0) {
-            const eventsSize = JSON.stringify(tokenEvents).length;
-            analysis.tableBreakdown.token_events = {
-              entries: tokenEvents.length,
-              bytes: eventsSize
+          // Content-addressed bodies: stored once per distinct payload, gzipped
+          const bodyStore = await storageManager.getBodyStoreStats();
+          analysis.bodyStore = bodyStore;
+          if (bodyStore.bodies > 0) {
+            analysis.tableBreakdown.bodies = {
+              entries: bodyStore.bodies,
+              bytes: bodyStore.storedBytes
             };
-            analysis.totalBytes += eventsSize;
-            analysis.totalEntries += tokenEvents.length;
+            analysis.totalBytes += bodyStore.storedBytes;
+            analysis.totalEntries += bodyStore.bodies;
           }
           
           console.log('📊 Storage analysis complete:', analysis);
@@ -1784,12 +3031,18 @@ if ('memory' in performance) {
 // Initialize storage manager at startup to prevent "Database not initialized" errors
 (async () => {
   try {
+    await syncRetentionPolicies();
     await ensureStorageInitialized();
   } catch (error) {
     console.error('❌ Storage initialization failed at startup:', error);
   }
 })();
 
+// Debugger-based body capture for full body capture mode (no-op unless enabled in settings)
+bodyCaptureDebugger.initialize().catch(error => {
+  console.error('❌ Failed to initialize body capture debugger:', error);
+});
+
 // MEMORY LEAK FIX: Guard remaining listeners against duplication
 if (!listenersRegistered) {
   // Add a startup ping to keep service worker active
@@ -1803,8 +3056,8 @@ if (!listenersRegistered) {
 
   chrome.runtime.onInstalled.addListener(() => {
     console.log('🎉 Extension installed/updated');
-    // Re-initialize storage on install/update
-    ensureStorageInitialized().catch(error => {
+    // Re-initialize storage on install/update; an update may bundle newer advisories
+    ensureStorageInitialized().then(() => refreshLibraryAdvisories()).catch(error => {
       console.error('❌ Failed to initialize storage on install:', error);
     });
   });
@@ -1825,6 +3078,28 @@ if (!listenersRegistered) {
     });
   });
   
+  // Attach/detach the body capture debugger as tab logging is toggled from the popup, and keep
+  // the pruner on the latest retention policies
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local') return;
+    if (changes.settings) {
+      syncRetentionPolicies().catch(error => {
+        console.error('❌ Failed to sync retention policies:', error);
+      });
+    }
+    for (const key of Object.keys(changes)) {
+      if (!key.startsWith('tabLogging_')) continue;
+      const tabId = Number(key.slice('tabLogging_'.length));
+      const tabState = changes[key].newValue;
+      const active = typeof tabState === 'boolean' ? tabState : !!tabState?.active;
+      if (active) {
+        bodyCaptureDebugger.attachToTab(tabId);
+      } else if (bodyCaptureDebugger.isAttachedToTab(tabId)) {
+        bodyCaptureDebugger.detachFromTab(tabId);
+      }
+    }
+  });
+  
   // MEMORY LEAK FIX: Mark all listeners as registered
   listenersRegistered = true;
 }
\ No newline at end of file
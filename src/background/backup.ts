@@ -0,0 +1,188 @@
+// Versioned backup archive of everything the extension keeps: every IndexedDB record store,
+// settings, capture session and HAR import metadata, and per-tab logging state.
+// Bump BACKUP_FORMAT_VERSION whenever the archive layout changes and teach
+// parseBackupArchive to read the older versions.
+
+export const BACKUP_FORMAT = 'web-app-monitor-backup';
+export const BACKUP_FORMAT_VERSION = 3; // v2 added tokenLifecycles, v3 jwtObservations
+
+export type BackupStoreName = 'apiCalls' | 'consoleErrors' | 'tokenEvents' | 'minifiedLibraries' | 'webSocketConnections' | 'webSocketFrames' | 'tokenLifecycles' | 'jwtObservations';
+
+// Token lifecycles and JWT observations are keyed by a fingerprint salted per installation:
+// restored ones keep their history, but a token seen again on another profile gets a new record
+export const BACKUP_STORES: BackupStoreName[] = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames', 'tokenLifecycles', 'jwtObservations'];
+
+// chrome.storage.local keys holding per-tab logging toggles and counters
+export const TAB_STATE_PREFIXES = ['tabLogging_', 'tabErrorLogging_', 'tabTokenLogging_'];
+
+// chrome.storage.local keys carried alongside settings; both hold arrays of objects with an id
+export const BACKUP_METADATA_KEYS = ['captureSessions', 'harImports'];
+
+// Records move between the settings page and the background in batches of this size, so no
+// single message has to carry a whole store
+export const BACKUP_BATCH_SIZE = 200;
+
+export type RestoreMode = 'merge' | 'replace';
+
+// A record of any backup store as it is read from or written to IndexedDB
+export type BackupRecord = Record<string, unknown>;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: number;
+  schemaVersion: number; // IndexedDB version the records were read from
+  stores: Partial<Record<BackupStoreName, BackupRecord[]>>;
+  settings: Record<string, unknown> | null;
+  metadata: Record<string, Array<{ id: string }>>;
+  tabState: Record<string, unknown>;
+}
+
+// Everything but the records, which are exported and restored store by store
+export type BackupHeader = Omit<BackupArchive, 'stores'>;
+
+export interface BackupConflict {
+  store: BackupStoreName | 'settings';
+  key: string; // Natural key of the record, or the settings path
+  localId?: number | string;
+}
+
+export interface RestoreStoreResult {
+  inserted: number;
+  duplicates: number; // Identical to a local record, skipped
+  conflicts: BackupConflict[]; // Same natural key but different content; the local record is kept
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  formatVersion: number;
+  stores: Partial<Record<BackupStoreName, { inserted: number; duplicates: number; conflicts: number }>>;
+  conflicts: BackupConflict[]; // Capped at MAX_REPORTED_CONFLICTS
+  totalConflicts: number;
+  settingsRestored: boolean;
+  tabStateRestored: number;
+}
+
+export const MAX_REPORTED_CONFLICTS = 100;
+
+// Fields derived by the body store; archives carry bodies inline so they restore into any database
+const DERIVED_API_CALL_FIELDS = ['request_body_hash', 'response_body_hash', 'request_body_size', 'response_body_size', 'body_hashes'];
+
+export function toBackupRecord(storeName: BackupStoreName, record: BackupRecord): BackupRecord {
+  if (storeName !== 'apiCalls') return record;
+  const copy = { ...record };
+  for (const field of DERIVED_API_CALL_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+// Identity that survives moving between databases, where auto-increment ids collide
+export function backupRecordKey(storeName: BackupStoreName, record: BackupRecord): string {
+  switch (storeName) {
+    case 'apiCalls':
+      return `${record.method} ${record.url} @${record.timestamp} tab:${record.tab_id ?? ''}`;
+    case 'consoleErrors':
+      return `${record.severity} ${record.url} @${record.timestamp} ${record.message}`;
+    case 'tokenEvents':
+      return `${record.kind} ${record.value_hash} @${record.timestamp} ${record.source_url}`;
+    case 'minifiedLibraries':
+      return `${record.name}@${record.version} ${record.url} ${record.main_domain ?? ''}`;
+    case 'webSocketConnections':
+      return String(record.id);
+    case 'webSocketFrames':
+      return `${record.connection_id} ${record.direction} @${record.timestamp} ${record.size}`;
+    case 'tokenLifecycles':
+    case 'jwtObservations':
+      return String(record.fingerprint);
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Database ids differ between machines, so they are ignored when comparing content
+export function backupRecordsEqual(storeName: BackupStoreName, local: BackupRecord, incoming: BackupRecord): boolean {
+  const comparable = (record: BackupRecord) => {
+    const copy = { ...toBackupRecord(storeName, record) };
+    delete copy.id;
+    return copy;
+  };
+  return canonicalJson(comparable(local)) === canonicalJson(comparable(incoming));
+}
+
+export function isTabStateKey(key: string): boolean {
+  return TAB_STATE_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+// Top-level settings sections whose values differ between the local and the backed-up settings
+export function diffSettings(local: Record<string, unknown>, incoming: Record<string, unknown>): string[] {
+  return Object.keys(incoming)
+    .filter(key => key in local && canonicalJson(local[key]) !== canonicalJson(incoming[key]))
+    .sort();
+}
+
+export function generateRestoreId(): string {
+  return `restore_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Validates the archive fields around the records; throws with a message fit for the user
+export function parseBackupHeader(input: unknown): BackupHeader {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Backup file is not a JSON object');
+  }
+  const archive = input as Partial<BackupArchive>;
+  if (archive.format !== BACKUP_FORMAT) {
+    throw new Error('File is not a Web App Monitor backup');
+  }
+  if (typeof archive.formatVersion !== 'number' || archive.formatVersion < 1) {
+    throw new Error('Backup has no valid format version');
+  }
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format v${archive.formatVersion} is newer than this extension supports (v${BACKUP_FORMAT_VERSION}); update the extension first`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: archive.formatVersion,
+    createdAt: typeof archive.createdAt === 'number' ? archive.createdAt : 0,
+    schemaVersion: typeof archive.schemaVersion === 'number' ? archive.schemaVersion : 0,
+    settings: archive.settings && typeof archive.settings === 'object' ? archive.settings : null,
+    metadata: archive.metadata && typeof archive.metadata === 'object' ? archive.metadata : {},
+    tabState: archive.tabState && typeof archive.tabState === 'object' ? archive.tabState : {}
+  };
+}
+
+export function isBackupStoreName(value: unknown): value is BackupStoreName {
+  return BACKUP_STORES.includes(value as BackupStoreName);
+}
+
+// Validates an uploaded file before anything is written; throws with a message fit for the user
+export function parseBackupArchive(input: unknown): BackupArchive {
+  const header = parseBackupHeader(input);
+  const { stores } = input as Partial<BackupArchive>;
+  if (!stores || typeof stores !== 'object') {
+    throw new Error('Backup contains no record stores');
+  }
+  for (const [storeName, records] of Object.entries(stores)) {
+    if (!isBackupStoreName(storeName)) {
+      throw new Error(`Backup contains unknown store "${storeName}"`);
+    }
+    if (!Array.isArray(records)) {
+      throw new Error(`Backup store "${storeName}" is not a list of records`);
+    }
+  }
+
+  return { ...header, stores };
+}
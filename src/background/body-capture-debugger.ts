@@ -3,15 +3,13 @@
  * 
  * This module uses the Chrome DevTools Protocol via chrome.debugger API
  * to capture request and response bodies when full body capture mode is enabled.
- * It works alongside the existing main-world script network in        // MEMORY LEAK FIX: Truncate large request bodies to prevent memory bloat
-        requestInfo.requestBody = this.truncateBodyIfNeeded((response as any).postData);
-        session.requestData.set(requestId, requestInfo);
-        console.log('[BodyCaptureDebugger] Captured request body for:', requestId, 'Length:', requestInfo.requestBody.length);
-        
-        // MEMORY LEAK FIX: Immediate cleanup if session has too many requests
-        this.cleanupSessionIfNeeded(session);eption.
+ * It works alongside the existing main-world script network interception:
+ * bodies captured here are merged into the stored ApiCall records by URL and timing.
  */
 
+import { resolveNetworkConfig } from './profiles';
+import type { BodySource } from './storage-types';
+
 // MEMORY LEAK FIX: External delay function to prevent closure capture
 function createDelayPromise(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
@@ -20,6 +18,33 @@ function createDelayPromise(ms: number): Promise<void> {
 // Use the external function
 const delay = createDelayPromise
 
+export interface CapturedBodies {
+  requestBody?: string;
+  responseBody?: string;
+  contentType?: string;
+  setCookies?: string[]; // Raw Set-Cookie headers, which the page hook cannot read
+}
+
+// Only requests the page hook can also see are tracked, so images/scripts don't flood the session
+const TRACKED_RESOURCE_TYPES = new Set(['XHR', 'Fetch']);
+
+// Decode a base64 CDP body as UTF-8 (atob alone mangles multi-byte characters)
+function decodeBase64Body(body: string): string {
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Prefer the CDP body when the page hook got nothing or a truncated copy of it
+export function chooseBody(pageBody: string | null | undefined, cdpBody: string | null | undefined): { body: string | null; source?: BodySource } {
+  if (!cdpBody) return { body: pageBody || null, source: pageBody ? 'page' : undefined };
+  if (!pageBody || cdpBody.length > pageBody.length) return { body: cdpBody, source: 'debugger' };
+  return { body: pageBody, source: 'page' };
+}
+
 interface DebuggerSession {
   tabId: number;
   attached: boolean;
@@ -30,6 +55,8 @@ interface DebuggerSession {
     requestBody?: any;
     responseBody?: any;
     contentType?: string;
+    setCookies?: string[];
+    finished?: boolean; // Loading finished/failed and body retrieval has completed
   }>;
   lastCleanup: number; // Track last cleanup time
 }
@@ -42,7 +69,7 @@ class BodyCaptureDebugger {
   private apiAvailable = false;
   
   // MEMORY LEAK FIX: Aggressive memory management constants
-  private static readonly MAX_REQUESTS_PER_SESSION = 10; // Max 10 requests stored per tab
+  private static readonly MAX_REQUESTS_PER_SESSION = 25; // Max 25 requests stored per tab (entries are consumed once merged)
   private static readonly MAX_BODY_SIZE = 50000; // Max 50KB per body to prevent huge objects
   private static readonly CLEANUP_INTERVAL = 30000; // Clean up every 30 seconds
   private static readonly MAX_REQUEST_AGE = 60000; // Keep requests for max 1 minute
@@ -125,6 +152,8 @@ class BodyCaptureDebugger {
     try {
       const result = await chrome.storage.local.get('settings');
       this.settings = result.settings || {};
+      // Honour the active interception profile, same as handleNetworkRequest
+      this.settings.networkInterception = resolveNetworkConfig(this.settings.networkInterception || {});
       
       const bodyCapture = this.settings.networkInterception?.bodyCapture;
       const wasEnabled = this.enabled;
@@ -222,43 +251,35 @@ class BodyCaptureDebugger {
       case 'Network.responseReceived':
         this.handleResponseReceived(source.tabId, params);
         break;
+      case 'Network.responseReceivedExtraInfo':
+        this.handleResponseExtraInfo(source.tabId, params);
+        break;
       case 'Network.loadingFinished':
         this.handleLoadingFinished(source.tabId, params);
         break;
+      case 'Network.loadingFailed':
+        this.markFinished(source.tabId, params.requestId);
+        break;
     }
   }
 
   private async handleRequestWillBeSent(tabId: number, params: any) {
-    const { requestId, request } = params;
-    
-    console.log('[BodyCaptureDebugger] Request will be sent:', {
-      requestId,
-      url: request.url,
-      method: request.method,
-      headers: request.headers
-    });
+    const { requestId, request, type } = params;
     
     // Check if debugger API is still available
     if (!chrome.debugger) {
       return;
     }
     
-    // Only capture JSON content
-    const contentType = request.headers['Content-Type'] || request.headers['content-type'] || '';
-    if (!this.isJsonContent(contentType)) {
-      console.log('[BodyCaptureDebugger] Skipping non-JSON request:', contentType);
-      return;
-    }
-
-    // Check if we should capture request bodies
-    if (!this.settings.networkInterception?.bodyCapture?.captureRequests) {
-      console.log('[BodyCaptureDebugger] Request body capture disabled in settings');
+    if (!TRACKED_RESOURCE_TYPES.has(type)) {
       return;
     }
 
     const session = this.sessions.get(tabId);
     if (!session) return;
 
+    const contentType = request.headers['Content-Type'] || request.headers['content-type'] || '';
+
     // Store request info
     session.requestData.set(requestId, {
       url: request.url,
@@ -267,7 +288,24 @@ class BodyCaptureDebugger {
       contentType
     });
 
-    console.log('[BodyCaptureDebugger] Stored request info for:', requestId);
+    console.log('[BodyCaptureDebugger] Stored request info for:', requestId, request.method, request.url);
+
+    // Check if we should capture request bodies
+    if (!this.settings.networkInterception?.bodyCapture?.captureRequests) {
+      return;
+    }
+
+    // Small bodies are inlined in the event, larger ones have to be fetched
+    if (request.postData) {
+      const requestInfo = session.requestData.get(requestId);
+      if (requestInfo) {
+        requestInfo.requestBody = this.truncateBodyIfNeeded(request.postData);
+      }
+      return;
+    }
+    if (!request.hasPostData) {
+      return;
+    }
 
     try {
       // Get request body if available
@@ -294,36 +332,31 @@ class BodyCaptureDebugger {
 
   private handleResponseReceived(tabId: number, params: any) {
     const { requestId, response } = params;
-    
-    // Only process JSON responses
     const contentType = response.headers['Content-Type'] || response.headers['content-type'] || '';
-    if (!this.isJsonContent(contentType)) {
-      return;
-    }
-
-    // Check if we should capture response bodies
-    if (!this.settings.networkInterception?.bodyCapture?.captureResponses) {
-      return;
-    }
 
     const session = this.sessions.get(tabId);
     if (!session) return;
 
-    // Update or create request info
-    let requestInfo = session.requestData.get(requestId);
-    if (!requestInfo) {
-      requestInfo = {
-        url: response.url,
-        method: 'GET', // Default if not captured in request phase
-        timestamp: Date.now(),
-        contentType
-      };
-    }
+    // Only requests seen in the request phase (XHR/fetch) are tracked
+    const requestInfo = session.requestData.get(requestId);
+    if (!requestInfo) return;
     
     requestInfo.contentType = contentType;
     session.requestData.set(requestId, requestInfo);
   }
 
+  // Only the extra info event carries the raw headers, including Set-Cookie (one cookie per line)
+  private handleResponseExtraInfo(tabId: number, params: { requestId: string; headers?: Record<string, unknown> }) {
+    const requestInfo = this.sessions.get(tabId)?.requestData.get(params.requestId);
+    if (!requestInfo || !params.headers) return;
+
+    const setCookie = Object.entries(params.headers).find(([name]) => name.toLowerCase() === 'set-cookie')?.[1];
+    if (typeof setCookie === 'string' && setCookie) {
+      // Redirect hops share the request id, so cookies set along the way accumulate
+      requestInfo.setCookies = [...(requestInfo.setCookies || []), ...setCookie.split('\n').filter(Boolean)];
+    }
+  }
+
   private async handleLoadingFinished(tabId: number, params: any) {
     const { requestId } = params;
     const session = this.sessions.get(tabId);
@@ -335,7 +368,13 @@ class BodyCaptureDebugger {
     }
 
     const requestInfo = session.requestData.get(requestId);
-    if (!requestInfo || !this.isJsonContent(requestInfo.contentType || '')) return;
+    if (!requestInfo) return;
+
+    // Binary payloads (images, media, fonts...) are not worth storing as text
+    if (!this.settings.networkInterception?.bodyCapture?.captureResponses || !this.isTextContent(requestInfo.contentType || '')) {
+      requestInfo.finished = true;
+      return;
+    }
 
     console.log('[BodyCaptureDebugger] Loading finished for:', requestId, 'URL:', requestInfo.url);
 
@@ -351,7 +390,7 @@ class BodyCaptureDebugger {
         // Decode if base64 encoded
         let body = (response as any).body;
         if ((response as any).base64Encoded) {
-          body = atob(body);
+          body = decodeBase64Body(body);
         }
         
         // MEMORY LEAK FIX: Truncate large response bodies to prevent memory bloat
@@ -370,6 +409,14 @@ class BodyCaptureDebugger {
     } catch (error) {
       console.debug(`[BodyCaptureDebugger] Could not get response body for ${requestId}:`, (error as Error).message);
     }
+    requestInfo.finished = true;
+  }
+
+  private markFinished(tabId: number, requestId: string) {
+    const requestInfo = this.sessions.get(tabId)?.requestData.get(requestId);
+    if (requestInfo) {
+      requestInfo.finished = true;
+    }
   }
 
   private onDebuggerDetach(source: chrome.debugger.Debuggee, reason: string) {
@@ -379,10 +426,13 @@ class BodyCaptureDebugger {
     }
   }
 
-  private isJsonContent(contentType: string): boolean {
-    return contentType.includes('application/json') || 
-           contentType.includes('text/json') ||
-           contentType.includes('+json');
+  // Anything that isn't obviously binary is captured (JSON, XML, HTML, text, form data, GraphQL...)
+  private isTextContent(contentType: string): boolean {
+    const mime = contentType.split(';')[0].trim().toLowerCase();
+    if (!mime) return true;
+    if (/^(image|audio|video|font)\//.test(mime)) return false;
+    return !['application/octet-stream', 'application/pdf', 'application/zip', 'application/wasm'].includes(mime) &&
+           !mime.includes('protobuf');
   }
 
   // Method to get captured bodies for a request by URL and timing correlation
@@ -447,6 +497,40 @@ class BodyCaptureDebugger {
     return {};
   }
 
+  // Wait (briefly) for the CDP side of a request the page hook just reported, then consume it.
+  // The page hook often reports before Network.getResponseBody has resolved.
+  async waitForCapturedBodies(tabId: number, url: string, timestamp: number, timeoutMs = 1000): Promise<CapturedBodies> {
+    const deadline = Date.now() + timeoutMs;
+    
+    for (;;) {
+      const session = this.sessions.get(tabId);
+      if (!session) return {};
+
+      let matchId: string | null = null;
+      let smallestTimeDiff = Infinity;
+      for (const [requestId, requestInfo] of session.requestData.entries()) {
+        const timeDiff = Math.abs(requestInfo.timestamp - timestamp);
+        if (requestInfo.url === url && timeDiff < smallestTimeDiff && timeDiff < 5000) { // Within 5 seconds
+          smallestTimeDiff = timeDiff;
+          matchId = requestId;
+        }
+      }
+      if (!matchId) return {};
+
+      const match = session.requestData.get(matchId)!;
+      if (match.finished || Date.now() >= deadline) {
+        session.requestData.delete(matchId);
+        return {
+          requestBody: match.requestBody,
+          responseBody: match.responseBody,
+          contentType: match.contentType,
+          setCookies: match.setCookies
+        };
+      }
+      await delay(50);
+    }
+  }
+
   // Method to get captured bodies for a request (legacy support)
   getCapturedBodies(tabId: number, requestId: string): { requestBody?: any, responseBody?: any } {
     const session = this.sessions.get(tabId);
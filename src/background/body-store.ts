@@ -0,0 +1,60 @@
+// Content-addressed storage for large request/response bodies. Bodies are keyed by the SHA-256
+// of their text and gzipped with CompressionStream, so a polling endpoint that keeps returning
+// the same payload is stored once no matter how many API calls reference it.
+
+export interface StoredBody {
+  hash: string // SHA-256 hex digest of the uncompressed body
+  data: ArrayBuffer | string // gzip bytes, or the raw text when CompressionStream is unavailable
+  encoding: 'gzip' | 'identity'
+  size: number // Uncompressed length in characters
+  stored_size: number // Bytes kept after compression
+  created_at: number
+  last_used_at: number // Refreshed on every dedup hit so a concurrent sweep leaves the body alone
+}
+
+export interface BodyStoreStats {
+  bodies: number // Unique bodies in the store
+  references: number // API call bodies pointing into the store
+  logicalBytes: number // Size of every referenced body as if each call kept its own copy
+  uniqueBytes: number // Uncompressed size of each stored body counted once
+  storedBytes: number // Bytes actually stored after compression
+  dedupRatio: number // logicalBytes / uniqueBytes (1 = no duplicates)
+  compressionRatio: number // uniqueBytes / storedBytes
+}
+
+// Smaller bodies stay inline; hashing and a second store lookup would cost more than they save
+export const BODY_STORE_THRESHOLD = 1024
+
+// Bodies touched this recently are never swept, covering the gap between storing a body and
+// inserting the API call that references it
+export const BODY_SWEEP_GRACE_MS = 5 * 60 * 1000
+
+export async function hashBody(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function compressBody(text: string): Promise<Pick<StoredBody, 'data' | 'encoding' | 'stored_size'>> {
+  if (typeof CompressionStream === 'undefined') {
+    return { data: text, encoding: 'identity', stored_size: text.length }
+  }
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))
+  const data = await new Response(stream).arrayBuffer()
+  return { data, encoding: 'gzip', stored_size: data.byteLength }
+}
+
+export async function decompressBody(body: StoredBody): Promise<string> {
+  if (body.encoding === 'identity' || typeof body.data === 'string') {
+    return String(body.data)
+  }
+  const stream = new Blob([body.data]).stream().pipeThrough(new DecompressionStream('gzip'))
+  return new Response(stream).text()
+}
+
+export function createBodyStoreStats(totals: Omit<BodyStoreStats, 'dedupRatio' | 'compressionRatio'>): BodyStoreStats {
+  return {
+    ...totals,
+    dedupRatio: totals.uniqueBytes > 0 ? totals.logicalBytes / totals.uniqueBytes : 1,
+    compressionRatio: totals.storedBytes > 0 ? totals.uniqueBytes / totals.storedBytes : 1
+  }
+}
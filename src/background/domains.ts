@@ -0,0 +1,23 @@
+// Domain grouping shared by live capture and storage migrations
+
+// Utility function to extract main domain from any URL
+export function extractMainDomain(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const hostname = urlObj.hostname;
+    
+    // Remove 'www.' prefix if present
+    const withoutWww = hostname.startsWith('www.') ? hostname.slice(4) : hostname;
+    
+    // For most cases, return the base domain (e.g., 'reddit.com' from 'api.reddit.com')
+    const parts = withoutWww.split('.');
+    if (parts.length >= 2) {
+      return parts.slice(-2).join('.');
+    }
+    
+    return withoutWww;
+  } catch (error) {
+    console.warn('Failed to extract main domain from URL:', url, error);
+    return 'unknown';
+  }
+}
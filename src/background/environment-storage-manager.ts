@@ -1,6 +1,14 @@
 // Environment-aware storage manager using IndexedDB only (SQLite removed for optimization)
-import type { StorageOperations, StorageConfig, ApiCall, ConsoleError, TokenEvent, MinifiedLibrary, PerformanceStats } from './storage-types'
+import type { StorageOperations, StorageConfig, ApiCall, ApiCallFilter, ApiCallQuery, ConsoleError, ConsoleErrorQuery, TokenEvent, TokenEventQuery, QueryResult, WebSocketConnection, WebSocketFrame, MinifiedLibrary, PerformanceStats, PruneOptions, RecordBatch } from './storage-types'
+import type { PruneReport, RetentionPolicy } from './retention'
+import type { BodyStoreStats } from './body-store'
+import type { StorageAggregates } from './aggregates'
+import type { RollupQuery, RollupSeries } from './rollups'
+import type { TokenLifecycle, TokenLifecycleEvent, TokenLifecycleQuery } from './token-lifecycle'
+import type { JwtObservation, JwtObservationEvent, JwtObservationQuery } from './jwt-inspector'
+import type { BackupRecord, BackupStoreName, RestoreMode, RestoreStoreResult } from './backup'
 import { IndexedDBStorage } from './indexeddb-storage'
+import type { MigrationStatus } from './indexeddb-migrations'
 
 export type StorageType = 'indexeddb'
 
@@ -12,6 +20,7 @@ export class EnvironmentStorageManager implements StorageOperations {
   private enableFallback: boolean
   private enableLogs: boolean
   private enableMetrics: boolean
+  private failedMigrationStatus: MigrationStatus | null = null
 
   constructor() {
     // IndexedDB-only configuration (SQLite removed for optimization)
@@ -52,13 +61,14 @@ export class EnvironmentStorageManager implements StorageOperations {
   }
 
   private async initIndexedDB(): Promise<void> {
+    const indexedDBStorage = new IndexedDBStorage(this.config)
     try {
       if (this.enableLogs) {
         console.log('[EnvironmentStorageManager] Initializing IndexedDB...')
       }
       
-      const indexedDBStorage = new IndexedDBStorage(this.config)
       await indexedDBStorage.init()
+      this.failedMigrationStatus = null
       this.storage = indexedDBStorage
       this.storageType = 'indexeddb'
       
@@ -66,6 +76,8 @@ export class EnvironmentStorageManager implements StorageOperations {
         console.log('[EnvironmentStorageManager] ✅ IndexedDB initialized successfully')
       }
     } catch (error) {
+      // Keep the migration report so a failed upgrade can still be inspected
+      this.failedMigrationStatus = await indexedDBStorage.getMigrationStatus()
       const errorMessage = `IndexedDB storage initialization failed: ${error instanceof Error ? error.message : String(error)}`
       if (this.enableLogs) {
         console.error('[EnvironmentStorageManager]', errorMessage)
@@ -155,6 +167,10 @@ export class EnvironmentStorageManager implements StorageOperations {
     return this.ensureInitialized().insertMinifiedLibrary(data)
   }
 
+  async saveMinifiedLibrary(data: Omit<MinifiedLibrary, 'id'>): Promise<number> {
+    return this.ensureInitialized().saveMinifiedLibrary(data)
+  }
+
   async getApiCalls(limit: number = 100, offset?: number): Promise<ApiCall[]> {
     return this.ensureInitialized().getApiCalls(limit, offset)
   }
@@ -163,10 +179,34 @@ export class EnvironmentStorageManager implements StorageOperations {
     return this.ensureInitialized().deleteApiCall(id)
   }
 
+  async deleteApiCallsByImport(importId: string): Promise<number> {
+    return this.ensureInitialized().deleteApiCallsByImport(importId)
+  }
+
+  async deleteRecordsBySession(sessionId: string): Promise<number> {
+    return this.ensureInitialized().deleteRecordsBySession(sessionId)
+  }
+
+  async iterateApiCalls(filter: ApiCallFilter, onBatch: (batch: ApiCall[]) => void | Promise<void>, batchSize?: number): Promise<number> {
+    return this.ensureInitialized().iterateApiCalls(filter, onBatch, batchSize)
+  }
+
+  async readApiCallBatch(filter: ApiCallFilter, afterId: number | null, batchSize?: number): Promise<RecordBatch<ApiCall>> {
+    return this.ensureInitialized().readApiCallBatch(filter, afterId, batchSize)
+  }
+
+  async queryApiCalls(query: ApiCallQuery): Promise<QueryResult<ApiCall>> {
+    return this.ensureInitialized().queryApiCalls(query)
+  }
+
   async getConsoleErrors(limit: number = 100, offset?: number): Promise<ConsoleError[]> {
     return this.ensureInitialized().getConsoleErrors(limit, offset)
   }
 
+  async queryConsoleErrors(query: ConsoleErrorQuery): Promise<QueryResult<ConsoleError>> {
+    return this.ensureInitialized().queryConsoleErrors(query)
+  }
+
   async deleteConsoleError(id: number): Promise<void> {
     return this.ensureInitialized().deleteConsoleError(id)
   }
@@ -175,20 +215,50 @@ export class EnvironmentStorageManager implements StorageOperations {
     return this.ensureInitialized().getTokenEvents(limit, offset)
   }
 
+  async queryTokenEvents(query: TokenEventQuery): Promise<QueryResult<TokenEvent>> {
+    return this.ensureInitialized().queryTokenEvents(query)
+  }
+
   async deleteTokenEvent(id: number): Promise<void> {
     return this.ensureInitialized().deleteTokenEvent(id)
   }
 
+  async saveWebSocketConnection(connection: WebSocketConnection): Promise<void> {
+    return this.ensureInitialized().saveWebSocketConnection(connection)
+  }
+
+  async getWebSocketConnections(limit: number = 100, offset?: number): Promise<WebSocketConnection[]> {
+    return this.ensureInitialized().getWebSocketConnections(limit, offset)
+  }
+
+  async insertWebSocketFrame(data: Omit<WebSocketFrame, 'id'>): Promise<number> {
+    return this.ensureInitialized().insertWebSocketFrame(data)
+  }
+
+  async getWebSocketFrames(connectionId: string, limit?: number): Promise<WebSocketFrame[]> {
+    return this.ensureInitialized().getWebSocketFrames(connectionId, limit)
+  }
+
   async getMinifiedLibraries(limit: number = 100, offset?: number): Promise<MinifiedLibrary[]> {
     return this.ensureInitialized().getMinifiedLibraries(limit, offset)
   }
 
+  async updateMinifiedLibraries(update: (library: MinifiedLibrary) => MinifiedLibrary | null): Promise<number> {
+    return this.ensureInitialized().updateMinifiedLibraries(update)
+  }
+
   async deleteMinifiedLibrary(id: number): Promise<void> {
     return this.ensureInitialized().deleteMinifiedLibrary(id)
   }
 
-  async pruneOldData(): Promise<void> {
-    return this.ensureInitialized().pruneOldData()
+  async pruneOldData(options?: PruneOptions): Promise<PruneReport> {
+    return this.ensureInitialized().pruneOldData(options)
+  }
+
+  // Safe to call before init(): the policies are kept in the config the storage is created with
+  setRetentionPolicies(policies: RetentionPolicy[]): void {
+    this.config.retentionPolicies = policies
+    this.storage?.setRetentionPolicies(policies)
   }
 
   async clearAllData(): Promise<void> {
@@ -203,6 +273,54 @@ export class EnvironmentStorageManager implements StorageOperations {
     return this.ensureInitialized().getTableCounts()
   }
 
+  async readRecordBatch(storeName: BackupStoreName, afterKey: IDBValidKey | null, batchSize?: number): Promise<RecordBatch<BackupRecord>> {
+    return this.ensureInitialized().readRecordBatch(storeName, afterKey, batchSize)
+  }
+
+  async indexBackupRecords(storeName: BackupStoreName): Promise<Map<string, BackupRecord>> {
+    return this.ensureInitialized().indexBackupRecords(storeName)
+  }
+
+  async restoreRecords(storeName: BackupStoreName, records: BackupRecord[], mode: RestoreMode, index?: Map<string, BackupRecord>): Promise<RestoreStoreResult> {
+    return this.ensureInitialized().restoreRecords(storeName, records, mode, index)
+  }
+
+  async getBodyStoreStats(): Promise<BodyStoreStats> {
+    return this.ensureInitialized().getBodyStoreStats()
+  }
+
+  async getAggregates(): Promise<StorageAggregates> {
+    return this.ensureInitialized().getAggregates()
+  }
+
+  async queryRollups(query: RollupQuery): Promise<RollupSeries> {
+    return this.ensureInitialized().queryRollups(query)
+  }
+
+  trackTokenLifecycle(event: TokenLifecycleEvent): void {
+    this.ensureInitialized().trackTokenLifecycle(event)
+  }
+
+  async getTokenLifecycles(query?: TokenLifecycleQuery): Promise<TokenLifecycle[]> {
+    return this.ensureInitialized().getTokenLifecycles(query)
+  }
+
+  trackJwtObservation(event: JwtObservationEvent): void {
+    this.ensureInitialized().trackJwtObservation(event)
+  }
+
+  async getJwtObservations(query?: JwtObservationQuery): Promise<JwtObservation[]> {
+    return this.ensureInitialized().getJwtObservations(query)
+  }
+
+  // Still answers after a failed init() so the failed upgrade step can be reported
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    if (!this.storage && this.failedMigrationStatus) {
+      return this.failedMigrationStatus
+    }
+    return this.ensureInitialized().getMigrationStatus()
+  }
+
   async getPerformanceStats(): Promise<PerformanceStats> {
     return this.ensureInitialized().getPerformanceStats()
   }
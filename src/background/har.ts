@@ -0,0 +1,267 @@
+// HAR 1.2 conversion for captured API calls
+// Spec: http://www.softwareishard.com/blog/har-12-spec/
+import type { ApiCall, ApiTransport } from './storage-types';
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  // Custom fields (HAR allows underscore-prefixed extensions)
+  _mainDomain?: string;
+  _tabId?: number;
+  _tabUrl?: string;
+  _transport?: ApiTransport;
+  _resourceType?: string; // Written by Chrome DevTools ("fetch", "xhr", "ping", "eventsource", "document"...)
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: never[];
+    entries: HarEntry[];
+  };
+}
+
+// handleNetworkRequest stores "Status: 200 OK" when no body was captured
+const STATUS_PLACEHOLDER_PATTERN = /^Status: \d{1,3}( .*)?$/;
+
+function parseStoredHeaders(headers: string): { request: Record<string, string>; response: Record<string, string> } {
+  try {
+    const parsed = JSON.parse(headers || '{}');
+    return {
+      request: parsed?.request && typeof parsed.request === 'object' ? parsed.request : {},
+      response: parsed?.response && typeof parsed.response === 'object' ? parsed.response : {}
+    };
+  } catch {
+    return { request: {}, response: {} };
+  }
+}
+
+function toNameValueList(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(h => h.toLowerCase() === name.toLowerCase());
+  return key ? String(headers[key]) : undefined;
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+export function apiCallToHarEntry(call: ApiCall): HarEntry {
+  const headers = parseStoredHeaders(call.headers);
+  const time = Math.max(0, call.response_time || 0);
+  const requestMimeType = findHeader(headers.request, 'content-type') || 'application/octet-stream';
+  const responseMimeType = findHeader(headers.response, 'content-type') || 'x-unknown';
+  const hasResponseBody = !!call.response_body && !STATUS_PLACEHOLDER_PATTERN.test(call.response_body);
+  const responseText = hasResponseBody ? call.response_body : undefined;
+
+  const entry: HarEntry = {
+    startedDateTime: new Date(call.timestamp).toISOString(),
+    time,
+    request: {
+      method: call.method,
+      url: call.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValueList(headers.request),
+      queryString: parseQueryString(call.url),
+      headersSize: -1,
+      bodySize: call.request_body ? call.request_body.length : 0
+    },
+    response: {
+      status: call.status,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValueList(headers.response),
+      content: {
+        size: responseText ? responseText.length : 0,
+        mimeType: responseMimeType,
+        ...(responseText !== undefined && { text: responseText })
+      },
+      redirectURL: findHeader(headers.response, 'location') || '',
+      headersSize: -1,
+      bodySize: responseText ? responseText.length : -1
+    },
+    cache: {},
+    timings: {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      send: 0,
+      wait: time,
+      receive: 0,
+      ssl: -1
+    },
+    _mainDomain: call.main_domain,
+    _tabId: call.tab_id,
+    _tabUrl: call.tab_url,
+    _transport: call.transport
+  };
+
+  if (call.request_body) {
+    entry.request.postData = { mimeType: requestMimeType, text: call.request_body };
+  }
+
+  return entry;
+}
+
+// API calls per export message; bodies are inline, so batches stay well under the message size limit
+export const HAR_EXPORT_BATCH_SIZE = 100;
+
+// HAR entries per import message, for the same reason
+export const HAR_IMPORT_BATCH_SIZE = 100;
+
+export function createHarLog(entries: HarEntry[]): HarLog {
+  const manifest = chrome.runtime.getManifest();
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: manifest.name, version: manifest.version },
+      pages: [],
+      entries
+    }
+  };
+}
+
+// Metadata kept in chrome.storage.local for each imported HAR file
+export interface HarImportInfo {
+  id: string;
+  name: string;
+  importedAt: number;
+  entryCount: number;
+}
+
+export function generateImportId(): string {
+  return `har_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isHarEntry(entry: unknown): entry is HarEntry {
+  return typeof (entry as HarEntry | null)?.request?.url === 'string';
+}
+
+// Validate the top-level HAR shape and return its entries
+export function parseHarEntries(input: unknown): HarEntry[] {
+  const log = (input as HarLog | null)?.log;
+  if (!log || !Array.isArray(log.entries)) {
+    throw new Error('Invalid HAR file: missing log.entries');
+  }
+  return log.entries.filter(isHarEntry);
+}
+
+function fromNameValueList(list: HarNameValue[] | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const item of list || []) {
+    if (item && typeof item.name === 'string') {
+      result[item.name] = String(item.value ?? '');
+    }
+  }
+  return result;
+}
+
+function decodeContentText(content: HarResponse['content']): string | undefined {
+  if (content.text === undefined) return undefined;
+  if (content.encoding !== 'base64') return content.text;
+  // Only decode textual payloads - binary bodies stay out of the text columns
+  if (!/json|text|xml|javascript|html|css/i.test(content.mimeType || '')) return undefined;
+  try {
+    return new TextDecoder().decode(Uint8Array.from(atob(content.text), c => c.charCodeAt(0)));
+  } catch {
+    return undefined;
+  }
+}
+
+const RESOURCE_TYPE_TRANSPORTS: Record<string, ApiTransport> = {
+  fetch: 'fetch',
+  xhr: 'xhr',
+  ping: 'beacon',
+  eventsource: 'sse'
+};
+
+function transportFromResourceType(resourceType: string | undefined): ApiTransport | undefined {
+  return resourceType ? RESOURCE_TYPE_TRANSPORTS[resourceType.toLowerCase()] : undefined;
+}
+
+export function harEntryToApiCall(entry: HarEntry, importId: string, mainDomain: string): Omit<ApiCall, 'id'> {
+  const { request, response } = entry;
+  const status = response?.status ?? 0;
+  const statusText = response?.statusText || '';
+  const content = response?.content || { size: 0, mimeType: '' };
+  const responseBody = decodeContentText(content);
+  const parsedTime = Date.parse(entry.startedDateTime);
+
+  return {
+    url: request.url,
+    method: (request.method || 'GET').toUpperCase(),
+    headers: JSON.stringify({
+      request: fromNameValueList(request.headers),
+      response: fromNameValueList(response?.headers)
+    }),
+    payload_size: content.size > 0 ? content.size : (responseBody?.length || 0),
+    status,
+    response_body: responseBody || `Status: ${status} ${statusText}`,
+    request_body: request.postData?.text || undefined,
+    timestamp: Number.isNaN(parsedTime) ? Date.now() : parsedTime,
+    response_time: Math.max(0, Math.round(entry.time || 0)),
+    tab_url: entry._tabUrl,
+    main_domain: entry._mainDomain || mainDomain,
+    transport: entry._transport || transportFromResourceType(entry._resourceType),
+    import_id: importId
+  };
+}
@@ -0,0 +1,193 @@
+import { IDBFactory } from 'fake-indexeddb'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DB_VERSION, runMigrations } from './indexeddb-migrations'
+
+type Fixture = Record<string, Array<Record<string, unknown>>>
+
+let factory: IDBFactory
+
+beforeEach(() => {
+  factory = new IDBFactory()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Opens the database at `version`, running the migrations the way IndexedDBStorage does
+function openAt(version: number): Promise<IDBDatabase> {
+  const request = factory.open('DevToolsExtension', version)
+  request.onupgradeneeded = (event) => {
+    runMigrations(request.result, request.transaction!, event.oldVersion, event.newVersion ?? version, () => {}, () => {})
+  }
+  return requestResult(request)
+}
+
+// A database as an older release left it: the schema of `version` holding the given rows
+async function createFixture(version: number, fixture: Fixture): Promise<void> {
+  const db = await openAt(version)
+  const transaction = db.transaction(Object.keys(fixture), 'readwrite')
+  for (const [storeName, records] of Object.entries(fixture)) {
+    for (const record of records) {
+      transaction.objectStore(storeName).add(record)
+    }
+  }
+  await new Promise((resolve, reject) => {
+    transaction.oncomplete = resolve
+    transaction.onerror = () => reject(transaction.error)
+  })
+  db.close()
+}
+
+function readAll(db: IDBDatabase, storeName: string): Promise<Array<Record<string, unknown>>> {
+  return requestResult(db.transaction(storeName).objectStore(storeName).getAll())
+}
+
+function describeSchema(db: IDBDatabase) {
+  const storeNames = Array.from(db.objectStoreNames)
+  const transaction = db.transaction(storeNames)
+  return storeNames.map(name => {
+    const store = transaction.objectStore(name)
+    return {
+      name,
+      keyPath: store.keyPath,
+      autoIncrement: store.autoIncrement,
+      indexes: Array.from(store.indexNames).map(indexName => {
+        const index = store.index(indexName)
+        return { name: indexName, keyPath: index.keyPath, multiEntry: index.multiEntry }
+      })
+    }
+  })
+}
+
+// What a fresh install creates, to compare upgraded databases against
+async function freshSchema() {
+  const fresh = new IDBFactory()
+  const request = fresh.open('DevToolsExtension', DB_VERSION)
+  request.onupgradeneeded = (event) => {
+    runMigrations(request.result, request.transaction!, event.oldVersion, DB_VERSION, () => {}, () => {})
+  }
+  const db = await requestResult(request)
+  const schema = describeSchema(db)
+  db.close()
+  return schema
+}
+
+const v3Fixture: Fixture = {
+  apiCalls: [
+    { url: 'https://api.example.com/v1/users', tab_url: 'https://app.example.com/home', method: 'GET', status: 200, timestamp: 1000, domain: 'api.example.com' },
+    { url: 'not a url', method: 'GET', status: 200, timestamp: 1001, domain: 'unknown' }
+  ],
+  consoleErrors: [
+    { message: 'boom', url: 'https://shop.example.org/cart', timestamp: 1002, domain: 'shop.example.org' }
+  ],
+  tokenEvents: [
+    { type: 'refresh', source_url: 'https://auth.example.net/token', status: 200, timestamp: 1003, domain: 'auth.example.net' },
+    { type: 'jwt_token', tab_url: 'https://app.example.com/home', source_url: 'https://api.example.com/me', status: 401, timestamp: 1004, domain: 'api.example.com' },
+    { type: 'api_key', source_url: 'https://api.example.com/keys', status: 200, timestamp: 1005, domain: 'api.example.com' }
+  ],
+  minifiedLibraries: [
+    { name: 'react', version: '18.2.0', domain: 'app.example.com', timestamp: 1006 }
+  ]
+}
+
+// v6 rows already carry main_domain; token events still use the single legacy type
+const v6Fixture: Fixture = {
+  apiCalls: [
+    { url: 'https://api.example.com/v1/users', method: 'POST', status: 201, timestamp: 2000, domain: 'api.example.com', main_domain: 'example.com', tab_id: 4 }
+  ],
+  tokenEvents: [
+    { type: 'logout', source_url: 'https://auth.example.net/logout', status: 200, timestamp: 2001, domain: 'auth.example.net', main_domain: 'example.net' },
+    { type: 'session_token', source_url: 'https://app.example.com/login', status: 200, timestamp: 2002, domain: 'app.example.com', main_domain: 'example.com' }
+  ],
+  webSocketConnections: [
+    { id: 'ws-1', url: 'wss://live.example.com/socket', timestamp: 2003 }
+  ]
+}
+
+const v12Fixture: Fixture = {
+  ...v6Fixture,
+  bodies: [
+    { hash: 'abc123', data: '{"ok":true}', last_used_at: 3000 }
+  ],
+  tokenLifecycles: [
+    { fingerprint: 'fp-1', main_domain: 'example.com', first_seen: 3001, last_seen: 3002, events: [] }
+  ]
+}
+
+describe.each([
+  ['v3', 3, v3Fixture],
+  ['v6', 6, v6Fixture],
+  ['v12', 12, v12Fixture]
+])('upgrading a %s database', (_label, version, fixture) => {
+  it('ends with the schema of a fresh install', async () => {
+    await createFixture(version, fixture)
+    const db = await openAt(DB_VERSION)
+    expect(db.version).toBe(DB_VERSION)
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      'aggregates', 'apiCalls', 'bodies', 'consoleErrors', 'jwtObservations', 'minifiedLibraries',
+      'rollups', 'tokenEvents', 'tokenLifecycles', 'webSocketConnections', 'webSocketFrames'
+    ])
+    expect(describeSchema(db)).toEqual(await freshSchema())
+    db.close()
+  })
+
+  it('keeps every record', async () => {
+    await createFixture(version, fixture)
+    const db = await openAt(DB_VERSION)
+    for (const [storeName, records] of Object.entries(fixture)) {
+      expect(await readAll(db, storeName)).toHaveLength(records.length)
+    }
+    db.close()
+  })
+})
+
+describe('upgrading a v3 database', () => {
+  it('backfills main_domain and splits token event types in the same upgrade', async () => {
+    await createFixture(3, v3Fixture)
+    const db = await openAt(DB_VERSION)
+
+    const tokenEvents = await readAll(db, 'tokenEvents')
+    expect(tokenEvents.map(({ main_domain, kind, credential, type }) => ({ main_domain, kind, credential, type }))).toEqual([
+      { main_domain: 'example.net', kind: 'refresh', credential: 'unknown', type: undefined },
+      { main_domain: 'example.com', kind: 'expired', credential: 'jwt_access', type: undefined },
+      { main_domain: 'example.com', kind: 'acquire', credential: 'api_key', type: undefined }
+    ])
+
+    const apiCalls = await readAll(db, 'apiCalls')
+    expect(apiCalls.map(call => call.main_domain)).toEqual(['example.com', undefined])
+    const consoleErrors = await readAll(db, 'consoleErrors')
+    expect(consoleErrors[0].main_domain).toBe('example.org')
+    db.close()
+  })
+})
+
+describe('upgrading a v6 database', () => {
+  it('splits token event types and keeps main_domain', async () => {
+    await createFixture(6, v6Fixture)
+    const db = await openAt(DB_VERSION)
+    const tokenEvents = await readAll(db, 'tokenEvents')
+    expect(tokenEvents.map(({ main_domain, kind, credential, type }) => ({ main_domain, kind, credential, type }))).toEqual([
+      { main_domain: 'example.net', kind: 'logout', credential: 'unknown', type: undefined },
+      { main_domain: 'example.com', kind: 'acquire', credential: 'session_cookie', type: undefined }
+    ])
+    expect(await readAll(db, 'apiCalls')).toEqual(v6Fixture.apiCalls.map((call, index) => ({ ...call, id: index + 1 })))
+    db.close()
+  })
+})
+
+describe('upgrading a v12 database', () => {
+  it('keeps token lifecycles and bodies and adds an empty JWT store', async () => {
+    await createFixture(12, v12Fixture)
+    const db = await openAt(DB_VERSION)
+    expect(await readAll(db, 'tokenLifecycles')).toEqual(v12Fixture.tokenLifecycles)
+    expect(await readAll(db, 'bodies')).toEqual(v12Fixture.bodies)
+    expect(await readAll(db, 'jwtObservations')).toEqual([])
+    expect((await readAll(db, 'tokenEvents')).every(event => event.kind && event.credential && !('type' in event))).toBe(true)
+    db.close()
+  })
+})
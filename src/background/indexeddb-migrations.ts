@@ -0,0 +1,300 @@
+// Ordered schema migrations for the 'DevToolsExtension' IndexedDB database.
+// Every step runs inside the versionchange transaction, so a failing step aborts the whole
+// upgrade and the database stays at its previous version with all data intact.
+import { extractMainDomain } from './domains'
+import { TOKEN_EVENT_KINDS, type TokenCredentialKind, type TokenEvent, type TokenEventKind } from './storage-types'
+
+export interface MigrationProgress {
+  version: number
+  description: string
+  store?: string // Store currently being rewritten by a data step
+  processed: number
+  total: number
+}
+
+export interface MigrationStatus {
+  state: 'idle' | 'running' | 'completed' | 'failed' | 'blocked'
+  fromVersion: number
+  toVersion: number
+  completedVersions: number[]
+  current?: MigrationProgress
+  error?: string
+  startedAt?: number
+  finishedAt?: number
+}
+
+export interface Migration {
+  version: number
+  description: string
+  // Schema calls take effect immediately; data work is queued as requests on the transaction
+  migrate(db: IDBDatabase, transaction: IDBTransaction, onProgress: (progress: MigrationProgress) => void): void
+}
+
+const PROGRESS_INTERVAL = 500 // Records between progress reports while backfilling
+
+function createStoreIfMissing(db: IDBDatabase, name: string, options: IDBObjectStoreParameters, indexes: Array<[string, string | string[]]>) {
+  if (db.objectStoreNames.contains(name)) return
+  const store = db.createObjectStore(name, options)
+  for (const [indexName, keyPath] of indexes) {
+    store.createIndex(indexName, keyPath, { unique: false })
+  }
+  console.log(`📦 IndexedDB: Created ${name} store`)
+}
+
+function createIndexIfMissing(store: IDBObjectStore, name: string, keyPath: string | string[], options: IDBIndexParameters = {}) {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, { unique: false, ...options })
+    console.log(`📇 IndexedDB: Created ${store.name}.${name} index`)
+  }
+}
+
+const TOKEN_EVENT_URL_FIELDS = ['tab_url', 'source_url']
+
+// Records written before main_domain existed get it from the first URL field that is set.
+// Rows whose URLs cannot be parsed are left as they are rather than tagged 'unknown'.
+function setMissingMainDomain(record: Record<string, unknown>, urlFields: string[]): boolean {
+  if (record.main_domain) return false
+  const sourceUrl = urlFields.map(field => record[field]).find((value): value is string => typeof value === 'string' && !!value)
+  const mainDomain = sourceUrl ? extractMainDomain(sourceUrl) : 'unknown'
+  if (mainDomain === 'unknown') return false
+  record.main_domain = mainDomain
+  return true
+}
+
+function backfillMainDomain(
+  migration: Pick<Migration, 'version' | 'description'>,
+  store: IDBObjectStore,
+  urlFields: string[],
+  onProgress: (progress: MigrationProgress) => void
+) {
+  const countRequest = store.count()
+  countRequest.onsuccess = () => {
+    const total = countRequest.result
+    let processed = 0
+    let updated = 0
+    const report = () => onProgress({ ...migration, store: store.name, processed, total })
+    report()
+
+    const cursorRequest = store.openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) {
+        report()
+        console.log(`🔁 IndexedDB: Backfilled main_domain on ${updated} of ${total} ${store.name} records`)
+        return
+      }
+
+      const record = cursor.value
+      if (setMissingMainDomain(record, urlFields)) {
+        cursor.update(record)
+        updated++
+      }
+
+      processed++
+      if (processed % PROGRESS_INTERVAL === 0) report()
+      cursor.continue()
+    }
+  }
+}
+
+// Before v13 a token event's single `type` held either an event kind or a credential kind
+const LEGACY_TOKEN_CREDENTIALS: Record<string, TokenCredentialKind> = {
+  jwt_token: 'jwt_access',
+  session_token: 'session_cookie',
+  api_key: 'api_key',
+  oauth_token: 'opaque_access'
+}
+
+// Also applied to token events restored from backups taken before v13
+export function upgradeLegacyTokenEvent(record: unknown): TokenEvent {
+  const event = record as (Omit<TokenEvent, 'kind' | 'credential'> & Partial<TokenEvent> & { type?: string }) | null
+  if (!event || typeof event !== 'object' || event.kind) return event as TokenEvent
+  const { type = '', ...rest } = event
+  if (TOKEN_EVENT_KINDS.includes(type as TokenEventKind)) {
+    return { ...rest, kind: type as TokenEventKind, credential: 'unknown' }
+  }
+  // Credential-typed rows were stored for any token request; only rejections said what happened
+  return {
+    ...rest,
+    kind: event.status === 401 || event.status === 403 ? 'expired' : 'acquire',
+    credential: LEGACY_TOKEN_CREDENTIALS[type] || 'unknown'
+  }
+}
+
+function splitTokenEventTypes(
+  migration: Pick<Migration, 'version' | 'description'>,
+  store: IDBObjectStore,
+  onProgress: (progress: MigrationProgress) => void
+) {
+  const countRequest = store.count()
+  countRequest.onsuccess = () => {
+    const total = countRequest.result
+    let processed = 0
+    let updated = 0
+    const report = () => onProgress({ ...migration, store: store.name, processed, total })
+    report()
+
+    const cursorRequest = store.openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) {
+        report()
+        console.log(`🔁 IndexedDB: Split type into kind and credential on ${updated} of ${total} ${store.name} records`)
+        return
+      }
+
+      // Upgrades from before v6 run this cursor in step with the v6 backfill over the same store,
+      // and this write lands second, so it has to carry main_domain itself or it drops the backfill
+      if (!cursor.value.kind) {
+        const record = cursor.value
+        setMissingMainDomain(record, TOKEN_EVENT_URL_FIELDS)
+        cursor.update(upgradeLegacyTokenEvent(record))
+        updated++
+      }
+
+      processed++
+      if (processed % PROGRESS_INTERVAL === 0) report()
+      cursor.continue()
+    }
+  }
+}
+
+// Append new steps with the next version number; never edit or reorder a released step
+export const MIGRATIONS: Migration[] = [
+  {
+    // Databases created before versioned migrations may hold any subset of these stores
+    version: 3,
+    description: 'Create the API call, console error, token event and library stores',
+    migrate(db) {
+      createStoreIfMissing(db, 'apiCalls', { keyPath: 'id', autoIncrement: true }, [['timestamp', 'timestamp'], ['domain', 'domain']])
+      createStoreIfMissing(db, 'consoleErrors', { keyPath: 'id', autoIncrement: true }, [['timestamp', 'timestamp'], ['domain', 'domain']])
+      createStoreIfMissing(db, 'tokenEvents', { keyPath: 'id', autoIncrement: true }, [['timestamp', 'timestamp'], ['domain', 'domain']])
+      createStoreIfMissing(db, 'minifiedLibraries', { keyPath: 'id', autoIncrement: true }, [['domain', 'domain']])
+    }
+  },
+  {
+    version: 4,
+    description: 'Create the WebSocket connection and frame stores',
+    migrate(db) {
+      createStoreIfMissing(db, 'webSocketConnections', { keyPath: 'id' }, [['timestamp', 'timestamp']])
+      createStoreIfMissing(db, 'webSocketFrames', { keyPath: 'id', autoIncrement: true }, [['timestamp', 'timestamp'], ['connection_id', 'connection_id']])
+    }
+  },
+  {
+    version: 5,
+    description: 'Index records by domain, tab, status and method',
+    migrate(_db, transaction) {
+      for (const storeName of ['apiCalls', 'consoleErrors', 'tokenEvents']) {
+        const store = transaction.objectStore(storeName)
+        createIndexIfMissing(store, 'main_domain_timestamp', ['main_domain', 'timestamp'])
+        createIndexIfMissing(store, 'tab_id_timestamp', ['tab_id', 'timestamp'])
+      }
+      const apiStore = transaction.objectStore('apiCalls')
+      createIndexIfMissing(apiStore, 'status', 'status')
+      createIndexIfMissing(apiStore, 'method', 'method')
+    }
+  },
+  {
+    version: 6,
+    description: 'Backfill main_domain on records captured before domain grouping',
+    migrate(_db, transaction, onProgress) {
+      backfillMainDomain(this, transaction.objectStore('apiCalls'), ['tab_url', 'url'], onProgress)
+      backfillMainDomain(this, transaction.objectStore('consoleErrors'), ['tab_url', 'url'], onProgress)
+      backfillMainDomain(this, transaction.objectStore('tokenEvents'), TOKEN_EVENT_URL_FIELDS, onProgress)
+    }
+  },
+  {
+    version: 7,
+    description: 'Index records by capture session',
+    migrate(_db, transaction) {
+      for (const storeName of ['apiCalls', 'consoleErrors', 'tokenEvents']) {
+        createIndexIfMissing(transaction.objectStore(storeName), 'session_id', 'session_id')
+      }
+    }
+  },
+  {
+    // Existing inline bodies are left as they are; compression is async and cannot run in here
+    version: 8,
+    description: 'Create the content-addressed body store',
+    migrate(db, transaction) {
+      createStoreIfMissing(db, 'bodies', { keyPath: 'hash' }, [['last_used_at', 'last_used_at']])
+      createIndexIfMissing(transaction.objectStore('apiCalls'), 'body_hashes', 'body_hashes', { multiEntry: true })
+    }
+  },
+  {
+    // Totals are rebuilt from a scan the first time the storage layer finds them missing
+    version: 9,
+    description: 'Create the running aggregates store',
+    migrate(db) {
+      createStoreIfMissing(db, 'aggregates', { keyPath: 'table' }, [])
+    }
+  },
+  {
+    version: 10,
+    description: 'Create the time-series rollup store',
+    migrate(db) {
+      createStoreIfMissing(db, 'rollups', { keyPath: ['granularity', 'bucket_start', 'source', 'domain', 'dimension'] }, [
+        ['source_granularity_bucket', ['source', 'granularity', 'bucket_start']],
+        ['granularity_bucket', ['granularity', 'bucket_start']]
+      ])
+    }
+  },
+  {
+    version: 11,
+    description: 'Index libraries by time and by domain and name',
+    migrate(_db, transaction) {
+      const store = transaction.objectStore('minifiedLibraries')
+      createIndexIfMissing(store, 'timestamp', 'timestamp')
+      createIndexIfMissing(store, 'main_domain_name', ['main_domain', 'name'])
+    }
+  },
+  {
+    version: 12,
+    description: 'Create the token lifecycle store',
+    migrate(db) {
+      createStoreIfMissing(db, 'tokenLifecycles', { keyPath: 'fingerprint' }, [
+        ['main_domain_last_seen', ['main_domain', 'last_seen']],
+        ['last_seen', 'last_seen']
+      ])
+    }
+  },
+  {
+    version: 13,
+    description: 'Split token event type into event kind and credential kind',
+    migrate(_db, transaction, onProgress) {
+      splitTokenEventTypes(this, transaction.objectStore('tokenEvents'), onProgress)
+    }
+  },
+  {
+    version: 14,
+    description: 'Create the JWT inspector store',
+    migrate(db) {
+      createStoreIfMissing(db, 'jwtObservations', { keyPath: 'fingerprint' }, [
+        ['main_domain_last_seen', ['main_domain', 'last_seen']],
+        ['last_seen', 'last_seen']
+      ])
+    }
+  }
+]
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Queue every step between the stored and the requested version, oldest first
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  onStepStart: (migration: Migration) => void,
+  onProgress: (progress: MigrationProgress) => void
+): void {
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > oldVersion && migration.version <= newVersion)
+    .sort((a, b) => a.version - b.version)
+
+  for (const migration of pending) {
+    console.log(`🔄 IndexedDB: Migration v${migration.version} - ${migration.description}`)
+    onStepStart(migration)
+    migration.migrate(db, transaction, onProgress)
+  }
+}
@@ -1,5 +1,13 @@
 // IndexedDB implementation with performance monitoring
-import type { StorageOperations, ApiCall, ConsoleError, TokenEvent, MinifiedLibrary, StorageConfig, PerformanceStats } from './storage-types'
+import type { StorageOperations, ApiCall, ApiCallFilter, ApiCallQuery, ConsoleError, ConsoleErrorQuery, TokenEvent, TokenEventQuery, QueryPage, QueryResult, WebSocketConnection, WebSocketFrame, MinifiedLibrary, StorageConfig, PerformanceStats, PruneOptions, RecordBatch } from './storage-types'
+import { AGGREGATE_TABLES, AGGREGATE_VERSION, applyRecordToAggregate, createEmptyAggregate, createEmptyAggregates, type AggregateTable, type StorageAggregates, type TableAggregate } from './aggregates'
+import { BODY_STORE_THRESHOLD, BODY_SWEEP_GRACE_MS, compressBody, createBodyStoreStats, decompressBody, hashBody, type BodyStoreStats, type StoredBody } from './body-store'
+import { backupRecordKey, backupRecordsEqual, toBackupRecord, type BackupRecord, type BackupStoreName, type RestoreMode, type RestoreStoreResult } from './backup'
+import { RETENTION_TABLES, createPruneReport, createRetentionEvaluator, type PruneReport, type RetentionPolicy, type RetentionRecord, type RetentionTable } from './retention'
+import { DB_VERSION, runMigrations, upgradeLegacyTokenEvent, type MigrationStatus } from './indexeddb-migrations'
+import { TOKEN_LIFECYCLE_RETENTION_MS, applyLifecycleUse, createLifecycle, lifecycleChainKey, linkLifecycles, type TokenLifecycle, type TokenLifecycleEvent, type TokenLifecycleQuery } from './token-lifecycle'
+import { JWT_OBSERVATION_RETENTION_MS, applyJwtSighting, createJwtObservation, type JwtObservation, type JwtObservationEvent, type JwtObservationQuery } from './jwt-inspector'
+import { ROLLUP_GRANULARITIES, ROLLUP_RETENTION_MS, bucketStart, chooseRollupGranularity, mergeRollupRow, rollupDeltasForRecord, rollupRowKey, summarizeRollups, type RollupQuery, type RollupRow, type RollupSeries, type RollupSource } from './rollups'
 
 // MEMORY LEAK FIX: Extract Promise constructor functions outside class to prevent context capture
 function createOpenRequestPromise(request: IDBOpenDBRequest): Promise<IDBDatabase> {
@@ -11,7 +19,7 @@ function createOpenRequestPromise(request: IDBOpenDBRequest): Promise<IDBDatabas
         resolved = true
         cleanup()
         console.error('❌ IndexedDB: Failed to open database:', request.error)
-        reject(new Error('Failed to open IndexedDB'))
+        reject(new Error(`Failed to open IndexedDB: ${request.error?.message || 'unknown error'}`))
       }
     }
     
@@ -202,20 +210,27 @@ function createCursorPromise<T extends any[]>(
   })
 }
 
-function createDeleteCursorPromise(request: IDBRequest<IDBCursorWithValue | null>): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
+function createDeleteCursorPromise<T>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  shouldDelete?: (record: T) => boolean
+): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    let deleted = 0
     let resolved = false
     
     const handleSuccess = () => {
       if (!resolved) {
         const cursor = request.result
         if (cursor) {
-          cursor.delete()
+          if (!shouldDelete || shouldDelete(cursor.value)) {
+            cursor.delete()
+            deleted++
+          }
           cursor.continue()
         } else {
           resolved = true
           cleanup()
-          resolve()
+          resolve(deleted)
         }
       }
     }
@@ -242,7 +257,11 @@ function createDeleteCursorPromise(request: IDBRequest<IDBCursorWithValue | null
   })
 }
 
-function createPruneCursorPromise(request: IDBRequest<IDBCursorWithValue | null>, maxDeletes: number): Promise<void> {
+function createPruneCursorPromise(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  maxDeletes: number,
+  onDelete?: (record: object) => void
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     let deleted = 0
     let resolved = false
@@ -251,6 +270,7 @@ function createPruneCursorPromise(request: IDBRequest<IDBCursorWithValue | null>
       if (!resolved) {
         const cursor = request.result
         if (cursor && deleted < maxDeletes) {
+          onDelete?.(cursor.value)
           cursor.delete()
           deleted++
           cursor.continue()
@@ -284,6 +304,426 @@ function createPruneCursorPromise(request: IDBRequest<IDBCursorWithValue | null>
   })
 }
 
+function createBatchCursorPromise<T extends { id?: number }>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  transaction: IDBTransaction,
+  batchSize: number,
+  predicate: (record: T) => boolean
+): Promise<{ records: T[]; lastKey: number | null; exhausted: boolean }> {
+  return new Promise((resolve, reject) => {
+    const records: T[] = []
+    let lastKey: number | null = null
+    let resolved = false
+    
+    const handleTransactionError = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        const error = transaction.error?.message || 'Transaction failed'
+        console.error(`IndexedDB transaction error: ${error}`)
+        reject(new Error(`Transaction failed: ${error}`))
+      }
+    }
+    
+    const handleTransactionAbort = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        console.error('IndexedDB transaction aborted')
+        reject(new Error('Transaction aborted'))
+      }
+    }
+    
+    const handleRequestSuccess = () => {
+      if (resolved) return
+      
+      const cursor = request.result
+      if (!cursor) {
+        resolved = true
+        cleanup()
+        resolve({ records, lastKey, exhausted: true })
+        return
+      }
+      
+      lastKey = cursor.primaryKey as number
+      const record = cursor.value as T
+      if (predicate(record)) {
+        records.push(record)
+      }
+      
+      if (records.length >= batchSize) {
+        // Stop here - the caller resumes from lastKey in a fresh transaction
+        resolved = true
+        cleanup()
+        resolve({ records, lastKey, exhausted: false })
+        return
+      }
+      
+      cursor.continue()
+    }
+    
+    const handleRequestError = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        const error = request.error?.message || 'Cursor request failed'
+        console.error(`IndexedDB batch cursor error: ${error}`)
+        reject(new Error(`Batch cursor failed: ${error}`))
+      }
+    }
+    
+    const cleanup = () => {
+      try {
+        transaction.removeEventListener('error', handleTransactionError)
+        transaction.removeEventListener('abort', handleTransactionAbort)
+        request.removeEventListener('success', handleRequestSuccess)
+        request.removeEventListener('error', handleRequestError)
+      } catch (err) {
+        // Ignore cleanup errors
+      }
+    }
+    
+    transaction.addEventListener('error', handleTransactionError)
+    transaction.addEventListener('abort', handleTransactionAbort)
+    request.addEventListener('success', handleRequestSuccess)
+    request.addEventListener('error', handleRequestError)
+  })
+}
+
+// Mirrors the dashboard's method/search filtering so exports match what the user sees
+function matchesApiCallFilter(call: ApiCall, filter: ApiCallFilter): boolean {
+  if (filter.method && filter.method !== 'all' && call.method?.toUpperCase() !== filter.method.toUpperCase()) {
+    return false
+  }
+  if (filter.mainDomain && call.main_domain !== filter.mainDomain) {
+    return false
+  }
+  if (filter.transport && call.transport !== filter.transport) {
+    return false
+  }
+  if (filter.sessionIds?.length && !filter.sessionIds.includes(call.session_id || '')) {
+    return false
+  }
+  if (filter.importId !== undefined && (call.import_id ?? null) !== filter.importId) {
+    return false
+  }
+  if (filter.search) {
+    const term = filter.search.toLowerCase()
+    if (!call.url?.toLowerCase().includes(term) && !call.method?.toLowerCase().includes(term)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Only the sort value and primary key of each matching record are kept while a query scans,
+// the full records of the requested page are loaded afterwards
+interface QuerySortEntry {
+  value: string | number | null
+  id: number
+}
+
+// Sort keys whose natural order is not alphabetical
+const SORT_VALUE_RANKS: Record<string, Record<string, number>> = {
+  severity: { info: 0, warn: 1, error: 2 }
+}
+
+function getSortValue(record: Record<string, unknown>, sortBy: string): string | number | null {
+  const value = record[sortBy]
+  if (value === undefined || value === null) return null
+  const ranks = SORT_VALUE_RANKS[sortBy]
+  if (ranks && typeof value === 'string' && value in ranks) return ranks[value]
+  return typeof value === 'number' ? value : String(value)
+}
+
+// Nulls first, then by value, then by primary key so the order is total and cursors are stable
+function compareSortEntries(a: QuerySortEntry, b: QuerySortEntry): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return -1
+    if (b.value === null) return 1
+    return a.value < b.value ? -1 : 1
+  }
+  return a.id - b.id
+}
+
+function encodeQueryCursor(entry: QuerySortEntry): string {
+  return encodeURIComponent(JSON.stringify([entry.value, entry.id]))
+}
+
+function decodeQueryCursor(cursor: string): QuerySortEntry {
+  try {
+    const [value, id] = JSON.parse(decodeURIComponent(cursor))
+    if (typeof id === 'number' && (value === null || typeof value === 'number' || typeof value === 'string')) {
+      return { value, id }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid query cursor')
+}
+
+function timestampRange(since?: number, until?: number): IDBKeyRange | null {
+  if (since !== undefined && until !== undefined) return IDBKeyRange.bound(since, until)
+  if (since !== undefined) return IDBKeyRange.lowerBound(since)
+  if (until !== undefined) return IDBKeyRange.upperBound(until)
+  return null
+}
+
+// Equality filters on domain or tab use the compound [field, timestamp] indexes so only matching
+// records are scanned; databases opened before those indexes existed fall back to the timestamp index
+function selectQueryIndex(store: IDBObjectStore, query: QueryPage<string>): { index: IDBIndex; range: IDBKeyRange | null } {
+  const lower = query.since ?? -Infinity
+  const upper = query.until ?? Infinity
+  if (query.mainDomain && store.indexNames.contains('main_domain_timestamp')) {
+    return {
+      index: store.index('main_domain_timestamp'),
+      range: IDBKeyRange.bound([query.mainDomain, lower], [query.mainDomain, upper])
+    }
+  }
+  if (query.tabId !== undefined && store.indexNames.contains('tab_id_timestamp')) {
+    return {
+      index: store.index('tab_id_timestamp'),
+      range: IDBKeyRange.bound([query.tabId, lower], [query.tabId, upper])
+    }
+  }
+  return { index: store.index('timestamp'), range: timestampRange(query.since, query.until) }
+}
+
+function createQueryScanPromise<T>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  transaction: IDBTransaction,
+  predicate: (record: T) => boolean,
+  sortBy: string
+): Promise<QuerySortEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: QuerySortEntry[] = []
+    let resolved = false
+    
+    const handleTransactionError = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        const error = transaction.error?.message || 'Transaction failed'
+        console.error(`IndexedDB transaction error: ${error}`)
+        reject(new Error(`Transaction failed: ${error}`))
+      }
+    }
+    
+    const handleTransactionAbort = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        console.error('IndexedDB transaction aborted')
+        reject(new Error('Transaction aborted'))
+      }
+    }
+    
+    const handleRequestSuccess = () => {
+      if (resolved) return
+      
+      const cursor = request.result
+      if (!cursor) {
+        resolved = true
+        cleanup()
+        resolve(entries)
+        return
+      }
+      
+      const record = cursor.value as T
+      if (predicate(record)) {
+        entries.push({ value: getSortValue(cursor.value, sortBy), id: cursor.primaryKey as number })
+      }
+      cursor.continue()
+    }
+    
+    const handleRequestError = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        const error = request.error?.message || 'Cursor request failed'
+        console.error(`IndexedDB query cursor error: ${error}`)
+        reject(new Error(`Query cursor failed: ${error}`))
+      }
+    }
+    
+    const cleanup = () => {
+      try {
+        transaction.removeEventListener('error', handleTransactionError)
+        transaction.removeEventListener('abort', handleTransactionAbort)
+        request.removeEventListener('success', handleRequestSuccess)
+        request.removeEventListener('error', handleRequestError)
+      } catch (err) {
+        // Ignore cleanup errors
+      }
+    }
+    
+    transaction.addEventListener('error', handleTransactionError)
+    transaction.addEventListener('abort', handleTransactionAbort)
+    request.addEventListener('success', handleRequestSuccess)
+    request.addEventListener('error', handleRequestError)
+  })
+}
+
+// Counts how often each key occurs along an index, e.g. API calls per body hash
+function createKeyCountPromise(
+  request: IDBRequest<IDBCursor | null>,
+  transaction: IDBTransaction
+): Promise<Map<string, number>> {
+  return new Promise((resolve, reject) => {
+    const counts = new Map<string, number>()
+    let resolved = false
+    
+    const handleTransactionAbort = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        reject(new Error('Transaction aborted'))
+      }
+    }
+    
+    const handleRequestSuccess = () => {
+      if (resolved) return
+      
+      const cursor = request.result
+      if (!cursor) {
+        resolved = true
+        cleanup()
+        resolve(counts)
+        return
+      }
+      
+      const key = String(cursor.key)
+      counts.set(key, (counts.get(key) || 0) + 1)
+      cursor.continue()
+    }
+    
+    const handleRequestError = () => {
+      if (!resolved) {
+        resolved = true
+        cleanup()
+        reject(new Error(`Key cursor failed: ${request.error?.message || 'unknown error'}`))
+      }
+    }
+    
+    const cleanup = () => {
+      try {
+        transaction.removeEventListener('abort', handleTransactionAbort)
+        request.removeEventListener('success', handleRequestSuccess)
+        request.removeEventListener('error', handleRequestError)
+      } catch (err) {
+        // Ignore cleanup errors
+      }
+    }
+    
+    transaction.addEventListener('abort', handleTransactionAbort)
+    request.addEventListener('success', handleRequestSuccess)
+    request.addEventListener('error', handleRequestError)
+  })
+}
+
+// Marks an already stored body as used within the lookup transaction; resolves false when absent
+function createTouchBodyPromise(store: IDBObjectStore, hash: string, now: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const getRequest = store.get(hash)
+    
+    getRequest.onsuccess = () => {
+      const existing = getRequest.result as StoredBody | undefined
+      if (!existing) {
+        resolve(false)
+        return
+      }
+      const putRequest = store.put({ ...existing, last_used_at: now })
+      putRequest.onsuccess = () => resolve(true)
+      putRequest.onerror = () => reject(new Error(`Failed to touch body ${hash}: ${putRequest.error?.message}`))
+    }
+    getRequest.onerror = () => reject(new Error(`Failed to look up body ${hash}: ${getRequest.error?.message}`))
+  })
+}
+
+// Adds pending rollup deltas onto the stored rows in one readwrite transaction
+function createRollupMergePromise(store: IDBObjectStore, deltas: RollupRow[], transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    for (const delta of deltas) {
+      const getRequest = store.get([delta.granularity, delta.bucket_start, delta.source, delta.domain, delta.dimension])
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as RollupRow | undefined
+        store.put(existing ? mergeRollupRow(existing, delta) : delta)
+      }
+    }
+    
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(new Error(`Failed to save rollups: ${transaction.error?.message}`))
+    transaction.onabort = () => reject(new Error('Rollup transaction aborted'))
+  })
+}
+
+function matchesQueryPage(record: { main_domain?: string; tab_id?: number; session_id?: string }, query: QueryPage<string>): boolean {
+  if (query.mainDomain && record.main_domain !== query.mainDomain) {
+    return false
+  }
+  if (query.tabId !== undefined && record.tab_id !== query.tabId) {
+    return false
+  }
+  if (query.sessionIds?.length && !query.sessionIds.includes(record.session_id || '')) {
+    return false
+  }
+  return true
+}
+
+function matchesApiCallQuery(call: ApiCall, query: ApiCallQuery): boolean {
+  if (!matchesApiCallFilter(call, query)) {
+    return false
+  }
+  if (query.statusMin !== undefined && !(call.status >= query.statusMin)) {
+    return false
+  }
+  if (query.statusMax !== undefined && !(call.status <= query.statusMax)) {
+    return false
+  }
+  if (query.urlContains && !call.url?.toLowerCase().includes(query.urlContains.toLowerCase())) {
+    return false
+  }
+  // Calls without a recorded response time never match a response-time bound
+  if (query.responseTimeMin !== undefined && !((call.response_time ?? -1) >= query.responseTimeMin)) {
+    return false
+  }
+  if (query.responseTimeMax !== undefined && (call.response_time == null || call.response_time > query.responseTimeMax)) {
+    return false
+  }
+  return true
+}
+
+function matchesConsoleErrorQuery(error: ConsoleError, query: ConsoleErrorQuery): boolean {
+  if (query.severity && error.severity !== query.severity) {
+    return false
+  }
+  if (query.search) {
+    const term = query.search.toLowerCase()
+    if (!error.message?.toLowerCase().includes(term) &&
+        !error.stack_trace?.toLowerCase().includes(term) &&
+        !error.url?.toLowerCase().includes(term)) {
+      return false
+    }
+  }
+  return true
+}
+
+function matchesTokenEventQuery(event: TokenEvent, query: TokenEventQuery): boolean {
+  if (query.kind && event.kind !== query.kind) {
+    return false
+  }
+  if (query.credential && event.credential !== query.credential) {
+    return false
+  }
+  if (query.search) {
+    const term = query.search.toLowerCase()
+    if (!event.source_url?.toLowerCase().includes(term) && !event.url?.toLowerCase().includes(term)) {
+      return false
+    }
+  }
+  return true
+}
+
 // MEMORY LEAK FIX: Ultra-lightweight performance tracking with extreme cleanup
 class BackgroundPerformanceTracker {
   private operationCounts: Record<string, number> = {}
@@ -436,10 +876,16 @@ class BackgroundPerformanceTracker {
 
 const perfTracker = new BackgroundPerformanceTracker()
 
+const RESTORE_BATCH_SIZE = 500 // Records written per transaction when restoring a backup
+const AGGREGATE_FLUSH_DELAY_MS = 1000 // Batches counter writes from bursts of inserts
+const ROLLUP_BACKFILL_FLUSH_ROWS = 2000 // Pending rollup rows written at a time while backfilling
+const BODY_CACHE_SIZE = 32 // Decompressed bodies kept for repeat reads of the same payload
+
 export class IndexedDBStorage implements StorageOperations {
   private db: IDBDatabase | null = null
   private config: StorageConfig
   private initPromise: Promise<void> | null = null
+  private migrationStatus: MigrationStatus = { state: 'idle', fromVersion: DB_VERSION, toVersion: DB_VERSION, completedVersions: [] }
 
   constructor(config: StorageConfig) {
     this.config = config
@@ -476,57 +922,88 @@ export class IndexedDBStorage implements StorageOperations {
       console.log('🔧 IndexedDB: Starting database initialization...')
       
       // MEMORY LEAK FIX: Replace Promise constructor with direct event-to-promise pattern
-      const request = indexedDB.open('DevToolsExtension', 3) // Increment version to trigger upgrade
+      const request = indexedDB.open('DevToolsExtension', DB_VERSION)
+      const appliedVersions: number[] = []
       
-      // Handle database upgrade first
-      request.onupgradeneeded = () => {
+      // Schema changes go through the ordered migration steps
+      request.onupgradeneeded = (event) => {
         const db = request.result
-        console.log('🔄 IndexedDB: Database upgrade needed')
-        
-        // Create object stores
-        if (!db.objectStoreNames.contains('apiCalls')) {
-          const apiStore = db.createObjectStore('apiCalls', { keyPath: 'id', autoIncrement: true })
-          apiStore.createIndex('timestamp', 'timestamp', { unique: false })
-          apiStore.createIndex('domain', 'domain', { unique: false })
-          console.log('📦 IndexedDB: Created apiCalls store with auto-increment')
-        }
-        
-        if (!db.objectStoreNames.contains('consoleErrors')) {
-          const errorStore = db.createObjectStore('consoleErrors', { keyPath: 'id', autoIncrement: true })
-          errorStore.createIndex('timestamp', 'timestamp', { unique: false })
-          errorStore.createIndex('domain', 'domain', { unique: false })
-          console.log('📦 IndexedDB: Created consoleErrors store with auto-increment')
-        }
-        
-        if (!db.objectStoreNames.contains('tokenEvents')) {
-          const tokenStore = db.createObjectStore('tokenEvents', { keyPath: 'id', autoIncrement: true })
-          tokenStore.createIndex('timestamp', 'timestamp', { unique: false })
-          tokenStore.createIndex('domain', 'domain', { unique: false })
-          console.log('📦 IndexedDB: Created tokenEvents store with auto-increment')
-        }
+        const toVersion = event.newVersion ?? DB_VERSION
+        console.log(`🔄 IndexedDB: Upgrading database from v${event.oldVersion} to v${toVersion}`)
         
-        if (!db.objectStoreNames.contains('minifiedLibraries')) {
-          const libraryStore = db.createObjectStore('minifiedLibraries', { keyPath: 'id', autoIncrement: true })
-          libraryStore.createIndex('domain', 'domain', { unique: false })
-          console.log('📦 IndexedDB: Created minifiedLibraries store with auto-increment')
+        this.migrationStatus = {
+          state: 'running',
+          fromVersion: event.oldVersion,
+          toVersion,
+          completedVersions: [],
+          startedAt: Date.now()
         }
+        runMigrations(
+          db,
+          request.transaction!,
+          event.oldVersion,
+          toVersion,
+          (migration) => {
+            appliedVersions.push(migration.version)
+            this.migrationStatus.current = { version: migration.version, description: migration.description, processed: 0, total: 0 }
+          },
+          (progress) => {
+            this.migrationStatus.current = progress
+          }
+        )
+      }
+      
+      // Another tab or worker still holds the old version open
+      request.onblocked = () => {
+        console.warn('⏳ IndexedDB: Upgrade blocked by another open connection')
+        this.migrationStatus = { ...this.migrationStatus, state: 'blocked' }
       }
       
       // MEMORY LEAK FIX: Use helper method instead of Promise constructor
       const db = await this.promiseFromOpenRequest(request)
       
       this.db = db
+      // Let a newer version of the extension upgrade the schema instead of being blocked by us
+      db.onversionchange = () => {
+        db.close()
+        this.db = null
+      }
+      if (this.migrationStatus.state === 'running' || this.migrationStatus.state === 'blocked') {
+        this.migrationStatus = {
+          ...this.migrationStatus,
+          state: 'completed',
+          completedVersions: appliedVersions,
+          finishedAt: Date.now()
+        }
+        console.log(`✅ IndexedDB: Migrated to v${db.version} (steps ${appliedVersions.join(', ') || 'none'})`)
+      }
       console.log('✅ IndexedDB: Database opened successfully')
       console.log('📊 IndexedDB: Available stores:', Array.from(db.objectStoreNames))
+      // Analysis falls back to rebuilding on first use if the saved totals cannot be read now
+      await this.loadAggregates().catch(error => console.warn('⚠️ IndexedDB: Failed to load aggregates:', error))
+      await this.backfillRollups().catch(error => console.warn('⚠️ IndexedDB: Failed to backfill rollups:', error))
       this.startAutoPruning()
       this.initPromise = null
     } catch (error) {
       console.error('❌ IndexedDB: Database initialization failed:', error)
+      if (this.migrationStatus.state === 'running' || this.migrationStatus.state === 'blocked') {
+        // The versionchange transaction was aborted, so the previous schema and data are untouched
+        this.migrationStatus = {
+          ...this.migrationStatus,
+          state: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: Date.now()
+        }
+      }
       this.initPromise = null
       throw error
     }
   }
 
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    return { ...this.migrationStatus, completedVersions: [...this.migrationStatus.completedVersions] }
+  }
+
   // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
   private async promiseFromOpenRequest(request: IDBOpenDBRequest): Promise<IDBDatabase> {
     return createOpenRequestPromise(request)
@@ -548,18 +1025,50 @@ export class IndexedDBStorage implements StorageOperations {
   }
 
   // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
-  private async promiseFromDeleteCursor(request: IDBRequest<IDBCursorWithValue | null>): Promise<void> {
-    return createDeleteCursorPromise(request)
+  private async promiseFromBatchCursor<T extends { id?: number }>(
+    request: IDBRequest<IDBCursorWithValue | null>,
+    transaction: IDBTransaction,
+    batchSize: number,
+    predicate: (record: T) => boolean
+  ): Promise<{ records: T[]; lastKey: number | null; exhausted: boolean }> {
+    return createBatchCursorPromise<T>(request, transaction, batchSize, predicate)
   }
 
   // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
-  private async promiseFromPruneCursor(request: IDBRequest<IDBCursorWithValue | null>, maxDeletes: number): Promise<void> {
-    return createPruneCursorPromise(request, maxDeletes)
+  private async promiseFromQueryScan<T>(
+    request: IDBRequest<IDBCursorWithValue | null>,
+    transaction: IDBTransaction,
+    predicate: (record: T) => boolean,
+    sortBy: string
+  ): Promise<QuerySortEntry[]> {
+    return createQueryScanPromise<T>(request, transaction, predicate, sortBy)
   }
 
-  private autoPruneInterval: number | null = null;
+  // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
+  private async promiseFromDeleteCursor<T>(
+    request: IDBRequest<IDBCursorWithValue | null>,
+    shouldDelete?: (record: T) => boolean
+  ): Promise<number> {
+    return createDeleteCursorPromise<T>(request, shouldDelete)
+  }
 
-  private startAutoPruning() {
+  // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
+  private async promiseFromKeyCount(request: IDBRequest<IDBCursor | null>, transaction: IDBTransaction): Promise<Map<string, number>> {
+    return createKeyCountPromise(request, transaction)
+  }
+
+  // MEMORY LEAK FIX: Use external helper function instead of class method Promise constructor
+  private async promiseFromPruneCursor(
+    request: IDBRequest<IDBCursorWithValue | null>,
+    maxDeletes: number,
+    onDelete?: (record: object) => void
+  ): Promise<void> {
+    return createPruneCursorPromise(request, maxDeletes, onDelete)
+  }
+
+  private autoPruneInterval: number | null = null;
+
+  private startAutoPruning() {
     // MEMORY LEAK FIX: Clear existing interval before setting new one
     if (this.autoPruneInterval) {
       clearInterval(this.autoPruneInterval);
@@ -585,7 +1094,7 @@ export class IndexedDBStorage implements StorageOperations {
     
     if (!this.db) return
     
-    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries']
+    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames']
     
     for (const storeName of stores) {
       try {
@@ -601,12 +1110,14 @@ export class IndexedDBStorage implements StorageOperations {
           const index = store.index('timestamp')
           const request = index.openCursor(null, 'next') // Oldest first
           
-          await this.promiseFromPruneCursor(request, excess)
+          await this.promiseFromPruneCursor(request, excess, (record) => this.trackRecord(storeName as AggregateTable, record, -1))
         }
       } catch (error) {
         // Ignore errors to prevent string accumulation in error messages
       }
     }
+    
+    await this.sweepUnreferencedBodies().catch(() => undefined)
   }
 
   private async performTransaction<T>(
@@ -660,9 +1171,12 @@ export class IndexedDBStorage implements StorageOperations {
       
       console.log('📝 InsertApiCall: Attempting to store data:', { url: data.url, method: data.method, timestamp: data.timestamp })
       
+      const record = await this.externalizeBodies(data)
       const result = await this.performTransaction('apiCalls', 'readwrite', 
-        (store) => store.add(data)
+        (store) => store.add(record)
       )
+      this.trackRecord('apiCalls', { ...record, id: result }, 1)
+      this.trackRollup('apiCalls', record)
       
       console.log('✅ InsertApiCall: Successfully stored with ID:', result)
       
@@ -731,7 +1245,7 @@ export class IndexedDBStorage implements StorageOperations {
       // MEMORY LEAK FIX: Check memory pressure after data retrieval
       await this.checkMemoryPressure()
       
-      return results
+      return await this.rehydrateApiCalls(results)
       
     } catch (error) {
       console.error('❌ GetApiCalls: Failed to retrieve data:', error)
@@ -741,9 +1255,644 @@ export class IndexedDBStorage implements StorageOperations {
   }
 
   async deleteApiCall(id: number): Promise<void> {
-    await this.performTransaction('apiCalls', 'readwrite', 
-      (store) => store.delete(id)
+    await this.deleteTrackedRecord('apiCalls', id)
+  }
+
+  // Remove every API call belonging to a HAR import, leaving live-captured data untouched
+  async deleteApiCallsByImport(importId: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const transaction = this.db.transaction(['apiCalls'], 'readwrite')
+    const store = transaction.objectStore('apiCalls')
+    const request = store.openCursor()
+    
+    const deleted = await this.promiseFromDeleteCursor(request, (call: ApiCall) => {
+      if (call.import_id !== importId) return false
+      this.trackRecord('apiCalls', call, -1)
+      return true
+    })
+    console.log(`🗑️ DeleteApiCallsByImport: Removed ${deleted} records for import ${importId}`)
+    await this.sweepUnreferencedBodies()
+    
+    return deleted
+  }
+
+  // Remove everything recorded during one capture session, across all session-tagged stores
+  async deleteRecordsBySession(sessionId: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    let deleted = 0
+    for (const storeName of ['apiCalls', 'consoleErrors', 'tokenEvents']) {
+      const transaction = this.db.transaction([storeName], 'readwrite')
+      const store = transaction.objectStore(storeName)
+      // Databases still on a pre-session schema have no session_id index to narrow the scan
+      const request = store.indexNames.contains('session_id')
+        ? store.index('session_id').openCursor(IDBKeyRange.only(sessionId))
+        : store.openCursor()
+      deleted += await this.promiseFromDeleteCursor(request, (record: { session_id?: string }) => {
+        if (record.session_id !== sessionId) return false
+        this.trackRecord(storeName as AggregateTable, record, -1)
+        return true
+      })
+    }
+    console.log(`🗑️ DeleteRecordsBySession: Removed ${deleted} records for session ${sessionId}`)
+    await this.sweepUnreferencedBodies()
+    
+    return deleted
+  }
+
+  // Stream API calls oldest-first in fixed-size batches without loading the whole store.
+  // Each batch runs in its own transaction so onBatch may await freely between them.
+  async iterateApiCalls(
+    filter: ApiCallFilter,
+    onBatch: (batch: ApiCall[]) => void | Promise<void>,
+    batchSize = 200
+  ): Promise<number> {
+    const startTime = performance.now()
+    if (!this.db) throw new Error('Database not initialized')
+    
+    let afterId: number | null = null
+    let total = 0
+    
+    do {
+      const batch = await this.readApiCallBatch(filter, afterId, batchSize)
+      if (batch.records.length > 0) {
+        total += batch.records.length
+        await onBatch(batch.records)
+      }
+      afterId = batch.nextKey as number | null
+    } while (afterId !== null)
+    
+    perfTracker.trackOperation('iterateApiCalls', performance.now() - startTime)
+    console.log(`✅ IterateApiCalls: Streamed ${total} records`)
+    
+    return total
+  }
+
+  // One batch of matching API calls after the given id, for callers that page across messages;
+  // a batch may hold fewer than batchSize records (even none) before the store is exhausted
+  async readApiCallBatch(filter: ApiCallFilter, afterId: number | null, batchSize = 200): Promise<RecordBatch<ApiCall>> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const transaction = this.db.transaction(['apiCalls'], 'readonly')
+    const range = afterId === null ? null : IDBKeyRange.lowerBound(afterId, true)
+    const batch = await this.promiseFromBatchCursor<ApiCall>(
+      transaction.objectStore('apiCalls').openCursor(range, 'next'), transaction, batchSize, (call) => matchesApiCallFilter(call, filter)
+    )
+    return {
+      records: await this.rehydrateApiCalls(batch.records),
+      nextKey: batch.exhausted ? null : batch.lastKey
+    }
+  }
+
+  async queryApiCalls(query: ApiCallQuery): Promise<QueryResult<ApiCall>> {
+    const result = await this.runQuery<ApiCall>('apiCalls', query, (call) => matchesApiCallQuery(call, query))
+    result.records = await this.rehydrateApiCalls(result.records)
+    return result
+  }
+
+  // Body store: large bodies are swapped for a SHA-256 reference on insert and restored on read
+  private bodyCache = new Map<string, string>()
+
+  private hasBodyStore(): boolean {
+    return !!this.db?.objectStoreNames.contains('bodies')
+  }
+
+  private cacheBody(hash: string, text: string) {
+    this.bodyCache.delete(hash)
+    this.bodyCache.set(hash, text)
+    if (this.bodyCache.size > BODY_CACHE_SIZE) {
+      this.bodyCache.delete(this.bodyCache.keys().next().value as string)
+    }
+  }
+
+  private async storeBody(text: string): Promise<string> {
+    const hash = await hashBody(text)
+    const now = Date.now()
+    
+    const lookup = this.db!.transaction(['bodies'], 'readwrite')
+    const exists = await createTouchBodyPromise(lookup.objectStore('bodies'), hash, now)
+    if (!exists) {
+      const compressed = await compressBody(text)
+      const body: StoredBody = { hash, ...compressed, size: text.length, created_at: now, last_used_at: now }
+      await this.performTransaction('bodies', 'readwrite', (store) => store.put(body))
+      this.trackRecord('bodies', body, 1)
+    }
+    
+    this.cacheBody(hash, text)
+    return hash
+  }
+
+  private async externalizeBodies(data: Omit<ApiCall, 'id'>): Promise<Omit<ApiCall, 'id'>> {
+    if (!this.hasBodyStore()) return data
+    
+    const record = { ...data }
+    try {
+      if (typeof data.response_body === 'string' && data.response_body.length >= BODY_STORE_THRESHOLD) {
+        record.response_body_hash = await this.storeBody(data.response_body)
+        record.response_body_size = data.response_body.length
+        record.response_body = ''
+      }
+      if (typeof data.request_body === 'string' && data.request_body.length >= BODY_STORE_THRESHOLD) {
+        record.request_body_hash = await this.storeBody(data.request_body)
+        record.request_body_size = data.request_body.length
+        record.request_body = ''
+      }
+    } catch (error) {
+      // Inline storage always works, so a body store failure never costs the capture
+      console.warn('⚠️ InsertApiCall: Body store unavailable, keeping bodies inline:', error)
+      return data
+    }
+    
+    const hashes = [record.request_body_hash, record.response_body_hash].filter((hash): hash is string => !!hash)
+    if (hashes.length > 0) {
+      record.body_hashes = Array.from(new Set(hashes))
+    }
+    return record
+  }
+
+  // Fills externalized bodies back in; records stored before the body store keep theirs inline
+  private async rehydrateApiCalls(calls: ApiCall[]): Promise<ApiCall[]> {
+    const texts = new Map<string, string>()
+    const missing = new Set<string>()
+    for (const call of calls) {
+      for (const hash of [call.request_body_hash, call.response_body_hash]) {
+        if (!hash) continue
+        const cached = this.bodyCache.get(hash)
+        if (cached !== undefined) {
+          texts.set(hash, cached)
+        } else {
+          missing.add(hash)
+        }
+      }
+    }
+    
+    if (missing.size > 0 && this.hasBodyStore()) {
+      const transaction = this.db!.transaction(['bodies'], 'readonly')
+      const store = transaction.objectStore('bodies')
+      const bodies = await Promise.all(
+        Array.from(missing, hash => this.promiseFromRequest<StoredBody | undefined>(store.get(hash), transaction))
+      )
+      for (const body of bodies) {
+        if (!body) continue
+        try {
+          const text = await decompressBody(body)
+          texts.set(body.hash, text)
+          this.cacheBody(body.hash, text)
+        } catch (error) {
+          console.warn(`⚠️ IndexedDB: Could not decompress body ${body.hash}:`, error)
+        }
+      }
+    }
+    
+    for (const call of calls) {
+      if (call.response_body_hash) call.response_body = texts.get(call.response_body_hash) ?? call.response_body
+      if (call.request_body_hash) call.request_body = texts.get(call.request_body_hash) ?? call.request_body
+    }
+    return calls
+  }
+
+  // Deletes bodies no API call points at any more; runs after anything that removes API calls
+  private async sweepUnreferencedBodies(): Promise<number> {
+    if (!this.db || !this.hasBodyStore()) return 0
+    
+    const scan = this.db.transaction(['apiCalls'], 'readonly')
+    const referenced = await this.promiseFromKeyCount(scan.objectStore('apiCalls').index('body_hashes').openKeyCursor(), scan)
+    
+    const graceCutoff = Date.now() - BODY_SWEEP_GRACE_MS
+    const sweep = this.db.transaction(['bodies'], 'readwrite')
+    const deleted = await this.promiseFromDeleteCursor(
+      sweep.objectStore('bodies').openCursor(),
+      (body: StoredBody) => {
+        if (referenced.has(body.hash) || body.last_used_at >= graceCutoff) return false
+        this.trackRecord('bodies', body, -1)
+        return true
+      }
+    )
+    if (deleted > 0) {
+      console.log(`🧹 IndexedDB: Swept ${deleted} unreferenced bodies`)
+    }
+    return deleted
+  }
+
+  async getBodyStoreStats(): Promise<BodyStoreStats> {
+    const { apiCalls, bodies } = await this.getAggregates()
+    return createBodyStoreStats({
+      bodies: bodies.records,
+      references: apiCalls.sums.bodyReferences || 0,
+      logicalBytes: apiCalls.sums.referencedBodyBytes || 0,
+      uniqueBytes: bodies.sums.uncompressedBytes || 0,
+      storedBytes: bodies.bytes
+    })
+  }
+
+  // Aggregates: counters kept in memory, written back to the 'aggregates' store shortly after changes
+  private aggregates: StorageAggregates | null = null
+  private dirtyAggregates = new Set<AggregateTable>()
+  private aggregateFlushTimer: ReturnType<typeof setTimeout> | null = null
+
+  async getAggregates(): Promise<StorageAggregates> {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!this.aggregates) {
+      await this.loadAggregates()
+    }
+    return structuredClone(this.aggregates ?? createEmptyAggregates())
+  }
+
+  private trackRecord(table: AggregateTable, record: object, sign: 1 | -1) {
+    if (!this.aggregates) return
+    applyRecordToAggregate(this.aggregates[table], record, sign)
+    this.dirtyAggregates.add(table)
+    this.scheduleCounterFlush()
+  }
+
+  // Aggregates, rollups, token lifecycles and JWT observations share one timer so a burst of inserts costs a few writes, not a few per insert
+  private scheduleCounterFlush() {
+    if (this.aggregateFlushTimer) return
+    this.aggregateFlushTimer = setTimeout(() => {
+      this.aggregateFlushTimer = null
+      this.flushAggregates().catch(error => console.warn('⚠️ IndexedDB: Failed to save aggregates:', error))
+      this.flushRollups().catch(error => console.warn('⚠️ IndexedDB: Failed to save rollups:', error))
+      this.flushTokenLifecycles().catch(error => console.warn('⚠️ IndexedDB: Failed to save token lifecycles:', error))
+      this.flushJwtObservations().catch(error => console.warn('⚠️ IndexedDB: Failed to save JWT observations:', error))
+    }, AGGREGATE_FLUSH_DELAY_MS)
+  }
+
+  private async flushAggregates(): Promise<void> {
+    if (!this.db || !this.aggregates || this.dirtyAggregates.size === 0) return
+    if (!this.db.objectStoreNames.contains('aggregates')) return
+    
+    const transaction = this.db.transaction(['aggregates'], 'readwrite')
+    const store = transaction.objectStore('aggregates')
+    let request: IDBRequest<IDBValidKey> | null = null
+    for (const table of this.dirtyAggregates) {
+      request = store.put(this.aggregates[table])
+    }
+    this.dirtyAggregates.clear()
+    await this.promiseFromRequest(request!, transaction)
+  }
+
+  // Saved totals are trusted only while their record count still matches the store
+  private async loadAggregates(): Promise<void> {
+    if (!this.db || !this.db.objectStoreNames.contains('aggregates')) return
+    
+    const saved = await this.performTransaction<TableAggregate[]>('aggregates', 'readonly', (store) => store.getAll())
+    const aggregates = createEmptyAggregates()
+    
+    for (const table of AGGREGATE_TABLES) {
+      if (!this.db.objectStoreNames.contains(table)) continue
+      const count = await this.performTransaction<number>(table, 'readonly', (store) => store.count())
+      const existing = saved.find(aggregate => aggregate.table === table)
+      if (existing && existing.version === AGGREGATE_VERSION && existing.records === count) {
+        aggregates[table] = existing
+      } else {
+        console.log(`🔁 IndexedDB: Rebuilding ${table} aggregates from ${count} records`)
+        aggregates[table] = await this.rebuildAggregate(table)
+        this.dirtyAggregates.add(table)
+      }
+    }
+    
+    this.aggregates = aggregates
+    await this.flushAggregates()
+  }
+
+  private async rebuildAggregate(table: AggregateTable): Promise<TableAggregate> {
+    const aggregate = createEmptyAggregate(table)
+    await this.scanStore(table, (batch: object[]) => {
+      for (const record of batch) {
+        applyRecordToAggregate(aggregate, record, 1)
+      }
+    })
+    return aggregate
+  }
+
+  // Rollups: deltas merged in memory per bucket row, added onto the stored rows on flush
+  private pendingRollups = new Map<string, RollupRow>()
+
+  private hasRollupStore(): boolean {
+    return !!this.db && this.db.objectStoreNames.contains('rollups')
+  }
+
+  private trackRollup(source: RollupSource, record: object, schedule = true) {
+    if (!this.hasRollupStore()) return
+    for (const delta of rollupDeltasForRecord(source, record)) {
+      const key = rollupRowKey(delta)
+      const pending = this.pendingRollups.get(key)
+      this.pendingRollups.set(key, pending ? mergeRollupRow(pending, delta) : delta)
+    }
+    if (schedule) {
+      this.scheduleCounterFlush()
+    }
+  }
+
+  private async flushRollups(): Promise<void> {
+    if (!this.hasRollupStore() || this.pendingRollups.size === 0) return
+    
+    const deltas = Array.from(this.pendingRollups.values())
+    this.pendingRollups.clear()
+    const transaction = this.db!.transaction(['rollups'], 'readwrite')
+    await createRollupMergePromise(transaction.objectStore('rollups'), deltas, transaction)
+  }
+
+  async queryRollups(query: RollupQuery): Promise<RollupSeries> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const granularity = query.granularity || chooseRollupGranularity(query.from, query.to)
+    if (!this.hasRollupStore()) {
+      return summarizeRollups([], { ...query, granularity })
+    }
+    await this.flushRollups()
+    
+    const range = IDBKeyRange.bound(
+      [query.source, granularity, bucketStart(query.from, granularity)],
+      [query.source, granularity, query.to]
+    )
+    const rows = await this.performTransaction<RollupRow[]>('rollups', 'readonly',
+      (store) => store.index('source_granularity_bucket').getAll(range)
+    )
+    const domain = query.domain?.toLowerCase()
+    return summarizeRollups(domain ? rows.filter(row => row.domain === domain) : rows, { ...query, granularity })
+  }
+
+  // Rebuilds rollups from the raw records when the store is new or was emptied while records remain
+  private async backfillRollups(): Promise<void> {
+    if (!this.hasRollupStore()) return
+    const existing = await this.performTransaction<number>('rollups', 'readonly', (store) => store.count())
+    if (existing > 0) return
+    
+    for (const source of ['apiCalls', 'consoleErrors'] as RollupSource[]) {
+      const count = await this.scanStore(source, async (batch: object[]) => {
+        batch.forEach(record => this.trackRollup(source, record, false))
+        if (this.pendingRollups.size >= ROLLUP_BACKFILL_FLUSH_ROWS) {
+          await this.flushRollups()
+        }
+      })
+      if (count > 0) {
+        console.log(`🔁 IndexedDB: Backfilled rollups from ${count} ${source} records`)
+      }
+    }
+    await this.flushRollups()
+  }
+
+  // Each granularity keeps its own window, independent of the raw records' retention
+  private async pruneRollups(now = Date.now()): Promise<void> {
+    if (!this.hasRollupStore()) return
+    
+    for (const granularity of ROLLUP_GRANULARITIES) {
+      const cutoff = now - ROLLUP_RETENTION_MS[granularity]
+      const transaction = this.db!.transaction(['rollups'], 'readwrite')
+      const range = IDBKeyRange.bound([granularity, 0], [granularity, cutoff], false, true)
+      await this.promiseFromDeleteCursor(transaction.objectStore('rollups').index('granularity_bucket').openCursor(range))
+    }
+  }
+
+  // Token lifecycles: uses and issuances queued in memory, folded into the stored lifecycles on flush
+  private pendingLifecycleEvents: TokenLifecycleEvent[] = []
+  private lifecycleChains: Map<string, string> | null = null // Chain key -> fingerprint of its newest credential
+  private lastIssuance = new Map<string, { at: number; via: 'acquire' | 'refresh' }>() // Per domain, since the worker started
+  private lifecycleFlush: Promise<void> = Promise.resolve()
+
+  private hasLifecycleStore(): boolean {
+    return !!this.db && this.db.objectStoreNames.contains('tokenLifecycles')
+  }
+
+  trackTokenLifecycle(event: TokenLifecycleEvent): void {
+    if (!this.hasLifecycleStore()) return
+    this.pendingLifecycleEvents.push(event)
+    this.scheduleCounterFlush()
+  }
+
+  // Flushes run one after another; two overlapping read-modify-write passes would lose uses
+  private flushTokenLifecycles(): Promise<void> {
+    const flush = this.lifecycleFlush.then(() => this.applyLifecycleEvents())
+    this.lifecycleFlush = flush.catch(() => undefined)
+    return flush
+  }
+
+  private async applyLifecycleEvents(): Promise<void> {
+    if (!this.hasLifecycleStore() || this.pendingLifecycleEvents.length === 0) return
+    
+    const events = this.pendingLifecycleEvents.sort((a, b) => a.timestamp - b.timestamp)
+    this.pendingLifecycleEvents = []
+    const chains = this.lifecycleChains ?? await this.loadLifecycleChains()
+    
+    const touched = new Map<string, TokenLifecycle>()
+    const load = async (fingerprint: string): Promise<TokenLifecycle | undefined> => {
+      if (!touched.has(fingerprint)) {
+        const stored = await this.performTransaction<TokenLifecycle | undefined>('tokenLifecycles', 'readonly', (store) => store.get(fingerprint))
+        if (stored) touched.set(fingerprint, stored)
+      }
+      return touched.get(fingerprint)
+    }
+    
+    for (const event of events) {
+      if (event.kind === 'issued') {
+        this.lastIssuance.set(event.main_domain, { at: event.timestamp, via: event.via })
+        continue
+      }
+      
+      let lifecycle = await load(event.fingerprint)
+      if (!lifecycle) {
+        lifecycle = createLifecycle(event)
+        const chainKey = lifecycleChainKey(event.main_domain, event.credential)
+        const previousFingerprint = chains.get(chainKey)
+        const previous = previousFingerprint ? await load(previousFingerprint) : undefined
+        const issuance = this.lastIssuance.get(event.main_domain)
+        if (issuance && issuance.at <= event.timestamp && (!previous || issuance.at >= previous.first_seen)) {
+          lifecycle.issued_at = issuance.at
+          lifecycle.issued_by = issuance.via
+        }
+        if (previous) {
+          linkLifecycles(previous, lifecycle)
+        }
+        chains.set(chainKey, event.fingerprint)
+        touched.set(event.fingerprint, lifecycle)
+      }
+      applyLifecycleUse(lifecycle, event)
+    }
+    
+    if (touched.size === 0) return
+    const transaction = this.db!.transaction(['tokenLifecycles'], 'readwrite')
+    const store = transaction.objectStore('tokenLifecycles')
+    let request: IDBRequest<IDBValidKey> | null = null
+    for (const lifecycle of touched.values()) {
+      request = store.put(lifecycle)
+    }
+    await this.promiseFromRequest(request!, transaction)
+  }
+
+  // Newest credential per domain and credential kind, so the next new one can be linked to it
+  private async loadLifecycleChains(): Promise<Map<string, string>> {
+    const newest = new Map<string, TokenLifecycle>()
+    await this.scanStore('tokenLifecycles', (batch: TokenLifecycle[]) => {
+      for (const lifecycle of batch) {
+        const key = lifecycleChainKey(lifecycle.main_domain, lifecycle.credential)
+        const current = newest.get(key)
+        if (!current || lifecycle.first_seen > current.first_seen) {
+          newest.set(key, lifecycle)
+        }
+      }
+    })
+    this.lifecycleChains = new Map(Array.from(newest, ([key, lifecycle]) => [key, lifecycle.fingerprint]))
+    return this.lifecycleChains
+  }
+
+  async getTokenLifecycles(query: TokenLifecycleQuery = {}): Promise<TokenLifecycle[]> {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!this.hasLifecycleStore()) return []
+    await this.flushTokenLifecycles()
+    
+    const since = query.since ?? 0
+    const transaction = this.db.transaction(['tokenLifecycles'], 'readonly')
+    const store = transaction.objectStore('tokenLifecycles')
+    const request = query.mainDomain
+      ? store.index('main_domain_last_seen').openCursor(IDBKeyRange.bound([query.mainDomain, since], [query.mainDomain, Infinity]), 'prev')
+      : store.index('last_seen').openCursor(IDBKeyRange.lowerBound(since), 'prev')
+    return this.promiseFromCursor<TokenLifecycle[]>(request, transaction, query.limit || 500, 0)
+  }
+
+  private async pruneTokenLifecycles(now = Date.now()): Promise<void> {
+    if (!this.hasLifecycleStore()) return
+    
+    const transaction = this.db!.transaction(['tokenLifecycles'], 'readwrite')
+    const range = IDBKeyRange.upperBound(now - TOKEN_LIFECYCLE_RETENTION_MS, true)
+    const deleted = await this.promiseFromDeleteCursor(transaction.objectStore('tokenLifecycles').index('last_seen').openCursor(range))
+    if (deleted > 0) {
+      this.lifecycleChains = null
+    }
+  }
+
+  // JWT observations: sightings queued in memory, folded into one record per token on flush
+  private pendingJwtEvents: JwtObservationEvent[] = []
+  private jwtFlush: Promise<void> = Promise.resolve()
+
+  private hasJwtStore(): boolean {
+    return !!this.db && this.db.objectStoreNames.contains('jwtObservations')
+  }
+
+  trackJwtObservation(event: JwtObservationEvent): void {
+    if (!this.hasJwtStore()) return
+    this.pendingJwtEvents.push(event)
+    this.scheduleCounterFlush()
+  }
+
+  private flushJwtObservations(): Promise<void> {
+    const flush = this.jwtFlush.then(() => this.applyJwtEvents())
+    this.jwtFlush = flush.catch(() => undefined)
+    return flush
+  }
+
+  private async applyJwtEvents(): Promise<void> {
+    if (!this.hasJwtStore() || this.pendingJwtEvents.length === 0) return
+    
+    const events = this.pendingJwtEvents
+    this.pendingJwtEvents = []
+    
+    const touched = new Map<string, JwtObservation>()
+    for (const event of events) {
+      let observation = touched.get(event.fingerprint)
+      if (!observation) {
+        observation = await this.performTransaction<JwtObservation | undefined>('jwtObservations', 'readonly', (store) => store.get(event.fingerprint))
+          ?? createJwtObservation(event)
+        touched.set(event.fingerprint, observation)
+      }
+      applyJwtSighting(observation, event)
+    }
+    
+    const transaction = this.db!.transaction(['jwtObservations'], 'readwrite')
+    const store = transaction.objectStore('jwtObservations')
+    let request: IDBRequest<IDBValidKey> | null = null
+    for (const observation of touched.values()) {
+      request = store.put(observation)
+    }
+    await this.promiseFromRequest(request!, transaction)
+  }
+
+  async getJwtObservations(query: JwtObservationQuery = {}): Promise<JwtObservation[]> {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!this.hasJwtStore()) return []
+    await this.flushJwtObservations()
+    
+    const since = query.since ?? 0
+    const transaction = this.db.transaction(['jwtObservations'], 'readonly')
+    const store = transaction.objectStore('jwtObservations')
+    const request = query.mainDomain
+      ? store.index('main_domain_last_seen').openCursor(IDBKeyRange.bound([query.mainDomain, since], [query.mainDomain, Infinity]), 'prev')
+      : store.index('last_seen').openCursor(IDBKeyRange.lowerBound(since), 'prev')
+    return this.promiseFromCursor<JwtObservation[]>(request, transaction, query.limit || 500, 0)
+  }
+
+  private async pruneJwtObservations(now = Date.now()): Promise<void> {
+    if (!this.hasJwtStore()) return
+    
+    const transaction = this.db!.transaction(['jwtObservations'], 'readwrite')
+    const range = IDBKeyRange.upperBound(now - JWT_OBSERVATION_RETENTION_MS, true)
+    await this.promiseFromDeleteCursor(transaction.objectStore('jwtObservations').index('last_seen').openCursor(range))
+  }
+
+  private async deleteTrackedRecord(table: AggregateTable, id: number): Promise<void> {
+    const existing = await this.performTransaction<object | undefined>(table, 'readonly', (store) => store.get(id))
+    await this.performTransaction(table, 'readwrite', (store) => store.delete(id))
+    if (existing) {
+      this.trackRecord(table, existing, -1)
+    }
+  }
+
+  // Shared by the query* methods: one readonly pass over the best index for the filters (narrowed
+  // by since/until) collects the sort keys of matching records, so totals cover every page, then
+  // only the requested page is loaded by primary key
+  private async runQuery<T extends { id?: number; main_domain?: string; tab_id?: number; session_id?: string }>(
+    storeName: string,
+    query: QueryPage<string>,
+    predicate: (record: T) => boolean
+  ): Promise<QueryResult<T>> {
+    const startTime = performance.now()
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const sortBy = query.sortBy || 'timestamp'
+    const direction = query.sortDirection === 'asc' ? 1 : -1
+    const limit = Math.max(1, Math.min(query.limit || 50, 500))
+    const after = query.cursor ? decodeQueryCursor(query.cursor) : null
+    
+    if (query.since !== undefined && query.until !== undefined && query.since > query.until) {
+      return { records: [], total: 0, nextCursor: null }
+    }
+    
+    const scanTransaction = this.db.transaction([storeName], 'readonly')
+    const { index, range } = selectQueryIndex(scanTransaction.objectStore(storeName), query)
+    const entries = await this.promiseFromQueryScan<T>(
+      index.openCursor(range),
+      scanTransaction,
+      (record) => matchesQueryPage(record, query) && predicate(record),
+      sortBy
     )
+    
+    entries.sort((a, b) => compareSortEntries(a, b) * direction)
+    const start = after
+      ? entries.findIndex(entry => compareSortEntries(entry, after) * direction > 0)
+      : Math.min(Math.max(0, query.offset || 0), entries.length)
+    const page = start === -1 ? [] : entries.slice(start, start + limit)
+    
+    let records: T[] = []
+    if (page.length > 0) {
+      const readTransaction = this.db.transaction([storeName], 'readonly')
+      const store = readTransaction.objectStore(storeName)
+      const loaded = await Promise.all(
+        page.map(entry => this.promiseFromRequest<T | undefined>(store.get(entry.id), readTransaction))
+      )
+      // A record deleted between the two transactions is simply skipped
+      records = loaded.filter(record => record !== undefined) as T[]
+    }
+    
+    const hasMore = start !== -1 && start + limit < entries.length && page.length > 0
+    perfTracker.trackOperation(`query_${storeName}`, performance.now() - startTime)
+    console.log(`✅ Query ${storeName}: ${records.length} of ${entries.length} matching records`)
+    
+    return {
+      records,
+      total: entries.length,
+      nextCursor: hasMore ? encodeQueryCursor(page[page.length - 1]) : null
+    }
   }
 
   // Fast query method optimized for performance testing
@@ -783,7 +1932,7 @@ export class IndexedDBStorage implements StorageOperations {
       // MEMORY LEAK FIX: Check memory pressure after data retrieval
       await this.checkMemoryPressure()
       
-      return sorted
+      return await this.rehydrateApiCalls(sorted)
       
     } catch (error) {
       throw error
@@ -798,6 +1947,8 @@ export class IndexedDBStorage implements StorageOperations {
     const result = await this.performTransaction('consoleErrors', 'readwrite', 
       (store) => store.add(data)
     )
+    this.trackRecord('consoleErrors', { ...data, id: result }, 1)
+    this.trackRollup('consoleErrors', data)
     
     // MEMORY LEAK FIX: Release references after DB write
     Object.keys(data).forEach(key => {
@@ -831,10 +1982,12 @@ export class IndexedDBStorage implements StorageOperations {
     return results
   }
 
+  async queryConsoleErrors(query: ConsoleErrorQuery): Promise<QueryResult<ConsoleError>> {
+    return this.runQuery<ConsoleError>('consoleErrors', query, (error) => matchesConsoleErrorQuery(error, query))
+  }
+
   async deleteConsoleError(id: number): Promise<void> {
-    await this.performTransaction('consoleErrors', 'readwrite', 
-      (store) => store.delete(id)
-    )
+    await this.deleteTrackedRecord('consoleErrors', id)
   }
 
   // Token Events
@@ -845,6 +1998,7 @@ export class IndexedDBStorage implements StorageOperations {
     const result = await this.performTransaction('tokenEvents', 'readwrite', 
       (store) => store.add(data)
     )
+    this.trackRecord('tokenEvents', { ...data, id: result }, 1)
     
     // MEMORY LEAK FIX: Release references after DB write
     Object.keys(data).forEach(key => {
@@ -871,10 +2025,68 @@ export class IndexedDBStorage implements StorageOperations {
     return results
   }
 
+  async queryTokenEvents(query: TokenEventQuery): Promise<QueryResult<TokenEvent>> {
+    return this.runQuery<TokenEvent>('tokenEvents', query, (event) => matchesTokenEventQuery(event, query))
+  }
+
   async deleteTokenEvent(id: number): Promise<void> {
-    await this.performTransaction('tokenEvents', 'readwrite', 
-      (store) => store.delete(id)
+    await this.deleteTrackedRecord('tokenEvents', id)
+  }
+
+  // WebSockets
+  // Connections are put (not added) so the close snapshot replaces the open one
+  async saveWebSocketConnection(connection: WebSocketConnection): Promise<void> {
+    const previous = await this.performTransaction<WebSocketConnection | undefined>('webSocketConnections', 'readonly', 
+      (store) => store.get(connection.id)
+    )
+    await this.performTransaction('webSocketConnections', 'readwrite', 
+      (store) => store.put(connection)
     )
+    if (previous) {
+      this.trackRecord('webSocketConnections', previous, -1)
+    }
+    this.trackRecord('webSocketConnections', connection, 1)
+  }
+
+  async getWebSocketConnections(limit = 100, offset = 0): Promise<WebSocketConnection[]> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const transaction = this.db!.transaction(['webSocketConnections'], 'readonly')
+    const store = transaction.objectStore('webSocketConnections')
+    const index = store.index('timestamp')
+    const request = index.openCursor(null, 'prev') // Latest first
+    
+    const results = await this.promiseFromCursor<WebSocketConnection[]>(request, transaction, limit, offset)
+    
+    // MEMORY LEAK FIX: Check memory pressure after data retrieval
+    await this.checkMemoryPressure()
+    
+    return results
+  }
+
+  async insertWebSocketFrame(data: Omit<WebSocketFrame, 'id'>): Promise<number> {
+    // MEMORY LEAK FIX: Check memory pressure before inserting
+    await this.checkMemoryPressure()
+    
+    const result = await this.performTransaction('webSocketFrames', 'readwrite', 
+      (store) => store.add(data)
+    )
+    this.trackRecord('webSocketFrames', { ...data, id: result }, 1)
+    
+    // MEMORY LEAK FIX: Release references after DB write
+    Object.keys(data).forEach(key => {
+      delete (data as Partial<WebSocketFrame>)[key as keyof WebSocketFrame]
+    })
+    
+    return result as number
+  }
+
+  // Frames of one connection in the order they were sent/received
+  async getWebSocketFrames(connectionId: string, limit = 500): Promise<WebSocketFrame[]> {
+    const frames = await this.performTransaction('webSocketFrames', 'readonly', 
+      (store) => store.index('connection_id').getAll(IDBKeyRange.only(connectionId), limit)
+    )
+    return frames.sort((a, b) => a.timestamp - b.timestamp || (a.id || 0) - (b.id || 0))
   }
 
   // Minified Libraries
@@ -882,9 +2094,37 @@ export class IndexedDBStorage implements StorageOperations {
     const result = await this.performTransaction('minifiedLibraries', 'readwrite', 
       (store) => store.add(data)
     )
+    this.trackRecord('minifiedLibraries', { ...data, id: result }, 1)
     return result as number
   }
 
+  // One record per library, version and script on a domain; repeat sightings refresh it in place
+  async saveMinifiedLibrary(data: Omit<MinifiedLibrary, 'id'>): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!data.main_domain) return this.insertMinifiedLibrary(data)
+    
+    const candidates = await this.performTransaction<MinifiedLibrary[]>('minifiedLibraries', 'readonly',
+      (store) => store.index('main_domain_name').getAll(IDBKeyRange.only([data.main_domain, data.name]))
+    )
+    const existing = candidates.find(library => library.version === data.version && library.url === data.url)
+    if (!existing) {
+      return this.insertMinifiedLibrary({ ...data, first_seen: data.first_seen ?? data.timestamp })
+    }
+    
+    const updated: MinifiedLibrary = {
+      ...existing,
+      ...data,
+      id: existing.id,
+      first_seen: existing.first_seen ?? existing.timestamp,
+      session_id: existing.session_id ?? data.session_id,
+      detected_by: Array.from(new Set([...(existing.detected_by || []), ...(data.detected_by || [])]))
+    }
+    await this.performTransaction('minifiedLibraries', 'readwrite', (store) => store.put(updated))
+    this.trackRecord('minifiedLibraries', existing, -1)
+    this.trackRecord('minifiedLibraries', updated, 1)
+    return existing.id!
+  }
+
   async getMinifiedLibraries(limit = 100, offset = 0): Promise<MinifiedLibrary[]> {
     if (!this.db) throw new Error('Database not initialized')
     
@@ -902,29 +2142,209 @@ export class IndexedDBStorage implements StorageOperations {
     return results
   }
 
+  // Rewrites every library the callback returns a replacement for (null leaves it alone); the
+  // inventory holds one record per library and script per domain, so one read covers it
+  async updateMinifiedLibraries(update: (library: MinifiedLibrary) => MinifiedLibrary | null): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const libraries = await this.performTransaction<MinifiedLibrary[]>('minifiedLibraries', 'readonly', (store) => store.getAll())
+    const changes = libraries
+      .map(library => ({ previous: library, next: update(library) }))
+      .filter((change): change is { previous: MinifiedLibrary; next: MinifiedLibrary } => change.next !== null)
+    if (changes.length === 0) return 0
+    
+    const transaction = this.db.transaction(['minifiedLibraries'], 'readwrite')
+    const store = transaction.objectStore('minifiedLibraries')
+    let request: IDBRequest<IDBValidKey> | null = null
+    for (const { previous, next } of changes) {
+      request = store.put({ ...next, id: previous.id })
+    }
+    await this.promiseFromRequest(request!, transaction)
+    for (const { previous, next } of changes) {
+      this.trackRecord('minifiedLibraries', previous, -1)
+      this.trackRecord('minifiedLibraries', { ...next, id: previous.id }, 1)
+    }
+    return changes.length
+  }
+
   async deleteMinifiedLibrary(id: number): Promise<void> {
-    await this.performTransaction('minifiedLibraries', 'readwrite', 
-      (store) => store.delete(id)
+    await this.deleteTrackedRecord('minifiedLibraries', id)
+  }
+
+  // Backup: one batch of any record store in primary key order, with API call bodies rehydrated.
+  // Pass the returned nextKey back to read the following batch; it is null after the last one
+  async readRecordBatch(storeName: BackupStoreName, afterKey: IDBValidKey | null, batchSize = 200): Promise<RecordBatch<BackupRecord>> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    // Sightings still queued in memory belong in the backup too
+    if (storeName === 'tokenLifecycles' && afterKey === null) {
+      await this.flushTokenLifecycles()
+    }
+    if (storeName === 'jwtObservations' && afterKey === null) {
+      await this.flushJwtObservations()
+    }
+    
+    const transaction = this.db.transaction([storeName], 'readonly')
+    const range = afterKey === null ? null : IDBKeyRange.lowerBound(afterKey, true)
+    const batch = await this.promiseFromBatchCursor<{ id?: number }>(
+      transaction.objectStore(storeName).openCursor(range, 'next'), transaction, batchSize, () => true
     )
+    return {
+      records: storeName === 'apiCalls' ? await this.rehydrateApiCalls(batch.records as ApiCall[]) : batch.records,
+      nextKey: batch.exhausted ? null : batch.lastKey
+    }
+  }
+
+  // Every local record of a store by natural key, for matching restored records against
+  async indexBackupRecords(storeName: BackupStoreName): Promise<Map<string, BackupRecord>> {
+    const local = new Map<string, BackupRecord>()
+    let afterKey: IDBValidKey | null = null
+    do {
+      const batch = await this.readRecordBatch(storeName, afterKey)
+      for (const record of batch.records) {
+        local.set(backupRecordKey(storeName, record), record)
+      }
+      afterKey = batch.nextKey
+    } while (afterKey !== null)
+    return local
+  }
+
+  // Records exactly as stored, one transaction per batch so onBatch may await between them
+  private async scanStore<T>(
+    storeName: string,
+    onBatch: (batch: T[]) => void | Promise<void>,
+    batchSize = 200
+  ): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    let lastKey: IDBValidKey | null = null
+    let total = 0
+    let exhausted = false
+    
+    while (!exhausted) {
+      const transaction = this.db.transaction([storeName], 'readonly')
+      const store = transaction.objectStore(storeName)
+      const range: IDBKeyRange | null = lastKey === null ? null : IDBKeyRange.lowerBound(lastKey, true)
+      const batch: { records: T[]; lastKey: IDBValidKey | null; exhausted: boolean } = await this.promiseFromBatchCursor<T & { id?: number }>(store.openCursor(range, 'next'), transaction, batchSize, () => true)
+      
+      if (batch.records.length > 0) {
+        total += batch.records.length
+        await onBatch(batch.records)
+      }
+      
+      exhausted = batch.exhausted || batch.lastKey === null
+      lastKey = batch.lastKey
+    }
+    
+    return total
+  }
+
+  // Restore: replace writes records with their original keys into freshly cleared stores; merge
+  // matches records by natural key, skips identical ones and reports the rest as conflicts.
+  // A restore that arrives in batches passes the same index from indexBackupRecords to each
+  // call, so records inserted by an earlier batch count as local for the next one
+  async restoreRecords(storeName: BackupStoreName, records: BackupRecord[], mode: RestoreMode, index?: Map<string, BackupRecord>): Promise<RestoreStoreResult> {
+    if (!this.db) throw new Error('Database not initialized')
+    
+    const result: RestoreStoreResult = { inserted: 0, duplicates: 0, conflicts: [] }
+    const local = mode === 'merge' ? index ?? await this.indexBackupRecords(storeName) : new Map<string, BackupRecord>()
+    
+    let pending: BackupRecord[] = []
+    for (const raw of records) {
+      // Backups taken before token events were split into kind and credential
+      const incoming: BackupRecord = storeName === 'tokenEvents' ? { ...upgradeLegacyTokenEvent(raw) } : raw
+      if (mode === 'merge') {
+        const key = backupRecordKey(storeName, incoming)
+        const existing = local.get(key)
+        if (existing) {
+          if (backupRecordsEqual(storeName, existing, incoming)) {
+            result.duplicates++
+          } else {
+            result.conflicts.push({ store: storeName, key, localId: existing.id as number | string | undefined })
+          }
+          continue
+        }
+        local.set(key, incoming)
+      }
+      
+      let record = { ...toBackupRecord(storeName, incoming) }
+      // Auto-increment ids from another database would overwrite unrelated local records
+      if (mode === 'merge' && storeName !== 'webSocketConnections') {
+        delete record.id
+      }
+      if (storeName === 'apiCalls') {
+        record = { ...await this.externalizeBodies(record as Omit<ApiCall, 'id'>) }
+      }
+      pending.push(record)
+      
+      if (pending.length >= RESTORE_BATCH_SIZE) {
+        await this.putRecords(storeName, pending)
+        result.inserted += pending.length
+        pending = []
+      }
+    }
+    await this.putRecords(storeName, pending)
+    result.inserted += pending.length
+    if (storeName === 'tokenLifecycles') {
+      this.lifecycleChains = null // Restored credentials may now be the newest of their chain
+    }
+    
+    console.log(`📥 RestoreRecords: ${storeName} - ${result.inserted} inserted, ${result.duplicates} duplicates, ${result.conflicts.length} conflicts`)
+    return result
+  }
+
+  private async putRecords(storeName: string, records: BackupRecord[]): Promise<void> {
+    if (records.length === 0) return
+    
+    const transaction = this.db!.transaction([storeName], 'readwrite')
+    const store = transaction.objectStore(storeName)
+    let request: IDBRequest<IDBValidKey> | null = null
+    for (const record of records) {
+      request = store.put(record)
+    }
+    await this.promiseFromRequest(request!, transaction)
+    for (const record of records) {
+      if (AGGREGATE_TABLES.includes(storeName as AggregateTable)) {
+        this.trackRecord(storeName as AggregateTable, record, 1)
+      }
+      if (storeName === 'apiCalls' || storeName === 'consoleErrors') {
+        this.trackRollup(storeName, record)
+      }
+    }
   }
 
   // Data pruning
-  async pruneOldData(): Promise<void> {
+  async pruneOldData(options: PruneOptions = {}): Promise<PruneReport> {
     if (!this.db) throw new Error('Database not initialized')
     
-    const cutoffTime = Date.now() - (this.config.maxAgeInDays * 24 * 60 * 60 * 1000)
-    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries']
+    const dryRun = options.dryRun === true
+    const policies = options.policies || this.config.retentionPolicies || []
+    const report = createPruneReport(dryRun)
     
-    for (const storeName of stores) {
-      await this.pruneStore(storeName, cutoffTime)
+    for (const storeName of RETENTION_TABLES) {
+      await this.pruneStore(storeName, policies, report)
+    }
+    if (!dryRun) {
+      await this.sweepUnreferencedBodies()
+      await this.pruneRollups()
+      await this.pruneTokenLifecycles()
+      await this.pruneJwtObservations()
     }
+    
+    report.finishedAt = Date.now()
+    console.log(`🧽 IndexedDB: ${dryRun ? 'Retention preview would delete' : 'Pruned'} ${report.totalDeleted} records`, report.byTable)
+    return report
+  }
+
+  setRetentionPolicies(policies: RetentionPolicy[]): void {
+    this.config.retentionPolicies = policies
   }
 
   // Clear all data
   async clearAllData(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized')
     
-    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries']
+    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames']
     console.log('🧹 Starting clearAllData operation for stores:', stores)
     
     // Get initial counts for logging
@@ -940,6 +2360,29 @@ export class IndexedDBStorage implements StorageOperations {
       await this.clearStore(storeName)
       console.log(`✅ Cleared store: ${storeName}`)
     }
+    if (this.hasBodyStore()) {
+      await this.clearStore('bodies')
+      this.bodyCache.clear()
+    }
+    if (this.hasRollupStore()) {
+      this.pendingRollups.clear()
+      await this.clearStore('rollups')
+    }
+    if (this.hasLifecycleStore()) {
+      this.pendingLifecycleEvents = []
+      this.lifecycleChains = null
+      this.lastIssuance.clear()
+      await this.clearStore('tokenLifecycles')
+    }
+    if (this.hasJwtStore()) {
+      this.pendingJwtEvents = []
+      await this.clearStore('jwtObservations')
+    }
+    if (this.aggregates) {
+      this.aggregates = createEmptyAggregates()
+      AGGREGATE_TABLES.forEach(table => this.dirtyAggregates.add(table))
+      await this.flushAggregates()
+    }
     
     // Get final counts for verification
     try {
@@ -952,48 +2395,37 @@ export class IndexedDBStorage implements StorageOperations {
     console.log('✅ clearAllData operation completed')
   }
 
-  private async pruneStore(storeName: string, cutoffTime: number): Promise<void> {
+  // One newest-first pass per store applies age, per-domain quotas and the table-wide cap together
+  private async pruneStore(storeName: RetentionTable, policies: RetentionPolicy[], report: PruneReport): Promise<void> {
     if (!this.db) return
     
-    // MEMORY LEAK FIX: Convert Promise constructor to async/await pattern
     try {
-      const transaction = this.db!.transaction([storeName], 'readwrite')
+      const transaction = this.db!.transaction([storeName], report.dryRun ? 'readonly' : 'readwrite')
       const store = transaction.objectStore(storeName)
-      const index = store.index('timestamp')
+      // minifiedLibraries had no timestamp index before v11; its auto-increment keys follow insertion order
+      const source = store.indexNames.contains('timestamp') ? store.index('timestamp') : store
+      const shouldDelete = createRetentionEvaluator(storeName, policies, this.config, report)
+      // The pass sees every kept record, so the slowest call can be recomputed for free
+      let maxResponseTime = 0
       
-      // Delete old records using helper method instead of Promise constructor
-      const deleteRange = IDBKeyRange.upperBound(cutoffTime)
-      const deleteRequest = index.openCursor(deleteRange)
-      
-      await this.promiseFromDeleteCursor(deleteRequest)
-      
-      // Check if we need to prune by count
-      await this.pruneStoreByCount(storeName)
-    } catch (error) {
-      throw new Error(`Failed to prune ${storeName}: ${error}`)
-    }
-  }
-
-  private async pruneStoreByCount(storeName: string): Promise<void> {
-    if (!this.db) return
-    
-    // MEMORY LEAK FIX: Convert Promise constructor to async/await pattern
-    try {
-      const transaction = this.db!.transaction([storeName], 'readwrite')
-      const store = transaction.objectStore(storeName)
-      const countRequest = store.count()
-      
-      const count = await this.promiseFromRequest<number>(countRequest, transaction)
-      
-      if (count > this.config.maxRecordsPerTable) {
-        const excess = count - this.config.maxRecordsPerTable
-        const index = store.index('timestamp')
-        const request = index.openCursor(null, 'next') // Oldest first
-        
-        await this.promiseFromPruneCursor(request, excess)
+      await this.promiseFromDeleteCursor(
+        source.openCursor(null, 'prev'),
+        (record: RetentionRecord & { response_time?: number }) => {
+          if (!shouldDelete(record) || report.dryRun) {
+            maxResponseTime = Math.max(maxResponseTime, record.response_time || 0)
+            return false
+          }
+          this.trackRecord(storeName, record, -1)
+          return true
+        }
+      )
+      if (!report.dryRun && storeName === 'apiCalls' && this.aggregates) {
+        this.aggregates.apiCalls.maxResponseTime = maxResponseTime
+        this.dirtyAggregates.add('apiCalls')
+        this.scheduleCounterFlush()
       }
     } catch (error) {
-      throw new Error(`Failed to count/prune ${storeName}: ${error}`)
+      throw new Error(`Failed to prune ${storeName}: ${error}`)
     }
   }
 
@@ -1008,7 +2440,7 @@ export class IndexedDBStorage implements StorageOperations {
   async getTableCounts(): Promise<{[table: string]: number}> {
     if (!this.db) throw new Error('Database not initialized')
     
-    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries']
+    const stores = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames']
     const counts: {[table: string]: number} = {}
     
     for (const storeName of stores) {
@@ -0,0 +1,304 @@
+// JWT inspector: every JWT seen in captured traffic (request headers and cookies, URLs, bodies and
+// Set-Cookie) is decoded and linted for common mistakes before redaction masks it. One record is
+// kept per distinct token, keyed by its salted fingerprint; the decoded header and claims are
+// stored, the raw token and its signature never are.
+
+export type JwtLocation = 'header' | 'cookie' | 'url' | 'request_body' | 'response_body' | 'set_cookie'
+
+export type JwtFindingId = 'alg_none' | 'hs256_suspicious_kid' | 'missing_exp' | 'long_lifetime' | 'insecure_transport' | 'token_in_url'
+
+export type JwtFindingSeverity = 'high' | 'medium' | 'low'
+
+export interface JwtFinding {
+  id: JwtFindingId
+  severity: JwtFindingSeverity
+  message: string
+}
+
+export interface DecodedJwt {
+  header: Record<string, unknown>
+  claims: Record<string, unknown>
+  signed: boolean // False when the signature segment is empty
+}
+
+export interface JwtSighting {
+  token: string
+  location: JwtLocation
+  name?: string // Header, cookie or query parameter the token travelled in
+}
+
+export interface JwtObservation {
+  fingerprint: string
+  main_domain: string
+  header: Record<string, unknown>
+  claims: Record<string, unknown>
+  signed: boolean
+  findings: JwtFinding[] // Union over all sightings
+  locations: JwtLocation[]
+  names: string[]
+  endpoints: string[] // Origin and path of the first requests that carried it, never the query
+  first_seen: number
+  last_seen: number
+  sightings: number
+  session_id?: string
+}
+
+export interface JwtObservationEvent {
+  fingerprint: string
+  main_domain: string
+  decoded: DecodedJwt
+  findings: JwtFinding[]
+  location: JwtLocation
+  name?: string
+  endpoint: string
+  timestamp: number
+  session_id?: string
+}
+
+export interface JwtObservationQuery {
+  mainDomain?: string
+  since?: number // Tokens last seen at or after this time
+  limit?: number
+}
+
+export interface JwtSightingInput {
+  url: string
+  requestHeaders?: Record<string, unknown> | null
+  requestBody?: string | null
+  responseBody?: string | null
+  setCookies?: string[]
+}
+
+// Tokens issued for longer than this are flagged
+export const JWT_LONG_LIFETIME_SECONDS = 24 * 60 * 60
+
+// Observations not seen for this long are removed by the pruner
+export const JWT_OBSERVATION_RETENTION_MS = 90 * 24 * 60 * 60 * 1000
+
+const JWT_ENDPOINT_LIMIT = 10
+
+// Bodies are only scanned this far; tokens sit near the start of auth responses
+const JWT_SCAN_LIMIT = 256 * 1024
+
+// Header and payload are base64url JSON objects, so both start with "eyJ" ('{"')
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]{4,}\.eyJ[A-Za-z0-9_-]{4,}\.[A-Za-z0-9_-]*/g
+
+// kid values that look like a file path, URL, injection payload or guessable placeholder
+const SUSPICIOUS_KID = /\.\.|^[/\\]|:\/\/|[';"|`]|\$\(|--|\0|^(0|1|null|none|default|test|dev|key|secret)$/i
+
+function base64UrlDecode(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  return new TextDecoder().decode(Uint8Array.from(atob(padded), char => char.charCodeAt(0)))
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(base64UrlDecode(segment))
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.trim().split('.')
+  if (parts.length !== 3) return null
+  const header = decodeSegment(parts[0])
+  const claims = decodeSegment(parts[1])
+  if (!header || !claims) return null
+  return { header, claims, signed: parts[2].length > 0 }
+}
+
+// exp claim in milliseconds
+export function jwtExpiresAt(token: string): number | undefined {
+  const exp = decodeJwt(token)?.claims.exp
+  return typeof exp === 'number' ? exp * 1000 : undefined
+}
+
+export function findJwts(text: string | null | undefined): string[] {
+  if (!text) return []
+  return Array.from(new Set(text.slice(0, JWT_SCAN_LIMIT).match(JWT_PATTERN) || []))
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function urlSightings(url: string): JwtSighting[] {
+  const sightings: JwtSighting[] = []
+  try {
+    const parsed = new URL(url)
+    const params = [...parsed.searchParams.entries(), ...new URLSearchParams(parsed.hash.slice(1)).entries()]
+    for (const [name, value] of params) {
+      for (const token of findJwts(value)) {
+        sightings.push({ token, location: 'url', name })
+      }
+    }
+  } catch {
+    // Relative or malformed URL - the scan below still finds the token
+  }
+  for (const token of findJwts(safeDecodeURIComponent(url))) {
+    if (!sightings.some(sighting => sighting.token === token)) {
+      sightings.push({ token, location: 'url' })
+    }
+  }
+  return sightings
+}
+
+// Every JWT a request and its response carried, at most once per token and location
+export function collectJwtSightings(input: JwtSightingInput): JwtSighting[] {
+  const sightings: JwtSighting[] = urlSightings(input.url)
+
+  for (const [name, rawValue] of Object.entries(input.requestHeaders || {})) {
+    const value = String(rawValue ?? '')
+    if (name.toLowerCase() === 'cookie') {
+      for (const cookie of value.split(';')) {
+        const separator = cookie.indexOf('=')
+        if (separator <= 0) continue
+        for (const token of findJwts(safeDecodeURIComponent(cookie.slice(separator + 1)))) {
+          sightings.push({ token, location: 'cookie', name: cookie.slice(0, separator).trim() })
+        }
+      }
+    } else {
+      for (const token of findJwts(value)) {
+        sightings.push({ token, location: 'header', name: name.toLowerCase() })
+      }
+    }
+  }
+
+  for (const header of input.setCookies || []) {
+    const pair = header.split(';')[0]
+    const separator = pair.indexOf('=')
+    if (separator <= 0) continue
+    for (const token of findJwts(safeDecodeURIComponent(pair.slice(separator + 1)))) {
+      sightings.push({ token, location: 'set_cookie', name: pair.slice(0, separator).trim() })
+    }
+  }
+
+  for (const token of findJwts(input.requestBody)) {
+    sightings.push({ token, location: 'request_body' })
+  }
+  for (const token of findJwts(input.responseBody)) {
+    sightings.push({ token, location: 'response_body' })
+  }
+
+  const seen = new Set<string>()
+  return sightings.filter(sighting => {
+    const key = `${sighting.location}|${sighting.token}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function isInsecureUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url)
+    const loopback = parsed.hostname === 'localhost' || parsed.hostname === '[::1]' || parsed.hostname.startsWith('127.')
+    return (parsed.protocol === 'http:' || parsed.protocol === 'ws:') && !loopback
+  } catch {
+    return false
+  }
+}
+
+function formatLifetime(seconds: number): string {
+  if (seconds < 2 * 24 * 60 * 60) return `${Math.round(seconds / 3600)} hours`
+  if (seconds < 2 * 365 * 24 * 60 * 60) return `${Math.round(seconds / 86400)} days`
+  return `${Math.round(seconds / (365 * 86400))} years`
+}
+
+// Problems with the token itself, plus how this sighting transported it
+export function lintJwt(decoded: DecodedJwt, context: { url: string; location: JwtLocation; timestamp: number }): JwtFinding[] {
+  const findings: JwtFinding[] = []
+  const alg = typeof decoded.header.alg === 'string' ? decoded.header.alg : ''
+  const { exp, iat, nbf } = decoded.claims
+
+  if (alg.toLowerCase() === 'none') {
+    findings.push({ id: 'alg_none', severity: 'high', message: 'alg is "none": the token is unsigned and anyone can forge it' })
+  } else if (!decoded.signed) {
+    findings.push({ id: 'alg_none', severity: 'high', message: `alg is "${alg}" but the signature is empty` })
+  }
+
+  const kid = decoded.header.kid
+  if (/^HS\d+$/i.test(alg) && kid !== undefined && (typeof kid !== 'string' || SUSPICIOUS_KID.test(kid))) {
+    findings.push({
+      id: 'hs256_suspicious_kid',
+      severity: 'high',
+      message: `${alg} with kid ${JSON.stringify(kid)}: key IDs that look like paths, URLs or injection payloads can let an attacker choose the HMAC secret`
+    })
+  }
+
+  if (typeof exp !== 'number') {
+    findings.push({ id: 'missing_exp', severity: 'medium', message: 'No exp claim: the token never expires' })
+  } else {
+    const start = typeof iat === 'number' ? iat : typeof nbf === 'number' ? nbf : Math.floor(context.timestamp / 1000)
+    const lifetime = exp - start
+    if (lifetime > JWT_LONG_LIFETIME_SECONDS) {
+      findings.push({ id: 'long_lifetime', severity: 'medium', message: `Valid for ${formatLifetime(lifetime)}` })
+    }
+  }
+
+  if (isInsecureUrl(context.url)) {
+    findings.push({ id: 'insecure_transport', severity: 'high', message: 'Sent over an unencrypted connection' })
+  }
+  if (context.location === 'url') {
+    findings.push({ id: 'token_in_url', severity: 'medium', message: 'Placed in a URL, where it ends up in history, logs and Referer headers' })
+  }
+
+  return findings
+}
+
+// Origin and path only, so a token in the query string is not stored with the endpoint
+export function jwtEndpoint(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname}`
+  } catch {
+    return url.split(/[?#]/)[0]
+  }
+}
+
+export function createJwtObservation(event: JwtObservationEvent): JwtObservation {
+  return {
+    fingerprint: event.fingerprint,
+    main_domain: event.main_domain,
+    header: event.decoded.header,
+    claims: event.decoded.claims,
+    signed: event.decoded.signed,
+    findings: [],
+    locations: [],
+    names: [],
+    endpoints: [],
+    first_seen: event.timestamp,
+    last_seen: event.timestamp,
+    sightings: 0,
+    session_id: event.session_id
+  }
+}
+
+// Folds one sighting into the observation in place
+export function applyJwtSighting(observation: JwtObservation, event: JwtObservationEvent): JwtObservation {
+  observation.sightings += 1
+  observation.first_seen = Math.min(observation.first_seen, event.timestamp)
+  observation.last_seen = Math.max(observation.last_seen, event.timestamp)
+  if (!observation.locations.includes(event.location)) {
+    observation.locations.push(event.location)
+  }
+  if (event.name && !observation.names.includes(event.name)) {
+    observation.names.push(event.name)
+  }
+  if (!observation.endpoints.includes(event.endpoint) && observation.endpoints.length < JWT_ENDPOINT_LIMIT) {
+    observation.endpoints.push(event.endpoint)
+  }
+  for (const finding of event.findings) {
+    if (!observation.findings.some(existing => existing.id === finding.id)) {
+      observation.findings.push(finding)
+    }
+  }
+  return observation
+}
@@ -0,0 +1,168 @@
+// Offline known-vulnerability matching for detected libraries. A dataset lists advisories as
+// semver ranges per library; the bundled copy ships with the extension and a newer one can be
+// loaded from settings. Libraries are matched when stored and re-matched whenever the active
+// dataset changes, so the inventory never calls out to a vulnerability service.
+
+import bundledDataset from './library-advisories.json';
+import type { AdvisorySeverity, LibraryAdvisoryMatch, MinifiedLibrary } from './storage-types';
+
+export const ADVISORY_DATASET_FORMAT = 'web-app-monitor-advisories';
+
+// chrome.storage.local key holding a dataset loaded from settings
+export const ADVISORY_DATASET_STORAGE_KEY = 'libraryAdvisories';
+
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface LibraryAdvisory {
+  id: string;
+  library: string; // Name as reported by detection, matched case-insensitively
+  vulnerable: string; // Space-separated comparators, alternatives joined with '||', e.g. '<3.4.1 || >=4.0.0 <4.3.1'
+  severity: AdvisorySeverity;
+  summary: string;
+  url?: string;
+}
+
+export interface AdvisoryDataset {
+  format: typeof ADVISORY_DATASET_FORMAT;
+  updated: string; // YYYY-MM-DD; the newer of the bundled and the loaded dataset is used
+  advisories: LibraryAdvisory[];
+}
+
+export interface AdvisoryDatasetSummary {
+  source: 'bundled' | 'custom';
+  updated: string;
+  advisories: number;
+  libraries: number;
+  bundledUpdated: string;
+}
+
+type ParsedVersion = { parts: number[]; prerelease: string };
+
+// Accepts partial versions ('3.4' is 3.4.0) and the 'r' prefix Three.js revisions use
+function parseVersion(version: string): ParsedVersion | null {
+  const match = version.trim().match(/^[vr]?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?/);
+  if (!match) return null;
+  return {
+    parts: [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)],
+    prerelease: match[4] || ''
+  };
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return a.localeCompare(b, undefined, { numeric: true });
+
+  for (let i = 0; i < 3; i++) {
+    if (left.parts[i] !== right.parts[i]) return left.parts[i] - right.parts[i];
+  }
+  // A prerelease sorts before its release
+  if (left.prerelease === right.prerelease) return 0;
+  if (!left.prerelease) return 1;
+  if (!right.prerelease) return -1;
+  return left.prerelease.localeCompare(right.prerelease, undefined, { numeric: true });
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  if (comparator === '*' || comparator === '') return true;
+  const match = comparator.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return false;
+  const difference = compareVersions(version, match[2]);
+  switch (match[1]) {
+    case '<': return difference < 0;
+    case '<=': return difference <= 0;
+    case '>': return difference > 0;
+    case '>=': return difference >= 0;
+    default: return difference === 0;
+  }
+}
+
+export function satisfiesRange(version: string, range: string): boolean {
+  if (!parseVersion(version)) return false;
+  return range.split('||').some(alternative =>
+    alternative.trim().split(/\s+/).every(comparator => satisfiesComparator(version, comparator))
+  );
+}
+
+export function severityRank(severity: AdvisorySeverity | undefined): number {
+  return severity ? ADVISORY_SEVERITIES.indexOf(severity) + 1 : 0;
+}
+
+export function matchLibraryAdvisories(name: string, version: string, dataset: AdvisoryDataset): LibraryAdvisoryMatch[] {
+  // Without a version every advisory would be a guess
+  if (!version) return [];
+  const library = name.toLowerCase();
+  return dataset.advisories
+    .filter(advisory => advisory.library.toLowerCase() === library && satisfiesRange(version, advisory.vulnerable))
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity))
+    .map(({ id, severity, summary, url }) => ({ id, severity, summary, ...(url ? { url } : {}) }));
+}
+
+// Copy of the library with its advisory fields set from the dataset
+export function annotateLibrary<T extends Omit<MinifiedLibrary, 'id'>>(library: T, dataset: AdvisoryDataset): T {
+  const advisories = matchLibraryAdvisories(library.name, library.version, dataset);
+  return {
+    ...library,
+    advisories,
+    advisory_severity: advisories[0]?.severity,
+    advisory_dataset: dataset.updated
+  };
+}
+
+// Validates a dataset loaded from a file; throws with a message fit for the user
+export function parseAdvisoryDataset(input: unknown): AdvisoryDataset {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Advisory file is not a JSON object');
+  }
+  const dataset = input as Partial<AdvisoryDataset>;
+  if (dataset.format !== ADVISORY_DATASET_FORMAT) {
+    throw new Error(`Advisory file must have "format": "${ADVISORY_DATASET_FORMAT}"`);
+  }
+  if (typeof dataset.updated !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dataset.updated)) {
+    throw new Error('Advisory file needs an "updated" date in YYYY-MM-DD form');
+  }
+  if (!Array.isArray(dataset.advisories)) {
+    throw new Error('Advisory file contains no advisories list');
+  }
+  dataset.advisories.forEach((advisory, index) => {
+    if (!advisory || typeof advisory.id !== 'string' || typeof advisory.library !== 'string' || typeof advisory.vulnerable !== 'string') {
+      throw new Error(`Advisory #${index + 1} needs an id, library and vulnerable range`);
+    }
+    if (!ADVISORY_SEVERITIES.includes(advisory.severity)) {
+      throw new Error(`Advisory ${advisory.id} has unknown severity "${advisory.severity}"`);
+    }
+  });
+
+  return {
+    format: ADVISORY_DATASET_FORMAT,
+    updated: dataset.updated,
+    advisories: dataset.advisories.map(advisory => ({ ...advisory, summary: advisory.summary || '' }))
+  };
+}
+
+export const BUNDLED_ADVISORY_DATASET: AdvisoryDataset = parseAdvisoryDataset(bundledDataset);
+
+// A loaded dataset stops applying once an extension update bundles a newer one
+export function selectAdvisoryDataset(custom: unknown): { dataset: AdvisoryDataset; source: 'bundled' | 'custom' } {
+  if (custom) {
+    try {
+      const parsed = parseAdvisoryDataset(custom);
+      if (parsed.updated >= BUNDLED_ADVISORY_DATASET.updated) {
+        return { dataset: parsed, source: 'custom' };
+      }
+    } catch (error) {
+      console.warn('[Web App Monitor] Ignoring invalid stored advisory dataset:', error);
+    }
+  }
+  return { dataset: BUNDLED_ADVISORY_DATASET, source: 'bundled' };
+}
+
+export function summarizeAdvisoryDataset(dataset: AdvisoryDataset, source: 'bundled' | 'custom'): AdvisoryDatasetSummary {
+  return {
+    source,
+    updated: dataset.updated,
+    advisories: dataset.advisories.length,
+    libraries: new Set(dataset.advisories.map(advisory => advisory.library.toLowerCase())).size,
+    bundledUpdated: BUNDLED_ADVISORY_DATASET.updated
+  };
+}
@@ -0,0 +1,110 @@
+// Interception profiles - named partial overrides of settings.networkInterception
+// Pure helpers shared by the background, settings page and popup
+
+export interface InterceptionProfile {
+  id: string;
+  name: string;
+  description?: string;
+  active: boolean;
+  settings: Record<string, unknown>; // Partial networkInterception config
+}
+
+// Objects merge recursively, arrays and primitives from the override win (same as the settings page)
+export function deepMergeConfig<T extends object>(base: T, override: Record<string, unknown> | undefined): T {
+  if (!override) return base;
+  const result = { ...base } as Record<string, unknown>;
+  for (const key of Object.keys(override)) {
+    const value = override[key];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const current = result[key];
+      result[key] = deepMergeConfig(current && typeof current === 'object' ? current : {}, value as Record<string, unknown>);
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
+
+export function getActiveProfile(networkConfig: { profiles?: InterceptionProfile[] } | undefined): InterceptionProfile | undefined {
+  return networkConfig?.profiles?.find(profile => profile.active);
+}
+
+// Base networkInterception config with the active profile's overrides applied
+export function resolveNetworkConfig<T extends { profiles?: InterceptionProfile[] }>(networkConfig: T): T {
+  const activeProfile = getActiveProfile(networkConfig);
+  if (!activeProfile) return networkConfig;
+  // A profile can never replace the profile list itself
+  const overrides = { ...(activeProfile.settings || {}) };
+  delete overrides.profiles;
+  return deepMergeConfig(networkConfig, overrides);
+}
+
+export function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function activateProfile(profiles: InterceptionProfile[], profileId: string): InterceptionProfile[] {
+  return profiles.map(profile => ({ ...profile, active: profile.id === profileId }));
+}
+
+export function createProfile(name: string, settings: Record<string, unknown> = {}, description?: string): InterceptionProfile {
+  return { id: generateProfileId(), name, description, active: false, settings };
+}
+
+export function duplicateProfile(profile: InterceptionProfile): InterceptionProfile {
+  return {
+    ...profile,
+    id: generateProfileId(),
+    name: `${profile.name} (copy)`,
+    active: false,
+    settings: JSON.parse(JSON.stringify(profile.settings || {}))
+  };
+}
+
+// Starting points offered when adding a profile
+export const PROFILE_PRESETS: Array<Omit<InterceptionProfile, 'id' | 'active'>> = [
+  {
+    name: 'Everything',
+    description: 'Capture all requests with full bodies and no filtering',
+    settings: {
+      enabled: true,
+      bodyCapture: { mode: 'full', captureRequests: true, captureResponses: true, maxBodySize: 0 },
+      privacy: { filterNoise: false },
+      urlPatterns: { enabled: false },
+      requestFilters: {
+        methods: { enabled: false },
+        contentTypes: { enabled: false },
+        pathFilters: { enabled: false }
+      }
+    }
+  },
+  {
+    name: 'Only GraphQL',
+    description: 'POST requests to GraphQL endpoints with full bodies',
+    settings: {
+      enabled: true,
+      bodyCapture: { mode: 'full', captureRequests: true, captureResponses: true },
+      requestFilters: {
+        methods: { enabled: true, allowed: ['POST'] },
+        pathFilters: { enabled: true, keywords: ['graphql'], regex: [], includeMode: true }
+      }
+    }
+  },
+  {
+    name: 'Reddit auth debugging',
+    description: 'Reddit token and session endpoints',
+    settings: {
+      enabled: true,
+      bodyCapture: { mode: 'full', captureRequests: true, captureResponses: true, maxBodySize: 10000 },
+      urlPatterns: {
+        enabled: true,
+        patterns: [
+          { id: 'reddit-auth-1', pattern: '*://*.reddit.com/*', active: true, description: 'Reddit domains' }
+        ]
+      },
+      requestFilters: {
+        pathFilters: { enabled: true, keywords: ['token', 'auth', 'login', 'session'], regex: [], includeMode: true }
+      }
+    }
+  }
+];
@@ -0,0 +1,295 @@
+// Secret redaction engine applied to captured requests before they are stored
+// (settings.networkInterception.privacy.autoRedact). Pure functions, no chrome.* access.
+
+export type RedactionRuleType = 'header' | 'jsonKey' | 'pattern' | 'detector';
+export type RedactionDetector = 'jwt' | 'apiKey' | 'creditCard' | 'ssn';
+
+export interface RedactionRule {
+  id: string;
+  type: RedactionRuleType;
+  // header: header name, jsonKey: key or dotted path ("password", "user.*.token"),
+  // pattern: regular expression, detector: one of RedactionDetector
+  value: string;
+  active: boolean;
+  description?: string;
+}
+
+export interface RedactableRequest {
+  url: string;
+  headers: { request: Record<string, string>; response: Record<string, string> };
+  requestBody?: string | null;
+  responseBody?: string | null;
+}
+
+export interface RedactionResult extends RedactableRequest {
+  redactedFields: string[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { id: 'header-authorization', type: 'header', value: 'authorization', active: true },
+  { id: 'header-proxy-authorization', type: 'header', value: 'proxy-authorization', active: true },
+  { id: 'header-cookie', type: 'header', value: 'cookie', active: true },
+  { id: 'header-set-cookie', type: 'header', value: 'set-cookie', active: true },
+  { id: 'header-x-api-key', type: 'header', value: 'x-api-key', active: true },
+  { id: 'header-x-auth-token', type: 'header', value: 'x-auth-token', active: true },
+  { id: 'header-x-csrf-token', type: 'header', value: 'x-csrf-token', active: true },
+  { id: 'header-x-xsrf-token', type: 'header', value: 'x-xsrf-token', active: true },
+  { id: 'key-password', type: 'jsonKey', value: 'password', active: true },
+  { id: 'key-passwd', type: 'jsonKey', value: 'passwd', active: true },
+  { id: 'key-secret', type: 'jsonKey', value: 'secret', active: true },
+  { id: 'key-client-secret', type: 'jsonKey', value: 'client_secret', active: true },
+  { id: 'key-access-token', type: 'jsonKey', value: 'access_token', active: true },
+  { id: 'key-refresh-token', type: 'jsonKey', value: 'refresh_token', active: true },
+  { id: 'key-id-token', type: 'jsonKey', value: 'id_token', active: true },
+  { id: 'key-api-key', type: 'jsonKey', value: 'api_key', active: true },
+  { id: 'key-apikey', type: 'jsonKey', value: 'apiKey', active: true },
+  { id: 'detector-jwt', type: 'detector', value: 'jwt', active: true, description: 'JSON Web Tokens' },
+  { id: 'detector-api-key', type: 'detector', value: 'apiKey', active: true, description: 'Well-known API key formats (AWS, Google, Stripe, GitHub, Slack)' },
+  { id: 'detector-credit-card', type: 'detector', value: 'creditCard', active: true, description: 'Card numbers passing the Luhn check' },
+  { id: 'detector-ssn', type: 'detector', value: 'ssn', active: true, description: 'US Social Security numbers' }
+];
+
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g;
+const API_KEY_PATTERNS = [
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key id
+  /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API key
+  /\b[sr]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g, // Stripe secret/restricted keys
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+  /\bxox[baprs]-[A-Za-z0-9-]{10,}\b/g // Slack tokens
+];
+const CARD_CANDIDATE_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+const SSN_PATTERN = /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+// Replace every match of a global regex, returning the new text and how many values were masked
+function replaceMatches(text: string, pattern: RegExp, mask: (match: string) => string | null): { text: string; count: number } {
+  let count = 0;
+  const result = text.replace(pattern, (match) => {
+    const replacement = mask(match);
+    if (replacement === null) return match;
+    count++;
+    return replacement;
+  });
+  return { text: result, count };
+}
+
+function applyDetector(text: string, detector: RedactionDetector): { text: string; count: number } {
+  switch (detector) {
+    case 'jwt':
+      return replaceMatches(text, JWT_PATTERN, () => '[REDACTED:jwt]');
+    case 'apiKey': {
+      let current = text;
+      let count = 0;
+      for (const pattern of API_KEY_PATTERNS) {
+        const result = replaceMatches(current, pattern, () => '[REDACTED:api_key]');
+        current = result.text;
+        count += result.count;
+      }
+      return { text: current, count };
+    }
+    case 'creditCard':
+      return replaceMatches(text, CARD_CANDIDATE_PATTERN, (match) => {
+        const digits = match.replace(/[ -]/g, '');
+        return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits) ? '[REDACTED:card]' : null;
+      });
+    case 'ssn':
+      return replaceMatches(text, SSN_PATTERN, () => '[REDACTED:ssn]');
+    default:
+      return { text, count: 0 };
+  }
+}
+
+function compilePattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source, 'g');
+  } catch (error) {
+    console.warn(`⚠️ Redaction: Ignoring invalid pattern "${source}":`, error);
+    return null;
+  }
+}
+
+// Run detector and custom pattern rules over free text, recording one field entry per rule that fired
+function redactText(text: string, rules: RedactionRule[], fieldName: string, redactedFields: Set<string>): string {
+  let current = text;
+  for (const rule of rules) {
+    if (rule.type === 'detector') {
+      const result = applyDetector(current, rule.value as RedactionDetector);
+      if (result.count > 0) {
+        current = result.text;
+        redactedFields.add(`${fieldName}:${rule.value}`);
+      }
+    } else if (rule.type === 'pattern') {
+      const pattern = compilePattern(rule.value);
+      if (!pattern) continue;
+      const result = replaceMatches(current, pattern, () => REDACTED);
+      if (result.count > 0) {
+        current = result.text;
+        redactedFields.add(`${fieldName}:pattern(${rule.value})`);
+      }
+    }
+  }
+  return current;
+}
+
+// A plain key ("password") matches at any depth; a dotted path ("user.*.token") matches from the root.
+// Array levels are transparent, so "items.secret" also matches items[3].secret.
+function keyPathMatches(rulePath: string, path: string[]): boolean {
+  const ruleSegments = rulePath.split('.');
+  if (ruleSegments.length === 1) {
+    return path[path.length - 1]?.toLowerCase() === rulePath.toLowerCase();
+  }
+  if (ruleSegments.length !== path.length) return false;
+  return ruleSegments.every((segment, i) => segment === '*' || segment.toLowerCase() === path[i].toLowerCase());
+}
+
+function redactJsonValue(
+  value: unknown,
+  path: string[],
+  keyRules: RedactionRule[],
+  fieldName: string,
+  redactedFields: Set<string>
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactJsonValue(item, path, keyRules, fieldName, redactedFields));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key];
+      if (keyRules.some(rule => keyPathMatches(rule.value, childPath))) {
+        result[key] = REDACTED;
+        redactedFields.add(`${fieldName}.${childPath.join('.')}`);
+      } else {
+        result[key] = redactJsonValue(child, childPath, keyRules, fieldName, redactedFields);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Bodies are often truncated (or form-encoded), so fall back to key=value / "key": "value" masking
+function redactKeysInRawText(text: string, keyRules: RedactionRule[], fieldName: string, redactedFields: Set<string>): string {
+  let current = text;
+  for (const rule of keyRules) {
+    const key = escapeRegExp(rule.value.split('.').pop() || rule.value);
+    const jsonPattern = new RegExp(`("${key}"\\s*:\\s*)("(?:[^"\\\\]|\\\\.)*"|[^,}\\]\\s]+)`, 'gi');
+    const formPattern = new RegExp(`((?:^|[?&])${key}=)([^&\\s]*)`, 'gi');
+    for (const pattern of [jsonPattern, formPattern]) {
+      current = current.replace(pattern, (_match, prefix: string, secret: string) => {
+        redactedFields.add(`${fieldName}.${rule.value}`);
+        return secret.startsWith('"') ? `${prefix}"${REDACTED}"` : `${prefix}${REDACTED}`;
+      });
+    }
+  }
+  return current;
+}
+
+function redactBody(body: string, rules: RedactionRule[], fieldName: string, redactedFields: Set<string>): string {
+  const keyRules = rules.filter(rule => rule.type === 'jsonKey');
+  let current = body;
+
+  if (keyRules.length > 0) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = undefined;
+    }
+    if (parsed && typeof parsed === 'object') {
+      const before = redactedFields.size;
+      const redacted = redactJsonValue(parsed, [], keyRules, fieldName, redactedFields);
+      if (redactedFields.size > before) {
+        current = JSON.stringify(redacted);
+      }
+    } else {
+      current = redactKeysInRawText(body, keyRules, fieldName, redactedFields);
+    }
+  }
+
+  return redactText(current, rules, fieldName, redactedFields);
+}
+
+// Keep the auth scheme visible ("Bearer [REDACTED]") since it is useful when debugging
+function maskHeaderValue(value: string): string {
+  const scheme = /^(Bearer|Basic|Digest|Token|Negotiate)\s+/i.exec(value);
+  return scheme ? `${scheme[1]} ${REDACTED}` : REDACTED;
+}
+
+function redactHeaders(
+  headers: Record<string, string>,
+  rules: RedactionRule[],
+  fieldName: string,
+  redactedFields: Set<string>
+): Record<string, string> {
+  const sensitiveNames = new Set(rules.filter(rule => rule.type === 'header').map(rule => rule.value.toLowerCase()));
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (sensitiveNames.has(name.toLowerCase())) {
+      result[name] = maskHeaderValue(String(value));
+      redactedFields.add(`${fieldName}.${name.toLowerCase()}`);
+    } else {
+      result[name] = redactText(String(value), rules, `${fieldName}.${name.toLowerCase()}`, redactedFields);
+    }
+  }
+  return result;
+}
+
+function redactUrl(url: string, rules: RedactionRule[], redactedFields: Set<string>): string {
+  const keyRules = rules.filter(rule => rule.type === 'jsonKey');
+  let current = url;
+  try {
+    const parsed = new URL(url);
+    let changed = false;
+    for (const [name] of Array.from(parsed.searchParams.entries())) {
+      if (keyRules.some(rule => keyPathMatches(rule.value, [name]))) {
+        parsed.searchParams.set(name, REDACTED);
+        redactedFields.add(`url.query.${name}`);
+        changed = true;
+      }
+    }
+    if (changed) current = parsed.toString();
+  } catch {
+    // Not an absolute URL - only the text rules below apply
+  }
+  return redactText(current, rules, 'url', redactedFields);
+}
+
+export function redactRequest(request: RedactableRequest, rules: RedactionRule[]): RedactionResult {
+  const activeRules = rules.filter(rule => rule.active && rule.value?.trim());
+  const redactedFields = new Set<string>();
+
+  const result: RedactionResult = {
+    url: redactUrl(request.url, activeRules, redactedFields),
+    headers: {
+      request: redactHeaders(request.headers.request, activeRules, 'headers.request', redactedFields),
+      response: redactHeaders(request.headers.response, activeRules, 'headers.response', redactedFields)
+    },
+    requestBody: request.requestBody ? redactBody(request.requestBody, activeRules, 'request_body', redactedFields) : request.requestBody,
+    responseBody: request.responseBody ? redactBody(request.responseBody, activeRules, 'response_body', redactedFields) : request.responseBody,
+    redactedFields: []
+  };
+
+  result.redactedFields = Array.from(redactedFields);
+  return result;
+}
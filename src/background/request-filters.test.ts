@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkContentTypeFilter,
+  checkMethodFilter,
+  checkPathFilter,
+  classifyContentType,
+  evaluateRequestFilters,
+  type HttpMethod,
+  type RequestFilterSettings
+} from './request-filters';
+
+const request = (overrides: { url?: string; method?: string; contentType?: string } = {}) => ({
+  url: overrides.url ?? 'https://api.example.com/v1/users?page=2',
+  method: overrides.method,
+  responseHeaders: overrides.contentType === undefined ? {} : { 'Content-Type': overrides.contentType }
+});
+
+describe('checkMethodFilter', () => {
+  const filter = { enabled: true, allowed: ['GET', 'POST'] as HttpMethod[] };
+
+  it('allows everything when disabled or missing', () => {
+    expect(checkMethodFilter(request({ method: 'DELETE' }), { ...filter, enabled: false })).toEqual({ allowed: true });
+    expect(checkMethodFilter(request({ method: 'DELETE' }), undefined)).toEqual({ allowed: true });
+  });
+
+  it('matches methods case-insensitively', () => {
+    expect(checkMethodFilter(request({ method: 'post' }), filter)).toEqual({ allowed: true });
+  });
+
+  it('treats a missing method as GET', () => {
+    expect(checkMethodFilter(request(), filter)).toEqual({ allowed: true });
+  });
+
+  it('rejects methods outside the allowed list', () => {
+    const result = checkMethodFilter(request({ method: 'DELETE' }), filter);
+    expect(result.allowed).toBe(false);
+    expect(result).toMatchObject({ filter: 'method', reason: expect.stringContaining('DELETE') });
+  });
+
+  it('rejects every method when none are allowed', () => {
+    expect(checkMethodFilter(request(), { enabled: true, allowed: [] })).toMatchObject({ allowed: false, reason: expect.stringContaining('none') });
+  });
+});
+
+describe('classifyContentType', () => {
+  it.each([
+    ['application/json; charset=utf-8', 'json'],
+    ['application/problem+json', 'json'],
+    ['text/html', 'html'],
+    ['image/png', 'image'],
+    ['application/javascript', 'script'],
+    ['text/css', 'css'],
+    ['application/atom+xml', 'xml'],
+    ['text/plain', 'text'],
+    ['application/octet-stream', 'other'],
+    ['', 'other'],
+    [undefined, 'other']
+  ])('classifies %s as %s', (contentType, category) => {
+    expect(classifyContentType(contentType)).toBe(category);
+  });
+});
+
+describe('checkContentTypeFilter', () => {
+  const filter = { enabled: true, allowed: ['json' as const] };
+
+  it('allows everything when disabled', () => {
+    expect(checkContentTypeFilter(request({ contentType: 'text/html' }), { ...filter, enabled: false })).toEqual({ allowed: true });
+  });
+
+  it('finds the header regardless of its case', () => {
+    const result = checkContentTypeFilter({ url: '/x', responseHeaders: { 'content-type': 'application/json' } }, filter);
+    expect(result).toEqual({ allowed: true });
+  });
+
+  it('rejects categories outside the allowed list', () => {
+    expect(checkContentTypeFilter(request({ contentType: 'text/html' }), filter)).toMatchObject({ allowed: false, filter: 'contentType' });
+  });
+
+  it('classifies responses without a content type as other', () => {
+    const result = checkContentTypeFilter(request(), filter);
+    expect(result).toMatchObject({ allowed: false, reason: expect.stringContaining('no content-type header') });
+    expect(checkContentTypeFilter(request(), { enabled: true, allowed: ['json', 'other'] })).toEqual({ allowed: true });
+  });
+
+  it('handles requests with no response headers at all', () => {
+    expect(checkContentTypeFilter({ url: '/x' }, { enabled: true, allowed: ['other'] })).toEqual({ allowed: true });
+    expect(checkContentTypeFilter({ url: '/x' }, filter)).toMatchObject({ allowed: false });
+  });
+});
+
+describe('checkPathFilter', () => {
+  const base = { enabled: true, keywords: [] as string[], regex: [] as string[], includeMode: true };
+
+  it('allows everything when disabled or when no keyword or regex is set', () => {
+    expect(checkPathFilter(request(), { ...base, enabled: false, keywords: ['admin'] })).toEqual({ allowed: true });
+    expect(checkPathFilter(request(), { ...base, keywords: ['  '], regex: [''] })).toEqual({ allowed: true });
+  });
+
+  it('include mode keeps only matching paths', () => {
+    const filter = { ...base, keywords: ['/USERS'] };
+    expect(checkPathFilter(request(), filter)).toEqual({ allowed: true });
+    expect(checkPathFilter(request({ url: 'https://api.example.com/v1/orders' }), filter)).toMatchObject({ allowed: false, filter: 'path' });
+  });
+
+  it('exclude mode drops matching paths', () => {
+    const filter = { ...base, includeMode: false, regex: ['^/v\\d+/users'] };
+    expect(checkPathFilter(request(), filter)).toMatchObject({ allowed: false, reason: expect.stringContaining('regex') });
+    expect(checkPathFilter(request({ url: 'https://api.example.com/health' }), filter)).toEqual({ allowed: true });
+  });
+
+  it('matches against the path and query, not the host', () => {
+    expect(checkPathFilter(request(), { ...base, keywords: ['page=2'] })).toEqual({ allowed: true });
+    expect(checkPathFilter(request(), { ...base, keywords: ['example.com'] })).toMatchObject({ allowed: false });
+  });
+
+  it('ignores invalid regular expressions', () => {
+    expect(checkPathFilter(request(), { ...base, includeMode: false, regex: ['(unclosed'] })).toEqual({ allowed: true });
+  });
+});
+
+describe('evaluateRequestFilters', () => {
+  it('reports the first filter that rejects the request', () => {
+    const filters: RequestFilterSettings = {
+      methods: { enabled: true, allowed: ['GET'] },
+      contentTypes: { enabled: true, allowed: ['json'] },
+      pathFilters: { enabled: true, keywords: ['orders'], regex: [], includeMode: true }
+    };
+    expect(evaluateRequestFilters(request({ method: 'POST', contentType: 'text/html' }), filters)).toMatchObject({ filter: 'method' });
+    expect(evaluateRequestFilters(request({ contentType: 'text/html' }), filters)).toMatchObject({ filter: 'contentType' });
+    expect(evaluateRequestFilters(request({ contentType: 'application/json' }), filters)).toMatchObject({ filter: 'path' });
+  });
+
+  it('allows everything without filter settings', () => {
+    expect(evaluateRequestFilters(request(), undefined)).toEqual({ allowed: true });
+  });
+});
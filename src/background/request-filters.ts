@@ -0,0 +1,138 @@
+// Request filtering pipeline for settings.networkInterception.requestFilters
+// Pure functions only - no chrome.* access - so every filter can be exercised in isolation
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS' | 'HEAD';
+export type ContentTypeCategory = 'json' | 'html' | 'image' | 'script' | 'css' | 'xml' | 'text' | 'other';
+
+export interface RequestFilterSettings {
+  methods?: {
+    enabled: boolean;
+    allowed: HttpMethod[];
+  };
+  contentTypes?: {
+    enabled: boolean;
+    allowed: ContentTypeCategory[];
+  };
+  pathFilters?: {
+    enabled: boolean;
+    keywords: string[];
+    regex: string[];
+    includeMode: boolean; // true = include matching, false = exclude matching
+  };
+}
+
+export interface FilterableRequest {
+  url: string;
+  method?: string;
+  responseHeaders?: Record<string, string>;
+}
+
+export type FilterResult =
+  | { allowed: true }
+  | { allowed: false; filter: 'method' | 'contentType' | 'path'; reason: string };
+
+const ALLOWED: FilterResult = { allowed: true };
+
+export function getHeaderValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(h => h.toLowerCase() === name.toLowerCase());
+  return key ? String(headers[key]) : undefined;
+}
+
+// Map a Content-Type header value to the categories offered in Settings
+export function classifyContentType(contentType: string | undefined): ContentTypeCategory {
+  const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (!mime) return 'other';
+  if (mime === 'application/json' || mime.endsWith('+json') || mime === 'text/json') return 'json';
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return 'html';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.includes('javascript') || mime.includes('ecmascript')) return 'script';
+  if (mime === 'text/css') return 'css';
+  if (mime.endsWith('/xml') || mime.endsWith('+xml')) return 'xml';
+  if (mime.startsWith('text/')) return 'text';
+  return 'other';
+}
+
+export function checkMethodFilter(request: FilterableRequest, filter: RequestFilterSettings['methods']): FilterResult {
+  if (!filter?.enabled) return ALLOWED;
+  const method = (request.method || 'GET').toUpperCase();
+  if (filter.allowed.some(allowed => allowed.toUpperCase() === method)) return ALLOWED;
+  return {
+    allowed: false,
+    filter: 'method',
+    reason: `Method ${method} not in allowed methods (${filter.allowed.join(', ') || 'none'})`
+  };
+}
+
+export function checkContentTypeFilter(request: FilterableRequest, filter: RequestFilterSettings['contentTypes']): FilterResult {
+  if (!filter?.enabled) return ALLOWED;
+  const contentType = getHeaderValue(request.responseHeaders, 'content-type');
+  const category = classifyContentType(contentType);
+  if (filter.allowed.includes(category)) return ALLOWED;
+  return {
+    allowed: false,
+    filter: 'contentType',
+    reason: `Content type ${category} (${contentType || 'no content-type header'}) not in allowed content types (${filter.allowed.join(', ') || 'none'})`
+  };
+}
+
+function getMatchTarget(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+// Returns a description of the first keyword/regex matching the path, or null
+function findPathMatch(path: string, keywords: string[], patterns: string[]): string | null {
+  const lowerPath = path.toLowerCase();
+  const keyword = keywords.find(k => k.trim() && lowerPath.includes(k.trim().toLowerCase()));
+  if (keyword) return `keyword "${keyword.trim()}"`;
+
+  for (const pattern of patterns) {
+    if (!pattern.trim()) continue;
+    try {
+      if (new RegExp(pattern).test(path)) return `regex /${pattern}/`;
+    } catch (error) {
+      console.warn(`⚠️ Request filters: Ignoring invalid path regex "${pattern}":`, error);
+    }
+  }
+  return null;
+}
+
+export function checkPathFilter(request: FilterableRequest, filter: RequestFilterSettings['pathFilters']): FilterResult {
+  if (!filter?.enabled) return ALLOWED;
+  const keywords = filter.keywords || [];
+  const patterns = filter.regex || [];
+  if (!keywords.some(k => k.trim()) && !patterns.some(p => p.trim())) return ALLOWED;
+
+  const path = getMatchTarget(request.url);
+  const match = findPathMatch(path, keywords, patterns);
+
+  if (filter.includeMode && !match) {
+    return { allowed: false, filter: 'path', reason: `Path ${path} did not match any include filter` };
+  }
+  if (!filter.includeMode && match) {
+    return { allowed: false, filter: 'path', reason: `Path ${path} matched exclude ${match}` };
+  }
+  return ALLOWED;
+}
+
+// Run every configured filter in order and report the first rejection
+export function evaluateRequestFilters(request: FilterableRequest, filters: RequestFilterSettings | undefined): FilterResult {
+  if (!filters) return ALLOWED;
+
+  const checks = [
+    () => checkMethodFilter(request, filters.methods),
+    () => checkContentTypeFilter(request, filters.contentTypes),
+    () => checkPathFilter(request, filters.pathFilters)
+  ];
+
+  for (const check of checks) {
+    const result = check();
+    if (!result.allowed) return result;
+  }
+  return ALLOWED;
+}
@@ -0,0 +1,185 @@
+// Per-domain and per-table retention policies enforced by the storage auto-pruner.
+// Limits resolve one field at a time: the most specific enabled policy that sets a limit wins,
+// and a limit no policy sets falls back to the global StorageConfig value.
+
+export type RetentionTable = 'apiCalls' | 'consoleErrors' | 'tokenEvents' | 'minifiedLibraries' | 'webSocketConnections' | 'webSocketFrames';
+
+export const RETENTION_TABLES: RetentionTable[] = ['apiCalls', 'consoleErrors', 'tokenEvents', 'minifiedLibraries', 'webSocketConnections', 'webSocketFrames'];
+
+export const ANY_DOMAIN = '*';
+export const ANY_TABLE = '*';
+
+export interface RetentionPolicy {
+  id: string;
+  enabled: boolean;
+  domain: string; // main_domain to match, or '*' for every domain
+  table: RetentionTable | typeof ANY_TABLE;
+  maxAgeDays?: number;
+  maxRecords?: number; // Newest records kept per domain within the table
+  maxBodyMB?: number; // Captured bodies kept per domain within the table (frame payloads for WebSockets)
+  description?: string;
+}
+
+export interface RetentionLimits {
+  maxAgeMs?: number;
+  maxRecords?: number;
+  maxBodyBytes?: number;
+}
+
+export type PruneReason = 'age' | 'records' | 'bodySize' | 'tableCap';
+
+export interface PruneReport {
+  dryRun: boolean;
+  startedAt: number;
+  finishedAt: number;
+  totalDeleted: number;
+  bodyBytesFreed: number;
+  byTable: Record<string, number>;
+  byDomain: Record<string, { records: number; bodyBytes: number }>;
+  byReason: Record<PruneReason, number>;
+}
+
+// Fields retention reads from a record of any retention table
+export interface RetentionRecord {
+  timestamp: number;
+  main_domain?: string;
+  import_id?: string;
+  request_body?: string;
+  request_body_size?: number;
+  response_body?: string;
+  response_body_size?: number;
+  data?: string; // WebSocket frame payload
+}
+
+export interface RetentionDefaults {
+  maxAgeInDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export function generateRetentionPolicyId(): string {
+  return `retention_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function normalizeRetentionDomain(domain: string): string {
+  const trimmed = domain.trim().toLowerCase();
+  return trimmed === '' ? ANY_DOMAIN : trimmed;
+}
+
+// Exact domain + exact table beats exact domain, which beats exact table, which beats '*' + '*'
+function policySpecificity(policy: RetentionPolicy): number {
+  return (normalizeRetentionDomain(policy.domain) !== ANY_DOMAIN ? 2 : 0) + (policy.table !== ANY_TABLE ? 1 : 0);
+}
+
+function policyMatches(policy: RetentionPolicy, domain: string, table: RetentionTable): boolean {
+  const policyDomain = normalizeRetentionDomain(policy.domain);
+  return policy.enabled
+    && (policyDomain === ANY_DOMAIN || policyDomain === domain)
+    && (policy.table === ANY_TABLE || policy.table === table);
+}
+
+function isLimit(value: number | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+export function resolveRetentionLimits(
+  policies: RetentionPolicy[],
+  domain: string,
+  table: RetentionTable,
+  defaults: RetentionDefaults
+): RetentionLimits {
+  const matching = policies
+    .filter(policy => policyMatches(policy, domain.toLowerCase(), table))
+    .sort((a, b) => policySpecificity(b) - policySpecificity(a));
+
+  const maxAgeDays = matching.find(policy => isLimit(policy.maxAgeDays))?.maxAgeDays ?? defaults.maxAgeInDays;
+  const maxRecords = matching.find(policy => isLimit(policy.maxRecords))?.maxRecords;
+  const maxBodyMB = matching.find(policy => isLimit(policy.maxBodyMB))?.maxBodyMB;
+
+  return {
+    maxAgeMs: maxAgeDays * DAY_MS,
+    maxRecords,
+    maxBodyBytes: maxBodyMB !== undefined ? maxBodyMB * MB : undefined
+  };
+}
+
+// String lengths stand in for byte sizes; close enough for quota purposes and free to compute
+export function recordBodySize(table: RetentionTable, record: RetentionRecord): number {
+  if (table === 'apiCalls') {
+    // Bodies moved to the body store leave an empty string behind and record their size instead
+    return (record.request_body_size ?? record.request_body?.length ?? 0) + (record.response_body_size ?? record.response_body?.length ?? 0);
+  }
+  if (table === 'webSocketFrames') {
+    return record.data?.length || 0;
+  }
+  return 0;
+}
+
+export function createPruneReport(dryRun: boolean, startedAt = Date.now()): PruneReport {
+  return {
+    dryRun,
+    startedAt,
+    finishedAt: startedAt,
+    totalDeleted: 0,
+    bodyBytesFreed: 0,
+    byTable: {},
+    byDomain: {},
+    byReason: { age: 0, records: 0, bodySize: 0, tableCap: 0 }
+  };
+}
+
+// Decides record by record, newest first, whether a table's record falls outside retention.
+// Records must be fed newest first so per-domain record and body quotas keep the most recent data.
+export function createRetentionEvaluator(
+  table: RetentionTable,
+  policies: RetentionPolicy[],
+  defaults: RetentionDefaults & { maxRecordsPerTable: number },
+  report: PruneReport,
+  now = Date.now()
+): (record: RetentionRecord) => boolean {
+  const limitsByDomain = new Map<string, RetentionLimits>();
+  const keptByDomain = new Map<string, { records: number; bodyBytes: number }>();
+  let keptInTable = 0;
+
+  return (record: RetentionRecord) => {
+    const domain = (record.main_domain || 'unknown').toLowerCase();
+    let limits = limitsByDomain.get(domain);
+    if (!limits) {
+      limits = resolveRetentionLimits(policies, domain, table, defaults);
+      limitsByDomain.set(domain, limits);
+    }
+    const kept = keptByDomain.get(domain) || { records: 0, bodyBytes: 0 };
+    const bodySize = recordBodySize(table, record);
+
+    let reason: PruneReason | null = null;
+    // HAR imports keep their original (often old) timestamps - they are removed as a unit instead
+    if (!record.import_id && limits.maxAgeMs !== undefined && record.timestamp < now - limits.maxAgeMs) {
+      reason = 'age';
+    } else if (limits.maxRecords !== undefined && kept.records >= limits.maxRecords) {
+      reason = 'records';
+    } else if (limits.maxBodyBytes !== undefined && bodySize > 0 && kept.bodyBytes + bodySize > limits.maxBodyBytes) {
+      reason = 'bodySize';
+    } else if (keptInTable >= defaults.maxRecordsPerTable) {
+      reason = 'tableCap';
+    }
+
+    if (!reason) {
+      kept.records++;
+      kept.bodyBytes += bodySize;
+      keptByDomain.set(domain, kept);
+      keptInTable++;
+      return false;
+    }
+
+    const domainTotals = report.byDomain[domain] || { records: 0, bodyBytes: 0 };
+    domainTotals.records++;
+    domainTotals.bodyBytes += bodySize;
+    report.byDomain[domain] = domainTotals;
+    report.byTable[table] = (report.byTable[table] || 0) + 1;
+    report.byReason[reason]++;
+    report.totalDeleted++;
+    report.bodyBytesFreed += bodySize;
+    return true;
+  };
+}
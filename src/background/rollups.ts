@@ -0,0 +1,253 @@
+// Minute/hour/day rollups of live traffic for the time-series charts. Each row covers one bucket
+// of one domain and one dimension (HTTP method for API calls, severity for console errors), so a
+// chart reads a few hundred rows for any range instead of bucketing raw records. Latencies are
+// kept as a fixed histogram; histograms add up across rows, which percentiles would not.
+// Rollups outlive the raw records they were built from: retention pruning, session and HAR
+// import deletions leave them alone, only their own per-granularity retention and clearing all
+// data remove them.
+
+import { recordBodySize, type RetentionRecord } from './retention'
+
+export type RollupGranularity = 'minute' | 'hour' | 'day'
+
+export type RollupSource = 'apiCalls' | 'consoleErrors'
+
+export const ROLLUP_GRANULARITIES: RollupGranularity[] = ['minute', 'hour', 'day']
+
+export const ROLLUP_BUCKET_MS: Record<RollupGranularity, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+}
+
+// How long each granularity is kept; coarser buckets cover the longer ranges
+export const ROLLUP_RETENTION_MS: Record<RollupGranularity, number> = {
+  minute: 2 * 24 * 60 * 60 * 1000,
+  hour: 90 * 24 * 60 * 60 * 1000,
+  day: 2 * 365 * 24 * 60 * 60 * 1000
+}
+
+// Upper bounds in milliseconds; one extra bucket counts everything slower
+export const LATENCY_BUCKET_BOUNDS = [5, 10, 25, 50, 75, 100, 150, 200, 300, 400, 500, 750, 1000, 1500, 2000, 3000, 5000, 7500, 10000, 15000, 30000, 60000]
+
+export interface RollupRow {
+  granularity: RollupGranularity
+  bucket_start: number // UTC start of the bucket
+  source: RollupSource
+  domain: string
+  dimension: string // HTTP method for API calls, severity for console errors
+  count: number
+  error_count: number // 4xx/5xx and failed requests; console errors with severity 'error'
+  bytes: number // Request plus response body size
+  latency_count: number
+  latency_sum: number
+  latency_max: number
+  latency_histogram: number[] // Counts per LATENCY_BUCKET_BOUNDS slot, plus the overflow slot
+}
+
+export interface RollupQuery {
+  source: RollupSource
+  from: number
+  to: number
+  granularity?: RollupGranularity // Picked from the span when absent
+  domain?: string
+}
+
+export interface RollupPoint {
+  bucket_start: number
+  count: number
+  error_count: number
+  bytes: number
+  latency_count: number
+  avg_latency: number
+  p50: number
+  p95: number
+  p99: number
+  max_latency: number
+  dimensions: Record<string, { count: number; error_count: number; bytes: number; latency_count: number; latency_sum: number }>
+  domains: Record<string, { count: number; error_count: number; bytes: number }>
+}
+
+export interface RollupSeries {
+  source: RollupSource
+  granularity: RollupGranularity
+  from: number
+  to: number
+  points: RollupPoint[] // Oldest first; empty buckets are omitted
+}
+
+export function bucketStart(timestamp: number, granularity: RollupGranularity): number {
+  const size = ROLLUP_BUCKET_MS[granularity]
+  return Math.floor(timestamp / size) * size
+}
+
+// Same thresholds the charts use when they bucket raw records
+export function chooseRollupGranularity(from: number, to: number): RollupGranularity {
+  const span = to - from
+  if (span <= 2 * 60 * 60 * 1000) return 'minute'
+  if (span <= 7 * 24 * 60 * 60 * 1000) return 'hour'
+  return 'day'
+}
+
+export function rollupRowKey(row: Pick<RollupRow, 'granularity' | 'bucket_start' | 'source' | 'domain' | 'dimension'>): string {
+  return `${row.granularity}|${row.bucket_start}|${row.source}|${row.domain}|${row.dimension}`
+}
+
+function latencySlot(latency: number): number {
+  const slot = LATENCY_BUCKET_BOUNDS.findIndex(bound => latency <= bound)
+  return slot === -1 ? LATENCY_BUCKET_BOUNDS.length : slot
+}
+
+function createRollupRow(granularity: RollupGranularity, bucket: number, source: RollupSource, domain: string, dimension: string): RollupRow {
+  return {
+    granularity,
+    bucket_start: bucket,
+    source,
+    domain,
+    dimension,
+    count: 0,
+    error_count: 0,
+    bytes: 0,
+    latency_count: 0,
+    latency_sum: 0,
+    latency_max: 0,
+    latency_histogram: new Array(LATENCY_BUCKET_BOUNDS.length + 1).fill(0)
+  }
+}
+
+// One delta row per granularity still within retention for a newly stored record; empty for records rollups skip
+// Fields rollups read from API calls and console errors
+interface RollupFields extends RetentionRecord {
+  method?: string
+  status?: number
+  failure_reason?: string
+  response_time?: number
+  severity?: string
+}
+
+export function rollupDeltasForRecord(source: RollupSource, stored: object, now = Date.now()): RollupRow[] {
+  const record = stored as RollupFields
+  // HAR imports replay someone else's history and are removed as a unit, so they stay out
+  if (record.import_id || typeof record.timestamp !== 'number') return []
+
+  const domain = record.main_domain || 'unknown'
+  const dimension = source === 'apiCalls'
+    ? (record.method || 'GET').toUpperCase()
+    : record.severity || 'error'
+
+  const granularities = ROLLUP_GRANULARITIES.filter(granularity => record.timestamp >= now - ROLLUP_RETENTION_MS[granularity])
+  return granularities.map(granularity => {
+    const row = createRollupRow(granularity, bucketStart(record.timestamp, granularity), source, domain, dimension)
+    row.count = 1
+
+    if (source === 'apiCalls') {
+      row.error_count = (record.status ?? 0) >= 400 || record.status === 0 || record.failure_reason ? 1 : 0
+      row.bytes = recordBodySize('apiCalls', record)
+      if (typeof record.response_time === 'number' && record.response_time > 0) {
+        row.latency_count = 1
+        row.latency_sum = record.response_time
+        row.latency_max = record.response_time
+        row.latency_histogram[latencySlot(record.response_time)] = 1
+      }
+    } else {
+      row.error_count = dimension === 'error' ? 1 : 0
+    }
+    return row
+  })
+}
+
+// Adds source into target in place; both must describe the same bucket, domain and dimension
+export function mergeRollupRow(target: RollupRow, source: RollupRow): RollupRow {
+  target.count += source.count
+  target.error_count += source.error_count
+  target.bytes += source.bytes
+  target.latency_count += source.latency_count
+  target.latency_sum += source.latency_sum
+  target.latency_max = Math.max(target.latency_max, source.latency_max)
+  source.latency_histogram.forEach((count, slot) => {
+    target.latency_histogram[slot] = (target.latency_histogram[slot] || 0) + count
+  })
+  return target
+}
+
+// Interpolates inside the histogram slot holding the requested rank
+export function latencyPercentile(histogram: number[], total: number, max: number, percentile: number): number {
+  if (total === 0) return 0
+  const rank = percentile * total
+  let seen = 0
+  for (let slot = 0; slot < histogram.length; slot++) {
+    const count = histogram[slot] || 0
+    if (count > 0 && seen + count >= rank) {
+      const lower = slot === 0 ? 0 : LATENCY_BUCKET_BOUNDS[slot - 1]
+      const upper = Math.min(LATENCY_BUCKET_BOUNDS[slot] ?? max, max)
+      return Math.round(lower + (Math.max(upper, lower) - lower) * ((rank - seen) / count))
+    }
+    seen += count
+  }
+  return max
+}
+
+// Folds stored rows into one point per bucket, oldest first
+export function summarizeRollups(rows: RollupRow[], query: RollupQuery & { granularity: RollupGranularity }): RollupSeries {
+  const buckets = new Map<number, { point: RollupPoint; histogram: number[]; latencySum: number }>()
+
+  for (const row of rows) {
+    let bucket = buckets.get(row.bucket_start)
+    if (!bucket) {
+      bucket = {
+        point: {
+          bucket_start: row.bucket_start,
+          count: 0,
+          error_count: 0,
+          bytes: 0,
+          latency_count: 0,
+          avg_latency: 0,
+          p50: 0,
+          p95: 0,
+          p99: 0,
+          max_latency: 0,
+          dimensions: {},
+          domains: {}
+        },
+        histogram: new Array(LATENCY_BUCKET_BOUNDS.length + 1).fill(0),
+        latencySum: 0
+      }
+      buckets.set(row.bucket_start, bucket)
+    }
+
+    const { point } = bucket
+    point.count += row.count
+    point.error_count += row.error_count
+    point.bytes += row.bytes
+    point.latency_count += row.latency_count
+    point.max_latency = Math.max(point.max_latency, row.latency_max)
+    bucket.latencySum += row.latency_sum
+    row.latency_histogram.forEach((count, slot) => {
+      bucket!.histogram[slot] += count
+    })
+
+    const dimension = point.dimensions[row.dimension] || (point.dimensions[row.dimension] = { count: 0, error_count: 0, bytes: 0, latency_count: 0, latency_sum: 0 })
+    dimension.count += row.count
+    dimension.error_count += row.error_count
+    dimension.bytes += row.bytes
+    dimension.latency_count += row.latency_count
+    dimension.latency_sum += row.latency_sum
+
+    const domain = point.domains[row.domain] || (point.domains[row.domain] = { count: 0, error_count: 0, bytes: 0 })
+    domain.count += row.count
+    domain.error_count += row.error_count
+    domain.bytes += row.bytes
+  }
+
+  const points = Array.from(buckets.values())
+    .sort((a, b) => a.point.bucket_start - b.point.bucket_start)
+    .map(({ point, histogram, latencySum }) => ({
+      ...point,
+      avg_latency: point.latency_count > 0 ? Math.round(latencySum / point.latency_count) : 0,
+      p50: latencyPercentile(histogram, point.latency_count, point.max_latency, 0.5),
+      p95: latencyPercentile(histogram, point.latency_count, point.max_latency, 0.95),
+      p99: latencyPercentile(histogram, point.latency_count, point.max_latency, 0.99)
+    }))
+
+  return { source: query.source, granularity: query.granularity, from: query.from, to: query.to, points }
+}
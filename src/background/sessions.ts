@@ -0,0 +1,35 @@
+// Named capture sessions. While a session is recording, every stored API call, console error
+// and token event carries its id so the data can be scoped or deleted per session.
+
+export interface CaptureSession {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number; // Absent while the session is recording
+}
+
+// chrome.storage.local keys
+export const CAPTURE_SESSIONS_KEY = 'captureSessions';
+export const ACTIVE_SESSION_KEY = 'activeCaptureSessionId';
+
+export function generateSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function defaultSessionName(startedAt: number): string {
+  return `Session ${new Date(startedAt).toLocaleString()}`;
+}
+
+// Only one session records at a time, so any session still open is ended first
+export function startSession(sessions: CaptureSession[], name: string, now = Date.now()): { sessions: CaptureSession[]; session: CaptureSession } {
+  const session: CaptureSession = {
+    id: generateSessionId(),
+    name: name.trim() || defaultSessionName(now),
+    startedAt: now
+  };
+  return { sessions: [...endOpenSessions(sessions, now), session], session };
+}
+
+export function endOpenSessions(sessions: CaptureSession[], now = Date.now()): CaptureSession[] {
+  return sessions.map(session => (session.endedAt ? session : { ...session, endedAt: now }));
+}
@@ -0,0 +1,334 @@
+// Source map symbolication for console error stack traces. The background fetches a script,
+// follows its SourceMap header or sourceMappingURL comment, and maps each minified frame back to
+// the original file, line, column and name. Raw map files are kept in the Cache API so a map is
+// downloaded once; decoded mappings stay in memory for the most recently used scripts only.
+
+export interface StackFrame {
+  raw: string;
+  functionName?: string;
+  url?: string;
+  line?: number; // 1-based, as printed in the stack
+  column?: number; // 1-based, as printed in the stack
+}
+
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string; // Name token mapped at the position; in symbolicated frames, the original function name
+}
+
+export interface SymbolicatedFrame extends StackFrame {
+  original?: OriginalPosition;
+  note?: string; // Why the frame could not be mapped
+}
+
+export interface SourceMapOptions {
+  allowedOrigins: string[]; // Origins or host names maps may be fetched from besides the script's own origin
+}
+
+interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings: string;
+  sections?: unknown[];
+}
+
+// Per generated line, segments sorted by column: [column, source, line, column, name?], or just
+// [column] for unmapped code; positions are 0-based
+type MappingSegment = number[];
+
+export interface DecodedSourceMap {
+  url: string;
+  sources: string[]; // Resolved against sourceRoot and the map URL
+  names: string[];
+  lines: MappingSegment[][];
+}
+
+export const SOURCE_MAP_CACHE_NAME = 'web-app-monitor-source-maps';
+const MAX_DECODED_SOURCE_MAPS = 10;
+const MAX_SOURCE_MAP_BYTES = 20 * 1024 * 1024;
+
+const BASE64_VALUES = new Int8Array(128).fill(-1);
+'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'.split('').forEach((char, index) => {
+  BASE64_VALUES[char.charCodeAt(0)] = index;
+});
+
+const CHROME_FRAME = /^\s*at\s+(?:(.*?)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/;
+const FIREFOX_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+// Chrome ("at fn (url:1:2)") and Firefox/Safari ("fn@url:1:2") frames; other lines are kept as raw text
+export function parseStackFrames(stack: string): StackFrame[] {
+  return stack.split('\n').filter(line => line.trim() !== '').map(line => {
+    const match = line.match(CHROME_FRAME) || line.match(FIREFOX_FRAME);
+    if (!match) return { raw: line };
+    return {
+      raw: line,
+      functionName: match[1] || undefined,
+      url: match[2],
+      line: Number(match[3]),
+      column: Number(match[4])
+    };
+  });
+}
+
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let line: MappingSegment[] = [];
+  let fields: number[] = [];
+  let value = 0;
+  let shift = 0;
+  // Every field except the generated column is relative to the previous segment in the whole map
+  let generatedColumn = 0;
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  const endSegment = () => {
+    if (fields.length === 0) return;
+    generatedColumn += fields[0];
+    if (fields.length >= 4) {
+      source += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      if (fields.length >= 5) {
+        name += fields[4];
+        line.push([generatedColumn, source, originalLine, originalColumn, name]);
+      } else {
+        line.push([generatedColumn, source, originalLine, originalColumn]);
+      }
+    } else {
+      line.push([generatedColumn]);
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < mappings.length; i++) {
+    const char = mappings.charCodeAt(i);
+    if (char === 59) { // ';' ends the generated line
+      endSegment();
+      lines.push(line.sort((a, b) => a[0] - b[0]));
+      line = [];
+      generatedColumn = 0;
+      continue;
+    }
+    if (char === 44) { // ',' ends the segment
+      endSegment();
+      continue;
+    }
+    const digit = char < 128 ? BASE64_VALUES[char] : -1;
+    if (digit === -1) {
+      throw new Error(`Invalid character "${mappings[i]}" in source map mappings`);
+    }
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      fields.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+      value = 0;
+      shift = 0;
+    }
+  }
+  endSegment();
+  lines.push(line.sort((a, b) => a[0] - b[0]));
+  return lines;
+}
+
+export function parseSourceMap(text: string, mapUrl: string): DecodedSourceMap {
+  let raw: RawSourceMap;
+  try {
+    // Maps may start with )]}' to stop them being evaluated as script
+    raw = JSON.parse(text.replace(/^\)\]\}'[^\n]*\n/, ''));
+  } catch {
+    throw new Error('Source map is not valid JSON');
+  }
+  if (raw.sections) {
+    throw new Error('Indexed source maps (with sections) are not supported');
+  }
+  if (raw.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+    throw new Error('Not a version 3 source map');
+  }
+
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+  const base = mapUrl.startsWith('data:') ? undefined : mapUrl;
+  return {
+    url: mapUrl,
+    sources: raw.sources.map(source => {
+      try {
+        return new URL(root + (source ?? ''), base).href;
+      } catch {
+        return root + (source ?? '');
+      }
+    }),
+    names: raw.names || [],
+    lines: decodeMappings(raw.mappings)
+  };
+}
+
+// Closest mapping at or before the 1-based line and column printed in a stack frame
+export function originalPositionFor(map: DecodedSourceMap, line: number, column: number): OriginalPosition | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  const target = column - 1;
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle][0] <= target) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const segment = found === -1 ? null : segments[found];
+  if (!segment || segment.length < 4) return null;
+  return {
+    source: map.sources[segment[1]] ?? 'unknown',
+    line: segment[2] + 1,
+    column: segment[3] + 1,
+    ...(segment.length >= 5 && map.names[segment[4]] ? { name: map.names[segment[4]] } : {})
+  };
+}
+
+// Last sourceMappingURL comment; inline maps are long, so the whole script is searched
+export function findSourceMappingUrl(scriptText: string): string | null {
+  const matches = scriptText.match(/\/[/*][#@]\s*sourceMappingURL=([^\s'"*]+)/g);
+  if (!matches) return null;
+  return matches[matches.length - 1].replace(/^\/[/*][#@]\s*sourceMappingURL=/, '');
+}
+
+// Maps load from the script's own origin, data: URLs, or origins the user allowed in settings
+export function isSourceMapAllowed(scriptUrl: string, mapUrl: string, allowedOrigins: string[]): boolean {
+  if (mapUrl.startsWith('data:')) return true;
+  try {
+    const script = new URL(scriptUrl);
+    const map = new URL(mapUrl);
+    if (map.protocol !== 'https:' && map.protocol !== 'http:') return false;
+    if (map.origin === script.origin) return true;
+    return allowedOrigins.some(allowed => {
+      const entry = allowed.trim().toLowerCase().replace(/\/+$/, '');
+      return entry !== '' && (entry === map.origin || entry === map.hostname);
+    });
+  } catch {
+    return false;
+  }
+}
+
+async function decodeDataUrl(dataUrl: string): Promise<string> {
+  const response = await fetch(dataUrl);
+  return response.text();
+}
+
+const sourceMapUrls = new Map<string, Promise<string | null>>(); // Script URL -> map URL (null: none)
+const decodedSourceMaps = new Map<string, Promise<DecodedSourceMap>>(); // Map URL -> decoded map, oldest first
+
+function locateSourceMap(scriptUrl: string): Promise<string | null> {
+  let located = sourceMapUrls.get(scriptUrl);
+  if (!located) {
+    located = (async () => {
+      const response = await fetch(scriptUrl, { cache: 'force-cache', credentials: 'omit' });
+      if (!response.ok) {
+        throw new Error(`Script request failed with HTTP ${response.status}`);
+      }
+      const reference = response.headers.get('SourceMap') || response.headers.get('X-SourceMap') || findSourceMappingUrl(await response.text());
+      return reference ? new URL(reference, scriptUrl).href : null;
+    })();
+    sourceMapUrls.set(scriptUrl, located);
+    located.catch(() => sourceMapUrls.delete(scriptUrl));
+  }
+  return located;
+}
+
+async function fetchSourceMapText(mapUrl: string): Promise<string> {
+  if (mapUrl.startsWith('data:')) return decodeDataUrl(mapUrl);
+
+  const cache = typeof caches !== 'undefined' ? await caches.open(SOURCE_MAP_CACHE_NAME) : null;
+  const cached = await cache?.match(mapUrl);
+  if (cached) return cached.text();
+
+  const response = await fetch(mapUrl, { credentials: 'omit' });
+  if (!response.ok) {
+    throw new Error(`Source map request failed with HTTP ${response.status}`);
+  }
+  const text = await response.text();
+  if (text.length > MAX_SOURCE_MAP_BYTES) {
+    throw new Error('Source map is too large to load');
+  }
+  await cache?.put(mapUrl, new Response(text, { headers: { 'Content-Type': 'application/json' } }));
+  return text;
+}
+
+function loadSourceMap(mapUrl: string): Promise<DecodedSourceMap> {
+  let decoded = decodedSourceMaps.get(mapUrl);
+  if (decoded) {
+    // Move to the end so the least recently used map is evicted first
+    decodedSourceMaps.delete(mapUrl);
+  } else {
+    decoded = fetchSourceMapText(mapUrl).then(text => parseSourceMap(text, mapUrl));
+    decoded.catch(() => decodedSourceMaps.delete(mapUrl));
+  }
+  decodedSourceMaps.set(mapUrl, decoded);
+  while (decodedSourceMaps.size > MAX_DECODED_SOURCE_MAPS) {
+    decodedSourceMaps.delete(decodedSourceMaps.keys().next().value!);
+  }
+  return decoded;
+}
+
+async function sourceMapForScript(scriptUrl: string, options: SourceMapOptions): Promise<DecodedSourceMap> {
+  if (!/^https?:/.test(scriptUrl)) {
+    throw new Error('Only http(s) scripts can be symbolicated');
+  }
+  const mapUrl = await locateSourceMap(scriptUrl);
+  if (!mapUrl) {
+    throw new Error('Script has no source map');
+  }
+  if (!isSourceMapAllowed(scriptUrl, mapUrl, options.allowedOrigins)) {
+    throw new Error(`Source map on ${new URL(mapUrl).origin} is not same-origin or allowed in settings`);
+  }
+  return loadSourceMap(mapUrl);
+}
+
+// Maps every parseable frame; frames of one script share a single map lookup
+export async function symbolicateStack(stack: string, options: SourceMapOptions): Promise<SymbolicatedFrame[]> {
+  const frames = parseStackFrames(stack);
+  const maps = new Map<string, Promise<DecodedSourceMap>>();
+
+  const symbolicated = await Promise.all(frames.map(async (frame): Promise<SymbolicatedFrame> => {
+    if (!frame.url || frame.line === undefined || frame.column === undefined) return frame;
+
+    let map = maps.get(frame.url);
+    if (!map) {
+      map = sourceMapForScript(frame.url, options);
+      maps.set(frame.url, map);
+    }
+
+    try {
+      const original = originalPositionFor(await map, frame.line, frame.column);
+      return original ? { ...frame, original } : { ...frame, note: 'No mapping for this position' };
+    } catch (error) {
+      return { ...frame, note: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+
+  // The name mapped at a call site is the function being called, so each frame takes its
+  // original function name from the frame below it
+  return symbolicated.map((frame, index) => frame.original
+    ? { ...frame, original: { ...frame.original, name: symbolicated[index + 1]?.original?.name } }
+    : frame
+  );
+}
+
+export async function clearSourceMapCache(): Promise<void> {
+  sourceMapUrls.clear();
+  decodedSourceMaps.clear();
+  if (typeof caches !== 'undefined') {
+    await caches.delete(SOURCE_MAP_CACHE_NAME);
+  }
+}
@@ -1,5 +1,14 @@
 // IndexedDB-only data storage system (SQLite removed for optimization)
 // Schema definitions for all data types
+import type { MigrationStatus } from './indexeddb-migrations'
+import type { PruneReport, RetentionPolicy } from './retention'
+import type { BodyStoreStats } from './body-store'
+import type { StorageAggregates } from './aggregates'
+import type { RollupQuery, RollupSeries } from './rollups'
+import type { TokenLifecycle, TokenLifecycleEvent, TokenLifecycleQuery } from './token-lifecycle'
+import type { IssuedToken } from './token-responses'
+import type { JwtObservation, JwtObservationEvent, JwtObservationQuery } from './jwt-inspector'
+import type { BackupRecord, BackupStoreName, RestoreMode, RestoreStoreResult } from './backup'
 
 export interface ApiCall {
   id?: number
@@ -15,8 +24,33 @@ export interface ApiCall {
   tab_url?: string // Track the main tab URL for context
   main_domain?: string // The main domain this request is associated with
   request_body?: string // Request body for analysis
+  import_id?: string // Set when the record came from a HAR import rather than live capture
+  redacted_fields?: string[] // Fields masked by the redaction engine, e.g. "headers.request.authorization"
+  request_body_source?: BodySource // Where request_body came from (absent = page hook)
+  response_body_source?: BodySource // Where response_body came from (absent = page hook)
+  transport?: ApiTransport // Page API that issued the request (absent on records captured before transports were tracked)
+  failure_reason?: NetworkFailureReason // Set when the request never got a response (status is 0)
+  error_class?: string // Name of the error the page saw, e.g. "TypeError", "AbortError", "TimeoutError"
+  session_id?: string // Capture session that was recording when the call was stored
+  request_body_hash?: string // Set when request_body lives in the body store; rehydrated on read
+  response_body_hash?: string // Set when response_body lives in the body store; rehydrated on read
+  request_body_size?: number // Length of the externalized request body
+  response_body_size?: number // Length of the externalized response body
+  body_hashes?: string[] // Both hashes, multiEntry-indexed so unreferenced bodies can be swept
 }
 
+// Channels intercepted by the main-world script
+export type ApiTransport = 'fetch' | 'xhr' | 'beacon' | 'sse' | 'form'
+export const API_TRANSPORTS: ApiTransport[] = ['fetch', 'xhr', 'beacon', 'sse', 'form']
+
+// Why a request produced no response. 'cors' is inferred: browsers report CORS rejections and
+// connection failures with the same opaque error, so cross-origin failures while online count as cors
+export type NetworkFailureReason = 'network' | 'cors' | 'timeout' | 'aborted'
+export const NETWORK_FAILURE_REASONS: NetworkFailureReason[] = ['network', 'cors', 'timeout', 'aborted']
+
+// 'page' = main-world fetch/XHR hook, 'debugger' = chrome.debugger (CDP) full body capture
+export type BodySource = 'page' | 'debugger'
+
 export interface ConsoleError {
   id?: number
   message: string
@@ -27,31 +61,178 @@ export interface ConsoleError {
   tab_id?: number // Track which tab this error came from
   tab_url?: string // Track the main tab URL for context
   main_domain?: string // The main domain this error is associated with
+  session_id?: string // Capture session that was recording when the error was stored
 }
 
+// What happened: acquire/refresh/revoke/logout come from endpoint rules or the response,
+// expired from a 401/403 on an authenticated request
+export type TokenEventKind = 'acquire' | 'refresh' | 'refresh_error' | 'revoke' | 'logout' | 'expired'
+export const TOKEN_EVENT_KINDS: TokenEventKind[] = ['acquire', 'refresh', 'refresh_error', 'revoke', 'logout', 'expired']
+
+// Which credential the event involved: the one the response issued, else the one the request carried
+export type TokenCredentialKind =
+  | 'jwt_access'
+  | 'opaque_access'
+  | 'refresh_token'
+  | 'id_token'
+  | 'session_cookie'
+  | 'api_key'
+  | 'csrf'
+  | 'basic'
+  | 'unknown'
+export const TOKEN_CREDENTIAL_KINDS: TokenCredentialKind[] = ['jwt_access', 'opaque_access', 'refresh_token', 'id_token', 'session_cookie', 'api_key', 'csrf', 'basic', 'unknown']
+
 export interface TokenEvent {
   id?: number
-  type: 'jwt_token' | 'session_token' | 'api_key' | 'oauth_token'
-  value_hash: string // Hash of token value for privacy
+  kind: TokenEventKind
+  credential: TokenCredentialKind
+  value_hash: string // Salted fingerprint of the credential when the request carried one, else a metadata hash
+  token_fingerprint?: string // Links the event to its token lifecycle
+  rule_id?: string // Token endpoint rule that classified the request
+  issued_tokens?: IssuedToken[] // Tokens and credential cookies the response issued (kinds and attributes, no values)
+  cleared_cookies?: string[] // Credential cookies the response deleted
   timestamp: number
   source_url: string
-  expiry?: number
+  expiry?: number // Seconds since the epoch, like the JWT exp claim
   status?: number
   method?: string
   url?: string
   tab_id?: number // Track which tab this token came from
   tab_url?: string // Track the main tab URL for context
   main_domain?: string // The main domain this token is associated with
+  session_id?: string // Capture session that was recording when the event was stored
+}
+
+// A WebSocket connection observed by the main-world interceptor.
+// Keyed by the connection id generated in the page; re-saved when the socket closes.
+export interface WebSocketConnection {
+  id: string
+  url: string
+  protocol?: string // Sub-protocol negotiated by the server
+  status: 'open' | 'closed'
+  timestamp: number // When the connection was opened
+  closed_at?: number
+  close_code?: number
+  close_reason?: string
+  was_clean?: boolean
+  had_error?: boolean // An error event fired before the close
+  frames_sent: number
+  frames_received: number
+  bytes_sent: number
+  bytes_received: number
+  tab_id?: number
+  tab_url?: string
+  main_domain?: string
+}
+
+export interface WebSocketFrame {
+  id?: number
+  connection_id: string
+  direction: 'sent' | 'received'
+  opcode: 'text' | 'binary'
+  data: string // Text payload (truncated per maxBodySize) or a "[binary N bytes]" placeholder
+  size: number // Original payload size in bytes
+  truncated: boolean
+  timestamp: number
+  tab_id?: number
+  main_domain?: string
+}
+
+// Filter used when streaming API calls out of storage (e.g. HAR export)
+export interface ApiCallFilter {
+  method?: string // Exact HTTP method match (case-insensitive)
+  search?: string // Substring match against URL or method, mirrors the dashboard search box
+  mainDomain?: string // Exact main_domain match
+  transport?: ApiTransport // Exact transport match
+  sessionIds?: string[] // Match records from any of these capture sessions
+  importId?: string | null // Records from this HAR import; null matches live captures only
+}
+
+// Keyset-paginated query over one store. Records are ordered by sortBy with the primary key as
+// tie-breaker; pass the returned nextCursor back unchanged to fetch the following page.
+export type SortDirection = 'asc' | 'desc'
+
+export interface QueryPage<SortKey extends string> {
+  sortBy?: SortKey // Defaults to timestamp
+  sortDirection?: SortDirection // Defaults to desc (newest first)
+  limit?: number // Defaults to 50
+  cursor?: string | null
+  offset?: number // Matching records to skip, for page-number UIs; ignored when cursor is set
+  since?: number // Inclusive lower bound on timestamp
+  until?: number // Inclusive upper bound on timestamp
+  mainDomain?: string // Exact main_domain match
+  tabId?: number
+  sessionIds?: string[] // Match records from any of these capture sessions
+}
+
+// A batch read in primary key order; pass nextKey back to read the following batch
+export interface RecordBatch<T> {
+  records: T[]
+  nextKey: IDBValidKey | null // null once the store is exhausted
+}
+
+export interface QueryResult<T> {
+  records: T[]
+  total: number // Records matching the filters across all pages
+  nextCursor: string | null // null once the last page has been returned
+}
+
+export type ApiCallSortKey = 'timestamp' | 'status' | 'response_time' | 'payload_size' | 'url' | 'method'
+export const API_CALL_SORT_KEYS: ApiCallSortKey[] = ['timestamp', 'status', 'response_time', 'payload_size', 'url', 'method']
+
+export interface ApiCallQuery extends ApiCallFilter, QueryPage<ApiCallSortKey> {
+  statusMin?: number // Inclusive
+  statusMax?: number // Inclusive
+  urlContains?: string // Case-insensitive URL substring
+  responseTimeMin?: number // Milliseconds, inclusive
+  responseTimeMax?: number // Milliseconds, inclusive
+}
+
+export type ConsoleErrorSortKey = 'timestamp' | 'severity' | 'url'
+
+export interface ConsoleErrorQuery extends QueryPage<ConsoleErrorSortKey> {
+  severity?: ConsoleError['severity']
+  search?: string // Case-insensitive substring of message, stack trace or URL
+}
+
+export type TokenEventSortKey = 'timestamp' | 'kind' | 'credential' | 'source_url'
+
+export interface TokenEventQuery extends QueryPage<TokenEventSortKey> {
+  kind?: TokenEventKind
+  credential?: TokenCredentialKind
+  search?: string // Case-insensitive substring of source URL or request URL
+}
+
+export type LibraryDetectionMethod = 'global' | 'banner' | 'filename'
+
+export type AdvisorySeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export interface LibraryAdvisoryMatch {
+  id: string // CVE or GHSA identifier
+  severity: AdvisorySeverity
+  summary: string
+  url?: string
 }
 
 export interface MinifiedLibrary {
   id?: number
   name: string
-  version: string
+  version: string // Empty when only the file name identified the library
   size: number
   source_map_available: boolean
-  url: string
-  timestamp: number
+  url: string // Script the library was loaded from; empty when it is bundled into the page's own code
+  timestamp: number // Last time the library was seen
+  first_seen?: number
+  main_domain?: string // The main domain of the page that loaded the library
+  page_url?: string // Page it was last seen on
+  tab_id?: number
+  minified?: boolean
+  source_map_url?: string // Resolved sourceMappingURL, or 'inline' for data: URLs
+  detected_by?: LibraryDetectionMethod[]
+  session_id?: string // Capture session that was recording when the library was first seen
+  advisories?: LibraryAdvisoryMatch[] // Known advisories affecting this version
+  advisory_severity?: AdvisorySeverity // Highest severity among advisories
+  advisory_dataset?: string // 'updated' date of the advisory dataset the record was matched against
 }
 
 // Performance monitoring interfaces
@@ -77,6 +258,12 @@ export interface StorageConfig {
   maxRecordsPerTable: number
   maxAgeInDays: number
   pruneIntervalHours: number
+  retentionPolicies?: RetentionPolicy[] // Per-domain/per-table overrides, edited in settings
+}
+
+export interface PruneOptions {
+  dryRun?: boolean // Report what would be deleted without deleting anything
+  policies?: RetentionPolicy[] // Evaluate these instead of the configured policies, e.g. unsaved edits
 }
 
 export const DEFAULT_CONFIG: StorageConfig = {
@@ -94,27 +281,60 @@ export interface StorageOperations {
   insertApiCall(data: Omit<ApiCall, 'id'>): Promise<number>
   getApiCalls(limit?: number, offset?: number): Promise<ApiCall[]>
   getApiCallsFast?(limit?: number): Promise<ApiCall[]> // Optimized for performance testing
+  iterateApiCalls(filter: ApiCallFilter, onBatch: (batch: ApiCall[]) => void | Promise<void>, batchSize?: number): Promise<number>
+  readApiCallBatch(filter: ApiCallFilter, afterId: number | null, batchSize?: number): Promise<RecordBatch<ApiCall>>
+  queryApiCalls(query: ApiCallQuery): Promise<QueryResult<ApiCall>>
   deleteApiCall(id: number): Promise<void>
+  deleteApiCallsByImport(importId: string): Promise<number>
+  deleteRecordsBySession(sessionId: string): Promise<number>
   
   // Console Errors
   insertConsoleError(data: Omit<ConsoleError, 'id'>): Promise<number>
   getConsoleErrors(limit?: number, offset?: number): Promise<ConsoleError[]>
+  queryConsoleErrors(query: ConsoleErrorQuery): Promise<QueryResult<ConsoleError>>
   deleteConsoleError(id: number): Promise<void>
   
   // Token Events
   insertTokenEvent(data: Omit<TokenEvent, 'id'>): Promise<number>
   getTokenEvents(limit?: number, offset?: number): Promise<TokenEvent[]>
+  queryTokenEvents(query: TokenEventQuery): Promise<QueryResult<TokenEvent>>
   deleteTokenEvent(id: number): Promise<void>
   
+  // WebSockets
+  saveWebSocketConnection(connection: WebSocketConnection): Promise<void>
+  getWebSocketConnections(limit?: number, offset?: number): Promise<WebSocketConnection[]>
+  insertWebSocketFrame(data: Omit<WebSocketFrame, 'id'>): Promise<number>
+  getWebSocketFrames(connectionId: string, limit?: number): Promise<WebSocketFrame[]>
+  
   // Minified Libraries
   insertMinifiedLibrary(data: Omit<MinifiedLibrary, 'id'>): Promise<number>
+  saveMinifiedLibrary(data: Omit<MinifiedLibrary, 'id'>): Promise<number>
   getMinifiedLibraries(limit?: number, offset?: number): Promise<MinifiedLibrary[]>
+  updateMinifiedLibraries(update: (library: MinifiedLibrary) => MinifiedLibrary | null): Promise<number>
   deleteMinifiedLibrary(id: number): Promise<void>
   
   // Data pruning
-  pruneOldData(): Promise<void>
+  pruneOldData(options?: PruneOptions): Promise<PruneReport>
+  setRetentionPolicies(policies: RetentionPolicy[]): void
   clearAllData(): Promise<void>
   getTableCounts(): Promise<{[table: string]: number}>
+  getMigrationStatus(): Promise<MigrationStatus>
+  getBodyStoreStats(): Promise<BodyStoreStats>
+  getAggregates(): Promise<StorageAggregates>
+  queryRollups(query: RollupQuery): Promise<RollupSeries>
+  
+  // Token lifecycles
+  trackTokenLifecycle(event: TokenLifecycleEvent): void
+  getTokenLifecycles(query?: TokenLifecycleQuery): Promise<TokenLifecycle[]>
+  
+  // JWT inspector
+  trackJwtObservation(event: JwtObservationEvent): void
+  getJwtObservations(query?: JwtObservationQuery): Promise<JwtObservation[]>
+  
+  // Backup and restore
+  readRecordBatch(storeName: BackupStoreName, afterKey: IDBValidKey | null, batchSize?: number): Promise<RecordBatch<BackupRecord>>
+  indexBackupRecords(storeName: BackupStoreName): Promise<Map<string, BackupRecord>>
+  restoreRecords(storeName: BackupStoreName, records: BackupRecord[], mode: RestoreMode, index?: Map<string, BackupRecord>): Promise<RestoreStoreResult>
   
   // Storage info  
   getStorageInfo(): Promise<{type: 'indexeddb', size?: number}>
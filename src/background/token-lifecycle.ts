@@ -0,0 +1,171 @@
+// Token lifecycles: every request carrying a credential is fingerprinted with a salted SHA-256 of
+// the credential itself (the raw value is never stored), and sightings of one fingerprint are
+// folded into a single lifecycle record: issued -> used N times -> refreshed or expired. When a
+// new fingerprint shows up on a domain it replaces the previous credential of the same kind,
+// which links the lifecycles into a refresh chain.
+
+import { jwtExpiresAt } from './jwt-inspector'
+
+export type CredentialKind = 'authorization' | 'cookie' | 'api_key'
+
+export type TokenLifecycleState = 'active' | 'refreshed' | 'expired'
+
+// Salt kept in chrome.storage.local, so fingerprints only link up within one installation
+export const TOKEN_FINGERPRINT_SALT_KEY = 'tokenFingerprintSalt'
+
+// Lifecycles not seen for this long are removed by the pruner
+export const TOKEN_LIFECYCLE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000
+
+export interface TokenLifecycle {
+  fingerprint: string
+  main_domain: string
+  credential: CredentialKind
+  state: TokenLifecycleState
+  first_seen: number
+  last_seen: number
+  uses: number // Requests that carried the credential
+  rejections: number // 401/403 responses to those requests
+  issued_at?: number // Acquire or refresh on the domain just before the first use
+  issued_by?: 'acquire' | 'refresh'
+  expires_at?: number // From the JWT exp claim, in milliseconds
+  expired_at?: number // First rejection
+  refreshed_at?: number // First use of the credential that replaced it
+  previous?: string // Fingerprint of the credential this one replaced
+  replaced_by?: string
+  session_id?: string
+}
+
+export type TokenLifecycleEvent =
+  | {
+      kind: 'use'
+      fingerprint: string
+      main_domain: string
+      credential: CredentialKind
+      timestamp: number
+      rejected: boolean
+      expires_at?: number
+      session_id?: string
+    }
+  | {
+      kind: 'issued'
+      main_domain: string
+      timestamp: number
+      via: 'acquire' | 'refresh'
+    }
+
+export interface TokenLifecycleQuery {
+  mainDomain?: string
+  since?: number // Lifecycles last seen at or after this time
+  limit?: number
+}
+
+export interface ExtractedCredential {
+  credential: CredentialKind
+  value: string
+  expires_at?: number
+}
+
+// Cookies that usually carry a session or token; analytics and preference cookies are left out
+export const CREDENTIAL_COOKIE = /sess|sid$|^sid|token|auth|jwt|login/i
+
+function headerValue(headers: Record<string, unknown>, name: string): string {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name)
+  return key ? String(headers[key] ?? '') : ''
+}
+
+// The credential a request authenticates with: Authorization, then API key headers, then session cookies
+export function extractCredential(headers: Record<string, unknown> | undefined | null): ExtractedCredential | null {
+  if (!headers || typeof headers !== 'object') return null
+
+  const authorization = headerValue(headers, 'authorization').trim()
+  if (authorization) {
+    const [scheme, ...rest] = authorization.split(/\s+/)
+    const token = rest.join(' ') || scheme
+    return {
+      credential: 'authorization',
+      value: authorization,
+      expires_at: scheme.toLowerCase() === 'bearer' ? jwtExpiresAt(token) : undefined
+    }
+  }
+
+  const apiKey = headerValue(headers, 'x-api-key') || headerValue(headers, 'api-key')
+  if (apiKey) {
+    return { credential: 'api_key', value: apiKey }
+  }
+
+  const cookies = headerValue(headers, 'cookie')
+    .split(';')
+    .map(cookie => cookie.trim())
+    .filter(cookie => {
+      const name = cookie.split('=')[0]
+      return name && cookie.includes('=') && CREDENTIAL_COOKIE.test(name)
+    })
+    .sort()
+  if (cookies.length > 0) {
+    const value = cookies.join('; ')
+    const expires = cookies.map(cookie => jwtExpiresAt(cookie.slice(cookie.indexOf('=') + 1))).find(exp => exp !== undefined)
+    return { credential: 'cookie', value, expires_at: expires }
+  }
+
+  return null
+}
+
+export function generateFingerprintSalt(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function fingerprintCredential(value: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${value}`))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function lifecycleChainKey(domain: string, credential: CredentialKind): string {
+  return `${domain}|${credential}`
+}
+
+export function createLifecycle(event: Extract<TokenLifecycleEvent, { kind: 'use' }>): TokenLifecycle {
+  return {
+    fingerprint: event.fingerprint,
+    main_domain: event.main_domain,
+    credential: event.credential,
+    state: 'active',
+    first_seen: event.timestamp,
+    last_seen: event.timestamp,
+    uses: 0,
+    rejections: 0,
+    session_id: event.session_id
+  }
+}
+
+// Folds one use into the lifecycle in place
+export function applyLifecycleUse(lifecycle: TokenLifecycle, event: Extract<TokenLifecycleEvent, { kind: 'use' }>): TokenLifecycle {
+  lifecycle.uses += 1
+  lifecycle.first_seen = Math.min(lifecycle.first_seen, event.timestamp)
+  lifecycle.last_seen = Math.max(lifecycle.last_seen, event.timestamp)
+  if (event.expires_at !== undefined) {
+    lifecycle.expires_at = event.expires_at
+  }
+  if (event.rejected) {
+    lifecycle.rejections += 1
+    if (lifecycle.expired_at === undefined) {
+      lifecycle.expired_at = event.timestamp
+    }
+    // A replaced credential keeps its 'refreshed' state even if a late request bounces
+    if (lifecycle.state === 'active') {
+      lifecycle.state = 'expired'
+    }
+  }
+  return lifecycle
+}
+
+// Marks the previous credential of a chain as replaced by a newly seen one
+export function linkLifecycles(previous: TokenLifecycle, next: TokenLifecycle): void {
+  previous.replaced_by = next.fingerprint
+  if (previous.refreshed_at === undefined) {
+    previous.refreshed_at = next.first_seen
+  }
+  if (previous.state === 'active') {
+    previous.state = 'refreshed'
+  }
+  next.previous = previous.fingerprint
+}
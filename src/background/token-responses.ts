@@ -0,0 +1,187 @@
+// Tokens issued in responses: OAuth token responses (RFC 6749 section 5.1, JSON or form-encoded)
+// and credential cookies from Set-Cookie. Only token kinds, attributes and expiry times leave this
+// module; token values are read to decode JWT claims and are never returned.
+// Pure functions, no chrome.* access.
+
+import { decodeJwt, jwtExpiresAt } from './jwt-inspector';
+import { CREDENTIAL_COOKIE } from './token-lifecycle';
+
+export type IssuedTokenKind = 'access_token' | 'refresh_token' | 'id_token' | 'cookie';
+
+export interface CookieAttributes {
+  name: string;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  maxAge?: number; // Seconds, as sent
+  expires?: number; // Expires attribute, milliseconds
+  domain?: string;
+  path?: string;
+}
+
+export interface IssuedToken {
+  kind: IssuedTokenKind;
+  token_type?: string; // OAuth token_type, e.g. "Bearer"
+  scope?: string;
+  jwt: boolean;
+  expires_at?: number; // Milliseconds; session cookies and tokens without expires_in/exp have none
+  cookie?: CookieAttributes;
+}
+
+export interface TokenResponseAnalysis {
+  issued: IssuedToken[];
+  cleared: CookieAttributes[]; // Credential cookies the response deleted (Max-Age <= 0 or an Expires date in the past)
+  refreshGrant: boolean; // The request used grant_type=refresh_token
+  expires_at?: number; // Expiry of the main credential issued: access token, else a credential cookie
+}
+
+export interface TokenResponseInput {
+  timestamp: number; // When the response arrived, milliseconds
+  responseBody?: string | null;
+  requestBody?: string | null;
+  setCookies?: string[];
+}
+
+const OAUTH_FIELDS: Record<Exclude<IssuedTokenKind, 'cookie'>, string[]> = {
+  access_token: ['access_token', 'accessToken'],
+  refresh_token: ['refresh_token', 'refreshToken'],
+  id_token: ['id_token', 'idToken']
+};
+
+// JSON object, or form-encoded fields as some providers (e.g. GitHub) answer by default
+function parseResponseFields(body: string): Record<string, unknown> | null {
+  const text = body.trim();
+  if (!text) return null;
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  if (/^[\w.-]+=[^&]*(&[\w.-]+=[^&]*)*$/.test(text)) {
+    return Object.fromEntries(new URLSearchParams(text).entries());
+  }
+  return null;
+}
+
+function fieldValue(fields: Record<string, unknown>, names: string[]): unknown {
+  const name = names.find(candidate => fields[candidate] !== undefined && fields[candidate] !== null && fields[candidate] !== '');
+  return name ? fields[name] : undefined;
+}
+
+export function parseOAuthTokenResponse(body: string | null | undefined, timestamp: number): IssuedToken[] {
+  const fields = body ? parseResponseFields(body) : null;
+  if (!fields) return [];
+
+  const tokenType = fieldValue(fields, ['token_type', 'tokenType']);
+  const scope = fieldValue(fields, ['scope']);
+  const expiresIn = Number(fieldValue(fields, ['expires_in', 'expiresIn']));
+
+  const issued: IssuedToken[] = [];
+  for (const [kind, names] of Object.entries(OAUTH_FIELDS) as Array<[Exclude<IssuedTokenKind, 'cookie'>, string[]]>) {
+    const value = fieldValue(fields, names);
+    if (typeof value !== 'string') continue;
+    const jwtExpiry = jwtExpiresAt(value);
+    // expires_in describes the access token; the others only expire by their own exp claim
+    const expiresAt = kind === 'access_token' && Number.isFinite(expiresIn) && expiresIn > 0
+      ? timestamp + expiresIn * 1000
+      : jwtExpiry;
+    issued.push({
+      kind,
+      jwt: decodeJwt(value) !== null,
+      ...(kind === 'access_token' && typeof tokenType === 'string' ? { token_type: tokenType } : {}),
+      ...(kind === 'access_token' && typeof scope === 'string' ? { scope } : {}),
+      ...(expiresAt !== undefined ? { expires_at: expiresAt } : {})
+    });
+  }
+  return issued;
+}
+
+// One Set-Cookie header value; the cookie value is returned separately so callers can drop it
+export function parseSetCookie(header: string): { attributes: CookieAttributes; value: string } | null {
+  const [pair, ...rest] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return null;
+
+  const attributes: CookieAttributes = {
+    name: pair.slice(0, separator).trim(),
+    httpOnly: false,
+    secure: false
+  };
+  for (const part of rest) {
+    const [rawKey, ...rawValue] = part.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rawValue.join('=').trim();
+    if (key === 'httponly') attributes.httpOnly = true;
+    else if (key === 'secure') attributes.secure = true;
+    else if (key === 'samesite') {
+      const sameSite = value.toLowerCase();
+      if (sameSite === 'strict') attributes.sameSite = 'Strict';
+      else if (sameSite === 'lax') attributes.sameSite = 'Lax';
+      else if (sameSite === 'none') attributes.sameSite = 'None';
+    } else if (key === 'max-age' && /^-?\d+$/.test(value)) attributes.maxAge = Number(value);
+    else if (key === 'expires') {
+      const expires = Date.parse(value);
+      if (!Number.isNaN(expires)) attributes.expires = expires;
+    } else if (key === 'domain' && value) attributes.domain = value;
+    else if (key === 'path' && value) attributes.path = value;
+  }
+  return { attributes, value: pair.slice(separator + 1).trim() };
+}
+
+// Max-Age wins over Expires (RFC 6265 section 5.3); undefined for session cookies
+export function cookieExpiresAt(attributes: CookieAttributes, timestamp: number): number | undefined {
+  if (attributes.maxAge !== undefined) return timestamp + attributes.maxAge * 1000;
+  return attributes.expires;
+}
+
+// Set-Cookie values as reported by the debugger (one header per line) or the page
+export function splitSetCookieHeaders(headers: Array<string | null | undefined>): string[] {
+  return headers.flatMap(header => (header ? header.split('\n') : [])).map(header => header.trim()).filter(Boolean);
+}
+
+export function isRefreshGrant(requestBody: string | null | undefined): boolean {
+  if (!requestBody) return false;
+  return /(^|[&{,\s"])grant_type"?\s*[=:]\s*"?refresh_token\b/.test(requestBody);
+}
+
+export function analyzeTokenResponse(input: TokenResponseInput): TokenResponseAnalysis {
+  const issued = parseOAuthTokenResponse(input.responseBody, input.timestamp);
+  const cleared: CookieAttributes[] = [];
+
+  for (const header of input.setCookies || []) {
+    const cookie = parseSetCookie(header);
+    if (!cookie || !CREDENTIAL_COOKIE.test(cookie.attributes.name)) continue;
+
+    const expiresAt = cookieExpiresAt(cookie.attributes, input.timestamp);
+    if (cookie.value === '' || (expiresAt !== undefined && expiresAt <= input.timestamp)) {
+      cleared.push(cookie.attributes);
+      continue;
+    }
+    // A JWT cookie may expire before the cookie itself does
+    let cookieValue = cookie.value;
+    try {
+      cookieValue = decodeURIComponent(cookie.value);
+    } catch {
+      // Not percent-encoded
+    }
+    const jwtExpiry = jwtExpiresAt(cookieValue);
+    const effectiveExpiry = [expiresAt, jwtExpiry].filter((time): time is number => time !== undefined).sort((a, b) => a - b)[0];
+    issued.push({
+      kind: 'cookie',
+      jwt: decodeJwt(cookieValue) !== null,
+      cookie: cookie.attributes,
+      ...(effectiveExpiry !== undefined ? { expires_at: effectiveExpiry } : {})
+    });
+  }
+
+  const main = issued.find(token => token.kind === 'access_token') || issued.find(token => token.kind === 'cookie');
+  return {
+    issued,
+    cleared,
+    refreshGrant: isRefreshGrant(input.requestBody),
+    ...(main?.expires_at !== undefined ? { expires_at: main.expires_at } : {})
+  };
+}
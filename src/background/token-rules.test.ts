@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TOKEN_RULES,
+  TOKEN_RULES_FORMAT,
+  classifyTokenRequest,
+  exportTokenRules,
+  globToRegExp,
+  parseTokenRules,
+  tokenRuleMatches,
+  validateTokenRule,
+  type TokenEndpointRule
+} from './token-rules';
+
+const rule = (overrides: Partial<TokenEndpointRule> = {}): TokenEndpointRule => ({
+  id: 'test-rule',
+  active: true,
+  eventType: 'acquire',
+  urlMatch: 'glob',
+  url: '**',
+  methods: [],
+  statusMin: 200,
+  statusMax: 299,
+  bodyPaths: [],
+  ...overrides
+});
+
+describe('globToRegExp', () => {
+  it('lets a leading **/ span any number of segments, including none', () => {
+    const pattern = globToRegExp('**/oauth/token');
+    expect(pattern.test('/oauth/token')).toBe(true);
+    expect(pattern.test('/api/v2/oauth/token')).toBe(true);
+    expect(pattern.test('/oauth/token/extra')).toBe(false);
+  });
+
+  it('lets ** match across segments and * stay within one', () => {
+    expect(globToRegExp('/api/**').test('/api/v1/users/7')).toBe(true);
+    expect(globToRegExp('/api/*').test('/api/v1')).toBe(true);
+    expect(globToRegExp('/api/*').test('/api/v1/users')).toBe(false);
+  });
+
+  it('matches ? against exactly one character within a segment', () => {
+    const pattern = globToRegExp('/v?/login');
+    expect(pattern.test('/v1/login')).toBe(true);
+    expect(pattern.test('/v10/login')).toBe(false);
+    expect(pattern.test('/v//login')).toBe(false);
+  });
+
+  it('treats {a,b} as an alternation and an empty alternative as optional', () => {
+    const pattern = globToRegExp('**/{refresh,renew}{,/**}');
+    expect(pattern.test('/auth/refresh')).toBe(true);
+    expect(pattern.test('/auth/renew/session')).toBe(true);
+    expect(pattern.test('/auth/refreshments')).toBe(false);
+  });
+
+  it('escapes regex metacharacters and ignores case', () => {
+    expect(globToRegExp('/a.b').test('/aXb')).toBe(false);
+    expect(globToRegExp('/Login').test('/login')).toBe(true);
+  });
+
+  it('rejects an unclosed brace', () => {
+    expect(() => globToRegExp('**/{login,logout')).toThrow('Unclosed');
+  });
+});
+
+describe('tokenRuleMatches', () => {
+  it('matches glob rules against the path only, ignoring the query', () => {
+    const glob = rule({ url: '**/oauth/token' });
+    expect(tokenRuleMatches(glob, { url: 'https://idp.example.com/oauth/token?grant_type=password', status: 200 })).toBe(true);
+    expect(tokenRuleMatches(glob, { url: '/oauth/token#frag', status: 200 })).toBe(true);
+  });
+
+  it('matches glob rules containing :// against origin and path', () => {
+    const glob = rule({ url: 'https://idp.example.com/**/token' });
+    expect(tokenRuleMatches(glob, { url: 'https://idp.example.com/oauth/token', status: 200 })).toBe(true);
+    expect(tokenRuleMatches(glob, { url: 'https://other.example.com/oauth/token', status: 200 })).toBe(false);
+  });
+
+  it('matches regex rules against the full URL', () => {
+    const regex = rule({ urlMatch: 'regex', url: 'grant_type=refresh_token' });
+    expect(tokenRuleMatches(regex, { url: 'https://idp.example.com/token?grant_type=refresh_token', status: 200 })).toBe(true);
+    expect(tokenRuleMatches(regex, { url: 'https://idp.example.com/token', status: 200 })).toBe(false);
+  });
+
+  it('never matches a rule with an invalid pattern', () => {
+    expect(tokenRuleMatches(rule({ urlMatch: 'regex', url: '(' }), { url: '/(', status: 200 })).toBe(false);
+  });
+
+  it('matches methods case-insensitively and treats a missing method as GET', () => {
+    const post = rule({ methods: ['POST'] });
+    expect(tokenRuleMatches(post, { url: '/login', method: 'post', status: 200 })).toBe(true);
+    expect(tokenRuleMatches(post, { url: '/login', status: 200 })).toBe(false);
+    expect(tokenRuleMatches(rule({ methods: ['GET'] }), { url: '/login', status: 200 })).toBe(true);
+  });
+
+  it('accepts any method when the list is empty', () => {
+    expect(tokenRuleMatches(rule(), { url: '/login', method: 'DELETE', status: 200 })).toBe(true);
+  });
+
+  it('treats the status range as inclusive at both ends', () => {
+    const range = rule({ statusMin: 400, statusMax: 499 });
+    expect(tokenRuleMatches(range, { url: '/refresh', status: 400 })).toBe(true);
+    expect(tokenRuleMatches(range, { url: '/refresh', status: 499 })).toBe(true);
+    expect(tokenRuleMatches(range, { url: '/refresh', status: 500 })).toBe(false);
+    expect(tokenRuleMatches(range, { url: '/refresh' })).toBe(false);
+  });
+
+  it('requires every body path to be present in the JSON response', () => {
+    const body = rule({ bodyPaths: ['access_token', 'data.user.id'] });
+    const request = { url: '/token', status: 200 };
+    expect(tokenRuleMatches(body, { ...request, responseBody: '{"access_token":"abc","data":{"user":{"id":7}}}' })).toBe(true);
+    expect(tokenRuleMatches(body, { ...request, responseBody: '{"access_token":"abc","data":{"user":{}}}' })).toBe(false);
+    expect(tokenRuleMatches(body, { ...request, responseBody: '{"access_token":null,"data":{"user":{"id":7}}}' })).toBe(false);
+    expect(tokenRuleMatches(body, { ...request, responseBody: null })).toBe(false);
+  });
+
+  it('falls back to looking for the last key in a truncated body', () => {
+    const body = rule({ bodyPaths: ['data.access_token'] });
+    expect(tokenRuleMatches(body, { url: '/token', status: 200, responseBody: '{"data":{"access_token":"abc' })).toBe(true);
+    expect(tokenRuleMatches(body, { url: '/token', status: 200, responseBody: '{"data":{"id_token":"abc' })).toBe(false);
+  });
+});
+
+describe('classifyTokenRequest', () => {
+  it('returns the first active rule that matches', () => {
+    const rules = [
+      rule({ id: 'inactive', active: false, eventType: 'logout' }),
+      rule({ id: 'first', eventType: 'refresh', url: '**/refresh' }),
+      rule({ id: 'second', eventType: 'acquire' })
+    ];
+    expect(classifyTokenRequest({ url: '/auth/refresh', status: 200 }, rules)).toMatchObject({ eventType: 'refresh', rule: { id: 'first' } });
+    expect(classifyTokenRequest({ url: '/auth/login', status: 200 }, rules)).toMatchObject({ eventType: 'acquire', rule: { id: 'second' } });
+    expect(classifyTokenRequest({ url: '/auth/login', status: 200 }, [])).toBeNull();
+  });
+
+  it('classifies common auth endpoints with the default rules', () => {
+    const classify = (url: string, method: string, status: number) =>
+      classifyTokenRequest({ url, method, status }, DEFAULT_TOKEN_RULES)?.eventType;
+    expect(classify('https://api.example.com/auth/login', 'POST', 200)).toBe('acquire');
+    expect(classify('https://api.example.com/oauth2/token', 'POST', 200)).toBe('acquire');
+    expect(classify('https://api.example.com/auth/refresh', 'POST', 200)).toBe('refresh');
+    expect(classify('https://api.example.com/auth/refresh', 'POST', 401)).toBe('refresh_error');
+    expect(classify('https://api.example.com/oauth/revoke', 'POST', 200)).toBe('revoke');
+    expect(classify('https://api.example.com/logout', 'GET', 302)).toBe('logout');
+  });
+
+  it('does not treat paths that merely contain an endpoint name as auth endpoints', () => {
+    const classify = (url: string) => classifyTokenRequest({ url, method: 'POST', status: 200 }, DEFAULT_TOKEN_RULES);
+    expect(classify('https://api.example.com/authors')).toBeNull();
+    expect(classify('https://api.example.com/api/authors/42/books')).toBeNull();
+    expect(classify('https://api.example.com/tokenizer')).toBeNull();
+    expect(classify('https://api.example.com/sessions-history')).toBeNull();
+  });
+
+  it('classifies any OAuth token response by its body with the default rules', () => {
+    const match = classifyTokenRequest({
+      url: 'https://api.example.com/custom/exchange',
+      method: 'POST',
+      status: 200,
+      responseBody: '{"access_token":"abc","token_type":"Bearer"}'
+    }, DEFAULT_TOKEN_RULES);
+    expect(match).toMatchObject({ eventType: 'acquire', rule: { id: 'default-oauth-token-response' } });
+  });
+});
+
+describe('validateTokenRule', () => {
+  it('accepts the default rules', () => {
+    expect(DEFAULT_TOKEN_RULES.map(validateTokenRule)).toEqual(DEFAULT_TOKEN_RULES.map(() => null));
+  });
+
+  it('reports empty and invalid patterns', () => {
+    expect(validateTokenRule(rule({ url: '  ' }))).toBe('URL pattern is empty');
+    expect(validateTokenRule(rule({ url: '**/{login' }))).toContain('Invalid glob');
+    expect(validateTokenRule(rule({ urlMatch: 'regex', url: '[' }))).toContain('Invalid regular expression');
+  });
+
+  it('reports an empty status range', () => {
+    expect(validateTokenRule(rule({ statusMin: 300, statusMax: 200 }))).toBe('Status range is empty');
+  });
+});
+
+describe('parseTokenRules', () => {
+  it('round-trips an export file', () => {
+    expect(parseTokenRules(exportTokenRules(DEFAULT_TOKEN_RULES))).toEqual(DEFAULT_TOKEN_RULES);
+  });
+
+  it('accepts a bare array and fills in missing fields', () => {
+    const [parsed] = parseTokenRules([{ eventType: 'logout', url: '**/bye', methods: ['post'] }]);
+    expect(parsed).toMatchObject({
+      active: true,
+      eventType: 'logout',
+      urlMatch: 'glob',
+      url: '**/bye',
+      methods: ['POST'],
+      statusMin: 200,
+      statusMax: 299,
+      bodyPaths: []
+    });
+    expect(parsed.id).toBeTruthy();
+  });
+
+  it('rejects files in another format or without a rules list', () => {
+    expect(() => parseTokenRules({ format: 'something-else', rules: [] })).toThrow(TOKEN_RULES_FORMAT);
+    expect(() => parseTokenRules(null)).toThrow('Not a token rules file');
+    expect(() => parseTokenRules({ format: TOKEN_RULES_FORMAT })).toThrow('no rules list');
+  });
+
+  it('rejects malformed rules, naming the offending one', () => {
+    expect(() => parseTokenRules([rule(), 'logout'])).toThrow('Rule 2 is not an object');
+    expect(() => parseTokenRules([{ eventType: 'expired', url: '**' }])).toThrow('unknown event type "expired"');
+    expect(() => parseTokenRules([{ eventType: 'acquire' }])).toThrow('Rule 1 has no URL pattern');
+  });
+});
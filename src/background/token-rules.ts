@@ -0,0 +1,307 @@
+// Token endpoint rules: classify captured requests as token acquire/refresh/revoke/logout events
+// (settings.tokenLogging.endpointRules). Rules are tried in order and the first match wins.
+// Pure functions, no chrome.* access.
+
+import type { TokenEventKind } from './storage-types';
+
+// 'expired' is inferred from 401/403 responses, never from an endpoint rule
+export type TokenRuleEventType = Exclude<TokenEventKind, 'expired'>;
+export type TokenRuleUrlMatch = 'glob' | 'regex';
+
+export interface TokenEndpointRule {
+  id: string;
+  active: boolean;
+  eventType: TokenRuleEventType;
+  urlMatch: TokenRuleUrlMatch;
+  // glob: matched against the URL path ("**/oauth/token"), or against origin + path when it
+  // contains "://"; regex: matched against the full URL
+  url: string;
+  methods: string[]; // Empty matches any method
+  statusMin: number; // Inclusive
+  statusMax: number; // Inclusive
+  bodyPaths: string[]; // Dotted JSON paths that must all be present in the response body
+  description?: string;
+}
+
+export interface TokenRuleRequest {
+  url: string;
+  method?: string;
+  status?: number;
+  responseBody?: string | null;
+}
+
+export interface TokenRuleMatch {
+  rule: TokenEndpointRule;
+  eventType: TokenRuleEventType;
+}
+
+export interface TokenRulesExport {
+  format: 'web-app-monitor-token-rules';
+  version: 1;
+  exported: string;
+  rules: TokenEndpointRule[];
+}
+
+export const TOKEN_RULES_FORMAT = 'web-app-monitor-token-rules';
+
+export const TOKEN_RULE_EVENT_TYPES: TokenRuleEventType[] = ['acquire', 'refresh', 'refresh_error', 'revoke', 'logout'];
+
+// Endpoint names match whole path segments, so /authors or /tokenizer are not auth endpoints
+export const DEFAULT_TOKEN_RULES: TokenEndpointRule[] = [
+  {
+    id: 'default-logout',
+    active: true,
+    eventType: 'logout',
+    urlMatch: 'glob',
+    url: '**/{logout,signout,sign-out,logoff}',
+    methods: [],
+    statusMin: 200,
+    statusMax: 399,
+    bodyPaths: [],
+    description: 'Logout endpoints'
+  },
+  {
+    id: 'default-revoke',
+    active: true,
+    eventType: 'revoke',
+    urlMatch: 'glob',
+    url: '**/{revoke,token/revoke,oauth/revoke,oauth2/revoke,connect/revocation}',
+    methods: ['POST', 'DELETE'],
+    statusMin: 200,
+    statusMax: 299,
+    bodyPaths: [],
+    description: 'OAuth token revocation (RFC 7009)'
+  },
+  {
+    id: 'default-refresh',
+    active: true,
+    eventType: 'refresh',
+    urlMatch: 'glob',
+    url: '**/{refresh,renew,reauth}{,/**}',
+    methods: ['GET', 'POST'],
+    statusMin: 200,
+    statusMax: 299,
+    bodyPaths: [],
+    description: 'Token refresh endpoints'
+  },
+  {
+    id: 'default-refresh-error',
+    active: true,
+    eventType: 'refresh_error',
+    urlMatch: 'glob',
+    url: '**/{refresh,renew,reauth}{,/**}',
+    methods: ['GET', 'POST'],
+    statusMin: 400,
+    statusMax: 599,
+    bodyPaths: [],
+    description: 'Failed token refreshes'
+  },
+  {
+    id: 'default-oauth-token-response',
+    active: true,
+    eventType: 'acquire',
+    urlMatch: 'glob',
+    url: '**',
+    methods: ['POST'],
+    statusMin: 200,
+    statusMax: 299,
+    bodyPaths: ['access_token', 'token_type'],
+    description: 'Any OAuth token response'
+  },
+  {
+    id: 'default-acquire',
+    active: true,
+    eventType: 'acquire',
+    urlMatch: 'glob',
+    url: '**/{auth,login,signin,authenticate,token,oauth,oauth2,session,sessions,sso,connect/token}{,/**}',
+    methods: ['POST'],
+    statusMin: 200,
+    statusMax: 299,
+    bodyPaths: [],
+    description: 'Login and token endpoints'
+  }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "**/" spans any number of leading segments (including none), "**" anything, "*" and "?" stay
+// within a segment, "{a,b}" is an alternation (an empty alternative makes the group optional)
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let depth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      source += ')';
+      depth--;
+    } else if (char === ',' && depth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  if (depth > 0) {
+    throw new Error('Unclosed "{" in glob');
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compileRuleUrl(rule: Pick<TokenEndpointRule, 'urlMatch' | 'url'>): RegExp | null {
+  const key = `${rule.urlMatch}:${rule.url}`;
+  if (!compiledPatterns.has(key)) {
+    try {
+      compiledPatterns.set(key, rule.urlMatch === 'regex' ? new RegExp(rule.url, 'i') : globToRegExp(rule.url));
+    } catch (error) {
+      console.warn(`⚠️ Token rules: Ignoring invalid ${rule.urlMatch} "${rule.url}":`, error);
+      compiledPatterns.set(key, null);
+    }
+  }
+  return compiledPatterns.get(key)!;
+}
+
+// Problem with a rule's URL pattern or status range, or null when it can be used
+export function validateTokenRule(rule: TokenEndpointRule): string | null {
+  if (!rule.url?.trim()) return 'URL pattern is empty';
+  try {
+    if (rule.urlMatch === 'regex') {
+      new RegExp(rule.url);
+    } else {
+      globToRegExp(rule.url);
+    }
+  } catch (error) {
+    return `Invalid ${rule.urlMatch === 'regex' ? 'regular expression' : 'glob'}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (!(rule.statusMin <= rule.statusMax)) return 'Status range is empty';
+  return null;
+}
+
+function urlMatches(rule: TokenEndpointRule, url: string): boolean {
+  const pattern = compileRuleUrl(rule);
+  if (!pattern) return false;
+  if (rule.urlMatch === 'regex') return pattern.test(url);
+
+  try {
+    const parsed = new URL(url);
+    return pattern.test(rule.url.includes('://') ? `${parsed.origin}${parsed.pathname}` : parsed.pathname);
+  } catch {
+    // Relative URL - match its path portion
+    return pattern.test(url.split(/[?#]/)[0]);
+  }
+}
+
+function hasJsonPath(value: unknown, path: string[]): boolean {
+  let current = value;
+  for (const segment of path) {
+    if (!current || typeof current !== 'object' || !(segment in current)) return false;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current !== undefined && current !== null;
+}
+
+// Captured bodies may be truncated, so unparseable JSON falls back to looking for the last key
+function bodyHasPaths(body: string | null | undefined, paths: string[]): boolean {
+  if (paths.length === 0) return true;
+  if (!body) return false;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    parsed = undefined;
+  }
+  return paths.every(path => {
+    const segments = path.split('.').filter(Boolean);
+    if (parsed && typeof parsed === 'object') return hasJsonPath(parsed, segments);
+    const key = escapeRegExp(segments[segments.length - 1] || path);
+    return new RegExp(`"${key}"\\s*:`).test(body);
+  });
+}
+
+export function tokenRuleMatches(rule: TokenEndpointRule, request: TokenRuleRequest): boolean {
+  const method = (request.method || 'GET').toUpperCase();
+  const status = request.status ?? 0;
+  return (
+    (rule.methods.length === 0 || rule.methods.some(allowed => allowed.toUpperCase() === method)) &&
+    status >= rule.statusMin &&
+    status <= rule.statusMax &&
+    urlMatches(rule, request.url) &&
+    bodyHasPaths(request.responseBody, rule.bodyPaths)
+  );
+}
+
+export function classifyTokenRequest(request: TokenRuleRequest, rules: TokenEndpointRule[]): TokenRuleMatch | null {
+  for (const rule of rules) {
+    if (!rule.active || !rule.url?.trim()) continue;
+    if (tokenRuleMatches(rule, request)) {
+      return { rule, eventType: rule.eventType };
+    }
+  }
+  return null;
+}
+
+// Settings written before rules existed, or hand-edited exports, may miss fields
+function normalizeTokenRule(input: unknown, index: number): TokenEndpointRule {
+  if (!input || typeof input !== 'object') {
+    throw new Error(`Rule ${index + 1} is not an object`);
+  }
+  const raw = input as Record<string, unknown>;
+  if (!TOKEN_RULE_EVENT_TYPES.includes(raw.eventType as TokenRuleEventType)) {
+    throw new Error(`Rule ${index + 1} has unknown event type "${raw.eventType}"`);
+  }
+  if (typeof raw.url !== 'string') {
+    throw new Error(`Rule ${index + 1} has no URL pattern`);
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `rule_${Date.now()}_${index}`,
+    active: raw.active !== false,
+    eventType: raw.eventType as TokenRuleEventType,
+    urlMatch: raw.urlMatch === 'regex' ? 'regex' : 'glob',
+    url: raw.url,
+    methods: Array.isArray(raw.methods) ? raw.methods.map((method: unknown) => String(method).toUpperCase()) : [],
+    statusMin: typeof raw.statusMin === 'number' && Number.isFinite(raw.statusMin) ? raw.statusMin : 200,
+    statusMax: typeof raw.statusMax === 'number' && Number.isFinite(raw.statusMax) ? raw.statusMax : 299,
+    bodyPaths: Array.isArray(raw.bodyPaths) ? raw.bodyPaths.map(String).filter(Boolean) : [],
+    ...(typeof raw.description === 'string' && raw.description ? { description: raw.description } : {})
+  };
+}
+
+export function exportTokenRules(rules: TokenEndpointRule[]): TokenRulesExport {
+  return {
+    format: TOKEN_RULES_FORMAT,
+    version: 1,
+    exported: new Date().toISOString(),
+    rules
+  };
+}
+
+// Accepts an export file or a bare array of rules
+export function parseTokenRules(data: unknown): TokenEndpointRule[] {
+  const file = data as { format?: unknown; rules?: unknown } | null | undefined;
+  const rules = Array.isArray(data) ? data : file?.rules;
+  if (!Array.isArray(data) && file?.format !== TOKEN_RULES_FORMAT) {
+    throw new Error(`Not a token rules file (expected format "${TOKEN_RULES_FORMAT}")`);
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('Token rules file has no rules list');
+  }
+  return rules.map(normalizeTokenRule);
+}
@@ -1,4 +1,6 @@
 // Simplified content script focused on Reddit network interception
+import { resolveNetworkConfig } from '../background/profiles';
+
 console.log('✅ CONTENT: Script loaded on:', window.location.href);
 
 // MEMORY LEAK FIX: Helper function to check main world script activity without Promise constructor leaks
@@ -226,6 +228,8 @@ let injectionAttempted = false;
 const eventHandlers = {
   settingsRequest: null as EventListener | null,
   networkIntercepted: null as EventListener | null,
+  websocketIntercepted: null as EventListener | null,
+  librariesDetected: null as EventListener | null,
   consoleIntercepted: null as EventListener | null,
   beforeUnload1: null as EventListener | null,
   beforeUnload2: null as EventListener | null,
@@ -246,6 +250,14 @@ const cleanupEventListeners = () => {
     window.removeEventListener('networkRequestIntercepted', eventHandlers.networkIntercepted);
     eventHandlers.networkIntercepted = null;
   }
+  if (eventHandlers.websocketIntercepted) {
+    window.removeEventListener('websocketEventIntercepted', eventHandlers.websocketIntercepted);
+    eventHandlers.websocketIntercepted = null;
+  }
+  if (eventHandlers.librariesDetected) {
+    window.removeEventListener('librariesDetected', eventHandlers.librariesDetected);
+    eventHandlers.librariesDetected = null;
+  }
   if (eventHandlers.consoleIntercepted) {
     window.removeEventListener('consoleErrorIntercepted', eventHandlers.consoleIntercepted);
     eventHandlers.consoleIntercepted = null;
@@ -280,11 +292,20 @@ const cleanupEventListeners = () => {
   }
 };
 
+// Effective network settings: saved settings page config first, legacy sync config as fallback
+async function getEffectiveNetworkSettings(): Promise<Record<string, unknown>> {
+  const localResult = await chrome.storage.local.get(['settings']);
+  if (localResult.settings?.networkInterception) {
+    return resolveNetworkConfig(localResult.settings.networkInterception);
+  }
+  const syncResult = await chrome.storage.sync.get(['networkInterception']);
+  return syncResult.networkInterception || { bodyCapture: { maxBodySize: 2000 } };
+}
+
 // Listen for settings requests from main-world script
 eventHandlers.settingsRequest = async () => {
   try {
-    const result = await chrome.storage.sync.get(['networkInterception']);
-    const settings = result.networkInterception || { bodyCapture: { maxBodySize: 2000 } };
+    const settings = await getEffectiveNetworkSettings();
     
     window.dispatchEvent(new CustomEvent('extensionSettingsResponse', {
       detail: { networkInterception: settings }
@@ -473,6 +494,52 @@ eventHandlers.networkIntercepted = async (event: any) => {
 // Add the event listener
 window.addEventListener('networkRequestIntercepted', eventHandlers.networkIntercepted);
 
+// Listen for WebSocket connection snapshots and frames from main world
+eventHandlers.websocketIntercepted = async (event: Event) => {
+  const websocketData = (event as CustomEvent).detail;
+  
+  if (!isExtensionContextValid()) {
+    return;
+  }
+  
+  try {
+    await sendChromeMessage({
+      type: 'WEBSOCKET_EVENT',
+      data: {
+        ...websocketData,
+        tabUrl: window.location.href
+      }
+    });
+  } catch (error) {
+    console.log('❌ CONTENT: Failed to store WebSocket event:', error);
+    extensionContextValid = false;
+  }
+};
+
+window.addEventListener('websocketEventIntercepted', eventHandlers.websocketIntercepted);
+
+// Listen for third-party libraries fingerprinted by the main world
+eventHandlers.librariesDetected = async (event: Event) => {
+  if (!isExtensionContextValid()) {
+    return;
+  }
+  
+  try {
+    await sendChromeMessage({
+      type: 'LIBRARIES_DETECTED',
+      data: {
+        ...(event as CustomEvent).detail,
+        tabUrl: window.location.href
+      }
+    });
+  } catch (error) {
+    console.log('❌ CONTENT: Failed to store detected libraries:', error);
+    extensionContextValid = false;
+  }
+};
+
+window.addEventListener('librariesDetected', eventHandlers.librariesDetected);
+
 // Listen for console errors from main world
 eventHandlers.consoleIntercepted = async (event: any) => {
   const errorData = event.detail;
@@ -563,6 +630,11 @@ chrome.runtime.onMessage.addListener(eventHandlers.runtimeMessage);
 
 // MEMORY LEAK FIX: Storage change listener with proper cleanup
 const storageChangeHandler = (changes: any, namespace: string) => {
+  if (namespace === 'local' && changes.settings && eventHandlers.settingsRequest) {
+    // Push updated limits (e.g. after switching profiles) to the main-world script
+    eventHandlers.settingsRequest(new Event('extensionRequestSettings'));
+  }
+  
   if (namespace === 'local') {
     // Check for tab logging changes
     for (const key in changes) {
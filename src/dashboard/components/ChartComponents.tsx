@@ -18,6 +18,7 @@ import {
   ComposedChart,
   Scatter
 } from 'recharts';
+import type { RollupGranularity, RollupSeries } from '../../background/rollups';
 
 // Color palettes for consistent chart styling
 const COLORS = {
@@ -33,6 +34,21 @@ interface ChartProps {
   networkRequests: any[];
   consoleErrors: any[];
   tokenEvents: any[];
+  rollups?: RollupSeries | null; // Timeline charts bucket these instead of the raw sample when given
+}
+
+// Axis labels for rollup buckets, matching the formats used when bucketing raw records
+const TIMELINE_FORMATS: Record<RollupGranularity, Intl.DateTimeFormatOptions> = {
+  minute: { hour: 'numeric', minute: '2-digit', hour12: true },
+  hour: { month: 'short', day: 'numeric', hour: 'numeric', hour12: true },
+  day: { month: 'short', day: 'numeric' }
+};
+
+const TIMELINE_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+const TIMELINE_SEVERITIES = ['error', 'warning', 'critical', 'info', 'debug'];
+
+function rollupTotal(rollups: RollupSeries): number {
+  return rollups.points.reduce((sum, point) => sum + point.count, 0);
 }
 
 // HTTP Method Distribution (Pie Chart)
@@ -67,6 +83,9 @@ export const HttpMethodDistributionChart: React.FC<ChartProps> = ({ data }) => {
   );
 };
 
+// Bucket for requests recorded with a failure_reason (failed, timed out, CORS-blocked or aborted)
+const NETWORK_FAILURE_GROUP = 'Network Failure';
+
 // Status Code Breakdown (Donut Chart)
 export const StatusCodeBreakdownChart: React.FC<ChartProps> = ({ networkRequests }) => {
   console.log('StatusCodeBreakdownChart - networkRequests:', networkRequests.length);
@@ -91,6 +110,12 @@ export const StatusCodeBreakdownChart: React.FC<ChartProps> = ({ networkRequests
       responseStatusType: typeof req.response_status
     });
     
+    // Requests that never got a response get their own bucket instead of defaulting to 200
+    if (req.failure_reason) {
+      acc[NETWORK_FAILURE_GROUP] = (acc[NETWORK_FAILURE_GROUP] || 0) + 1;
+      return acc;
+    }
+    
     // Try multiple status field names and convert to number
     let status = req.status || req.response_status;
     
@@ -775,10 +800,10 @@ export const TopFrequentErrorsChart: React.FC<ChartProps> = ({ consoleErrors })
 };
 
 // Requests Over Time (Line/Area Chart)
-export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests }) => {
-  console.log('RequestsOverTimeChart - networkRequests:', networkRequests?.length || 0);
+export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests, rollups }) => {
+  console.log('RequestsOverTimeChart - networkRequests:', networkRequests?.length || 0, 'rollups:', rollups?.points.length);
 
-  if (!networkRequests || networkRequests.length === 0) {
+  if (rollups ? rollups.points.length === 0 : !networkRequests || networkRequests.length === 0) {
     return (
       <div className="h-96 bg-gray-50 rounded flex items-center justify-center">
         <div className="text-center text-gray-400">
@@ -790,7 +815,7 @@ export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
   }
 
   // Determine time range and interval based on data span
-  const timestamps = networkRequests
+  const timestamps = (rollups ? [] : networkRequests)
     .map(req => req.timestamp ? new Date(req.timestamp).getTime() : Date.now())
     .sort((a, b) => a - b);
     
@@ -802,7 +827,10 @@ export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
   let interval: 'hour' | 'day' | 'minute' = 'hour';
   let timeFormat: Intl.DateTimeFormatOptions;
   
-  if (timeSpan <= 2 * 60 * 60 * 1000) { // Less than 2 hours
+  if (rollups) { // Rollups come pre-bucketed at a granularity picked for the requested range
+    interval = rollups.granularity;
+    timeFormat = TIMELINE_FORMATS[interval];
+  } else if (timeSpan <= 2 * 60 * 60 * 1000) { // Less than 2 hours
     interval = 'minute';
     timeFormat = { hour: 'numeric', minute: '2-digit', hour12: true };
   } else if (timeSpan <= 7 * 24 * 60 * 60 * 1000) { // Less than 7 days
@@ -816,7 +844,19 @@ export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
   console.log('RequestsOverTimeChart - Time span:', timeSpan, 'Interval:', interval);
 
   // Group requests by time intervals and HTTP methods
-  const timeGroups = networkRequests.reduce((acc, req) => {
+  const timeGroups = rollups ? rollups.points.reduce((acc, point) => {
+    const group: Record<string, number> = { timestamp: point.bucket_start, total: point.count, other: 0 };
+    TIMELINE_METHODS.forEach(method => { group[method] = 0; });
+    for (const [method, counts] of Object.entries(point.dimensions)) {
+      if (TIMELINE_METHODS.includes(method)) {
+        group[method] += counts.count;
+      } else {
+        group.other += counts.count;
+      }
+    }
+    acc[point.bucket_start] = group;
+    return acc;
+  }, {} as { [key: number]: Record<string, number> }) : networkRequests.reduce((acc, req) => {
     const timestamp = req.timestamp ? new Date(req.timestamp) : new Date();
     const method = (req.method || 'GET').toUpperCase();
     
@@ -933,7 +973,7 @@ export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
           <span className="font-medium">Time Range:</span> {interval === 'minute' ? 'By Minute' : interval === 'hour' ? 'By Hour' : 'By Day'}
         </div>
         <div>
-          <span className="font-medium">Total Requests:</span> {networkRequests.length}
+          <span className="font-medium">Total Requests:</span> {rollups ? rollupTotal(rollups) : networkRequests.length}
         </div>
       </div>
 
@@ -1016,10 +1056,10 @@ export const RequestsOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
 };
 
 // Error Frequency Over Time (Line Chart)
-export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleErrors }) => {
-  console.log('ErrorFrequencyOverTimeChart - consoleErrors:', consoleErrors?.length || 0);
+export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleErrors, rollups }) => {
+  console.log('ErrorFrequencyOverTimeChart - consoleErrors:', consoleErrors?.length || 0, 'rollups:', rollups?.points.length);
 
-  if (!consoleErrors || consoleErrors.length === 0) {
+  if (rollups ? rollups.points.length === 0 : !consoleErrors || consoleErrors.length === 0) {
     return (
       <div className="h-96 bg-gray-50 rounded flex items-center justify-center">
         <div className="text-center text-gray-400">
@@ -1031,7 +1071,7 @@ export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleError
   }
 
   // Determine time range and interval based on error data span
-  const timestamps = consoleErrors
+  const timestamps = (rollups ? [] : consoleErrors)
     .map(error => error.timestamp ? new Date(error.timestamp).getTime() : Date.now())
     .sort((a, b) => a - b);
     
@@ -1043,7 +1083,10 @@ export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleError
   let interval: 'hour' | 'day' | 'minute' = 'hour';
   let timeFormat: Intl.DateTimeFormatOptions;
   
-  if (timeSpan <= 2 * 60 * 60 * 1000) { // Less than 2 hours
+  if (rollups) { // Rollups come pre-bucketed at a granularity picked for the requested range
+    interval = rollups.granularity;
+    timeFormat = TIMELINE_FORMATS[interval];
+  } else if (timeSpan <= 2 * 60 * 60 * 1000) { // Less than 2 hours
     interval = 'minute';
     timeFormat = { hour: 'numeric', minute: '2-digit', hour12: true };
   } else if (timeSpan <= 7 * 24 * 60 * 60 * 1000) { // Less than 7 days
@@ -1057,7 +1100,19 @@ export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleError
   console.log('ErrorFrequencyOverTimeChart - Time span:', timeSpan, 'Interval:', interval);
 
   // Group errors by time intervals and severity levels
-  const timeGroups = consoleErrors.reduce((acc, error) => {
+  const timeGroups = rollups ? rollups.points.reduce((acc, point) => {
+    const group: Record<string, number> = { timestamp: point.bucket_start, total: point.count, other: 0 };
+    TIMELINE_SEVERITIES.forEach(severity => { group[severity] = 0; });
+    for (const [severity, counts] of Object.entries(point.dimensions)) {
+      if (TIMELINE_SEVERITIES.includes(severity.toLowerCase())) {
+        group[severity.toLowerCase()] += counts.count;
+      } else {
+        group.other += counts.count;
+      }
+    }
+    acc[point.bucket_start] = group;
+    return acc;
+  }, {} as { [key: number]: Record<string, number> }) : consoleErrors.reduce((acc, error) => {
     const timestamp = error.timestamp ? new Date(error.timestamp) : new Date();
     const severity = (error.severity || error.level || 'error').toLowerCase();
     
@@ -1164,7 +1219,7 @@ export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleError
           <span className="font-medium">Error Timeline:</span> {interval === 'minute' ? 'By Minute' : interval === 'hour' ? 'By Hour' : 'By Day'}
         </div>
         <div>
-          <span className="font-medium">Total Errors:</span> {consoleErrors.length}
+          <span className="font-medium">Total Errors:</span> {rollups ? rollupTotal(rollups) : consoleErrors.length}
         </div>
       </div>
 
@@ -1244,10 +1299,10 @@ export const ErrorFrequencyOverTimeChart: React.FC<ChartProps> = ({ consoleError
 };
 
 // Latency Over Time (Line Chart)
-export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests }) => {
-  console.log('LatencyOverTimeChart - networkRequests:', networkRequests?.length || 0);
+export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests, rollups }) => {
+  console.log('LatencyOverTimeChart - networkRequests:', networkRequests?.length || 0, 'rollups:', rollups?.points.length);
 
-  if (!networkRequests || networkRequests.length === 0) {
+  if (rollups ? rollups.points.length === 0 : !networkRequests || networkRequests.length === 0) {
     return (
       <div className="h-96 bg-gray-50 rounded flex items-center justify-center">
         <div className="text-center text-gray-400">
@@ -1259,14 +1314,18 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
   }
 
   // Filter requests that have response times
-  const requestsWithLatency = networkRequests.filter(req => {
+  const requestsWithLatency = (rollups ? [] : networkRequests).filter(req => {
     const responseTime = req.response_time || req.responseTime || req.duration;
     return responseTime && typeof responseTime === 'number' && responseTime > 0;
   });
+  const timedPoints = rollups ? rollups.points.filter(point => point.latency_count > 0) : [];
+  const latencySampleSize = rollups
+    ? timedPoints.reduce((sum, point) => sum + point.latency_count, 0)
+    : requestsWithLatency.length;
 
-  console.log('LatencyOverTimeChart - requestsWithLatency:', requestsWithLatency.length);
+  console.log('LatencyOverTimeChart - requestsWithLatency:', latencySampleSize);
 
-  if (requestsWithLatency.length === 0) {
+  if (latencySampleSize === 0) {
     return (
       <div className="h-96 bg-gray-50 rounded flex items-center justify-center">
         <div className="text-center text-gray-400">
@@ -1289,7 +1348,10 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
   let interval: 'hour' | 'day' | 'minute' = 'hour';
   let timeFormat: Intl.DateTimeFormatOptions;
   
-  if (timeSpan <= 2 * 60 * 60 * 1000) {
+  if (rollups) {
+    interval = rollups.granularity;
+    timeFormat = TIMELINE_FORMATS[interval];
+  } else if (timeSpan <= 2 * 60 * 60 * 1000) {
     interval = 'minute';
     timeFormat = { hour: 'numeric', minute: '2-digit', hour12: true };
   } else if (timeSpan <= 7 * 24 * 60 * 60 * 1000) {
@@ -1351,8 +1413,29 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
     count: number;
   } });
 
+  // Rollups keep a latency histogram per bucket: percentiles replace the exact min/median
+  const dimensionAverage = (point: (typeof timedPoints)[number], methods: string[] | null) => {
+    const entries = Object.entries(point.dimensions)
+      .filter(([method]) => methods ? methods.includes(method) : !['GET', 'POST'].includes(method));
+    const count = entries.reduce((sum, [, counts]) => sum + counts.latency_count, 0);
+    return count > 0 ? Math.round(entries.reduce((sum, [, counts]) => sum + counts.latency_sum, 0) / count) : 0;
+  };
+
   // Calculate statistics for each time bucket
-  const chartData = Object.values(timeGroups)
+  const chartData = rollups ? timedPoints.map(point => ({
+    time: new Date(point.bucket_start).toLocaleString('en-US', timeFormat),
+    timestamp: point.bucket_start,
+    avgLatency: point.avg_latency,
+    minLatency: 0,
+    maxLatency: point.max_latency,
+    medianLatency: point.p50,
+    p95Latency: point.p95,
+    p99Latency: point.p99,
+    avgGet: dimensionAverage(point, ['GET']),
+    avgPost: dimensionAverage(point, ['POST']),
+    avgOther: dimensionAverage(point, null),
+    sampleSize: point.latency_count
+  })) : Object.values(timeGroups)
     .sort((a, b) => (a as any).timestamp - (b as any).timestamp)
     .map(group => {
       const g = group as any;
@@ -1403,7 +1486,7 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
           <span className="font-medium">Latency Timeline:</span> {interval === 'minute' ? 'By Minute' : interval === 'hour' ? 'By Hour' : 'By Day'}
         </div>
         <div>
-          <span className="font-medium">Requests with Latency:</span> {requestsWithLatency.length}
+          <span className="font-medium">Requests with Latency:</span> {latencySampleSize}
         </div>
       </div>
 
@@ -1424,7 +1507,9 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
             formatter={(value, name) => [`${value}ms`, name === 'avgLatency' ? 'Average Latency' : 
                                                        name === 'maxLatency' ? 'Max Latency' :
                                                        name === 'minLatency' ? 'Min Latency' : 
-                                                       name === 'medianLatency' ? 'Median Latency' : name]}
+                                                       name === 'medianLatency' ? 'Median Latency' :
+                                                       name === 'p95Latency' ? 'p95 Latency' :
+                                                       name === 'p99Latency' ? 'p99 Latency' : name]}
             labelFormatter={(label) => `Time: ${label}`}
           />
           <Legend />
@@ -1446,14 +1531,22 @@ export const LatencyOverTimeChart: React.FC<ChartProps> = ({ networkRequests })
             strokeDasharray="5 5"
             name="Max Latency"
           />
-          <Line 
-            type="monotone" 
-            dataKey="minLatency" 
-            stroke={latencyColors.min} 
-            strokeWidth={2}
-            strokeDasharray="5 5"
-            name="Min Latency"
-          />
+          {rollups ? (
+            <>
+              <Line type="monotone" dataKey="medianLatency" stroke={latencyColors.median} strokeWidth={2} name="p50 Latency" />
+              <Line type="monotone" dataKey="p95Latency" stroke={latencyColors.post} strokeWidth={2} name="p95 Latency" />
+              <Line type="monotone" dataKey="p99Latency" stroke={latencyColors.other} strokeWidth={2} name="p99 Latency" />
+            </>
+          ) : (
+            <Line 
+              type="monotone" 
+              dataKey="minLatency" 
+              stroke={latencyColors.min} 
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              name="Min Latency"
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
 
@@ -2399,6 +2492,11 @@ export const StatusCodeBreakdownChartNew: React.FC<ChartProps> = ({ networkReque
   const statusCounts: { [key: string]: number } = {};
   
   networkRequests.forEach(req => {
+    if (req.failure_reason) {
+      statusCounts[NETWORK_FAILURE_GROUP] = (statusCounts[NETWORK_FAILURE_GROUP] || 0) + 1;
+      return;
+    }
+    
     // Try all possible status fields
     const status = req.status ?? req.response_status ?? req.response?.status ?? req.statusCode ?? 'Unknown';
     const statusKey = String(status);
@@ -2413,7 +2511,7 @@ export const StatusCodeBreakdownChartNew: React.FC<ChartProps> = ({ networkReque
     return {
       code: status,
       count,
-      class: statusNum === 0 ? '0xx' : Math.floor(statusNum / 100) + 'xx'
+      class: status === NETWORK_FAILURE_GROUP ? NETWORK_FAILURE_GROUP : statusNum === 0 ? '0xx' : Math.floor(statusNum / 100) + 'xx'
     };
   });
 
@@ -2440,9 +2538,10 @@ export const StatusCodeBreakdownChartNew: React.FC<ChartProps> = ({ networkReque
 
   // Color function with better color scheme
   const getStatusColor = (name: string) => {
+    if (name === NETWORK_FAILURE_GROUP) return '#EA580C'; // Orange for failed/aborted requests
     if (groupByClass) {
       switch (name) {
-        case '0xx': return '#6B7280'; // Gray for network failures  
+        case '0xx': return '#6B7280'; // Gray for requests without a response (beacons, forms)
         case '2xx': return '#059669'; // Emerald for success
         case '3xx': return '#0891B2'; // Cyan for redirects
         case '4xx': return '#DC2626'; // Red for client errors
@@ -2451,7 +2550,7 @@ export const StatusCodeBreakdownChartNew: React.FC<ChartProps> = ({ networkReque
       }
     } else {
       const code = parseInt(name) || 0;
-      if (code === 0) return '#6B7280'; // Gray for network failures
+      if (code === 0) return '#6B7280'; // Gray for requests without a response (beacons, forms)
       if (code >= 200 && code < 300) return '#059669'; // Emerald for success
       if (code >= 300 && code < 400) return '#0891B2'; // Cyan for redirects  
       if (code >= 400 && code < 500) return '#DC2626'; // Red for client errors
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { downloadTextFile, fileTimestamp } from '../lib/file-utils';
+import { createHarLog, type HarEntry } from '../../background/har';
+
+interface HarExportButtonProps {
+  filterMethod: string;
+  filterTransport: string;
+  sessionIds: string[];
+  searchTerm: string;
+  domains: string[];
+}
+
+const CURRENT_FILTERS = '__current_filters__';
+
+interface HarExportBatchResponse {
+  success: boolean;
+  entries?: HarEntry[];
+  nextId?: number | null;
+  error?: string;
+}
+
+// Exports stored API calls as a HAR 1.2 file, scoped either by the table's
+// current method/transport/search filters or by a single main domain
+export const HarExportButton: React.FC<HarExportButtonProps> = ({ filterMethod, filterTransport, sessionIds, searchTerm, domains }) => {
+  const [scope, setScope] = useState<string>(CURRENT_FILTERS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const filter = scope === CURRENT_FILTERS
+        ? {
+            method: filterMethod !== 'all' ? filterMethod : undefined,
+            transport: filterTransport !== 'all' ? filterTransport : undefined,
+            search: searchTerm || undefined,
+            sessionIds: sessionIds.length > 0 ? sessionIds : undefined
+          }
+        : { mainDomain: scope };
+
+      // The background worker returns one batch per message, so large exports stay under the message size limit
+      const entries: HarEntry[] = [];
+      let afterId: number | null = null;
+      do {
+        const response: HarExportBatchResponse | undefined = await chrome.runtime.sendMessage({ action: 'exportHar', filter, afterId });
+        if (!response?.success) {
+          throw new Error(response?.error || 'HAR export failed');
+        }
+        entries.push(...(response.entries || []));
+        afterId = response.nextId ?? null;
+      } while (afterId !== null);
+
+      if (entries.length === 0) {
+        alert('No requests match the selected export scope.');
+        return;
+      }
+
+      const label = scope === CURRENT_FILTERS ? 'requests' : scope.replace(/[^a-z0-9.-]/gi, '_');
+      downloadTextFile(`${label}-${fileTimestamp()}.har`, JSON.stringify(createHarLog(entries), null, 2));
+    } catch (error) {
+      console.error('Dashboard: HAR export failed:', error);
+      alert(`HAR export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value)}
+        className="block pl-3 pr-8 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+        title="HAR export scope"
+      >
+        <option value={CURRENT_FILTERS}>Current filters</option>
+        {domains.map(domain => (
+          <option key={domain} value={domain}>Domain: {domain}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {isExporting ? 'Exporting...' : 'Export HAR'}
+      </button>
+    </div>
+  );
+};
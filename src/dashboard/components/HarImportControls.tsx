@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { HAR_IMPORT_BATCH_SIZE, parseHarEntries } from '../../background/har';
+import type { HarImportInfo } from './harImportUtils';
+
+interface HarImportControlsProps {
+  imports: HarImportInfo[];
+  onImportsChanged: () => void;
+}
+
+// Loads .har files into storage as tagged API calls and lets each import be removed as a unit
+export const HarImportControls: React.FC<HarImportControlsProps> = ({ imports, onImportsChanged }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showImports, setShowImports] = useState(false);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const entries = parseHarEntries(JSON.parse(await file.text()));
+      if (entries.length === 0) {
+        throw new Error('HAR file contains no entries');
+      }
+
+      // Entries go over in batches so no single message carries the whole file
+      const sendImportMessage = async (message: Record<string, unknown>) => {
+        const response = await chrome.runtime.sendMessage(message);
+        if (!response?.success) {
+          throw new Error(response?.error || 'HAR import failed');
+        }
+        return response;
+      };
+      const { importId } = await sendImportMessage({ action: 'beginHarImport', name: file.name });
+      for (let i = 0; i < entries.length; i += HAR_IMPORT_BATCH_SIZE) {
+        await sendImportMessage({ action: 'importHarBatch', importId, entries: entries.slice(i, i + HAR_IMPORT_BATCH_SIZE) });
+      }
+      const response = await sendImportMessage({ action: 'finishHarImport', importId });
+      const skipped = response.skipped ? ` (${response.skipped} skipped)` : '';
+      alert(`Imported ${response.import.entryCount} requests from ${file.name}${skipped}`);
+      onImportsChanged();
+    } catch (error) {
+      console.error('Dashboard: HAR import failed:', error);
+      alert(`HAR import failed: ${error instanceof SyntaxError ? 'file is not valid JSON' : error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (info: HarImportInfo) => {
+    if (!window.confirm(`Delete the ${info.entryCount} requests imported from "${info.name}"? Live-captured data is not affected.`)) {
+      return;
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'deleteHarImport', importId: info.id });
+    if (!response?.success) {
+      alert(`Failed to delete import: ${response?.error || 'Unknown error'}`);
+      return;
+    }
+    onImportsChanged();
+  };
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".har,application/json"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {isImporting ? 'Importing...' : 'Import HAR'}
+      </button>
+      {imports.length > 0 && (
+        <button
+          onClick={() => setShowImports(!showImports)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {imports.length} import{imports.length === 1 ? '' : 's'}
+        </button>
+      )}
+      {showImports && imports.length > 0 && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2">
+          {imports.map(info => (
+            <div key={info.id} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 truncate" title={info.name}>{info.name}</div>
+                <div className="text-xs text-gray-500">
+                  {info.entryCount} requests · {new Date(info.importedAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(info)}
+                className="ml-3 text-xs text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import type { JwtFindingSeverity, JwtLocation, JwtObservation } from '../../background/jwt-inspector'
+
+const OBSERVATION_LIMIT = 500
+
+const SEVERITY_STYLES: Record<JwtFindingSeverity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-800'
+}
+
+const SEVERITY_RANK: Record<JwtFindingSeverity, number> = { high: 0, medium: 1, low: 2 }
+
+const LOCATION_LABELS: Record<JwtLocation, string> = {
+  header: 'Header',
+  cookie: 'Cookie',
+  url: 'URL',
+  request_body: 'Request body',
+  response_body: 'Response body',
+  set_cookie: 'Set-Cookie'
+}
+
+const formatDuration = (seconds: number): string => {
+  const abs = Math.abs(seconds)
+  if (abs < 60) return `${Math.round(abs)}s`
+  if (abs < 60 * 60) return `${Math.round(abs / 60)}m`
+  if (abs < 24 * 60 * 60) return `${(abs / 60 / 60).toFixed(1)}h`
+  return `${(abs / 24 / 60 / 60).toFixed(1)}d`
+}
+
+// NumericDate claims are seconds since the epoch
+const formatClaimTime = (value: unknown, now: number): string => {
+  if (typeof value !== 'number') return '—'
+  const offset = value - now / 1000
+  const relative = offset > 0 ? `in ${formatDuration(offset)}` : `${formatDuration(offset)} ago`
+  return `${new Date(value * 1000).toLocaleString()} (${relative})`
+}
+
+const formatClaimList = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(String).join(', ') || '—'
+  if (typeof value === 'string' && value) return value
+  return '—'
+}
+
+// scope (RFC 8693, space-separated) or scp (array or string, used by Azure AD and Okta)
+const claimScopes = (claims: Record<string, unknown>): string => {
+  const scopes = claims.scope ?? claims.scp
+  return typeof scopes === 'string' ? scopes.split(/\s+/).filter(Boolean).join(', ') || '—' : formatClaimList(scopes)
+}
+
+const worstSeverity = (observation: JwtObservation): number =>
+  Math.min(3, ...observation.findings.map(finding => SEVERITY_RANK[finding.severity]))
+
+const ClaimRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <span className="text-gray-500">{label}: </span>
+    <span className="text-gray-900 break-all">{value}</span>
+  </div>
+)
+
+// Every JWT seen in captured traffic with its decoded header and claims and lint findings
+export const JwtInspectorPanel: React.FC = () => {
+  const [observations, setObservations] = useState<JwtObservation[]>([])
+  const [loading, setLoading] = useState(false)
+  const [now, setNow] = useState(Date.now())
+  const [domainFilter, setDomainFilter] = useState('all')
+  const [findingsOnly, setFindingsOnly] = useState(false)
+
+  const loadObservations = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getJwtObservations', query: { limit: OBSERVATION_LIMIT } })
+      if (response?.success) {
+        setObservations(response.observations)
+        setNow(Date.now())
+      } else {
+        console.error('Failed to load JWT observations:', response?.error)
+      }
+    } catch (error) {
+      console.error('Failed to load JWT observations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadObservations()
+  }, [loadObservations])
+
+  const domains = useMemo(
+    () => Array.from(new Set(observations.map(observation => observation.main_domain))).sort(),
+    [observations]
+  )
+
+  // Tokens with the most severe findings first, then the most recently seen
+  const visible = useMemo(() => observations
+    .filter(observation => domainFilter === 'all' || observation.main_domain === domainFilter)
+    .filter(observation => !findingsOnly || observation.findings.length > 0)
+    .sort((a, b) => worstSeverity(a) - worstSeverity(b) || b.last_seen - a.last_seen),
+  [observations, domainFilter, findingsOnly])
+
+  const flagged = observations.filter(observation => observation.findings.length > 0).length
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-md font-semibold text-gray-900">
+          JWT Inspector ({observations.length} tokens, {flagged} with findings)
+        </h3>
+        <div className="flex items-center space-x-3">
+          <select
+            value={domainFilter}
+            onChange={(e) => setDomainFilter(e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="all">All Domains</option>
+            {domains.map(domain => (
+              <option key={domain} value={domain}>{domain}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={findingsOnly}
+              onChange={(e) => setFindingsOnly(e.target.checked)}
+              className="mr-1"
+            />
+            Only with findings
+          </label>
+          <button
+            onClick={loadObservations}
+            disabled={loading}
+            className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+          >
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">
+          {observations.length === 0
+            ? 'No JWTs seen yet. Tokens in headers, cookies, URLs and bodies are decoded while token logging is on.'
+            : 'No tokens match the current filters.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(observation => {
+            const { header, claims } = observation
+            const lifetime = typeof claims.exp === 'number' && typeof claims.iat === 'number' ? claims.exp - claims.iat : null
+            return (
+              <div key={observation.fingerprint} className="border border-gray-200 rounded px-4 py-3">
+                <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                  <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 font-mono">{String(header.alg ?? '?')}</span>
+                  {!!header.typ && <span className="text-gray-500">typ {String(header.typ)}</span>}
+                  {header.kid !== undefined && <span className="font-mono text-gray-500">kid {JSON.stringify(header.kid)}</span>}
+                  <span className="text-gray-500">{observation.main_domain}</span>
+                  {observation.findings.map(finding => (
+                    <span key={finding.id} className={`px-2 py-0.5 rounded-full ${SEVERITY_STYLES[finding.severity]}`} title={finding.message}>
+                      {finding.id}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+                  <ClaimRow label="Issuer" value={formatClaimList(claims.iss)} />
+                  <ClaimRow label="Audience" value={formatClaimList(claims.aud)} />
+                  <ClaimRow label="Subject" value={formatClaimList(claims.sub)} />
+                  <ClaimRow label="Scopes" value={claimScopes(claims)} />
+                  <ClaimRow label="Issued at" value={formatClaimTime(claims.iat, now)} />
+                  <ClaimRow label="Not before" value={formatClaimTime(claims.nbf, now)} />
+                  <ClaimRow label="Expires" value={formatClaimTime(claims.exp, now)} />
+                  <ClaimRow label="Lifetime" value={lifetime === null ? '—' : formatDuration(lifetime)} />
+                </div>
+
+                {observation.findings.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 text-xs">
+                    {[...observation.findings]
+                      .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+                      .map(finding => (
+                        <li key={finding.id} className={finding.severity === 'high' ? 'text-red-700' : 'text-yellow-800'}>
+                          {finding.message}
+                        </li>
+                      ))}
+                  </ul>
+                )}
+
+                <div className="mt-2 text-xs text-gray-500">
+                  Seen {observation.sightings} times in {observation.locations.map(location => LOCATION_LABELS[location] || location).join(', ')}
+                  {observation.names.length > 0 && ` (${observation.names.join(', ')})`}
+                  {' · '}{new Date(observation.first_seen).toLocaleString()} → {new Date(observation.last_seen).toLocaleString()}
+                </div>
+
+                <details className="mt-2 text-xs">
+                  <summary className="cursor-pointer text-gray-600">Decoded header and claims</summary>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                    <pre className="bg-gray-50 p-2 rounded overflow-x-auto">{JSON.stringify(header, null, 2)}</pre>
+                    <pre className="bg-gray-50 p-2 rounded overflow-x-auto">{JSON.stringify(claims, null, 2)}</pre>
+                  </div>
+                  <div className="mt-2 text-gray-500">
+                    Endpoints: {observation.endpoints.join(', ')}
+                  </div>
+                </details>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import type { AdvisorySeverity, LibraryAdvisoryMatch, LibraryDetectionMethod, MinifiedLibrary } from '../../background/storage-types'
+
+const INVENTORY_LIMIT = 2000
+
+const DETECTION_LABELS: Record<LibraryDetectionMethod, string> = {
+  global: 'Global',
+  banner: 'License banner',
+  filename: 'File name'
+}
+
+const SEVERITY_STYLES: Record<AdvisorySeverity, string> = {
+  critical: 'bg-red-600 text-white',
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-yellow-100 text-yellow-800'
+}
+
+const advisoryLink = (advisory: LibraryAdvisoryMatch): string | undefined => {
+  if (advisory.url) return advisory.url
+  if (advisory.id.startsWith('CVE-')) return `https://nvd.nist.gov/vuln/detail/${advisory.id}`
+  if (advisory.id.startsWith('GHSA-')) return `https://github.com/advisories/${advisory.id}`
+  return undefined
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Third-party libraries detected per domain, with versions, known advisories, script sizes and source map availability
+export const LibraryInventoryTable: React.FC = () => {
+  const [libraries, setLibraries] = useState<MinifiedLibrary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [filter, setFilter] = useState('')
+  const [vulnerableOnly, setVulnerableOnly] = useState(false)
+  const [collapsedDomains, setCollapsedDomains] = useState<Set<string>>(new Set())
+
+  const loadLibraries = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getLibraryInventory', limit: INVENTORY_LIMIT })
+      if (response?.success) {
+        setLibraries(response.libraries)
+      } else {
+        console.error('Failed to load library inventory:', response?.error)
+      }
+    } catch (error) {
+      console.error('Failed to load library inventory:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLibraries()
+  }, [loadLibraries])
+
+  useEffect(() => {
+    const handleMessage = (message: { type?: string; dataType?: string }) => {
+      if (message.type === 'DATA_UPDATED' && message.dataType === 'libraries') {
+        loadLibraries()
+      }
+    }
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [loadLibraries])
+
+  // Domains alphabetically, libraries by name then newest version first
+  const domains = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    const groups = new Map<string, MinifiedLibrary[]>()
+    for (const library of libraries) {
+      const domain = library.main_domain || 'unknown'
+      if (vulnerableOnly && !library.advisories?.length) continue
+      if (needle && !library.name.toLowerCase().includes(needle) && !domain.toLowerCase().includes(needle)) continue
+      const group = groups.get(domain) || []
+      group.push(library)
+      groups.set(domain, group)
+    }
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([domain, group]) => ({
+        domain,
+        libraries: group.sort((a, b) => a.name.localeCompare(b.name) || b.version.localeCompare(a.version, undefined, { numeric: true }))
+      }))
+  }, [libraries, filter, vulnerableOnly])
+
+  const toggleDomain = (domain: string) => {
+    setCollapsedDomains(previous => {
+      const next = new Set(previous)
+      if (next.has(domain)) {
+        next.delete(domain)
+      } else {
+        next.add(domain)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Library Inventory ({libraries.length} across {new Set(libraries.map(library => library.main_domain || 'unknown')).size} domains)
+        </h2>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center text-sm text-gray-700 mr-2">
+            <input
+              type="checkbox"
+              checked={vulnerableOnly}
+              onChange={(e) => setVulnerableOnly(e.target.checked)}
+              className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="ml-2">Vulnerable only</span>
+          </label>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by library or domain"
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={loadLibraries}
+            disabled={loading}
+            className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+          >
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {domains.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          {libraries.length === 0 ? 'No third-party libraries detected yet' : 'No libraries match the filter'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {domains.map(({ domain, libraries: domainLibraries }) => (
+            <div key={domain} className="border border-gray-200 rounded">
+              <button
+                onClick={() => toggleDomain(domain)}
+                className="w-full flex items-center justify-between px-4 py-2 bg-gray-50 hover:bg-gray-100 text-left"
+              >
+                <span className="text-sm font-medium text-gray-900">
+                  <span className="text-gray-400 mr-2">{collapsedDomains.has(domain) ? '▸' : '▾'}</span>
+                  {domain}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {domainLibraries.length} libraries
+                  {domainLibraries.some(library => library.advisories?.length) && (
+                    <span className="ml-2 text-red-700">
+                      {domainLibraries.filter(library => library.advisories?.length).length} vulnerable
+                    </span>
+                  )}
+                </span>
+              </button>
+              {!collapsedDomains.has(domain) && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-white">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Library</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Advisories</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Script</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source Map</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Detected By</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First / Last Seen</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {domainLibraries.map((library, index) => (
+                        <tr key={library.id ?? index} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <span className="font-medium">{library.name}</span>
+                            <span className="ml-2 text-gray-500">{library.version || 'unknown version'}</span>
+                          </td>
+                          <td className="px-6 py-4 text-xs">
+                            {library.advisories?.length ? (
+                              <div className="flex flex-wrap gap-1">
+                                {library.advisories.map(advisory => (
+                                  <a
+                                    key={advisory.id}
+                                    href={advisoryLink(advisory)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title={`${advisory.severity.toUpperCase()}: ${advisory.summary}`}
+                                    className={`px-2 py-0.5 rounded-full whitespace-nowrap ${SEVERITY_STYLES[advisory.severity]}`}
+                                  >
+                                    {advisory.id}
+                                  </a>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400">{library.version ? 'None known' : '—'}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500 max-w-md">
+                            {library.url ? (
+                              <span className="block truncate" title={library.url}>{library.url}</span>
+                            ) : (
+                              <span className="italic">Bundled into page code</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {library.size > 0 ? formatBytes(library.size) : '—'}
+                            {library.minified && (
+                              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">minified</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {library.source_map_available ? (
+                              <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800" title={library.source_map_url}>
+                                {library.source_map_url === 'inline' ? 'Inline' : 'Available'}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                            {(library.detected_by || []).map(method => DETECTION_LABELS[method] || method).join(', ') || '—'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                            <div>{new Date(library.first_seen ?? library.timestamp).toLocaleString()}</div>
+                            <div>{new Date(library.timestamp).toLocaleString()}</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
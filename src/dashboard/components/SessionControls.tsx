@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ACTIVE_SESSION_KEY, CAPTURE_SESSIONS_KEY, type CaptureSession } from '../../background/sessions';
+
+interface SessionControlsProps {
+  selectedSessionIds: string[];
+  onSelectionChange: (sessionIds: string[]) => void;
+}
+
+const formatSessionRange = (session: CaptureSession): string => {
+  const start = new Date(session.startedAt).toLocaleString();
+  return session.endedAt ? `${start} – ${new Date(session.endedAt).toLocaleTimeString()}` : `${start} – recording`;
+};
+
+// Lists capture sessions started from the popup; selecting any scopes every table and chart to them
+export const SessionControls: React.FC<SessionControlsProps> = ({ selectedSessionIds, onSelectionChange }) => {
+  const [sessions, setSessions] = useState<CaptureSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getCaptureSessions' });
+      if (response?.success) {
+        setSessions(response.sessions || []);
+        setActiveSessionId(response.activeSessionId);
+      }
+    } catch (error) {
+      console.error('Dashboard: Failed to load capture sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && (changes[CAPTURE_SESSIONS_KEY] || changes[ACTIVE_SESSION_KEY])) {
+        loadSessions();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, [loadSessions]);
+
+  // Drop selections of sessions that were deleted elsewhere
+  useEffect(() => {
+    const known = selectedSessionIds.filter(id => sessions.some(session => session.id === id));
+    if (known.length !== selectedSessionIds.length) {
+      onSelectionChange(known);
+    }
+  }, [sessions, selectedSessionIds, onSelectionChange]);
+
+  const toggleSession = (sessionId: string) => {
+    onSelectionChange(
+      selectedSessionIds.includes(sessionId)
+        ? selectedSessionIds.filter(id => id !== sessionId)
+        : [...selectedSessionIds, sessionId]
+    );
+  };
+
+  const submitRename = async () => {
+    if (!renaming) return;
+    const { id, name } = renaming;
+    setRenaming(null);
+    if (!name.trim()) return;
+    const response = await chrome.runtime.sendMessage({ action: 'renameCaptureSession', sessionId: id, name });
+    if (!response?.success) {
+      alert(`Failed to rename session: ${response?.error || 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (session: CaptureSession) => {
+    if (!window.confirm(`Delete session "${session.name}" and every request, error and token event recorded in it?`)) {
+      return;
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'deleteCaptureSession', sessionId: session.id });
+    if (!response?.success) {
+      alert(`Failed to delete session: ${response?.error || 'Unknown error'}`);
+    }
+  };
+
+  const label = selectedSessionIds.length === 0
+    ? 'All sessions'
+    : selectedSessionIds.length === 1
+      ? sessions.find(session => session.id === selectedSessionIds[0])?.name || '1 session'
+      : `${selectedSessionIds.length} sessions`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowSessions(!showSessions)}
+        className={`px-4 py-2 rounded-lg border transition-colors ${
+          selectedSessionIds.length > 0
+            ? 'bg-red-50 border-red-300 text-red-800'
+            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+        }`}
+        title="Scope tables and charts to capture sessions"
+      >
+        ⏺ {label}
+      </button>
+      {showSessions && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-96 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Capture Sessions</span>
+            {selectedSessionIds.length > 0 && (
+              <button onClick={() => onSelectionChange([])} className="text-xs text-blue-600 hover:text-blue-800">
+                Show all data
+              </button>
+            )}
+          </div>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No sessions yet. Start one from the extension popup.</p>
+          ) : (
+            [...sessions].reverse().map(session => (
+              <div key={session.id} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selectedSessionIds.includes(session.id)}
+                  onChange={() => toggleSession(session.id)}
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <div className="flex-1 min-w-0">
+                  {renaming?.id === session.id ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: session.id, name: e.target.value })}
+                      onBlur={submitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  ) : (
+                    <div className="font-medium text-gray-900 truncate" title={session.name}>
+                      {session.id === activeSessionId && (
+                        <span className="inline-block h-2 w-2 mr-1 rounded-full bg-red-500 animate-pulse" title="Recording"></span>
+                      )}
+                      {session.name}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500">{formatSessionRange(session)}</div>
+                </div>
+                <button
+                  onClick={() => setRenaming({ id: session.id, name: session.name })}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,6 +20,9 @@ import {
   RequestsByTimeOfDayChart
 } from './ChartComponents';
 import { SimpleTestChart } from './SimpleTestChart';
+import { matchesImportSource, SOURCE_ALL } from './harImportUtils';
+import { tokenEventFlow, type StorageAggregates } from '../../background/aggregates';
+import type { RollupSeries, RollupSource } from '../../background/rollups';
 
 interface StatisticsCardProps {
   networkRequests: any[];
@@ -29,6 +32,8 @@ interface StatisticsCardProps {
   totalErrors?: number;
   totalTokenEvents?: number;
   onRefreshAnalysisData?: () => Promise<void>;
+  sourceFilter?: string; // 'all', 'live' or a HAR import id
+  sessionIds?: string[]; // Capture sessions to analyse; empty or absent means all data
 }
 
 interface GlobalStats {
@@ -42,6 +47,7 @@ interface GlobalStats {
   tokensByType: { [type: string]: number };
   avgResponseTime: number;
   successRate: number;
+  libraries?: { total: number; vulnerable: number; bySeverity: { [severity: string]: number } }; // Library inventory, which is never import-scoped
 }
 
 interface ChartDefinition {
@@ -56,6 +62,51 @@ type ChartDefinitions = {
   [key: string]: ChartDefinition;
 };
 
+// Ranges offered for the timeline charts when they read background rollups
+const TIMELINE_RANGES = [
+  { label: 'Last hour', ms: 60 * 60 * 1000 },
+  { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { label: 'Last 90 days', ms: 90 * 24 * 60 * 60 * 1000 },
+  { label: 'Last year', ms: 365 * 24 * 60 * 60 * 1000 }
+];
+
+// Exact figures over every stored record, read from the background's running totals
+function globalStatsFromAggregates(aggregates: StorageAggregates): GlobalStats {
+  const { apiCalls, consoleErrors, tokenEvents, minifiedLibraries } = aggregates;
+
+  const domains = new Set<string>();
+  for (const aggregate of [apiCalls, consoleErrors, tokenEvents]) {
+    Object.keys(aggregate.dimensions.domain || {}).forEach(domain => domain !== 'unknown' && domains.add(domain));
+  }
+
+  const successfulRequests = Object.entries(apiCalls.dimensions.status || {})
+    .filter(([status]) => Number(status) >= 200 && Number(status) < 400)
+    .reduce((sum, [, count]) => sum + count, 0);
+  const timedRequests = apiCalls.sums.timedRequests || 0;
+  const librariesBySeverity = { ...minifiedLibraries.dimensions.advisory };
+  delete librariesBySeverity.none;
+
+  return {
+    totalRequests: apiCalls.records,
+    totalErrors: consoleErrors.records,
+    totalTokenEvents: tokenEvents.records,
+    uniqueDomains: domains.size,
+    maxResponseTime: apiCalls.maxResponseTime,
+    requestsByMethod: { ...apiCalls.dimensions.method },
+    errorsBySeverity: { ...consoleErrors.dimensions.severity },
+    tokensByType: { ...tokenEvents.dimensions.flow },
+    avgResponseTime: timedRequests > 0 ? Math.round((apiCalls.sums.responseTime || 0) / timedRequests) : 0,
+    successRate: apiCalls.records > 0 ? Math.round((successfulRequests / apiCalls.records) * 100) : 0,
+    libraries: {
+      total: minifiedLibraries.records,
+      vulnerable: Object.values(librariesBySeverity).reduce((sum, count) => sum + count, 0),
+      bySeverity: librariesBySeverity
+    }
+  };
+}
+
 const StatisticsCard: React.FC<StatisticsCardProps> = ({
   networkRequests,
   consoleErrors,
@@ -63,7 +114,9 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
   totalRequests,
   totalErrors,
   totalTokenEvents,
-  onRefreshAnalysisData
+  onRefreshAnalysisData,
+  sourceFilter = SOURCE_ALL,
+  sessionIds
 }) => {
   // Debug mode: Add mock data for testing charts
   const DEBUG_MODE = false; // Set to false to disable debug data
@@ -126,11 +179,13 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
     networkRequests: any[];
     consoleErrors: any[];
     tokenEvents: any[];
+    aggregates: StorageAggregates | null; // Only for unscoped data; sessions and HAR sources still use the sample
     loaded: boolean;
   }>({
     networkRequests: [],
     consoleErrors: [],
     tokenEvents: [],
+    aggregates: null,
     loaded: false
   });
   
@@ -143,14 +198,16 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
     try {
       const response = await chrome.runtime.sendMessage({ 
         action: 'getAnalysisData',
-        limit
+        limit,
+        sessionIds
       });
       
       if (response?.success && response?.data) {
         setAnalysisData({
-          networkRequests: response.data.networkRequests || [],
+          networkRequests: (response.data.networkRequests || []).filter((request: { import_id?: string }) => matchesImportSource(request, sourceFilter)),
           consoleErrors: response.data.consoleErrors || [],
           tokenEvents: response.data.tokenEvents || [],
+          aggregates: sourceFilter === SOURCE_ALL ? response.data.aggregates || null : null,
           loaded: true
         });
         console.log('✅ Analysis data loaded:', {
@@ -165,20 +222,51 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
     } catch (error) {
       console.error('❌ Error loading analysis data:', error);
     }
-  }, [analysisLimit]);
+  }, [analysisLimit, sourceFilter, sessionIds]);
+
+  // Timeline charts read minute/hour/day rollups covering all live traffic; sessions and HAR
+  // imports are not rolled up, so scoped views keep bucketing the sample
+  const rollupsAvailable = sourceFilter === SOURCE_ALL && !sessionIds?.length;
+  const [timelineRange, setTimelineRange] = useState<number>(TIMELINE_RANGES[1].ms);
+  const [timelines, setTimelines] = useState<Record<RollupSource, RollupSeries | null>>({ apiCalls: null, consoleErrors: null });
+
+  const loadTimelines = useCallback(async () => {
+    if (!rollupsAvailable) {
+      setTimelines({ apiCalls: null, consoleErrors: null });
+      return;
+    }
+    const to = Date.now();
+    const from = to - timelineRange;
+    try {
+      const [requests, errors] = await Promise.all((['apiCalls', 'consoleErrors'] as RollupSource[]).map(source =>
+        chrome.runtime.sendMessage({ action: 'getRollups', query: { source, from, to } })
+      ));
+      setTimelines({
+        apiCalls: requests?.success ? requests.series : null,
+        consoleErrors: errors?.success ? errors.series : null
+      });
+    } catch (error) {
+      console.error('❌ Error loading timeline rollups:', error);
+    }
+  }, [rollupsAvailable, timelineRange]);
 
   // Load analysis data on component mount and when limit changes
   useEffect(() => {
     loadAnalysisData();
   }, [loadAnalysisData]);
 
+  useEffect(() => {
+    loadTimelines();
+  }, [loadTimelines]);
+
   // Refresh analysis data when parent requests it
   useEffect(() => {
     if (onRefreshAnalysisData) {
       // Refresh analysis data when requested
       loadAnalysisData();
+      loadTimelines();
     }
-  }, [onRefreshAnalysisData, loadAnalysisData]);
+  }, [onRefreshAnalysisData, loadAnalysisData, loadTimelines]);
 
   // Chart definitions based on user requirements
   const chartDefinitions: ChartDefinitions = useMemo(() => ({
@@ -344,7 +432,7 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
 
       switch (chartKey) {
         case 'requests-over-time':
-          return <RequestsOverTimeChart {...chartData} />;
+          return <RequestsOverTimeChart {...chartData} rollups={timelines.apiCalls} />;
         case 'http-method-distribution':
           return <HttpMethodDistributionChart {...chartData} />;
         case 'status-code-breakdown':
@@ -356,9 +444,9 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
         case 'top-frequent-errors':
           return <TopFrequentErrorsChart {...chartData} />;
         case 'error-frequency-over-time':
-          return <ErrorFrequencyOverTimeChart {...chartData} />;
+          return <ErrorFrequencyOverTimeChart {...chartData} rollups={timelines.consoleErrors} />;
         case 'latency-over-time':
-          return <LatencyOverTimeChart {...chartData} />;
+          return <LatencyOverTimeChart {...chartData} rollups={timelines.apiCalls} />;
         case 'traffic-by-endpoint':
           return <TrafficByEndpointChart {...chartData} />;
         case 'method-usage-daily':
@@ -413,6 +501,10 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
 
   // Calculate global statistics
   const globalStats: GlobalStats = useMemo(() => {
+    if (analysisData.aggregates) {
+      return globalStatsFromAggregates(analysisData.aggregates);
+    }
+
     // Use analysis data for statistics calculations if available, otherwise fall back to current page data
     const useAnalysisData = analysisData.loaded && analysisData.networkRequests.length > 0;
     
@@ -481,19 +573,7 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
 
     // Tokens by type
     const tokensByType = effectiveTokenEvents.reduce((acc, token) => {
-      // Analyze token event to determine type
-      const url = (token.url || token.source_url || '').toLowerCase();
-      const method = (token.method || token.request_method || '').toUpperCase();
-      
-      let type = 'Access Token';
-      if (url.includes('/refresh') || method === 'POST' && url.includes('/token')) {
-        type = 'Refresh Token';
-      } else if (url.includes('/login') || url.includes('/signin')) {
-        type = 'Login Token';
-      } else if (token.headers && (token.headers['x-api-key'] || token.headers['X-API-Key'])) {
-        type = 'API Key';
-      }
-      
+      const type = tokenEventFlow({ ...token, method: token.method || token.request_method });
       acc[type] = (acc[type] || 0) + 1;
       return acc;
     }, {} as { [type: string]: number });
@@ -610,7 +690,18 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
         metric: type,
         value: count,
         category: 'Auth'
-      }))
+      })),
+
+      // Security category metrics (library inventory, only known from the running totals)
+      ...(globalStats.libraries ? [
+        { metric: 'Detected Libraries', value: globalStats.libraries.total, category: 'Security' },
+        { metric: 'Vulnerable Libraries', value: globalStats.libraries.vulnerable, category: 'Security' },
+        ...Object.entries(globalStats.libraries.bySeverity).map(([severity, count]) => ({
+          metric: `${severity.toUpperCase()} Severity Libraries`,
+          value: count,
+          category: 'Security'
+        }))
+      ] : [])
     ];
 
     return stats.sort((a, b) => {
@@ -770,6 +861,7 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
                               stat.category === 'Network' ? 'bg-green-100 text-green-800' :
                               stat.category === 'Console' ? 'bg-red-100 text-red-800' :
                               stat.category === 'Auth' ? 'bg-yellow-100 text-yellow-800' :
+                              stat.category === 'Security' ? 'bg-purple-100 text-purple-800' :
                               'bg-blue-100 text-blue-800'
                             }`}>
                               {stat.category}
@@ -825,6 +917,21 @@ const StatisticsCard: React.FC<StatisticsCardProps> = ({
                       </select>
                       <span className="hidden md:inline text-xs text-gray-500">Larger samples may increase memory usage</span>
                     </div>
+                    {rollupsAvailable && (
+                      <div className="flex items-center gap-2">
+                        <label className="text-sm text-gray-600">Timeline range</label>
+                        <select
+                          value={timelineRange}
+                          onChange={(e) => setTimelineRange(Number(e.target.value))}
+                          className="border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          title="Time-series charts read pre-aggregated rollups of all live traffic in this range"
+                        >
+                          {TIMELINE_RANGES.map(range => (
+                            <option key={range.ms} value={range.ms}>{range.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                   </div>
 
                   {showAllCharts ? (
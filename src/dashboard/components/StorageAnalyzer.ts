@@ -375,7 +375,7 @@ export class StorageAnalyzer {
       case 'consoleErrors':
         return record.severity || 'error';
       case 'tokenEvents':
-        return record.type || 'unknown';
+        return record.kind || 'unknown';
       case 'minifiedLibraries':
         return record.name || 'unknown';
       default:
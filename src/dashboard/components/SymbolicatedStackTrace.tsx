@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react'
+import type { SymbolicatedFrame } from '../../background/source-maps'
+
+// Last path segments are enough to recognise a source file; the full URL is in the tooltip
+const shortSource = (source: string): string => {
+  const path = source.replace(/^[a-z-]+:\/\/[^/]*/i, '').replace(/^\/+/, '')
+  const parts = path.split('/').filter(part => part !== '' && part !== '.')
+  return parts.slice(-3).join('/') || source
+}
+
+// Stack frames mapped back to original sources through the scripts' source maps, raw frame alongside
+export const SymbolicatedStackTrace: React.FC<{ stack: string }> = ({ stack }) => {
+  const [frames, setFrames] = useState<SymbolicatedFrame[] | null>(null)
+  const [status, setStatus] = useState<'loading' | 'done' | 'unavailable'>('loading')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setStatus('loading')
+    chrome.runtime.sendMessage({ action: 'symbolicateStack', stack }).then((response) => {
+      if (cancelled) return
+      if (response?.success) {
+        setFrames(response.frames)
+        setStatus('done')
+      } else {
+        setMessage(response?.reason || response?.error || 'Source maps could not be resolved')
+        setStatus('unavailable')
+      }
+    }).catch((error) => {
+      console.error('Failed to symbolicate stack trace:', error)
+      if (!cancelled) {
+        setMessage(error instanceof Error ? error.message : String(error))
+        setStatus('unavailable')
+      }
+    })
+    return () => { cancelled = true }
+  }, [stack])
+
+  if (status === 'loading') {
+    return <div className="text-xs text-gray-500 py-2">Resolving source maps...</div>
+  }
+
+  if (status === 'unavailable' || !frames) {
+    return <div className="text-xs text-gray-500 py-2">{message}</div>
+  }
+
+  const mappedCount = frames.filter(frame => frame.original).length
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500">
+        {mappedCount} of {frames.filter(frame => frame.url).length} frames mapped to original sources
+      </p>
+      <div className="bg-gray-50 p-3 rounded border overflow-y-auto max-h-96 space-y-2">
+        {frames.map((frame, index) => (
+          <div key={index} className="text-xs font-mono">
+            {frame.original ? (
+              <div className="text-gray-900" title={frame.original.source}>
+                <span className="text-gray-400">at </span>
+                <span className="font-semibold text-blue-700">{frame.original.name || frame.functionName || '<anonymous>'}</span>
+                {' '}
+                <span>({shortSource(frame.original.source)}:{frame.original.line}:{frame.original.column})</span>
+              </div>
+            ) : null}
+            <div
+              className={frame.original ? 'ml-4 text-gray-400 break-all' : 'text-gray-700 break-all'}
+              title={frame.note}
+            >
+              {frame.raw.trim()}
+              {frame.note && <span className="ml-2 font-sans italic text-gray-400">— {frame.note}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
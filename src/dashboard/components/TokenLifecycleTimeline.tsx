@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import type { CredentialKind, TokenLifecycle, TokenLifecycleState } from '../../background/token-lifecycle'
+
+const LIFECYCLE_LIMIT = 500
+
+const CREDENTIAL_LABELS: Record<CredentialKind, string> = {
+  authorization: 'Authorization header',
+  cookie: 'Session cookie',
+  api_key: 'API key'
+}
+
+const STATE_STYLES: Record<TokenLifecycleState, string> = {
+  active: 'bg-green-100 text-green-800',
+  refreshed: 'bg-blue-100 text-blue-800',
+  expired: 'bg-red-100 text-red-800'
+}
+
+const formatDuration = (ms: number): string => {
+  const abs = Math.abs(ms)
+  if (abs < 60 * 1000) return `${Math.round(abs / 1000)}s`
+  if (abs < 60 * 60 * 1000) return `${Math.round(abs / 60 / 1000)}m`
+  if (abs < 24 * 60 * 60 * 1000) return `${(abs / 60 / 60 / 1000).toFixed(1)}h`
+  return `${(abs / 24 / 60 / 60 / 1000).toFixed(1)}d`
+}
+
+const timeToExpiry = (lifecycle: TokenLifecycle, now: number): string => {
+  if (lifecycle.expires_at === undefined) return '—'
+  const remaining = lifecycle.expires_at - now
+  return remaining > 0 ? `in ${formatDuration(remaining)}` : `${formatDuration(remaining)} ago`
+}
+
+// Median time between one credential and its replacement along a chain
+const refreshCadence = (chain: TokenLifecycle[]): number | null => {
+  const intervals = chain
+    .slice(1)
+    .map((lifecycle, index) => lifecycle.first_seen - chain[index].first_seen)
+    .filter(interval => interval > 0)
+    .sort((a, b) => a - b)
+  if (intervals.length === 0) return null
+  const middle = Math.floor(intervals.length / 2)
+  return intervals.length % 2 ? intervals[middle] : (intervals[middle - 1] + intervals[middle]) / 2
+}
+
+// Follows previous/replaced_by links into chains, oldest credential first
+const buildChains = (lifecycles: TokenLifecycle[]): TokenLifecycle[][] => {
+  const byFingerprint = new Map(lifecycles.map(lifecycle => [lifecycle.fingerprint, lifecycle]))
+  const chains: TokenLifecycle[][] = []
+  for (const lifecycle of lifecycles) {
+    // Start only at chain heads; a previous credential outside the loaded window also counts as a head
+    if (lifecycle.previous && byFingerprint.has(lifecycle.previous)) continue
+    const chain = [lifecycle]
+    const seen = new Set([lifecycle.fingerprint])
+    let next = lifecycle.replaced_by ? byFingerprint.get(lifecycle.replaced_by) : undefined
+    while (next && !seen.has(next.fingerprint)) {
+      chain.push(next)
+      seen.add(next.fingerprint)
+      next = next.replaced_by ? byFingerprint.get(next.replaced_by) : undefined
+    }
+    chains.push(chain)
+  }
+  return chains.sort((a, b) => b[b.length - 1].last_seen - a[a.length - 1].last_seen)
+}
+
+// Credentials seen per domain, grouped into refresh chains with use counts and expiry
+export const TokenLifecycleTimeline: React.FC = () => {
+  const [lifecycles, setLifecycles] = useState<TokenLifecycle[]>([])
+  const [loading, setLoading] = useState(false)
+  const [now, setNow] = useState(Date.now())
+
+  const loadLifecycles = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getTokenLifecycles', query: { limit: LIFECYCLE_LIMIT } })
+      if (response?.success) {
+        setLifecycles(response.lifecycles)
+        setNow(Date.now())
+      } else {
+        console.error('Failed to load token lifecycles:', response?.error)
+      }
+    } catch (error) {
+      console.error('Failed to load token lifecycles:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLifecycles()
+  }, [loadLifecycles])
+
+  useEffect(() => {
+    const handleMessage = (message: { type?: string; dataType?: string }) => {
+      if (message.type === 'DATA_UPDATED' && message.dataType === 'token_event') {
+        loadLifecycles()
+      }
+    }
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [loadLifecycles])
+
+  const domains = useMemo(() => {
+    const groups = new Map<string, TokenLifecycle[]>()
+    for (const lifecycle of lifecycles) {
+      const group = groups.get(lifecycle.main_domain) || []
+      group.push(lifecycle)
+      groups.set(lifecycle.main_domain, group)
+    }
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([domain, group]) => ({ domain, chains: buildChains(group) }))
+  }, [lifecycles])
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-md font-semibold text-gray-900">
+          Token Lifecycles ({lifecycles.length} credentials across {domains.length} domains)
+        </h3>
+        <button
+          onClick={loadLifecycles}
+          disabled={loading}
+          className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {domains.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">
+          No credentials seen yet. Requests carrying an Authorization header, API key or session cookie are tracked while token logging is on.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {domains.map(({ domain, chains }) => (
+            <div key={domain} className="border border-gray-200 rounded">
+              <div className="px-4 py-2 bg-gray-50 text-sm font-medium text-gray-900">{domain}</div>
+              <div className="divide-y divide-gray-200">
+                {chains.map(chain => {
+                  const cadence = refreshCadence(chain)
+                  return (
+                    <div key={chain[0].fingerprint} className="px-4 py-3">
+                      <div className="flex justify-between text-xs text-gray-500 mb-2">
+                        <span>
+                          {CREDENTIAL_LABELS[chain[0].credential] || chain[0].credential}
+                          {' · '}{chain.length} {chain.length === 1 ? 'credential' : 'credentials'}
+                        </span>
+                        <span>Refresh cadence: {cadence === null ? '—' : `every ${formatDuration(cadence)}`}</span>
+                      </div>
+                      <ol className="space-y-1">
+                        {chain.map(lifecycle => (
+                          <li key={lifecycle.fingerprint} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-700">
+                            <span className={`px-2 py-0.5 rounded-full ${STATE_STYLES[lifecycle.state]}`}>{lifecycle.state}</span>
+                            <span className="font-mono text-gray-500" title={lifecycle.fingerprint}>{lifecycle.fingerprint.slice(0, 12)}</span>
+                            {lifecycle.issued_at !== undefined && (
+                              <span>Issued {new Date(lifecycle.issued_at).toLocaleString()} via {lifecycle.issued_by}</span>
+                            )}
+                            <span>
+                              Seen {new Date(lifecycle.first_seen).toLocaleString()} → {new Date(lifecycle.last_seen).toLocaleString()}
+                            </span>
+                            <span>{lifecycle.uses} uses</span>
+                            {lifecycle.rejections > 0 && <span className="text-red-700">{lifecycle.rejections} rejected</span>}
+                            <span>Expires: {timeToExpiry(lifecycle, now)}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import type { WebSocketConnection, WebSocketFrame } from '../../background/storage-types'
+
+const CONNECTIONS_PER_PAGE = 25
+
+// RFC 6455 close codes most often seen in practice
+const CLOSE_CODE_LABELS: Record<number, string> = {
+  1000: 'Normal closure',
+  1001: 'Going away',
+  1002: 'Protocol error',
+  1003: 'Unsupported data',
+  1005: 'No status received',
+  1006: 'Abnormal closure',
+  1007: 'Invalid payload',
+  1008: 'Policy violation',
+  1009: 'Message too big',
+  1011: 'Internal server error',
+  1012: 'Service restart',
+  1013: 'Try again later',
+  1015: 'TLS handshake failure'
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+const FrameTimeline: React.FC<{ connection: WebSocketConnection }> = ({ connection }) => {
+  const [frames, setFrames] = useState<WebSocketFrame[] | null>(null)
+  const [expandedFrameId, setExpandedFrameId] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    chrome.runtime.sendMessage({ action: 'getWebSocketFrames', connectionId: connection.id }).then((response) => {
+      if (!cancelled) setFrames(response?.success ? response.frames : [])
+    }).catch((error) => {
+      console.error('Failed to load WebSocket frames:', error)
+      if (!cancelled) setFrames([])
+    })
+    return () => { cancelled = true }
+  }, [connection.id, connection.frames_sent, connection.frames_received])
+
+  if (frames === null) {
+    return <div className="text-sm text-gray-500 py-2">Loading frames...</div>
+  }
+
+  if (frames.length === 0) {
+    return <div className="text-sm text-gray-500 py-2">No frames recorded for this connection</div>
+  }
+
+  return (
+    <div className="max-h-96 overflow-y-auto border-l-2 border-gray-200 ml-2 pl-4 space-y-1">
+      {frames.map((frame, index) => {
+        const frameKey = frame.id ?? index
+        const isExpanded = expandedFrameId === frameKey
+        const preview = frame.data.length > 160 && !isExpanded ? `${frame.data.substring(0, 160)}...` : frame.data
+        return (
+          <div key={frameKey} className="flex items-start space-x-3 text-xs">
+            <span className="text-gray-400 font-mono w-16 flex-shrink-0 text-right">
+              +{formatDuration(Math.max(0, frame.timestamp - connection.timestamp))}
+            </span>
+            <span
+              className={`w-5 flex-shrink-0 font-bold ${frame.direction === 'sent' ? 'text-blue-600' : 'text-green-600'}`}
+              title={frame.direction === 'sent' ? 'Sent by the page' : 'Received from the server'}
+            >
+              {frame.direction === 'sent' ? '↑' : '↓'}
+            </span>
+            <span className="w-14 flex-shrink-0 text-gray-500">{formatBytes(frame.size)}</span>
+            <div className="flex-1 min-w-0">
+              <pre
+                className={`whitespace-pre-wrap break-all font-mono cursor-pointer ${frame.opcode === 'binary' ? 'text-gray-400 italic' : 'text-gray-800'}`}
+                onClick={() => setExpandedFrameId(isExpanded ? null : frameKey)}
+              >
+                {preview}
+              </pre>
+              {frame.truncated && (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">truncated</span>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// WebSocket connections captured by the main-world interceptor, with an expandable frame timeline per connection
+export const WebSocketConnectionsTable: React.FC = () => {
+  const [connections, setConnections] = useState<WebSocketConnection[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadConnections = useCallback(async (pageNumber: number) => {
+    setLoading(true)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getWebSocketConnections',
+        limit: CONNECTIONS_PER_PAGE,
+        offset: (pageNumber - 1) * CONNECTIONS_PER_PAGE
+      })
+      if (response?.success) {
+        setConnections(response.connections)
+        setTotal(response.total)
+      } else {
+        console.error('Failed to load WebSocket connections:', response?.error)
+      }
+    } catch (error) {
+      console.error('Failed to load WebSocket connections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadConnections(page)
+  }, [page, loadConnections])
+
+  // Connection snapshots are pushed on open/close
+  useEffect(() => {
+    const handleMessage = (message: { type?: string; dataType?: string }) => {
+      if (message.type === 'DATA_UPDATED' && message.dataType === 'websocket') {
+        loadConnections(page)
+      }
+    }
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [page, loadConnections])
+
+  const totalPages = Math.max(1, Math.ceil(total / CONNECTIONS_PER_PAGE))
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">WebSocket Connections ({total})</h2>
+        <button
+          onClick={() => loadConnections(page)}
+          disabled={loading}
+          className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {connections.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          No WebSocket connections captured yet
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">URL</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Frames ↑ / ↓</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bytes ↑ / ↓</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {connections.map((connection) => (
+                <React.Fragment key={connection.id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === connection.id ? null : connection.id)}
+                  >
+                    <td className="px-6 py-4 text-sm text-gray-900 max-w-md">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-gray-400">{expandedId === connection.id ? '▾' : '▸'}</span>
+                        <span className="truncate" title={connection.url}>{connection.url}</span>
+                      </div>
+                      {connection.protocol && (
+                        <div className="text-xs text-gray-500 ml-5">Protocol: {connection.protocol}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {connection.status === 'open' ? (
+                        <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Open</span>
+                      ) : (
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full ${
+                            connection.was_clean && !connection.had_error ? 'bg-gray-100 text-gray-800' : 'bg-red-100 text-red-800'
+                          }`}
+                          title={connection.close_reason || undefined}
+                        >
+                          Closed {connection.close_code}
+                          {connection.close_code !== undefined && CLOSE_CODE_LABELS[connection.close_code] ? ` · ${CLOSE_CODE_LABELS[connection.close_code]}` : ''}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(connection.timestamp).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {connection.closed_at ? formatDuration(connection.closed_at - connection.timestamp) : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {connection.frames_sent} / {connection.frames_received}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatBytes(connection.bytes_sent)} / {formatBytes(connection.bytes_received)}
+                    </td>
+                  </tr>
+                  {expandedId === connection.id && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                        {connection.status === 'open' && (
+                          <p className="text-xs text-gray-500 mb-2">Frame counts are updated when the connection closes.</p>
+                        )}
+                        <FrameTimeline connection={connection} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>Page {page} of {totalPages}</span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
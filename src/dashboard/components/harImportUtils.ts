@@ -0,0 +1,18 @@
+// HAR import helpers shared by the dashboard tables and statistics
+
+export interface HarImportInfo {
+  id: string;
+  name: string;
+  importedAt: number;
+  entryCount: number;
+}
+
+// Source filter values: 'all', 'live' (captured by the extension) or a HAR import id
+export const SOURCE_ALL = 'all';
+export const SOURCE_LIVE = 'live';
+
+export function matchesImportSource(record: { import_id?: string }, source: string): boolean {
+  if (source === SOURCE_ALL) return true;
+  if (source === SOURCE_LIVE) return !record.import_id;
+  return record.import_id === source;
+}
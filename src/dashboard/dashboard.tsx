@@ -1,9 +1,20 @@
 ﻿// src/dashboard/dashboard.tsx
 // This file contains the React component for the Chrome extension dashboard.
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import StatisticsCard from './components/StatisticsCard';
 import { PerformanceMonitoringDashboard } from './components/PerformanceMonitoringDashboard';
+import { WebSocketConnectionsTable } from './components/WebSocketConnectionsTable';
+import { LibraryInventoryTable } from './components/LibraryInventoryTable';
+import { TokenLifecycleTimeline } from './components/TokenLifecycleTimeline';
+import { JwtInspectorPanel } from './components/JwtInspectorPanel';
+import { SymbolicatedStackTrace } from './components/SymbolicatedStackTrace';
+import type { IssuedToken } from '../background/token-responses';
+import { API_CALL_SORT_KEYS, TOKEN_CREDENTIAL_KINDS, TOKEN_EVENT_KINDS, type ApiCallQuery, type ApiTransport, type TokenCredentialKind, type TokenEventKind } from '../background/storage-types';
+import { HarExportButton } from './components/HarExportButton';
+import { SessionControls } from './components/SessionControls';
+import { HarImportControls } from './components/HarImportControls';
+import { SOURCE_ALL, SOURCE_LIVE, type HarImportInfo } from './components/harImportUtils';
 
 // MEMORY LEAK FIX: Centralized Chrome message handler to prevent response accumulation
 const sendChromeMessage = async (message: any): Promise<any> => {
@@ -44,6 +55,7 @@ interface DashboardData {
   totalErrors: number;
   tokenEvents: any[];
   totalTokenEvents: number;
+  totalWebSocketConnections: number;
 }
 
 interface SortConfig {
@@ -63,6 +75,19 @@ interface TabLoggingStatus {
 }
 
 // Detail Content Components
+// Shows whether a body came from the page's fetch/XHR hook or from the chrome.debugger full capture
+const BodySourceBadge: React.FC<{ source?: string }> = ({ source }) => (
+  source === 'debugger' ? (
+    <span className="inline-block px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-800" title="Captured through the Chrome DevTools Protocol (full body capture mode)">
+      CDP
+    </span>
+  ) : (
+    <span className="inline-block px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700" title="Captured by the in-page fetch/XHR hook (subject to the max body size)">
+      Page hook
+    </span>
+  )
+);
+
 const RequestDetailContent: React.FC<{ request: any; selectedField: string }> = ({ request, selectedField }) => {
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -113,6 +138,11 @@ const RequestDetailContent: React.FC<{ request: any; selectedField: string }> =
               }`}>
                 {request.status || 'N/A'}
               </span>
+              {request.failure_reason && (
+                <span className="inline-block px-2 py-1 text-xs rounded-full ml-2 bg-orange-100 text-orange-800">
+                  {request.failure_reason}{request.error_class ? ` · ${request.error_class}` : ''}
+                </span>
+              )}
             </div>
             {request.payload_size && (
               <div>
@@ -136,6 +166,18 @@ const RequestDetailContent: React.FC<{ request: any; selectedField: string }> =
                 <p className="text-sm text-gray-900 mt-1">{request.tab_id}</p>
               </div>
             )}
+            {Array.isArray(request.redacted_fields) && request.redacted_fields.length > 0 && (
+              <div>
+                <span className="text-sm font-medium text-gray-700">Redacted Fields:</span>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {request.redacted_fields.map((field: string) => (
+                    <span key={field} className="inline-block px-2 py-1 text-xs rounded-full bg-purple-100 text-purple-800 font-mono">
+                      {field}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -454,7 +496,10 @@ const RequestDetailContent: React.FC<{ request: any; selectedField: string }> =
         {requestBody && (
           <div>
             <div className="flex items-center justify-between mb-3">
-              <h3 className="text-sm font-semibold text-gray-900">Request Body</h3>
+              <div className="flex items-center space-x-2">
+                <h3 className="text-sm font-semibold text-gray-900">Request Body</h3>
+                {!request.import_id && <BodySourceBadge source={request.request_body_source} />}
+              </div>
               <div className="flex space-x-2">
                 <button
                   onClick={() => copyToClipboard(typeof requestBody === 'string' ? prettyPrintIfJson(requestBody) : formatJSON(requestBody))}
@@ -490,6 +535,7 @@ const RequestDetailContent: React.FC<{ request: any; selectedField: string }> =
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center space-x-2">
                 <h3 className="text-sm font-semibold text-gray-900">Response Body</h3>
+                {!isStatusOnlyResponse(responseBody) && !request.import_id && <BodySourceBadge source={request.response_body_source} />}
                 {isStatusOnlyResponse(responseBody) && (
                   <div className="relative group">
                     <div className="w-4 h-4 bg-yellow-100 border border-yellow-300 rounded-full flex items-center justify-center cursor-help">
@@ -665,10 +711,11 @@ const ErrorDetailContent: React.FC<{ error: any; selectedField: string }> = ({ e
         </div>
         
         {(error.stack_trace || error.stack) ? (
-          <div className="text-sm text-gray-500">
-            <details className="cursor-pointer" open>
+          <div className="text-sm text-gray-500 space-y-3">
+            <SymbolicatedStackTrace stack={error.stack_trace || error.stack} />
+            <details className="cursor-pointer">
               <summary className="text-blue-600 hover:text-blue-800 font-medium mb-2">
-                View Full Stack Trace
+                View Raw Stack Trace
               </summary>
               <pre className="mt-2 whitespace-pre-wrap text-xs bg-gray-50 p-4 rounded border overflow-y-auto max-h-96 font-mono">
                 {error.stack_trace || error.stack}
@@ -687,9 +734,50 @@ const ErrorDetailContent: React.FC<{ error: any; selectedField: string }> = ({ e
   return <div className="text-gray-500">No data available for selected field.</div>;
 };
 
-// Enhanced token event analysis utilities
+// Tables in the dashboard carousel, in display order
+const TABLE_NAMES = ['Network Requests', 'Console Errors', 'Token Events', 'Performance Monitoring', 'WebSockets', 'Libraries'];
+const TABLE_ICONS = ['🌐', '❌', '🔑', '📊', '🔌', '📦'];
+const TABLE_DESCRIPTIONS = [
+  'Global requests from all tabs (Popup shows current tab only)',
+  'JavaScript errors and warnings from monitored tabs',
+  'Token detection and authentication events',
+  '',
+  'WebSocket connections and their sent/received frames',
+  'Third-party libraries detected on each domain'
+];
+
+// Delay between the last keystroke in the request search box and the query it triggers
+const SEARCH_DEBOUNCE_MS = 250;
+
+const TOKEN_EVENT_KIND_BADGES: Record<TokenEventKind, { label: string; className: string }> = {
+  acquire: { label: '🔐 Acquire', className: 'bg-purple-100 text-purple-800' },
+  refresh: { label: '🔄 Refresh', className: 'bg-blue-100 text-blue-800' },
+  refresh_error: { label: '❌ Refresh Error', className: 'bg-red-100 text-red-800' },
+  revoke: { label: '🚫 Revoke', className: 'bg-orange-100 text-orange-800' },
+  logout: { label: '🔒 Logout', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: '⏰ Expired', className: 'bg-red-100 text-red-800' }
+};
+
+const TOKEN_CREDENTIAL_BADGES: Record<TokenCredentialKind, { label: string; className: string }> = {
+  jwt_access: { label: '🎫 JWT Access Token', className: 'bg-purple-100 text-purple-800' },
+  opaque_access: { label: 'Opaque Access Token', className: 'bg-blue-100 text-blue-800' },
+  refresh_token: { label: 'Refresh Token', className: 'bg-cyan-100 text-cyan-800' },
+  id_token: { label: 'ID Token', className: 'bg-emerald-100 text-emerald-800' },
+  session_cookie: { label: '🍪 Session Cookie', className: 'bg-green-100 text-green-800' },
+  api_key: { label: 'API Key', className: 'bg-indigo-100 text-indigo-800' },
+  csrf: { label: 'CSRF Token', className: 'bg-red-100 text-red-800' },
+  basic: { label: 'Basic Auth', className: 'bg-orange-100 text-orange-800' },
+  unknown: { label: 'Unknown', className: 'bg-gray-100 text-gray-800' }
+};
+
+const tokenEventKindBadge = (kind: string) =>
+  TOKEN_EVENT_KIND_BADGES[kind as TokenEventKind] || { label: kind || 'Unknown', className: 'bg-gray-100 text-gray-800' };
+
+const tokenCredentialBadge = (credential: string) =>
+  TOKEN_CREDENTIAL_BADGES[credential as TokenCredentialKind] || TOKEN_CREDENTIAL_BADGES.unknown;
+
+// Stored token event fields with fallbacks for older field names
 const analyzeTokenEvent = (event: any) => {
-  const url = (event.url || event.source_url || '').toLowerCase();
   const headers = (() => {
     try {
       if (event.headers) {
@@ -702,233 +790,9 @@ const analyzeTokenEvent = (event: any) => {
     }
   })();
   
-  // Enhanced event type detection based on comprehensive analysis
-  const getEventType = (): string => {
-    const method = (event.method || event.request_method || '').toUpperCase();
-    const status = event.status || event.response_status;
-    const responseBody = event.response_body || event.responseBody || '';
-    const requestBody = event.request_body || event.requestBody || '';
-    
-    // Check for Login events
-    if (method === 'POST' && (url.includes('/auth/login') || url.includes('/login') || url.includes('/signin'))) {
-      // Successful login (200) or token acquisition
-      if (status >= 200 && status < 300) {
-        return 'Login';
-      }
-    }
-    
-    // Check for Logout events
-    if ((method === 'POST' || method === 'DELETE') && (url.includes('/auth/logout') || url.includes('/logout') || url.includes('/signout'))) {
-      return 'Logout';
-    }
-    
-    // Check for Token Refresh events
-    if (method === 'POST' && (url.includes('/auth/refresh') || url.includes('/refresh') || url.includes('/token'))) {
-      // Check if request body contains refresh_token grant type
-      if (requestBody.includes('grant_type') && requestBody.includes('refresh_token')) {
-        return 'Token Refresh';
-      }
-      // Or if it's a refresh endpoint
-      if (url.includes('refresh')) {
-        return 'Token Refresh';
-      }
-    }
-    
-    // Check for Expiry Check events
-    if (status === 401) {
-      // If there's a token present but request failed with 401
-      if (hasToken(headers)) {
-        return 'Expiry Check';
-      }
-    }
-    
-    // Check for silent token validation endpoints
-    if (method === 'GET' && (url.includes('/auth/validate') || url.includes('/auth/verify') || url.includes('/token/verify'))) {
-      return 'Expiry Check';
-    }
-    
-    // Check for token acquisition (successful auth responses with tokens)
-    if (event.type === 'acquire' || (status >= 200 && status < 300 && (
-      url.includes('/auth') || url.includes('/login') || url.includes('/token')
-    ))) {
-      // If response likely contains a token
-      if (responseBody.includes('token') || responseBody.includes('access_token') || responseBody.includes('jwt')) {
-        return 'Login';
-      }
-      return 'Login';
-    }
-    
-    // Check for Access events (using token to access protected routes)
-    if (hasToken(headers) && status >= 200 && status < 300) {
-      // If it's not an auth endpoint, it's likely accessing a protected resource
-      if (!url.includes('/auth') && !url.includes('/login') && !url.includes('/logout')) {
-        return 'Access';
-      }
-    }
-    
-    // Legacy fallbacks for backward compatibility
-    if (event.type === 'refresh_error') return 'Token Refresh';
-    if (url.includes('/auth/login') || url.includes('/login')) return 'Login';
-    if (url.includes('/auth/logout') || url.includes('/logout')) return 'Logout';
-    if (url.includes('/auth/refresh') || url.includes('/refresh')) return 'Token Refresh';
-    
-    // Default to Access if token is present, otherwise generic
-    return hasToken(headers) ? 'Access' : 'Token Event';
-  };
-
-  // Enhanced token type detection based on comprehensive analysis
-  const getTokenType = (): string => {
-    const authHeader = headers['authorization'] || headers['Authorization'] || '';
-    const cookieHeader = headers['cookie'] || headers['Cookie'] || '';
-    const csrfHeader = headers['x-csrf-token'] || headers['X-CSRF-Token'] || '';
-    const apiKeyHeader = headers['x-api-key'] || headers['X-API-Key'] || headers['api-key'] || '';
-    const contentType = headers['content-type'] || headers['Content-Type'] || '';
-    
-    // Helper function to check if token is JWT format
-    const isJwt = (token: string): boolean => token.split('.').length === 3;
-    
-    // Helper function to decode JWT header for additional analysis
-    const getJwtInfo = (token: string): any => {
-      try {
-        if (!isJwt(token)) return null;
-        const header = JSON.parse(atob(token.split('.')[0]));
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        return { header, payload };
-      } catch {
-        return null;
-      }
-    };
-    
-    // 0. Token Acquisition Analysis (for events where tokens are being acquired/issued)
-    if (event.type === 'acquire' || url.includes('/auth') || url.includes('/login') || url.includes('/signin') || url.includes('/token')) {
-      // Check for refresh token acquisition
-      if (url.includes('/refresh') || url.includes('/renew')) {
-        return 'Refresh Token (Acquired)';
-      }
-      
-      // Check for OAuth/OIDC endpoints
-      if (url.includes('/oauth') || url.includes('/oidc') || url.includes('/openid')) {
-        return 'OAuth Token (Acquired)';
-      }
-      
-      // Check for API key endpoints
-      if (url.includes('/api-key') || url.includes('/apikey') || url.includes('/key')) {
-        return 'API Key (Acquired)';
-      }
-      
-      // General authentication endpoint - likely access token
-      if (url.includes('/auth') || url.includes('/login') || url.includes('/signin')) {
-        // If response is JSON, likely JWT or structured token
-        if (contentType.includes('application/json')) {
-          return 'Access Token (Acquired)';
-        }
-        return 'Auth Token (Acquired)';
-      }
-      
-      // Generic token endpoint
-      if (url.includes('/token')) {
-        return 'Access Token (Acquired)';
-      }
-    }
-    
-    // 1. Bearer Token Analysis (for existing tokens in requests)
-    if (authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      
-      if (isJwt(token)) {
-        const jwtInfo = getJwtInfo(token);
-        
-        // ID Token detection (OIDC)
-        if (jwtInfo?.payload && ('sub' in jwtInfo.payload && 'email' in jwtInfo.payload || 'aud' in jwtInfo.payload)) {
-          return 'ID Token (JWT)';
-        }
-        
-        // Refresh Token (JWT format but used for refresh)
-        if (url.includes('/refresh') || url.includes('/token') || url.includes('/renew')) {
-          return 'Refresh Token (JWT)';
-        }
-        
-        // Access Token (JWT)
-        return 'Access Token (JWT)';
-      } else {
-        // Opaque Bearer tokens
-        if (url.includes('/refresh') || url.includes('/token') || url.includes('/renew')) {
-          return 'Refresh Token (Opaque)';
-        }
-        return 'Access Token (Opaque)';
-      }
-    }
-    
-    // 2. Basic Authentication
-    if (authHeader.startsWith('Basic ')) {
-      return 'Basic Auth';
-    }
-    
-    // 3. API Key Authentication
-    if (authHeader.startsWith('ApiKey ') || authHeader.startsWith('API-Key ')) {
-      return 'API Key';
-    }
-    
-    // 4. Custom API Key Headers
-    if (apiKeyHeader) {
-      const key = apiKeyHeader;
-      if (key.startsWith('sk_') || key.includes('proj_') || key.includes('key_')) {
-        return 'API Key';
-      }
-      return 'API Key';
-    }
-    
-    // 5. CSRF Token Detection
-    if (csrfHeader) {
-      return 'CSRF Token';
-    }
-    
-    // 6. Session Token Detection (Cookies)
-    if (cookieHeader) {
-      if (cookieHeader.includes('sessionid=') || 
-          cookieHeader.includes('session=') || 
-          cookieHeader.includes('JSESSIONID=') ||
-          cookieHeader.includes('PHPSESSID=') ||
-          cookieHeader.includes('ASP.NET_SessionId=')) {
-        return 'Session Token';
-      }
-      
-      // Access token in cookie
-      if (cookieHeader.includes('access_token=')) {
-        return 'Access Token (Cookie)';
-      }
-    }
-    
-    // 7. State Token Detection (usually in OAuth flows)
-    if (url.includes('state=') || headers['x-state-token']) {
-      return 'State Token';
-    }
-    
-    // 8. Custom Authorization schemes
-    if (authHeader && !authHeader.startsWith('Bearer ') && !authHeader.startsWith('Basic ')) {
-      const scheme = authHeader.split(' ')[0];
-      return `${scheme} Token`;
-    }
-    
-    // 9. Fallback for acquisition events without clear patterns
-    if (event.type === 'acquire') {
-      return 'Token (Acquired)';
-    }
-    
-    // Final fallback to event type or unknown
-    return event.token_type || 'Unknown';
-  };
-
-  // Check if token is present in headers
-  const hasToken = (headers: any): boolean => {
-    const authHeader = headers['authorization'] || headers['Authorization'] || '';
-    const cookieHeader = headers['cookie'] || headers['Cookie'] || '';
-    return !!(authHeader || cookieHeader || headers['x-api-key'] || headers['X-API-Key']);
-  };
-
   return {
-    type: getEventType(),
-    tokenType: getTokenType(),
+    kind: event.kind as TokenEventKind,
+    credential: event.credential as TokenCredentialKind,
     url: event.url || event.source_url,
     method: event.method || event.request_method || 'GET',
     status: event.status || event.response_status,
@@ -990,12 +854,12 @@ const TokenDetailContent: React.FC<{ tokenEvent: any; selectedField: string }> =
               <h4 className="text-sm font-medium text-gray-700 mb-2">Event Classification</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <span className="text-xs text-gray-500">Detected Type:</span>
-                  <p className="text-sm font-medium text-gray-900">{analysis.type}</p>
+                  <span className="text-xs text-gray-500">Event Kind:</span>
+                  <p className="text-sm font-medium text-gray-900">{tokenEventKindBadge(analysis.kind).label}</p>
                 </div>
                 <div>
-                  <span className="text-xs text-gray-500">Token Format:</span>
-                  <p className="text-sm font-medium text-gray-900">{analysis.tokenType}</p>
+                  <span className="text-xs text-gray-500">Credential:</span>
+                  <p className="text-sm font-medium text-gray-900">{tokenCredentialBadge(analysis.credential).label}</p>
                 </div>
               </div>
             </div>
@@ -1040,6 +904,39 @@ const TokenDetailContent: React.FC<{ tokenEvent: any; selectedField: string }> =
               </div>
             )}
 
+            {/* Tokens issued by the response */}
+            {(tokenEvent.issued_tokens?.length > 0 || tokenEvent.cleared_cookies?.length > 0) && (
+              <div className="border-b border-gray-200 pb-3">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Issued by Response</h4>
+                <div className="space-y-2">
+                  {(tokenEvent.issued_tokens || []).map((token: IssuedToken, index: number) => (
+                    <div key={index} className="text-xs text-gray-700 bg-gray-50 p-2 rounded">
+                      <p className="font-medium text-gray-900">
+                        {token.kind === 'cookie' ? `Cookie ${token.cookie?.name}` : token.kind}
+                        {token.token_type && ` (${token.token_type})`}
+                        {token.jwt && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">JWT</span>}
+                      </p>
+                      <p>Expires: {token.expires_at ? new Date(token.expires_at).toLocaleString() : token.kind === 'cookie' ? 'End of browser session' : 'Not stated'}</p>
+                      {token.scope && <p>Scope: {token.scope}</p>}
+                      {token.cookie && (
+                        <p>
+                          {[
+                            token.cookie.httpOnly ? 'HttpOnly' : 'readable by scripts',
+                            token.cookie.secure ? 'Secure' : 'not Secure',
+                            `SameSite=${token.cookie.sameSite || 'unset'}`,
+                            token.cookie.maxAge !== undefined ? `Max-Age=${token.cookie.maxAge}` : null
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {tokenEvent.cleared_cookies?.length > 0 && (
+                    <p className="text-xs text-gray-700">Cleared cookies: {tokenEvent.cleared_cookies.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Authentication Context */}
             <div>
               <h4 className="text-sm font-medium text-gray-700 mb-2">Authentication Context</h4>
@@ -1077,14 +974,24 @@ const Dashboard: React.FC = () => {
     consoleErrors: [],
     totalErrors: 0,
     tokenEvents: [],
-    totalTokenEvents: 0
+    totalTokenEvents: 0,
+    totalWebSocketConnections: 0
   });
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [requestsPerPage] = useState(10);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'timestamp', direction: 'desc' });
   const [filterMethod, setFilterMethod] = useState<string>('all');
+  const [filterTransport, setFilterTransport] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
+  // The search term the request query uses, trailing the input so typing doesn't run a query per keystroke
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState<string>('');
+  const [sourceFilter, setSourceFilter] = useState<string>(SOURCE_ALL);
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [harImports, setHarImports] = useState<HarImportInfo[]>([]);
+  const [matchingRequests, setMatchingRequests] = useState(0);
+  // Cursor that fetches each page of the current request query, keyed by page number
+  const requestPageCursors = useRef({ queryKey: '', cursors: new Map<number, string | null>() });
 
   // Console errors state
   const [currentErrorPage, setCurrentErrorPage] = useState(1);
@@ -1097,7 +1004,8 @@ const Dashboard: React.FC = () => {
   const [currentTokenPage, setCurrentTokenPage] = useState(1);
   const [tokenEventsPerPage] = useState(10);
   const [tokenSortConfig, setTokenSortConfig] = useState<SortConfig>({ key: 'timestamp', direction: 'desc' });
-  const [filterTokenType, setFilterTokenType] = useState<string>('all');
+  const [filterTokenKind, setFilterTokenKind] = useState<string>('all');
+  const [filterTokenCredential, setFilterTokenCredential] = useState<string>('all');
   const [tokenSearchTerm, setTokenSearchTerm] = useState<string>('');
 
   // Sidebar state
@@ -1117,21 +1025,14 @@ const Dashboard: React.FC = () => {
 
   // Carousel state for table navigation
   const [currentTableIndex, setCurrentTableIndex] = useState(0);
-  const tableNames = ['Network Requests', 'Console Errors', 'Token Events', 'Performance Monitoring'];
-  const tableIcons = ['🌐', '❌', '🔑', '📊'];
-  const tableDescriptions = [
-    'Global requests from all tabs (Popup shows current tab only)',
-    'JavaScript errors and warnings from monitored tabs',
-    'Token detection and authentication events'
-  ];
 
   // Carousel navigation functions
   const nextTable = () => {
-    setCurrentTableIndex((prev) => (prev + 1) % tableNames.length);
+    setCurrentTableIndex((prev) => (prev + 1) % TABLE_NAMES.length);
   };
 
   const prevTable = () => {
-    setCurrentTableIndex((prev) => (prev - 1 + tableNames.length) % tableNames.length);
+    setCurrentTableIndex((prev) => (prev - 1 + TABLE_NAMES.length) % TABLE_NAMES.length);
   };
 
   const goToTable = (index: number) => {
@@ -1167,30 +1068,47 @@ const Dashboard: React.FC = () => {
   const loadNetworkRequestsPage = useCallback(async (page: number, limit: number = 10) => {
     try {
       console.log(`🔄 Loading network requests page ${page} with limit ${limit}`)
-      const offset = (page - 1) * limit
-      const response = await sendChromeMessage({ 
-        action: 'getNetworkRequests', 
-        limit, 
-        offset 
-      })
+      // Search, filters and sort run in storage over every record; pages already visited are
+      // fetched again by the cursor the previous page returned, others by offset
+      const filters: ApiCallQuery = {
+        search: debouncedSearchTerm || undefined,
+        method: filterMethod === 'all' ? undefined : filterMethod,
+        transport: filterTransport === 'all' ? undefined : filterTransport as ApiTransport,
+        importId: sourceFilter === SOURCE_ALL ? undefined : sourceFilter === SOURCE_LIVE ? null : sourceFilter,
+        sessionIds: selectedSessionIds,
+        sortBy: API_CALL_SORT_KEYS.find(key => key === sortConfig.key) || 'timestamp',
+        sortDirection: sortConfig.direction,
+        limit
+      }
+      const queryKey = JSON.stringify(filters)
+      if (requestPageCursors.current.queryKey !== queryKey) {
+        requestPageCursors.current = { queryKey, cursors: new Map() }
+      }
+      const cursors = requestPageCursors.current.cursors
+      const cursor = cursors.get(page)
+      const query: ApiCallQuery = { ...filters, ...(cursor ? { cursor } : { offset: (page - 1) * limit }) }
+      const response = await sendChromeMessage({ action: 'queryApiCalls', query })
       
       console.log('📊 Network requests response:', response)
       
-      if (response?.success && response?.requests) {
+      if (response?.success && response?.records) {
+        cursors.set(page + 1, response.nextCursor)
+        const unfiltered = !query.search && !query.method && !query.transport && query.importId === undefined
         // Update only the data for the current page, discard previous page data
         setData(prevData => ({
           ...prevData,
-          networkRequests: response.requests,
-          totalRequests: response.total || 0
+          networkRequests: response.records,
+          totalRequests: unfiltered ? response.total || 0 : prevData.totalRequests
         }))
-        console.log(`✅ Loaded ${response.requests.length} network requests, total: ${response.total}`)
+        setMatchingRequests(response.total || 0)
+        console.log(`✅ Loaded ${response.records.length} network requests, total: ${response.total}`)
       } else {
-        console.warn('⚠️ Network requests response missing success/requests:', response)
+        console.warn('⚠️ Network requests response missing success/records:', response)
       }
     } catch (error) {
       console.error('❌ Error loading network requests page:', error)
     }
-  }, [])
+  }, [selectedSessionIds, debouncedSearchTerm, filterMethod, filterTransport, sourceFilter, sortConfig])
 
   const loadConsoleErrorsPage = useCallback(async (page: number, limit: number = 10) => {
     try {
@@ -1199,7 +1117,8 @@ const Dashboard: React.FC = () => {
       const response = await sendChromeMessage({ 
         action: 'getConsoleErrors', 
         limit, 
-        offset 
+        offset,
+        sessionIds: selectedSessionIds
       })
       
       console.log('📊 Console errors response:', response)
@@ -1218,7 +1137,7 @@ const Dashboard: React.FC = () => {
     } catch (error) {
       console.error('❌ Error loading console errors page:', error)
     }
-  }, [])
+  }, [selectedSessionIds])
 
   const loadTokenEventsPage = useCallback(async (page: number, limit: number = 10) => {
     try {
@@ -1227,7 +1146,8 @@ const Dashboard: React.FC = () => {
       const response = await sendChromeMessage({ 
         action: 'getTokenEvents', 
         limit, 
-        offset 
+        offset,
+        sessionIds: selectedSessionIds
       })
       
       console.log('📊 Token events response:', response)
@@ -1246,7 +1166,7 @@ const Dashboard: React.FC = () => {
     } catch (error) {
       console.error('❌ Error loading token events page:', error)
     }
-  }, [])
+  }, [selectedSessionIds])
 
   const loadDashboardData = useCallback(async () => {
     try {
@@ -1267,6 +1187,8 @@ const Dashboard: React.FC = () => {
       console.log('📊 Dashboard counts response:', countsResponse)
       
       // MEMORY LEAK FIX: Update only metadata and totals, preserve current page data
+      // While sessions are selected the page loaders report session-scoped totals instead
+      const sessionScoped = selectedSessionIds.length > 0
       setData(prevData => ({
         ...prevData, // Preserve current page data (networkRequests, consoleErrors, tokenEvents)
         totalTabs: tabs.length,
@@ -1275,9 +1197,10 @@ const Dashboard: React.FC = () => {
           ? new Date(storageData.lastActivity).toLocaleString()
           : 'Never',
         // Update only the totals from counts response
-        totalRequests: countsResponse?.data?.apiCalls || 0,
-        totalErrors: countsResponse?.data?.consoleErrors || 0,
-        totalTokenEvents: countsResponse?.data?.tokenEvents || 0
+        totalRequests: sessionScoped ? prevData.totalRequests : countsResponse?.data?.apiCalls || 0,
+        totalErrors: sessionScoped ? prevData.totalErrors : countsResponse?.data?.consoleErrors || 0,
+        totalTokenEvents: sessionScoped ? prevData.totalTokenEvents : countsResponse?.data?.tokenEvents || 0,
+        totalWebSocketConnections: countsResponse?.data?.webSocketConnections || 0
       }))
       
       console.log('✅ Dashboard: Metadata loaded successfully', {
@@ -1291,7 +1214,7 @@ const Dashboard: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, []); // Empty dependencies - function doesn't depend on any state/props
+  }, [selectedSessionIds]);
 
   // MEMORY LEAK FIX: Wrap loadTabsLoggingStatus in useCallback for stable reference
   const loadTabsLoggingStatus = useCallback(async () => {
@@ -1357,10 +1280,35 @@ const Dashboard: React.FC = () => {
     }
   }, []); // Empty dependencies - function doesn't depend on state/props
 
+  // Load metadata for HAR files imported into storage
+  const loadHarImports = useCallback(async () => {
+    const response = await sendChromeMessage({ action: 'getHarImports' });
+    if (response?.success) {
+      setHarImports(response.imports || []);
+    }
+  }, []);
+
   useEffect(() => {
     loadDashboardData();
     loadTabsLoggingStatus();
-  }, [loadDashboardData, loadTabsLoggingStatus]); // MEMORY LEAK FIX: Include all dependencies
+    loadHarImports();
+  }, [loadDashboardData, loadTabsLoggingStatus, loadHarImports]); // MEMORY LEAK FIX: Include all dependencies
+
+  // Fall back to all sources if the selected import was deleted
+  useEffect(() => {
+    if (sourceFilter !== SOURCE_ALL && sourceFilter !== SOURCE_LIVE && !harImports.some(info => info.id === sourceFilter)) {
+      setSourceFilter(SOURCE_ALL);
+    }
+  }, [harImports, sourceFilter]);
+
+  // Changing the session scope starts every table from its first page; token events are
+  // reloaded explicitly because their loader only runs while the previous total was non-zero
+  useEffect(() => {
+    setCurrentPage(1);
+    setCurrentErrorPage(1);
+    setCurrentTokenPage(1);
+    loadTokenEventsPage(1, tokenEventsPerPage);
+  }, [selectedSessionIds, loadTokenEventsPage, tokenEventsPerPage]);
 
   // MEMORY LEAK FIX: Load page data on-demand when page changes
   // Always load first page, then check totals for subsequent pages
@@ -1400,6 +1348,10 @@ const Dashboard: React.FC = () => {
           console.log('📡 DASHBOARD: Tab logging states changed, updating sidebar...');
           loadTabsLoggingStatus(); // Refresh the tab statuses
         }
+        
+        if (changes.harImports) {
+          loadHarImports();
+        }
       }
     };
 
@@ -1482,7 +1434,7 @@ const Dashboard: React.FC = () => {
         loadDashboardData();
         
         // Also refresh the current page data to show new entries immediately
-        const currentTableName = tableNames[currentTableIndex];
+        const currentTableName = TABLE_NAMES[currentTableIndex];
         if (message.dataType === 'network_request' && currentTableName === 'Network Requests') {
           console.log('🔄 DASHBOARD: Refreshing network requests page');
           loadNetworkRequestsPage(currentPage, requestsPerPage);
@@ -1507,7 +1459,7 @@ const Dashboard: React.FC = () => {
       }
       chrome.runtime.onMessage.removeListener(handleBackgroundMessages);
     };
-  }, [loadDashboardData, tableNames, currentTableIndex, currentPage, requestsPerPage, loadNetworkRequestsPage, currentErrorPage, errorsPerPage, loadConsoleErrorsPage, currentTokenPage, tokenEventsPerPage, loadTokenEventsPage]); // Include all dependencies
+  }, [loadDashboardData, currentTableIndex, currentPage, requestsPerPage, loadNetworkRequestsPage, currentErrorPage, errorsPerPage, loadConsoleErrorsPage, currentTokenPage, tokenEventsPerPage, loadTokenEventsPage]); // Include all dependencies
 
   const refreshData = async () => {
     setLoading(true);
@@ -1537,8 +1489,10 @@ const Dashboard: React.FC = () => {
           consoleErrors: [],
           totalErrors: 0,
           tokenEvents: [],
-          totalTokenEvents: 0
+          totalTokenEvents: 0,
+          totalWebSocketConnections: 0
         });
+        setMatchingRequests(0);
 
         setCurrentPage(1);
         
@@ -1577,64 +1531,14 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  // Calculate current page data with sorting and filtering
-  const getFilteredAndSortedRequests = () => {
-    let filteredRequests = [...data.networkRequests];
-    
-    // Apply search filter
-    if (searchTerm) {
-      filteredRequests = filteredRequests.filter(request =>
-        request.url.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (request.method && request.method.toLowerCase().includes(searchTerm.toLowerCase()))
-      );
-    }
-    
-    // Apply method filter
-    if (filterMethod !== 'all') {
-      filteredRequests = filteredRequests.filter(request => 
-        request.method && request.method.toLowerCase() === filterMethod.toLowerCase()
-      );
-    }
-    
-    // Apply sorting
-    filteredRequests.sort((a, b) => {
-      const aValue = a[sortConfig.key];
-      const bValue = b[sortConfig.key];
-      
-      if (sortConfig.key === 'timestamp') {
-        const aTime = new Date(aValue).getTime();
-        const bTime = new Date(bValue).getTime();
-        return sortConfig.direction === 'asc' ? aTime - bTime : bTime - aTime;
-      }
-      
-      if (sortConfig.key === 'status' || sortConfig.key === 'payload_size' || sortConfig.key === 'response_time') {
-        const aNum = Number(aValue) || 0;
-        const bNum = Number(bValue) || 0;
-        return sortConfig.direction === 'asc' ? aNum - bNum : bNum - aNum;
-      }
-      
-      // String comparison
-      const aStr = String(aValue || '').toLowerCase();
-      const bStr = String(bValue || '').toLowerCase();
-      if (aStr < bStr) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aStr > bStr) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
-    });
-    
-    return filteredRequests;
-  };
-
-  const filteredAndSortedRequests = getFilteredAndSortedRequests();
-  // Use database total for pagination, not filtered client-side count
-  const totalFilteredRequests = data.totalRequests || 0; // Server-side pagination total
+  // The loaded page is already searched, filtered and sorted by the query
+  const currentRequests = data.networkRequests;
+  const totalFilteredRequests = matchingRequests;
   const totalFilteredPages = Math.ceil(totalFilteredRequests / requestsPerPage);
   
   // Calculate display indices for pagination info
   const indexOfLastRequest = currentPage * requestsPerPage;
   const indexOfFirstRequest = indexOfLastRequest - requestsPerPage;
-  
-  // For display purposes, use the current page data directly (no client-side slicing needed)
-  const currentRequests = filteredAndSortedRequests; // Data is already paginated from server
 
   // Handle sorting
   const handleSort = (key: string) => {
@@ -1645,10 +1549,15 @@ const Dashboard: React.FC = () => {
     setCurrentPage(1); // Reset to first page when sorting
   };
 
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchTerm]);
+
   // Reset pagination when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, filterMethod]);
+  }, [debouncedSearchTerm, filterMethod, filterTransport, sourceFilter]);
 
   // Generate page numbers for pagination (Google-style)
   const getPageNumbers = () => {
@@ -1789,15 +1698,17 @@ const Dashboard: React.FC = () => {
     if (tokenSearchTerm) {
       filteredTokenEvents = filteredTokenEvents.filter(event =>
         event.url.toLowerCase().includes(tokenSearchTerm.toLowerCase()) ||
-        (event.type && event.type.toLowerCase().includes(tokenSearchTerm.toLowerCase()))
+        (event.kind && event.kind.toLowerCase().includes(tokenSearchTerm.toLowerCase())) ||
+        (event.credential && event.credential.toLowerCase().includes(tokenSearchTerm.toLowerCase()))
       );
     }
     
-    // Apply token type filter
-    if (filterTokenType !== 'all') {
-      filteredTokenEvents = filteredTokenEvents.filter(event => 
-        event.type && event.type.toLowerCase() === filterTokenType.toLowerCase()
-      );
+    // Apply event kind and credential filters
+    if (filterTokenKind !== 'all') {
+      filteredTokenEvents = filteredTokenEvents.filter(event => event.kind === filterTokenKind);
+    }
+    if (filterTokenCredential !== 'all') {
+      filteredTokenEvents = filteredTokenEvents.filter(event => event.credential === filterTokenCredential);
     }
     
     // Apply sorting
@@ -1867,7 +1778,7 @@ const Dashboard: React.FC = () => {
   // Reset token pagination when filters change
   useEffect(() => {
     setCurrentTokenPage(1);
-  }, [tokenSearchTerm, filterTokenType]);
+  }, [tokenSearchTerm, filterTokenKind, filterTokenCredential]);
 
   // Toggle network logging for a specific tab
   const toggleTabNetworkLogging = async (tabId: number) => {
@@ -2306,6 +2217,10 @@ const Dashboard: React.FC = () => {
               </div>
             </div>
             <div className="flex gap-3">
+              <SessionControls
+                selectedSessionIds={selectedSessionIds}
+                onSelectionChange={setSelectedSessionIds}
+              />
               <button
                 onClick={refreshData}
                 className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors"
@@ -2381,7 +2296,7 @@ const Dashboard: React.FC = () => {
               <div className="flex items-center space-x-4">
                 {/* Navigation Tabs */}
                 <div className="flex bg-gray-100 rounded-lg p-1">
-                  {tableNames.map((tableName, index) => (
+                  {TABLE_NAMES.map((tableName, index) => (
                     <button
                       key={index}
                       onClick={() => goToTable(index)}
@@ -2392,7 +2307,7 @@ const Dashboard: React.FC = () => {
                       }`}
                     >
                       <span className="flex items-center space-x-2">
-                        <span>{tableIcons[index]}</span>
+                        <span>{TABLE_ICONS[index]}</span>
                         <span>{tableName}</span>
                         <span className={`inline-flex items-center justify-center px-2 py-1 text-xs font-medium rounded-full ${
                           currentTableIndex === index
@@ -2402,6 +2317,7 @@ const Dashboard: React.FC = () => {
                           {index === 0 ? (data.totalRequests || 0) : 
                            index === 1 ? (data.totalErrors || 0) : 
                            index === 2 ? (data.totalTokenEvents || 0) :
+                           index === 4 ? (data.totalWebSocketConnections || 0) :
                            'LIVE'}
                         </span>
                       </span>
@@ -2434,8 +2350,8 @@ const Dashboard: React.FC = () => {
 
               {/* Current Table Info */}
               <div className="text-right">
-                <h2 className="text-lg font-semibold text-gray-900">{tableNames[currentTableIndex]}</h2>
-                <p className="text-xs text-gray-500 mt-1">{tableDescriptions[currentTableIndex]}</p>
+                <h2 className="text-lg font-semibold text-gray-900">{TABLE_NAMES[currentTableIndex]}</h2>
+                <p className="text-xs text-gray-500 mt-1">{TABLE_DESCRIPTIONS[currentTableIndex]}</p>
               </div>
             </div>
           </div>
@@ -2502,18 +2418,73 @@ const Dashboard: React.FC = () => {
                 </select>
               </div>
               
+              {/* Transport Filter */}
+              <div className="flex items-center space-x-3">
+                <label className="text-sm font-medium text-gray-700">Transport:</label>
+                <select
+                  value={filterTransport}
+                  onChange={(e) => setFilterTransport(e.target.value)}
+                  className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="all">All Transports</option>
+                  <option value="fetch">Fetch</option>
+                  <option value="xhr">XHR</option>
+                  <option value="beacon">Beacon</option>
+                  <option value="sse">SSE</option>
+                  <option value="form">Form</option>
+                </select>
+              </div>
+              
+              {/* Source Filter */}
+              {harImports.length > 0 && (
+                <div className="flex items-center space-x-3">
+                  <label className="text-sm font-medium text-gray-700">Source:</label>
+                  <select
+                    value={sourceFilter}
+                    onChange={(e) => setSourceFilter(e.target.value)}
+                    className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value={SOURCE_ALL}>All Sources</option>
+                    <option value={SOURCE_LIVE}>Live Capture</option>
+                    {harImports.map(info => (
+                      <option key={info.id} value={info.id}>{info.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
               {/* Clear Filters */}
-              {(searchTerm || filterMethod !== 'all') && (
+              {(searchTerm || filterMethod !== 'all' || filterTransport !== 'all' || sourceFilter !== SOURCE_ALL) && (
                 <button
                   onClick={() => {
                     setSearchTerm('');
                     setFilterMethod('all');
+                    setFilterTransport('all');
+                    setSourceFilter(SOURCE_ALL);
                   }}
                   className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
                   Clear Filters
                 </button>
               )}
+
+              {/* HAR Export */}
+              <HarExportButton
+                filterMethod={filterMethod}
+                filterTransport={filterTransport}
+                sessionIds={selectedSessionIds}
+                searchTerm={searchTerm}
+                domains={Array.from(new Set(data.networkRequests.map(r => r.main_domain).filter(Boolean))).sort()}
+              />
+
+              {/* HAR Import */}
+              <HarImportControls
+                imports={harImports}
+                onImportsChanged={() => {
+                  loadHarImports();
+                  refreshData();
+                }}
+              />
             </div>
             
             {data.networkRequests.length > 0 ? (
@@ -2623,6 +2594,11 @@ const Dashboard: React.FC = () => {
                             }`}>
                               {request.method}
                             </span>
+                            {request.transport && request.transport !== 'fetch' && request.transport !== 'xhr' && (
+                              <span className="ml-1 inline-flex px-2 py-1 text-xs rounded-full bg-indigo-100 text-indigo-800">
+                                {request.transport}
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4">
                             <div className="text-sm text-gray-900 truncate max-w-xs" title={request.url}>
@@ -2634,9 +2610,10 @@ const Dashboard: React.FC = () => {
                               request.status >= 200 && request.status < 300 ? 'bg-green-100 text-green-800' :
                               request.status >= 300 && request.status < 400 ? 'bg-yellow-100 text-yellow-800' :
                               request.status >= 400 ? 'bg-red-100 text-red-800' :
+                              request.failure_reason ? 'bg-orange-100 text-orange-800' :
                               'bg-gray-100 text-gray-800'
-                            }`}>
-                              {request.status}
+                            }`} title={request.failure_reason ? `${request.error_class || 'Error'}: ${request.failure_reason}` : undefined}>
+                              {request.failure_reason ? `failed (${request.failure_reason})` : request.status}
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -3060,7 +3037,7 @@ const Dashboard: React.FC = () => {
                   </div>
                   <input
                     type="text"
-                    placeholder="Search by URL or event type..."
+                    placeholder="Search by URL, event kind or credential..."
                     className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                     value={tokenSearchTerm}
                     onChange={(e) => setTokenSearchTerm(e.target.value)}
@@ -3068,27 +3045,43 @@ const Dashboard: React.FC = () => {
                 </div>
               </div>
               
-              {/* Event Type Filter */}
+              {/* Event Kind Filter */}
               <div className="flex items-center space-x-3">
-                <label className="text-sm font-medium text-gray-700">Type:</label>
+                <label className="text-sm font-medium text-gray-700">Event:</label>
                 <select
-                  value={filterTokenType}
-                  onChange={(e) => setFilterTokenType(e.target.value)}
+                  value={filterTokenKind}
+                  onChange={(e) => setFilterTokenKind(e.target.value)}
                   className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
                 >
-                  <option value="all">All Types</option>
-                  <option value="acquire">Token Acquire</option>
-                  <option value="refresh">Token Refresh</option>
-                  <option value="refresh_error">Refresh Error</option>
+                  <option value="all">All Events</option>
+                  {TOKEN_EVENT_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{TOKEN_EVENT_KIND_BADGES[kind].label}</option>
+                  ))}
+                </select>
+              </div>
+              
+              {/* Credential Kind Filter */}
+              <div className="flex items-center space-x-3">
+                <label className="text-sm font-medium text-gray-700">Credential:</label>
+                <select
+                  value={filterTokenCredential}
+                  onChange={(e) => setFilterTokenCredential(e.target.value)}
+                  className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="all">All Credentials</option>
+                  {TOKEN_CREDENTIAL_KINDS.map(credential => (
+                    <option key={credential} value={credential}>{TOKEN_CREDENTIAL_BADGES[credential].label}</option>
+                  ))}
                 </select>
               </div>
               
               {/* Clear Filters */}
-              {(tokenSearchTerm || filterTokenType !== 'all') && (
+              {(tokenSearchTerm || filterTokenKind !== 'all' || filterTokenCredential !== 'all') && (
                 <button
                   onClick={() => {
                     setTokenSearchTerm('');
-                    setFilterTokenType('all');
+                    setFilterTokenKind('all');
+                    setFilterTokenCredential('all');
                   }}
                   className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
@@ -3105,11 +3098,11 @@ const Dashboard: React.FC = () => {
                       <tr>
                         <th 
                           className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleTokenSort('type')}
+                          onClick={() => handleTokenSort('kind')}
                         >
                           <div className="flex items-center">
-                            Event Type
-                            {tokenSortConfig.key === 'type' && (
+                            Event
+                            {tokenSortConfig.key === 'kind' && (
                               <span className="ml-1">
                                 {tokenSortConfig.direction === 'asc' ? '↑' : '↓'}
                               </span>
@@ -3118,11 +3111,11 @@ const Dashboard: React.FC = () => {
                         </th>
                         <th 
                           className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                          onClick={() => handleTokenSort('token_type')}
+                          onClick={() => handleTokenSort('credential')}
                         >
                           <div className="flex items-center">
-                            Token Type
-                            {tokenSortConfig.key === 'token_type' && (
+                            Credential
+                            {tokenSortConfig.key === 'credential' && (
                               <span className="ml-1">
                                 {tokenSortConfig.direction === 'asc' ? '↑' : '↓'}
                               </span>
@@ -3218,77 +3211,13 @@ const Dashboard: React.FC = () => {
                           title="Double-click to view detailed information"
                         >
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              (() => {
-                                const analysis = analyzeTokenEvent(event);
-                                const type = analysis.type;
-                                if (type === 'login') return 'bg-green-100 text-green-800';
-                                if (type === 'logout') return 'bg-gray-100 text-gray-800';
-                                if (type === 'refresh') return 'bg-blue-100 text-blue-800';
-                                if (type === 'expired') return 'bg-red-100 text-red-800';
-                                if (type === 'acquire') return 'bg-purple-100 text-purple-800';
-                                if (type === 'refresh_error') return 'bg-red-100 text-red-800';
-                                if (type === 'api_call') return 'bg-yellow-100 text-yellow-800';
-                                return 'bg-gray-100 text-gray-800';
-                              })()
-                            }`}>
-                              {(() => {
-                                const analysis = analyzeTokenEvent(event);
-                                const type = analysis.type;
-                                if (type === 'login') return '� Login';
-                                if (type === 'logout') return '🔒 Logout';
-                                if (type === 'refresh') return '🔄 Refresh';
-                                if (type === 'expired') return '⏰ Expired';
-                                if (type === 'acquire') return '🔐 Acquire';
-                                if (type === 'refresh_error') return '❌ Refresh Error';
-                                if (type === 'api_call') return '📡 API Call';
-                                return `🔐 ${type}`;
-                              })()}
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${tokenEventKindBadge(event.kind).className}`}>
+                              {tokenEventKindBadge(event.kind).label}
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              (() => {
-                                const analysis = analyzeTokenEvent(event);
-                                const tokenType = analysis.tokenType;
-                                
-                                // JWT-based tokens
-                                if (tokenType.includes('JWT')) return 'bg-purple-100 text-purple-800';
-                                // Access tokens
-                                if (tokenType.includes('Access Token')) return 'bg-blue-100 text-blue-800';
-                                // Refresh tokens
-                                if (tokenType.includes('Refresh Token')) return 'bg-cyan-100 text-cyan-800';
-                                // ID tokens
-                                if (tokenType.includes('ID Token')) return 'bg-emerald-100 text-emerald-800';
-                                // Authentication types
-                                if (tokenType === 'Basic Auth') return 'bg-orange-100 text-orange-800';
-                                if (tokenType === 'API Key') return 'bg-indigo-100 text-indigo-800';
-                                // Session and security tokens
-                                if (tokenType === 'Session Token') return 'bg-green-100 text-green-800';
-                                if (tokenType === 'CSRF Token') return 'bg-red-100 text-red-800';
-                                if (tokenType === 'State Token') return 'bg-yellow-100 text-yellow-800';
-                                // Custom schemes
-                                if (tokenType.includes('Token') && !tokenType.includes('Unknown')) return 'bg-teal-100 text-teal-800';
-                                
-                                // Legacy compatibility
-                                if (tokenType === 'JWT') return 'bg-purple-100 text-purple-800';
-                                if (tokenType === 'Bearer') return 'bg-blue-100 text-blue-800';
-                                if (tokenType === 'Basic') return 'bg-orange-100 text-orange-800';
-                                if (tokenType === 'Session') return 'bg-green-100 text-green-800';
-                                
-                                return 'bg-gray-100 text-gray-800';
-                              })()
-                            }`}>
-                              {(() => {
-                                const analysis = analyzeTokenEvent(event);
-                                const tokenType = analysis.tokenType;
-                                if (tokenType === 'JWT') return '🎫 JWT';
-                                if (tokenType === 'Bearer') return '🔐 Bearer';
-                                if (tokenType === 'Basic') return '� Basic';
-                                if (tokenType === 'Session') return '🍪 Session';
-                                if (tokenType === 'API Key') return '�️ API Key';
-                                return tokenType || 'Unknown';
-                              })()}
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${tokenCredentialBadge(event.credential).className}`}>
+                              {tokenCredentialBadge(event.credential).label}
                             </span>
                           </td>
                           <td className="px-6 py-4">
@@ -3409,6 +3338,14 @@ const Dashboard: React.FC = () => {
                 <p className="text-gray-500">Token events will appear here when authentication, login, or token refresh activities are detected.</p>
               </div>
             )}
+
+            <div className="mt-8 border-t pt-6">
+              <TokenLifecycleTimeline />
+            </div>
+
+            <div className="mt-8 border-t pt-6">
+              <JwtInspectorPanel />
+            </div>
           </div>
         </div>
 
@@ -3417,15 +3354,27 @@ const Dashboard: React.FC = () => {
           <PerformanceMonitoringDashboard />
         </div>
 
+        {/* WebSocket Connections Section */}
+        <div className={`bg-white rounded-lg shadow mb-8 ${currentTableIndex === 4 ? 'block' : 'hidden'}`}>
+          <WebSocketConnectionsTable />
+        </div>
+
+        {/* Library Inventory Section */}
+        <div className={`bg-white rounded-lg shadow mb-8 ${currentTableIndex === 5 ? 'block' : 'hidden'}`}>
+          <LibraryInventoryTable />
+        </div>
+
         {/* Statistics Card Component */}
         <StatisticsCard 
           networkRequests={data.networkRequests}
           consoleErrors={data.consoleErrors}
           tokenEvents={data.tokenEvents}
-          totalRequests={data.totalRequests}
+          totalRequests={sourceFilter === SOURCE_ALL ? data.totalRequests : undefined}
           totalErrors={data.totalErrors}
           totalTokenEvents={data.totalTokenEvents}
           onRefreshAnalysisData={refreshData}
+          sourceFilter={sourceFilter}
+          sessionIds={selectedSessionIds}
         />
       </main>
       </div>
@@ -0,0 +1,22 @@
+// Browser file helpers shared by dashboard and settings pages
+
+/**
+ * Trigger a client-side download of text content, given whole or as parts to concatenate.
+ * The object URL is revoked right after the click so the Blob can be collected.
+ */
+export function downloadTextFile(filename: string, content: string | BlobPart[], mimeType = 'application/json'): void {
+  const blob = new Blob(typeof content === 'string' ? [content] : content, { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  document.body.appendChild(anchor)
+  anchor.click()
+  document.body.removeChild(anchor)
+  URL.revokeObjectURL(url)
+}
+
+// Filesystem-safe timestamp for generated file names, e.g. 2024-05-01T12-30-00
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-')
+}
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import {
+  activateProfile,
+  createProfile,
+  duplicateProfile,
+  type InterceptionProfile
+} from '../background/profiles';
+
+interface ProfileSwitcherProps {
+  onEditInSettings: () => void;
+}
+
+// Compact profile controls for the popup - changes are saved immediately
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ onEditInSettings }) => {
+  const [profiles, setProfiles] = useState<InterceptionProfile[]>([]);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [nameMode, setNameMode] = useState<'create' | 'rename'>('create');
+
+  useEffect(() => {
+    chrome.storage.local.get(['settings'], (result) => {
+      setProfiles(result.settings?.networkInterception?.profiles || []);
+    });
+  }, []);
+
+  // Read-modify-write so unrelated settings saved elsewhere are preserved
+  const saveProfiles = async (nextProfiles: InterceptionProfile[]) => {
+    setProfiles(nextProfiles);
+    try {
+      const result = await chrome.storage.local.get(['settings']);
+      const settings = result.settings || {};
+      await chrome.storage.local.set({
+        settings: {
+          ...settings,
+          networkInterception: { ...(settings.networkInterception || {}), profiles: nextProfiles }
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save profiles:', error);
+    }
+  };
+
+  const activeProfile = profiles.find(profile => profile.active);
+
+  const submitName = () => {
+    const name = (nameDraft || '').trim();
+    if (!name) {
+      setNameDraft(null);
+      return;
+    }
+    if (nameMode === 'create') {
+      const profile = createProfile(name);
+      saveProfiles(activateProfile([...profiles, profile], profile.id));
+    } else if (activeProfile) {
+      saveProfiles(profiles.map(profile => (profile.id === activeProfile.id ? { ...profile, name } : profile)));
+    }
+    setNameDraft(null);
+  };
+
+  return (
+    <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800">Profile</h3>
+        <button onClick={onEditInSettings} className="text-xs text-blue-600 hover:text-blue-800">
+          Edit in settings
+        </button>
+      </div>
+
+      {nameDraft !== null ? (
+        <div className="flex space-x-2">
+          <input
+            autoFocus
+            type="text"
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitName();
+              if (e.key === 'Escape') setNameDraft(null);
+            }}
+            placeholder="Profile name"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button onClick={submitName} className="text-sm text-blue-600 hover:text-blue-800">Save</button>
+        </div>
+      ) : (
+        <select
+          value={activeProfile?.id || ''}
+          onChange={(e) => saveProfiles(activateProfile(profiles, e.target.value))}
+          className="block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">No profile (base settings)</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex space-x-3 text-xs">
+        <button
+          onClick={() => { setNameMode('create'); setNameDraft(''); }}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          New
+        </button>
+        {activeProfile && (
+          <>
+            <button
+              onClick={() => {
+                const copy = duplicateProfile(activeProfile);
+                saveProfiles(activateProfile([...profiles, copy], copy.id));
+              }}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={() => { setNameMode('rename'); setNameDraft(activeProfile.name); }}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Rename
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ACTIVE_SESSION_KEY, CAPTURE_SESSIONS_KEY, type CaptureSession } from '../background/sessions';
+
+// Start/stop a named capture session; the background tags everything stored while it records
+export const SessionRecorder: React.FC = () => {
+  const [activeSession, setActiveSession] = useState<CaptureSession | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getCaptureSessions' });
+      if (response?.success) {
+        const sessions: CaptureSession[] = response.sessions || [];
+        setActiveSession(sessions.find(session => session.id === response.activeSessionId) || null);
+      }
+    } catch (error) {
+      console.error('Failed to load capture sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && (changes[CAPTURE_SESSIONS_KEY] || changes[ACTIVE_SESSION_KEY])) {
+        loadSessions();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, [loadSessions]);
+
+  const sendSessionAction = async (message: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const response = await chrome.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Session update failed');
+      }
+      setNameDraft('');
+      await loadSessions();
+    } catch (error) {
+      console.error('Capture session action failed:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-red-50 rounded-lg border border-red-200 space-y-2">
+      <h3 className="font-semibold text-gray-800">Capture Session</h3>
+
+      {activeSession ? (
+        <div className="flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-red-700 truncate">
+              <span className="inline-block h-2 w-2 mr-2 rounded-full bg-red-500 animate-pulse"></span>
+              {activeSession.name}
+            </p>
+            <p className="text-xs text-gray-600">Since {new Date(activeSession.startedAt).toLocaleTimeString()}</p>
+          </div>
+          <button
+            onClick={() => sendSessionAction({ action: 'stopCaptureSession' })}
+            disabled={busy}
+            className="ml-3 px-3 py-1 text-sm bg-gray-700 hover:bg-gray-800 text-white rounded-md disabled:opacity-50"
+          >
+            Stop
+          </button>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') sendSessionAction({ action: 'startCaptureSession', name: nameDraft });
+            }}
+            placeholder="Session name (optional)"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            onClick={() => sendSessionAction({ action: 'startCaptureSession', name: nameDraft })}
+            disabled={busy}
+            className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded-md disabled:opacity-50"
+          >
+            Record
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
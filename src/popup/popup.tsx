@@ -3,6 +3,8 @@
 import './popup.css';
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { SessionRecorder } from './SessionRecorder';
 
 // MEMORY LEAK FIX: External delay function to prevent closure capture
 function createDelayPromise(ms: number): Promise<void> {
@@ -418,6 +420,14 @@ const Popup: React.FC = () => {
           </button>
         </div>
 
+        {/* Interception Profile */}
+        {extensionEnabled && settings?.networkInterception?.enabled && (
+          <ProfileSwitcher onEditInSettings={openSettings} />
+        )}
+
+        {/* Capture Session */}
+        {extensionEnabled && <SessionRecorder />}
+
         {/* Tab-Specific Logging Control */}
         {extensionEnabled && settings?.networkInterception?.tabSpecific?.enabled && (
           <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg border border-green-200">
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AdvisoryDatasetSummary } from '../background/library-advisories';
+
+// Shows which advisory dataset the library inventory is matched against and loads a newer one
+export const AdvisoryDatasetSection: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<AdvisoryDatasetSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ action: 'getAdvisoryDataset' }).then((response) => {
+      if (response?.success) setSummary(response.summary);
+    }).catch((loadError) => {
+      console.error('Settings: Failed to load advisory dataset summary:', loadError);
+    });
+  }, []);
+
+  const applyDataset = async (dataset: unknown) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'updateAdvisoryDataset', dataset });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Advisory update failed');
+      }
+      setSummary(response.summary);
+      setMessage(`Re-checked ${response.rematched} detected libraries.`);
+    } catch (updateError) {
+      console.error('Settings: Advisory update failed:', updateError);
+      setError(updateError instanceof Error ? updateError.message : String(updateError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+
+    try {
+      await applyDataset(JSON.parse(await file.text()));
+    } catch (parseError) {
+      setError(parseError instanceof SyntaxError ? 'File is not valid JSON' : String(parseError));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {summary && (
+        <p className="text-sm text-gray-700">
+          Using the {summary.source === 'custom' ? 'loaded' : 'bundled'} dataset from <span className="font-medium">{summary.updated}</span>:
+          {' '}{summary.advisories} advisories across {summary.libraries} libraries.
+          {summary.source === 'custom' && ` The bundled dataset is from ${summary.bundledUpdated}.`}
+        </p>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {busy ? 'Updating…' : 'Load advisory file…'}
+        </button>
+        {summary?.source === 'custom' && (
+          <button
+            onClick={() => applyDataset(null)}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Use bundled dataset
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { downloadTextFile, fileTimestamp } from '../dashboard/lib/file-utils';
+import {
+  BACKUP_BATCH_SIZE,
+  BACKUP_STORES,
+  parseBackupArchive,
+  type BackupHeader,
+  type BackupRecord,
+  type RestoreMode,
+  type RestoreReport
+} from '../background/backup';
+
+interface BackupRestoreSectionProps {
+  onRestored: () => void; // Reload settings that a restore may have changed
+}
+
+const STORE_LABELS: Record<string, string> = {
+  apiCalls: 'Network requests',
+  consoleErrors: 'Console errors',
+  tokenEvents: 'Token events',
+  minifiedLibraries: 'Minified libraries',
+  webSocketConnections: 'WebSocket connections',
+  webSocketFrames: 'WebSocket frames',
+  tokenLifecycles: 'Token lifecycles',
+  jwtObservations: 'JWT observations'
+};
+
+interface BackupResponse {
+  success: boolean;
+  error?: string;
+}
+
+interface ExportHeaderResponse extends BackupResponse {
+  header: BackupHeader;
+}
+
+interface ExportBatchResponse extends BackupResponse {
+  records: BackupRecord[];
+  nextKey: IDBValidKey | null;
+}
+
+interface RestoreBeginResponse extends BackupResponse {
+  restoreId: string;
+}
+
+interface RestoreFinishResponse extends BackupResponse {
+  report: RestoreReport;
+}
+
+// One step of an export or restore; any failure aborts the whole operation
+async function sendBackupMessage<T extends BackupResponse>(message: Record<string, unknown>, fallbackError: string): Promise<T> {
+  const response: T | undefined = await chrome.runtime.sendMessage(message);
+  if (!response?.success) {
+    throw new Error(response?.error || fallbackError);
+  }
+  return response;
+}
+
+// Builds the archive file piece by piece as store batches arrive; the JSON has the same layout as
+// BackupArchive, with the stores last
+async function exportBackupParts(onProgress: (records: number) => void): Promise<string[]> {
+  const { header } = await sendBackupMessage<ExportHeaderResponse>({ action: 'beginBackupExport' }, 'Backup export failed');
+  const parts = [`${JSON.stringify(header).slice(0, -1)},"stores":{`];
+  let exported = 0;
+
+  for (const [index, storeName] of BACKUP_STORES.entries()) {
+    parts.push(`${index > 0 ? ',' : ''}${JSON.stringify(storeName)}:[`);
+    let afterKey: IDBValidKey | null = null;
+    let first = true;
+    do {
+      const batch: ExportBatchResponse = await sendBackupMessage<ExportBatchResponse>({ action: 'readBackupBatch', storeName, afterKey }, 'Backup export failed');
+      if (batch.records.length > 0) {
+        parts.push(`${first ? '' : ','}${batch.records.map(record => JSON.stringify(record)).join(',')}`);
+        first = false;
+        exported += batch.records.length;
+        onProgress(exported);
+      }
+      afterKey = batch.nextKey;
+    } while (afterKey !== null);
+    parts.push(']');
+  }
+
+  parts.push('}}');
+  return parts;
+}
+
+// Exports the whole extension state to one archive file and restores it on another profile
+export const BackupRestoreSection: React.FC<BackupRestoreSectionProps> = ({ onRestored }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState<'export' | 'restore' | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState(0); // Records exported or restored so far
+
+  const handleExport = async () => {
+    setBusy('export');
+    setError('');
+    setProgress(0);
+    try {
+      const parts = await exportBackupParts(setProgress);
+      downloadTextFile(`web-app-monitor-backup-${fileTimestamp()}.json`, parts);
+    } catch (exportError) {
+      console.error('Settings: Backup export failed:', exportError);
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow restoring the same file again
+    if (!file) return;
+
+    if (mode === 'replace' && !window.confirm(`Replace ALL captured data, settings and tab state with the contents of "${file.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusy('restore');
+    setError('');
+    setReport(null);
+    setProgress(0);
+    try {
+      // The whole file is validated before the background clears or writes anything
+      const { stores, ...header } = parseBackupArchive(JSON.parse(await file.text()));
+      const { restoreId } = await sendBackupMessage<RestoreBeginResponse>({ action: 'beginBackupRestore', header, mode }, 'Backup restore failed');
+      let restored = 0;
+      for (const storeName of BACKUP_STORES) {
+        const records = stores[storeName] || [];
+        for (let start = 0; start < records.length; start += BACKUP_BATCH_SIZE) {
+          const batch = records.slice(start, start + BACKUP_BATCH_SIZE);
+          await sendBackupMessage({ action: 'restoreBackupBatch', restoreId, storeName, records: batch }, 'Backup restore failed');
+          restored += batch.length;
+          setProgress(restored);
+        }
+      }
+      const { report } = await sendBackupMessage<RestoreFinishResponse>({ action: 'finishBackupRestore', restoreId }, 'Backup restore failed');
+      setReport(report);
+      onRestored();
+    } catch (restoreError) {
+      console.error('Settings: Backup restore failed:', restoreError);
+      setError(restoreError instanceof SyntaxError
+        ? 'File is not valid JSON'
+        : restoreError instanceof Error ? restoreError.message : String(restoreError));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleExport}
+          disabled={busy !== null}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy === 'export' ? `Exporting… ${progress.toLocaleString()} records` : 'Download backup'}
+        </button>
+        <span className="text-sm text-gray-500">All captured data, settings, sessions and tab logging state</span>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {busy === 'restore' ? `Restoring… ${progress.toLocaleString()} records` : 'Restore from file…'}
+        </button>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={mode === 'merge'}
+            onChange={() => setMode('merge')}
+            className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+          />
+          <span className="ml-2">Merge with current data</span>
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={mode === 'replace'}
+            onChange={() => setMode('replace')}
+            className="h-4 w-4 text-red-600 border-gray-300 focus:ring-red-500"
+          />
+          <span className="ml-2">Replace everything</span>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm space-y-2">
+          <p className="font-medium text-green-900">
+            Restored backup (format v{report.formatVersion}, {report.mode}).
+            {report.settingsRestored ? ' Settings were updated.' : ''}
+            {report.tabStateRestored > 0 ? ` ${report.tabStateRestored} tab states restored.` : ''}
+          </p>
+          <table className="text-xs text-gray-700">
+            <thead>
+              <tr className="text-left">
+                <th className="pr-4 font-medium">Store</th>
+                <th className="pr-4 font-medium">Inserted</th>
+                <th className="pr-4 font-medium">Duplicates</th>
+                <th className="font-medium">Conflicts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(report.stores).map(([storeName, counts]) => (
+                <tr key={storeName}>
+                  <td className="pr-4">{STORE_LABELS[storeName] || storeName}</td>
+                  <td className="pr-4">{counts.inserted.toLocaleString()}</td>
+                  <td className="pr-4">{counts.duplicates.toLocaleString()}</td>
+                  <td>{counts.conflicts.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.totalConflicts > 0 && (
+            <details>
+              <summary className="cursor-pointer text-yellow-800">
+                {report.totalConflicts} conflicts kept the local version
+                {report.totalConflicts > report.conflicts.length && ` (first ${report.conflicts.length} shown)`}
+              </summary>
+              <ul className="mt-1 max-h-48 overflow-y-auto font-mono text-xs text-gray-600">
+                {report.conflicts.map((conflict, index) => (
+                  <li key={index} className="truncate" title={conflict.key}>
+                    [{conflict.store === 'settings' ? 'settings' : STORE_LABELS[conflict.store] || conflict.store}] {conflict.key}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  activateProfile,
+  createProfile,
+  duplicateProfile,
+  PROFILE_PRESETS,
+  type InterceptionProfile
+} from '../background/profiles';
+
+interface ProfilesSectionProps {
+  networkInterception: Record<string, unknown>;
+  profiles: InterceptionProfile[];
+  onChange: (profiles: InterceptionProfile[]) => void;
+}
+
+// Named interception profiles: each stores partial networkInterception overrides
+// that are merged over the base settings while the profile is active
+export const ProfilesSection: React.FC<ProfilesSectionProps> = ({ networkInterception, profiles, onChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [jsonDrafts, setJsonDrafts] = useState<Record<string, string>>({});
+  const [jsonErrors, setJsonErrors] = useState<Record<string, string>>({});
+
+  const updateProfile = (id: string, changes: Partial<InterceptionProfile>) => {
+    onChange(profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  const commitJsonDraft = (profile: InterceptionProfile) => {
+    const draft = jsonDrafts[profile.id];
+    if (draft === undefined) return;
+    try {
+      const parsed = JSON.parse(draft || '{}');
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Overrides must be a JSON object');
+      }
+      updateProfile(profile.id, { settings: parsed });
+      setJsonErrors(prev => ({ ...prev, [profile.id]: '' }));
+    } catch (error) {
+      setJsonErrors(prev => ({ ...prev, [profile.id]: error instanceof Error ? error.message : 'Invalid JSON' }));
+    }
+  };
+
+  // Store the current base settings (minus the profile list) as this profile's overrides
+  const snapshotBaseSettings = (profile: InterceptionProfile) => {
+    const snapshot = JSON.parse(JSON.stringify(networkInterception));
+    delete snapshot.profiles;
+    updateProfile(profile.id, { settings: snapshot });
+    setJsonDrafts(prev => ({ ...prev, [profile.id]: JSON.stringify(snapshot, null, 2) }));
+  };
+
+  const addPreset = (presetName: string) => {
+    const preset = PROFILE_PRESETS.find(p => p.name === presetName);
+    if (preset) {
+      onChange([...profiles, createProfile(preset.name, JSON.parse(JSON.stringify(preset.settings)), preset.description)]);
+    }
+  };
+
+  const activeId = profiles.find(profile => profile.active)?.id || '';
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center p-3 bg-gray-50 rounded-lg">
+        <input
+          type="radio"
+          name="activeProfile"
+          checked={!activeId}
+          onChange={() => onChange(activateProfile(profiles, ''))}
+          className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+        />
+        <span className="ml-2 text-sm font-medium text-gray-700">No profile (use base settings)</span>
+      </label>
+
+      {profiles.map(profile => (
+        <div key={profile.id} className="p-3 bg-gray-50 rounded-lg space-y-3">
+          <div className="flex items-center space-x-3">
+            <input
+              type="radio"
+              name="activeProfile"
+              checked={profile.active}
+              onChange={() => onChange(activateProfile(profiles, profile.id))}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+              title="Activate profile"
+            />
+            <div className="flex-1 min-w-0 space-y-2">
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                placeholder="Profile name"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="text"
+                value={profile.description || ''}
+                onChange={(e) => updateProfile(profile.id, { description: e.target.value })}
+                placeholder="Description (optional)"
+                className="block w-full px-3 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex flex-col space-y-1 text-sm">
+              <button
+                onClick={() => {
+                  setExpandedId(expandedId === profile.id ? null : profile.id);
+                  setJsonDrafts(prev => ({ ...prev, [profile.id]: JSON.stringify(profile.settings || {}, null, 2) }));
+                }}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                {expandedId === profile.id ? 'Close' : 'Edit'}
+              </button>
+              <button
+                onClick={() => onChange([...profiles, duplicateProfile(profile)])}
+                className="text-gray-600 hover:text-gray-800"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete profile "${profile.name}"?`)) {
+                    onChange(profiles.filter(p => p.id !== profile.id));
+                  }
+                }}
+                className="text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          {expandedId === profile.id && (
+            <div className="ml-7 space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Setting overrides (JSON)</label>
+              <textarea
+                rows={10}
+                value={jsonDrafts[profile.id] ?? ''}
+                onChange={(e) => setJsonDrafts(prev => ({ ...prev, [profile.id]: e.target.value }))}
+                onBlur={() => commitJsonDraft(profile)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              {jsonErrors[profile.id] && (
+                <p className="text-sm text-red-600">{jsonErrors[profile.id]}</p>
+              )}
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Only the keys listed here override the base settings, e.g. <code>{'{"bodyCapture": {"maxBodySize": 0}}'}</code>
+                </p>
+                <button
+                  onClick={() => snapshotBaseSettings(profile)}
+                  className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap ml-3"
+                >
+                  Copy current settings
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={() => onChange([...profiles, createProfile('New profile')])}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          Add Profile
+        </button>
+        <select
+          value=""
+          onChange={(e) => addPreset(e.target.value)}
+          className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="" disabled>Add from preset...</option>
+          {PROFILE_PRESETS.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
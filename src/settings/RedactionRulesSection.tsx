@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+  DEFAULT_REDACTION_RULES,
+  type RedactionRule,
+  type RedactionRuleType
+} from '../background/redaction';
+
+interface RedactionRulesSectionProps {
+  rules: RedactionRule[];
+  onChange: (rules: RedactionRule[]) => void;
+}
+
+const RULE_TYPE_LABELS: Record<RedactionRuleType, string> = {
+  header: 'Header',
+  jsonKey: 'JSON key path',
+  pattern: 'Regex pattern',
+  detector: 'Detector'
+};
+
+const VALUE_PLACEHOLDERS: Record<Exclude<RedactionRuleType, 'detector'>, string> = {
+  header: 'x-session-id',
+  jsonKey: 'user.*.token',
+  pattern: 'sess_[a-z0-9]{24}'
+};
+
+// Editable list of redaction rules; built-in detectors can only be toggled
+export const RedactionRulesSection: React.FC<RedactionRulesSectionProps> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<RedactionRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      { id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`, type: 'jsonKey', value: '', active: true }
+    ]);
+  };
+
+  const isInvalidPattern = (rule: RedactionRule): boolean => {
+    if (rule.type !== 'pattern' || !rule.value.trim()) return false;
+    try {
+      new RegExp(rule.value);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map(rule => (
+        <div key={rule.id} className="flex items-center space-x-3 p-2 bg-gray-50 rounded-lg">
+          <input
+            type="checkbox"
+            checked={rule.active}
+            onChange={(e) => updateRule(rule.id, { active: e.target.checked })}
+            className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            title="Rule active"
+          />
+          {rule.type === 'detector' ? (
+            <div className="flex-1 min-w-0">
+              <span className="text-sm font-medium text-gray-700">{RULE_TYPE_LABELS.detector}: {rule.value}</span>
+              {rule.description && <p className="text-xs text-gray-500">{rule.description}</p>}
+            </div>
+          ) : (
+            <>
+              <select
+                value={rule.type}
+                onChange={(e) => updateRule(rule.id, { type: e.target.value as RedactionRuleType })}
+                className="block px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="header">{RULE_TYPE_LABELS.header}</option>
+                <option value="jsonKey">{RULE_TYPE_LABELS.jsonKey}</option>
+                <option value="pattern">{RULE_TYPE_LABELS.pattern}</option>
+              </select>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={rule.value}
+                  onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                  placeholder={VALUE_PLACEHOLDERS[rule.type]}
+                  className={`block w-full px-2 py-1 text-sm border rounded-md shadow-sm font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    isInvalidPattern(rule) ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                />
+                {isInvalidPattern(rule) && (
+                  <p className="text-xs text-red-600 mt-1">Invalid regular expression - rule will be skipped</p>
+                )}
+              </div>
+            </>
+          )}
+          {rule.type !== 'detector' && (
+            <button
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={addRule}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          Add Rule
+        </button>
+        <button
+          onClick={() => {
+            if (confirm('Replace all redaction rules with the defaults?')) {
+              onChange(JSON.parse(JSON.stringify(DEFAULT_REDACTION_RULES)));
+            }
+          }}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          Restore Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  ANY_DOMAIN,
+  ANY_TABLE,
+  RETENTION_TABLES,
+  generateRetentionPolicyId,
+  type PruneReport,
+  type RetentionPolicy,
+  type RetentionTable
+} from '../background/retention';
+
+interface RetentionPoliciesSectionProps {
+  policies: RetentionPolicy[];
+  onChange: (policies: RetentionPolicy[]) => void;
+}
+
+const TABLE_LABELS: Record<RetentionTable, string> = {
+  apiCalls: 'Network requests',
+  consoleErrors: 'Console errors',
+  tokenEvents: 'Token events',
+  minifiedLibraries: 'Minified libraries',
+  webSocketConnections: 'WebSocket connections',
+  webSocketFrames: 'WebSocket frames'
+};
+
+const REASON_LABELS: Record<keyof PruneReport['byReason'], string> = {
+  age: 'Older than max age',
+  records: 'Over per-domain record limit',
+  bodySize: 'Over per-domain body quota',
+  tableCap: 'Over global table limit'
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+// Empty inputs clear the limit so the next less specific policy (or the global default) applies
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+// Editable retention policies plus a dry-run preview of what the next prune would delete
+export const RetentionPoliciesSection: React.FC<RetentionPoliciesSectionProps> = ({ policies, onChange }) => {
+  const [preview, setPreview] = useState<PruneReport | null>(null);
+  const [previewError, setPreviewError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const updatePolicy = (id: string, changes: Partial<RetentionPolicy>) => {
+    onChange(policies.map(policy => (policy.id === id ? { ...policy, ...changes } : policy)));
+  };
+
+  const addPolicy = () => {
+    onChange([...policies, { id: generateRetentionPolicyId(), enabled: true, domain: '', table: ANY_TABLE }]);
+  };
+
+  const runPreview = async () => {
+    setBusy(true);
+    setPreviewError('');
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'previewRetention', policies });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Preview failed');
+      }
+      setPreview(response.report);
+    } catch (error) {
+      setPreview(null);
+      setPreviewError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const topDomains = preview
+    ? Object.entries(preview.byDomain).sort(([, a], [, b]) => b.records - a.records).slice(0, 10)
+    : [];
+
+  const inputClass = 'block w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-3">
+      {policies.length > 0 && (
+        <div className="grid grid-cols-12 gap-2 px-2 text-xs font-medium text-gray-500">
+          <span className="col-span-1">On</span>
+          <span className="col-span-3">Domain</span>
+          <span className="col-span-3">Table</span>
+          <span className="col-span-1">Max age (days)</span>
+          <span className="col-span-1">Max records</span>
+          <span className="col-span-2">Max bodies (MB)</span>
+          <span className="col-span-1"></span>
+        </div>
+      )}
+      {policies.map(policy => (
+        <div key={policy.id} className="grid grid-cols-12 gap-2 items-center p-2 bg-gray-50 rounded-lg">
+          <input
+            type="checkbox"
+            checked={policy.enabled}
+            onChange={(e) => updatePolicy(policy.id, { enabled: e.target.checked })}
+            className="col-span-1 h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            title="Policy enabled"
+          />
+          <input
+            type="text"
+            value={policy.domain === ANY_DOMAIN ? '' : policy.domain}
+            onChange={(e) => updatePolicy(policy.id, { domain: e.target.value })}
+            placeholder="All domains"
+            className={`col-span-3 ${inputClass}`}
+          />
+          <select
+            value={policy.table}
+            onChange={(e) => updatePolicy(policy.id, { table: e.target.value as RetentionPolicy['table'] })}
+            className={`col-span-3 ${inputClass}`}
+          >
+            <option value={ANY_TABLE}>All tables</option>
+            {RETENTION_TABLES.map(table => (
+              <option key={table} value={table}>{TABLE_LABELS[table]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            value={policy.maxAgeDays ?? ''}
+            onChange={(e) => updatePolicy(policy.id, { maxAgeDays: parseLimit(e.target.value) })}
+            className={`col-span-1 ${inputClass}`}
+          />
+          <input
+            type="number"
+            min="0"
+            value={policy.maxRecords ?? ''}
+            onChange={(e) => updatePolicy(policy.id, { maxRecords: parseLimit(e.target.value) })}
+            className={`col-span-1 ${inputClass}`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={policy.maxBodyMB ?? ''}
+            onChange={(e) => updatePolicy(policy.id, { maxBodyMB: parseLimit(e.target.value) })}
+            className={`col-span-2 ${inputClass}`}
+          />
+          <button
+            onClick={() => onChange(policies.filter(p => p.id !== policy.id))}
+            className="col-span-1 text-sm text-red-600 hover:text-red-800"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={addPolicy}
+          className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50"
+        >
+          + Add policy
+        </button>
+        <button
+          onClick={runPreview}
+          disabled={busy}
+          className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {busy ? 'Calculating…' : 'Preview pruning'}
+        </button>
+      </div>
+
+      {previewError && <p className="text-sm text-red-600">Preview failed: {previewError}</p>}
+
+      {preview && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm space-y-2">
+          <p className="font-medium text-blue-900">
+            {preview.totalDeleted === 0
+              ? 'Nothing would be deleted with these policies.'
+              : `${preview.totalDeleted.toLocaleString()} records (${formatBytes(preview.bodyBytesFreed)} of bodies) would be deleted.`}
+          </p>
+          {preview.totalDeleted > 0 && (
+            <div className="grid grid-cols-3 gap-4 text-xs text-gray-700">
+              <div>
+                <div className="font-medium mb-1">By table</div>
+                {Object.entries(preview.byTable).map(([table, count]) => (
+                  <div key={table}>{TABLE_LABELS[table as RetentionTable] || table}: {count.toLocaleString()}</div>
+                ))}
+              </div>
+              <div>
+                <div className="font-medium mb-1">By domain</div>
+                {topDomains.map(([domain, totals]) => (
+                  <div key={domain} className="truncate" title={domain}>
+                    {domain}: {totals.records.toLocaleString()}{totals.bodyBytes > 0 && ` (${formatBytes(totals.bodyBytes)})`}
+                  </div>
+                ))}
+              </div>
+              <div>
+                <div className="font-medium mb-1">By reason</div>
+                {(Object.keys(REASON_LABELS) as Array<keyof PruneReport['byReason']>)
+                  .filter(reason => preview.byReason[reason] > 0)
+                  .map(reason => (
+                    <div key={reason}>{REASON_LABELS[reason]}: {preview.byReason[reason].toLocaleString()}</div>
+                  ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadTextFile, fileTimestamp } from '../dashboard/lib/file-utils';
+import {
+  DEFAULT_TOKEN_RULES,
+  TOKEN_RULE_EVENT_TYPES,
+  exportTokenRules,
+  parseTokenRules,
+  validateTokenRule,
+  type TokenEndpointRule,
+  type TokenRuleEventType,
+  type TokenRuleUrlMatch
+} from '../background/token-rules';
+
+interface TokenRulesSectionProps {
+  rules: TokenEndpointRule[];
+  onChange: (rules: TokenEndpointRule[]) => void;
+}
+
+interface RuleTestMatch {
+  id?: number;
+  url: string;
+  method: string;
+  status: number;
+  timestamp: number;
+  eventType: TokenRuleEventType;
+  ruleId: string;
+}
+
+interface RuleTestResult {
+  scanned: number;
+  matches: RuleTestMatch[];
+  ruleCounts: Record<string, number>;
+}
+
+const EVENT_TYPE_LABELS: Record<TokenRuleEventType, string> = {
+  acquire: 'Acquire',
+  refresh: 'Refresh',
+  refresh_error: 'Refresh error',
+  revoke: 'Revoke',
+  logout: 'Logout'
+};
+
+const TEST_SAMPLE_SIZES = [200, 500, 2000, 5000];
+const MAX_LISTED_MATCHES = 50;
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Comma-separated list kept as typed text, so a trailing comma survives until the next value is entered
+const ListInput: React.FC<{
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  className: string;
+  uppercase?: boolean;
+}> = ({ values, onChange, placeholder, className, uppercase }) => {
+  const [draft, setDraft] = useState(values.join(', '));
+
+  useEffect(() => {
+    setDraft(current => (splitList(current).join(',') === values.join(',') ? current : values.join(', ')));
+  }, [values]);
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => {
+        const text = uppercase ? e.target.value.toUpperCase() : e.target.value;
+        setDraft(text);
+        onChange(splitList(text));
+      }}
+      placeholder={placeholder}
+      className={className}
+    />
+  );
+};
+
+// Ordered token endpoint rules; the first active rule matching a request classifies it
+export const TokenRulesSection: React.FC<TokenRulesSectionProps> = ({ rules, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sampleSize, setSampleSize] = useState(500);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [error, setError] = useState('');
+
+  const updateRule = (id: string, changes: Partial<TokenEndpointRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+        active: true,
+        eventType: 'acquire',
+        urlMatch: 'glob',
+        url: '',
+        methods: ['POST'],
+        statusMin: 200,
+        statusMax: 299,
+        bodyPaths: []
+      }
+    ]);
+  };
+
+  const runTest = async () => {
+    setTesting(true);
+    setError('');
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'testTokenRules', rules, limit: sampleSize });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Rule test failed');
+      }
+      setTestResult(response);
+    } catch (testError) {
+      console.error('Settings: Token rule test failed:', testError);
+      setError(testError instanceof Error ? testError.message : String(testError));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+
+    setError('');
+    try {
+      onChange(parseTokenRules(JSON.parse(await file.text())));
+      setTestResult(null);
+    } catch (importError) {
+      setError(importError instanceof SyntaxError ? 'File is not valid JSON' : importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, index) => {
+        const problem = validateTokenRule(rule);
+        return (
+          <div key={rule.id} className="p-2 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={rule.active}
+                onChange={(e) => updateRule(rule.id, { active: e.target.checked })}
+                className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                title="Rule active"
+              />
+              <select
+                value={rule.eventType}
+                onChange={(e) => updateRule(rule.id, { eventType: e.target.value as TokenRuleEventType })}
+                className="block px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {TOKEN_RULE_EVENT_TYPES.map(type => (
+                  <option key={type} value={type}>{EVENT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <select
+                value={rule.urlMatch}
+                onChange={(e) => updateRule(rule.id, { urlMatch: e.target.value as TokenRuleUrlMatch })}
+                className="block px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="glob">Glob</option>
+                <option value="regex">Regex</option>
+              </select>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={rule.url}
+                  onChange={(e) => updateRule(rule.id, { url: e.target.value })}
+                  placeholder={rule.urlMatch === 'regex' ? '^https://id\\.example\\.com/oauth2/' : '**/oauth/token'}
+                  className={`block w-full px-2 py-1 text-sm border rounded-md shadow-sm font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                    problem ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                />
+              </div>
+              <div className="flex items-center space-x-1 text-sm">
+                <button
+                  onClick={() => moveRule(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </div>
+              <button
+                onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </div>
+            <div className="flex items-center space-x-3 pl-7 text-sm">
+              <label className="flex items-center space-x-1 text-gray-600">
+                <span>Methods</span>
+                <ListInput
+                  values={rule.methods}
+                  onChange={(methods) => updateRule(rule.id, { methods })}
+                  placeholder="any"
+                  className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-md font-mono"
+                  uppercase
+                />
+              </label>
+              <label className="flex items-center space-x-1 text-gray-600">
+                <span>Status</span>
+                <input
+                  type="number"
+                  value={rule.statusMin}
+                  onChange={(e) => updateRule(rule.id, { statusMin: Number(e.target.value) })}
+                  className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <span>–</span>
+                <input
+                  type="number"
+                  value={rule.statusMax}
+                  onChange={(e) => updateRule(rule.id, { statusMax: Number(e.target.value) })}
+                  className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex flex-1 items-center space-x-1 text-gray-600 min-w-0">
+                <span className="whitespace-nowrap">Body has</span>
+                <ListInput
+                  values={rule.bodyPaths}
+                  onChange={(bodyPaths) => updateRule(rule.id, { bodyPaths })}
+                  placeholder="access_token, expires_in"
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md font-mono"
+                />
+              </label>
+              {testResult && (
+                <span className="text-xs text-gray-500 whitespace-nowrap" title="Requests this rule classified in the last test">
+                  {testResult.ruleCounts[rule.id] || 0} hits
+                </span>
+              )}
+            </div>
+            {problem && <p className="text-xs text-red-600 pl-7">{problem} - rule will be skipped</p>}
+            {rule.description && !problem && <p className="text-xs text-gray-500 pl-7">{rule.description}</p>}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={addRule}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          Add Rule
+        </button>
+        <button
+          onClick={() => downloadTextFile(`web-app-monitor-token-rules-${fileTimestamp()}.json`, JSON.stringify(exportTokenRules(rules), null, 2))}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Export Rules
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Import Rules…
+        </button>
+        <button
+          onClick={() => {
+            if (confirm('Replace all token endpoint rules with the defaults?')) {
+              onChange(JSON.parse(JSON.stringify(DEFAULT_TOKEN_RULES)));
+            }
+          }}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          Restore Defaults
+        </button>
+      </div>
+
+      <div className="border-t border-gray-200 pt-3 space-y-2">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={runTest}
+            disabled={testing}
+            className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            {testing ? 'Testing…' : 'Test Rules'}
+          </button>
+          <label className="text-sm text-gray-600">
+            against the last{' '}
+            <select
+              value={sampleSize}
+              onChange={(e) => setSampleSize(Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              {TEST_SAMPLE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+            {' '}stored requests
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {testResult && (
+          <div className="text-sm">
+            <p className="text-gray-700 mb-2">
+              {testResult.matches.length} of {testResult.scanned} requests classified as token events.
+            </p>
+            {testResult.matches.length > 0 && (
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+                <table className="min-w-full divide-y divide-gray-200 text-xs">
+                  <tbody className="divide-y divide-gray-100">
+                    {testResult.matches.slice(0, MAX_LISTED_MATCHES).map((match, index) => (
+                      <tr key={match.id ?? index}>
+                        <td className="px-2 py-1 whitespace-nowrap font-medium">{EVENT_TYPE_LABELS[match.eventType]}</td>
+                        <td className="px-2 py-1 whitespace-nowrap text-gray-500">{match.method} {match.status}</td>
+                        <td className="px-2 py-1 font-mono text-gray-700 break-all">{match.url}</td>
+                        <td className="px-2 py-1 whitespace-nowrap text-gray-500">{match.ruleId}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {testResult.matches.length > MAX_LISTED_MATCHES && (
+              <p className="text-xs text-gray-500 mt-1">Showing the {MAX_LISTED_MATCHES} most recent matches.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,15 @@
 import './settings.css';
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
+import { ProfilesSection } from './ProfilesSection';
+import { RedactionRulesSection } from './RedactionRulesSection';
+import { RetentionPoliciesSection } from './RetentionPoliciesSection';
+import { BackupRestoreSection } from './BackupRestoreSection';
+import { AdvisoryDatasetSection } from './AdvisoryDatasetSection';
+import { TokenRulesSection } from './TokenRulesSection';
+import { DEFAULT_REDACTION_RULES, type RedactionRule } from '../background/redaction';
+import type { RetentionPolicy } from '../background/retention';
+import { DEFAULT_TOKEN_RULES, type TokenEndpointRule } from '../background/token-rules';
 
 interface SettingsData {
   notifications: boolean;
@@ -14,6 +23,8 @@ interface SettingsData {
   dataCollection: boolean;
   networkInterception: {
     enabled: boolean;
+    captureWebSockets: boolean;
+    detectLibraries: boolean;
     bodyCapture: {
       mode: 'disabled' | 'partial' | 'full';
       captureRequests: boolean;
@@ -23,6 +34,7 @@ interface SettingsData {
     privacy: {
       autoRedact: boolean;
       filterNoise: boolean;
+      redactionRules: RedactionRule[];
     };
     // New scoped interception options
     urlPatterns: {
@@ -74,6 +86,10 @@ interface SettingsData {
       enabled: boolean;
       defaultState: 'active' | 'paused';
     };
+    sourceMaps: {
+      enabled: boolean;
+      allowedOrigins: string[]; // Origins or host names besides the script's own that maps may load from
+    };
   };
   tokenLogging: {
     enabled: boolean;
@@ -86,7 +102,13 @@ interface SettingsData {
       refresh: boolean;
       expired: boolean;
       refresh_error: boolean;
+      revoke: boolean;
+      logout: boolean;
     };
+    endpointRules: TokenEndpointRule[];
+  };
+  retention: {
+    policies: RetentionPolicy[];
   };
 }
 
@@ -100,6 +122,8 @@ const defaultSettings: SettingsData = {
   dataCollection: true,
   networkInterception: {
     enabled: true,
+    captureWebSockets: true,
+    detectLibraries: true,
     bodyCapture: {
       mode: 'partial',
       captureRequests: false,
@@ -109,6 +133,7 @@ const defaultSettings: SettingsData = {
     privacy: {
       autoRedact: true,
       filterNoise: true,
+      redactionRules: DEFAULT_REDACTION_RULES,
     },
     urlPatterns: {
       enabled: false,
@@ -160,6 +185,10 @@ const defaultSettings: SettingsData = {
     tabSpecific: {
       enabled: true,
       defaultState: 'paused'
+    },
+    sourceMaps: {
+      enabled: true,
+      allowedOrigins: []
     }
   },
   tokenLogging: {
@@ -172,8 +201,14 @@ const defaultSettings: SettingsData = {
       acquire: true,
       refresh: true,
       expired: true,
-      refresh_error: true
-    }
+      refresh_error: true,
+      revoke: true,
+      logout: true
+    },
+    endpointRules: DEFAULT_TOKEN_RULES
+  },
+  retention: {
+    policies: []
   },
 };
 
@@ -253,6 +288,24 @@ const Settings: React.FC = () => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  type RequestFilters = SettingsData['networkInterception']['requestFilters'];
+
+  const updateRequestFilter = <K extends keyof RequestFilters>(key: K, value: Partial<RequestFilters[K]>) => {
+    setSettings(prev => ({
+      ...prev,
+      networkInterception: {
+        ...prev.networkInterception,
+        requestFilters: {
+          ...prev.networkInterception.requestFilters,
+          [key]: { ...prev.networkInterception.requestFilters?.[key], ...value }
+        }
+      }
+    }));
+  };
+
+  const toggleListValue = <T,>(list: T[], value: T, checked: boolean): T[] =>
+    checked ? [...list.filter(item => item !== value), value] : list.filter(item => item !== value);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -570,6 +623,120 @@ const Settings: React.FC = () => {
                       </div>
                     )}
 
+                    {/* Request Filters */}
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700">Request filters</h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Only store requests matching these methods, response content types and paths
+                      </p>
+                      <div className="mt-3 ml-6 space-y-4 pl-4 border-l-2 border-teal-100">
+                        <div>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={settings.networkInterception?.requestFilters?.methods?.enabled || false}
+                              onChange={(e) => updateRequestFilter('methods', { enabled: e.target.checked })}
+                              className="h-4 w-4 text-teal-600 rounded border-gray-300 focus:ring-teal-500"
+                            />
+                            <span className="ml-2 text-sm font-medium text-gray-700">Filter by HTTP method</span>
+                          </label>
+                          {settings.networkInterception?.requestFilters?.methods?.enabled && (
+                            <div className="mt-2 ml-6 flex flex-wrap gap-4">
+                              {(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'] as const).map(method => (
+                                <label key={method} className="flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={settings.networkInterception.requestFilters.methods.allowed.includes(method)}
+                                    onChange={(e) => updateRequestFilter('methods', {
+                                      allowed: toggleListValue(settings.networkInterception.requestFilters.methods.allowed, method, e.target.checked)
+                                    })}
+                                    className="h-4 w-4 text-teal-600 rounded border-gray-300 focus:ring-teal-500"
+                                  />
+                                  <span className="ml-2 text-sm text-gray-700">{method}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={settings.networkInterception?.requestFilters?.contentTypes?.enabled || false}
+                              onChange={(e) => updateRequestFilter('contentTypes', { enabled: e.target.checked })}
+                              className="h-4 w-4 text-teal-600 rounded border-gray-300 focus:ring-teal-500"
+                            />
+                            <span className="ml-2 text-sm font-medium text-gray-700">Filter by response content type</span>
+                          </label>
+                          {settings.networkInterception?.requestFilters?.contentTypes?.enabled && (
+                            <div className="mt-2 ml-6 flex flex-wrap gap-4">
+                              {(['json', 'html', 'image', 'script', 'css', 'xml', 'text', 'other'] as const).map(type => (
+                                <label key={type} className="flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={settings.networkInterception.requestFilters.contentTypes.allowed.includes(type)}
+                                    onChange={(e) => updateRequestFilter('contentTypes', {
+                                      allowed: toggleListValue(settings.networkInterception.requestFilters.contentTypes.allowed, type, e.target.checked)
+                                    })}
+                                    className="h-4 w-4 text-teal-600 rounded border-gray-300 focus:ring-teal-500"
+                                  />
+                                  <span className="ml-2 text-sm text-gray-700">{type}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={settings.networkInterception?.requestFilters?.pathFilters?.enabled || false}
+                              onChange={(e) => updateRequestFilter('pathFilters', { enabled: e.target.checked })}
+                              className="h-4 w-4 text-teal-600 rounded border-gray-300 focus:ring-teal-500"
+                            />
+                            <span className="ml-2 text-sm font-medium text-gray-700">Filter by path</span>
+                          </label>
+                          {settings.networkInterception?.requestFilters?.pathFilters?.enabled && (
+                            <div className="mt-2 ml-6 space-y-3">
+                              <select
+                                value={settings.networkInterception.requestFilters.pathFilters.includeMode ? 'include' : 'exclude'}
+                                onChange={(e) => updateRequestFilter('pathFilters', { includeMode: e.target.value === 'include' })}
+                                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                              >
+                                <option value="include">Only capture paths that match</option>
+                                <option value="exclude">Skip paths that match</option>
+                              </select>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700">Keywords (one per line)</label>
+                                <textarea
+                                  rows={3}
+                                  value={settings.networkInterception.requestFilters.pathFilters.keywords.join('\n')}
+                                  onChange={(e) => updateRequestFilter('pathFilters', { keywords: e.target.value.split('\n') })}
+                                  placeholder="/api/&#10;graphql"
+                                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700">Regular expressions (one per line)</label>
+                                <textarea
+                                  rows={3}
+                                  value={settings.networkInterception.requestFilters.pathFilters.regex.join('\n')}
+                                  onChange={(e) => updateRequestFilter('pathFilters', { regex: e.target.value.split('\n') })}
+                                  placeholder="^/v[0-9]+/users"
+                                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                                />
+                              </div>
+                              <p className="text-xs text-gray-500">
+                                Matched against the URL path and query string. Keywords are case-insensitive.
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
                     {/* Tab-Specific Control */}
                     <div>
                       <label className="flex items-center">
@@ -620,6 +787,44 @@ const Settings: React.FC = () => {
                       </div>
                     )}
 
+                    {/* WebSocket Capture */}
+                    <div>
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={settings.networkInterception?.captureWebSockets !== false}
+                          onChange={(e) => updateSetting('networkInterception', {
+                            ...settings.networkInterception,
+                            captureWebSockets: e.target.checked
+                          })}
+                          className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                        />
+                        <span className="ml-2 text-sm font-medium text-gray-700">Capture WebSocket connections and frames</span>
+                      </label>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Record open/close events and sent/received frames. Text frames are truncated to the max body size below.
+                      </p>
+                    </div>
+
+                    {/* Library Detection */}
+                    <div>
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={settings.networkInterception?.detectLibraries !== false}
+                          onChange={(e) => updateSetting('networkInterception', {
+                            ...settings.networkInterception,
+                            detectLibraries: e.target.checked
+                          })}
+                          className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                        />
+                        <span className="ml-2 text-sm font-medium text-gray-700">Detect third-party libraries</span>
+                      </label>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Fingerprint libraries from page globals, script URLs and license banners, and keep a per-domain inventory with versions, sizes and source maps.
+                      </p>
+                    </div>
+
                     {/* Body Capture & Privacy */}
                     <div>
                       <label htmlFor="bodyCaptureMode" className="block text-sm font-medium text-gray-700">
@@ -648,6 +853,9 @@ const Settings: React.FC = () => {
 
                     {settings.networkInterception?.bodyCapture?.mode === 'full' && (
                       <div className="ml-6 space-y-3 pl-4 border-l-2 border-orange-100">
+                        <p className="text-sm text-gray-500">
+                          Full capture attaches the Chrome debugger to logged tabs (Chrome shows a "started debugging this browser" banner) so complete bodies of any text content type are recorded, not just the page hook's truncated copy.
+                        </p>
                         <div>
                           <label className="flex items-center">
                             <input
@@ -742,6 +950,24 @@ const Settings: React.FC = () => {
                       <p className="mt-1 text-sm text-gray-500">
                         Automatically redact authorization headers, cookies, and API keys
                       </p>
+                      {settings.networkInterception?.privacy?.autoRedact && (
+                        <div className="mt-3 ml-6">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Redaction rules</label>
+                          <RedactionRulesSection
+                            rules={settings.networkInterception?.privacy?.redactionRules || DEFAULT_REDACTION_RULES}
+                            onChange={(redactionRules) => updateSetting('networkInterception', {
+                              ...settings.networkInterception,
+                              privacy: {
+                                ...(settings.networkInterception?.privacy || {}),
+                                redactionRules
+                              }
+                            })}
+                          />
+                          <p className="mt-2 text-xs text-gray-500">
+                            Headers are matched by name, JSON key paths support <code>*</code> wildcards (e.g. <code>user.*.token</code>) and patterns are applied to the URL and bodies. Redacted fields are listed in the request details.
+                          </p>
+                        </div>
+                      )}
                       {!settings.networkInterception?.privacy?.autoRedact && (
                         <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                           <div className="flex">
@@ -783,6 +1009,22 @@ const Settings: React.FC = () => {
               </div>
             </div>
 
+            {/* Interception Profiles */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Interception Profiles</h2>
+              <p className="mb-4 text-sm text-gray-500">
+                Switch between saved capture configurations. The active profile's overrides are applied on top of the settings above.
+              </p>
+              <ProfilesSection
+                networkInterception={settings.networkInterception}
+                profiles={settings.networkInterception?.profiles || []}
+                onChange={(profiles) => updateSetting('networkInterception', {
+                  ...settings.networkInterception,
+                  profiles
+                })}
+              />
+            </div>
+
             {/* Error Logging */}
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Console Error Logging</h2>
@@ -924,11 +1166,106 @@ const Settings: React.FC = () => {
                         </div>
                       </div>
                     )}
+
+                    {/* Source Maps */}
+                    <div>
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={settings.errorLogging?.sourceMaps?.enabled !== false}
+                          onChange={(e) => updateSetting('errorLogging', {
+                            ...settings.errorLogging,
+                            sourceMaps: {
+                              ...(settings.errorLogging?.sourceMaps || { allowedOrigins: [] }),
+                              enabled: e.target.checked
+                            }
+                          })}
+                          className="h-4 w-4 text-orange-600 rounded border-gray-300 focus:ring-orange-500"
+                        />
+                        <span className="ml-2 text-sm font-medium text-gray-700">Resolve stack traces with source maps</span>
+                      </label>
+                      <p className="mt-1 text-sm text-gray-500">
+                        The error viewer fetches each script's source map and shows original files, lines and function names. Maps are cached after the first download.
+                      </p>
+                    </div>
+
+                    {settings.errorLogging?.sourceMaps?.enabled !== false && (
+                      <div className="ml-6 pl-4 border-l-2 border-orange-100">
+                        <label htmlFor="sourceMapOrigins" className="block text-sm font-medium text-gray-700">
+                          Allowed source map origins
+                        </label>
+                        <textarea
+                          id="sourceMapOrigins"
+                          rows={3}
+                          value={(settings.errorLogging?.sourceMaps?.allowedOrigins || []).join('\n')}
+                          onChange={(e) => updateSetting('errorLogging', {
+                            ...settings.errorLogging,
+                            sourceMaps: {
+                              ...(settings.errorLogging?.sourceMaps || { enabled: true }),
+                              allowedOrigins: e.target.value.split('\n')
+                            }
+                          })}
+                          placeholder={'https://sourcemaps.example.com\ncdn.example.net'}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-mono focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                        />
+                        <p className="mt-1 text-sm text-gray-500">
+                          One origin or host name per line. Maps on the script's own origin and inline maps are always allowed.
+                        </p>
+                        <button
+                          onClick={() => chrome.runtime.sendMessage({ action: 'clearSourceMapCache' })}
+                          className="mt-2 px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          Clear cached source maps
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
             </div>
 
+            {/* Token Endpoint Rules */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Token Endpoint Rules</h2>
+              <p className="mb-4 text-sm text-gray-500">
+                Decide which requests count as token acquire, refresh, revoke and logout events. Rules are tried top to bottom and the first match wins. Globs match the URL path ("**/oauth/token"), or origin and path when they contain "://"; regexes match the full URL. "Body has" lists JSON paths that must be present in the response body. Requests that match no rule but get a 401/403 are still recorded as expired.
+              </p>
+              <TokenRulesSection
+                rules={settings.tokenLogging?.endpointRules || DEFAULT_TOKEN_RULES}
+                onChange={(endpointRules) => updateSetting('tokenLogging', { ...settings.tokenLogging, endpointRules })}
+              />
+            </div>
+
+            {/* Data Retention */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Data Retention</h2>
+              <p className="mb-4 text-sm text-gray-500">
+                Override how long captured data is kept for specific domains or tables, e.g. keep token events for 90 days or keep an analytics-heavy domain for just 1 day. The most specific policy wins; limits left empty fall back to the next policy or the global defaults. The auto-pruner applies saved policies.
+              </p>
+              <RetentionPoliciesSection
+                policies={settings.retention?.policies || []}
+                onChange={(policies) => updateSetting('retention', { ...settings.retention, policies })}
+              />
+            </div>
+
+            {/* Library Advisories */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Library Advisories</h2>
+              <p className="mb-4 text-sm text-gray-500">
+                Detected libraries are checked offline against known advisories. Load a newer advisory file (format "web-app-monitor-advisories", as in the bundled library-advisories.json) to update the list without waiting for an extension release.
+              </p>
+              <AdvisoryDatasetSection />
+            </div>
+
+            {/* Backup & Restore */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Backup & Restore</h2>
+              <p className="mb-4 text-sm text-gray-500">
+                Move everything to another machine or Chrome profile. Merging keeps local records and settings when they conflict with the backup; replacing clears them first.
+              </p>
+              <BackupRestoreSection onRestored={loadSettings} />
+            </div>
+
             {/* About Section */}
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">About</h2>
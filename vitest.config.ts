@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the pure background modules; kept apart from vite.config.ts so the
+// extension build plugins are not loaded for tests
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
+  }
+})